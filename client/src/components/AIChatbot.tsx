@@ -24,11 +24,18 @@ import {
   Crown
 } from "lucide-react"
 import { auth } from '@/lib/auth'
+import { streamChat, ChatRequestError, type ChatCitation } from '@/lib/chatStream'
 import { useToast } from "@/hooks/use-toast"
 import type { InsertChatMessage } from '@shared/schema'
 import { useLocation } from 'wouter'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useProfilePictureUrl } from '@/hooks/useProfilePictureUrl'
+import { useConversations } from '@/hooks/useConversations'
+import ConversationSwitcher from '@/components/ConversationSwitcher'
+import FolderSelect from '@/components/FolderSelect'
+import TagSelect from '@/components/TagSelect'
+import { CitationPassageDialog } from '@/components/FilePreview'
+import { formatMediaTime } from '@/utils'
 
 // Type declarations for Web Speech API
 declare global {
@@ -94,6 +101,31 @@ interface ChatMessage {
     fileType: string
     downloadUrl?: string
   }>
+  citations?: ChatCitation[]
+}
+
+// Turn [n] markers in an answer into clickable citation links
+function renderCitedContent(content: string, citations: ChatCitation[] | undefined, onSelect: (citation: ChatCitation) => void) {
+  if (!citations || citations.length === 0) return content
+
+  return content.split(/(\[\d+\])/g).map((part, index) => {
+    const match = part.match(/^\[(\d+)\]$/)
+    const citation = match && citations.find(c => c.index === parseInt(match[1], 10))
+    if (!citation) return part
+
+    return (
+      <button
+        key={index}
+        type="button"
+        onClick={() => onSelect(citation)}
+        className="inline-flex items-center justify-center align-super text-[10px] font-medium text-primary hover:underline px-0.5"
+        title={`${citation.filename}${citation.pageNumber ? `, page ${citation.pageNumber}` : citation.startTime !== null && citation.startTime !== undefined ? `, at ${formatMediaTime(citation.startTime)}` : ''}`}
+        data-testid={`citation-marker-${citation.index}`}
+      >
+        [{citation.index}]
+      </button>
+    )
+  })
 }
 
 interface AIChatbotProps {
@@ -110,8 +142,16 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
   const queryClient = useQueryClient();
   const profilePictureUrl = useProfilePictureUrl(currentUser?.profilePictureUrl);
   
-  // User-specific chat history storage key - prevents data leakage across accounts
-  const CHAT_STORAGE_KEY = userId ? `zorli-ai-chat-history-${userId}` : 'zorli-ai-chat-history-guest';
+  // Conversation threads - the active thread is shared with the Smart Finder page
+  const threads = useConversations();
+  const { activeConversationId } = threads;
+  // Set when sendMessage creates a thread so the history loader doesn't wipe the in-flight exchange
+  const createdForSendRef = useRef<string | null>(null);
+  
+  // User- and thread-specific chat history storage key - prevents data leakage across accounts
+  const CHAT_STORAGE_KEY = userId
+    ? `zorli-ai-chat-history-${userId}-${activeConversationId || 'new'}`
+    : 'zorli-ai-chat-history-guest';
   
   // Fetch user's usage data for limit checking
   const { data: usageData } = useQuery({
@@ -147,14 +187,19 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
   // Load chat history from database when authenticated
   useEffect(() => {
     const loadFromDatabase = async () => {
-      if (!auth.isAuthenticated() || !userId) {
-        // Reset to welcome message only for unauthenticated users
+      if (!auth.isAuthenticated() || !userId || !activeConversationId) {
+        // Reset to welcome message only for unauthenticated users or a fresh thread
         setMessages([welcomeMessage]);
         return;
       }
 
+      if (createdForSendRef.current === activeConversationId) {
+        createdForSendRef.current = null;
+        return;
+      }
+
       try {
-        const response = await fetch('/api/chat/messages', {
+        const response = await fetch(`/api/chat/messages?conversationId=${encodeURIComponent(activeConversationId)}`, {
           headers: auth.getAuthHeaders()
         });
         
@@ -169,6 +214,7 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
                 role: msg.role,
                 content: msg.content,
                 files: msg.files,
+                citations: msg.citations || undefined,
                 timestamp: new Date(msg.timestamp)
               }));
             
@@ -191,9 +237,13 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
     };
 
     loadFromDatabase();
-  }, [userId, CHAT_STORAGE_KEY])
+  }, [userId, activeConversationId, CHAT_STORAGE_KEY])
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [activeCitation, setActiveCitation] = useState<ChatCitation | null>(null)
+  const [scopeFolderId, setScopeFolderId] = useState<string | null>(null) // Search only this folder and its subfolders
+  const [scopeTagId, setScopeTagId] = useState<string | null>(null) // Search only documents with this tag
   const [isMinimized, setIsMinimized] = useState(false)
   const [isExpanded, setIsExpanded] = useState(false)
   
@@ -425,15 +475,17 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
   }
 
   // Save new messages to database when authenticated (excluding welcome message)
-  const saveChatToDatabase = useCallback(async (message: ChatMessage) => {
+  const saveChatToDatabase = useCallback(async (message: ChatMessage, conversationId: string) => {
     if (!auth.isAuthenticated() || message.id === '1') return // Skip welcome message
 
     try {
       const chatMessage: InsertChatMessage = {
         userId: auth.getCurrentUser()?.id || '',
+        conversationId,
         role: message.role,
         content: message.content,
         files: message.files || null,
+        citations: message.citations || null,
         timestamp: message.timestamp,
       }
 
@@ -479,10 +531,10 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
       console.warn('Failed to clear chat history from localStorage:', error)
     }
     
-    // Clear chat history from database if authenticated
-    if (auth.isAuthenticated()) {
+    // Clear the active thread's history from database if authenticated
+    if (auth.isAuthenticated() && activeConversationId) {
       try {
-        await fetch('/api/chat/messages', {
+        await fetch(`/api/chat/messages?conversationId=${encodeURIComponent(activeConversationId)}`, {
           method: 'DELETE',
           headers: auth.getAuthHeaders()
         })
@@ -499,7 +551,7 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
       description: "Your conversation history has been reset.",
       duration: 3000
     })
-  }, [CHAT_STORAGE_KEY, toast, auth])
+  }, [CHAT_STORAGE_KEY, activeConversationId, toast, auth])
 
   const sendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return
@@ -517,33 +569,82 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
     setInputMessage('')
     setIsLoading(true)
 
+    const assistantId = (Date.now() + 1).toString()
+    let assistantAdded = false
+
     try {
-      const response = await fetch('/api/ai/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...auth.getAuthHeaders()
-        },
-        body: JSON.stringify({
+      // Start a new thread on the first message if none is selected
+      let conversationId = activeConversationId
+      if (!conversationId) {
+        const conversation = await threads.createConversation()
+        createdForSendRef.current = conversation.id
+        conversationId = conversation.id
+      }
+
+      const data = await streamChat(
+        {
           message: originalInput,
-          conversation: messages.map(m => ({ role: m.role, content: m.content }))
-        })
-      })
+          conversation: messages.map(m => ({ role: m.role, content: m.content })),
+          ...(scopeFolderId ? { folderId: scopeFolderId } : {}),
+          ...(scopeTagId ? { tagId: scopeTagId } : {})
+        },
+        {
+          onToken: (token) => {
+            // Render the answer as it streams in, replacing the typing indicator
+            if (!assistantAdded) {
+              assistantAdded = true
+              setIsStreaming(true)
+              setMessages(prev => [...prev, {
+                id: assistantId,
+                role: 'assistant',
+                content: token,
+                timestamp: new Date()
+              }])
+              return
+            }
+            setMessages(prev => prev.map(m => 
+              m.id === assistantId ? { ...m, content: m.content + token } : m
+            ))
+          }
+        }
+      )
 
-      const data = await response.json()
+      // Only save user message to database if request was successful (may auto-title the thread)
+      saveChatToDatabase(userMessage, conversationId).then(() => threads.refresh())
+
+      const assistantMessage: ChatMessage = {
+        id: assistantId,
+        role: 'assistant',
+        content: data.message,
+        timestamp: new Date(),
+        files: data.files || [],
+        citations: data.citations
+      }
+
+      setMessages(prev => assistantAdded
+        ? prev.map(m => m.id === assistantId ? assistantMessage : m)
+        : [...prev, assistantMessage]
+      )
+      
+      // Save assistant message to database
+      saveChatToDatabase(assistantMessage, conversationId)
+      
+      // Invalidate usage queries for instant UI updates
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
+    } catch (error) {
+      // Remove the user message (and any partial answer) from state since the request failed
+      setMessages(messages)
 
       // Handle limit exceeded error (403)
-      if (response.status === 403 && data.limitType === 'prompts') {
-        // Remove the user message from state since it wasn't allowed
-        setMessages(messages)
-        
+      if (error instanceof ChatRequestError && error.status === 403 && error.data?.limitType === 'prompts') {
         // Invalidate queries to update UI with latest usage data
         queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
         queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
         
         toast({
           title: "AI prompt limit reached",
-          description: data.message || "You've reached your AI prompt limit. Please upgrade to continue.",
+          description: error.data.message || "You've reached your AI prompt limit. Please upgrade to continue.",
           variant: "destructive",
           duration: 2300,
         })
@@ -556,32 +657,6 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
         return // Don't throw error, just return
       }
 
-      if (!response.ok) {
-        // Remove user message on other errors too
-        setMessages(messages)
-        throw new Error(data.error || `HTTP error! status: ${response.status}`)
-      }
-
-      // Only save user message to database if request was successful
-      saveChatToDatabase(userMessage)
-
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.message,
-        timestamp: new Date(),
-        files: data.files || []
-      }
-
-      setMessages(prev => [...prev, assistantMessage])
-      
-      // Save assistant message to database
-      saveChatToDatabase(assistantMessage)
-      
-      // Invalidate usage queries for instant UI updates
-      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
-    } catch (error) {
       console.error('Chat error:', error)
       toast({
         title: "Error",
@@ -591,6 +666,7 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
       })
     } finally {
       setIsLoading(false)
+      setIsStreaming(false)
     }
   }
 
@@ -683,6 +759,29 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
         </div>
       </div>
       
+      {/* Conversation Threads */}
+      {auth.isAuthenticated() && (
+        <div className="px-3 py-2 border-b flex-shrink-0 space-y-2">
+          <ConversationSwitcher threads={threads} disabled={isLoading} compact />
+          <div className="flex gap-2">
+            <FolderSelect
+              value={scopeFolderId}
+              onChange={setScopeFolderId}
+              disabled={isLoading}
+              className="h-7 text-xs flex-1 min-w-0"
+              testId="select-chat-folder-scope"
+            />
+            <TagSelect
+              value={scopeTagId}
+              onChange={setScopeTagId}
+              disabled={isLoading}
+              className="h-7 text-xs flex-1 min-w-0"
+              testId="select-chat-tag-scope"
+            />
+          </div>
+        </div>
+      )}
+      
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto overflow-x-hidden p-3 space-y-3 min-h-0">
         {messages.map((message) => (
@@ -720,9 +819,33 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
                   }`}
                   style={{ wordBreak: 'break-word', overflowWrap: 'anywhere' }}
                 >
-                  {message.content}
+                  {renderCitedContent(message.content, message.citations, setActiveCitation)}
                 </div>
                 
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-2 space-y-1" data-testid={`citations-${message.id}`}>
+                    {message.citations.map((citation) => (
+                      <button
+                        key={citation.index}
+                        type="button"
+                        onClick={() => setActiveCitation(citation)}
+                        className="flex w-full items-center gap-2 p-1.5 bg-card border rounded text-xs text-left hover:bg-muted"
+                        data-testid={`button-citation-${message.id}-${citation.index}`}
+                      >
+                        <span className="font-medium text-primary">[{citation.index}]</span>
+                        <FileText className="w-3 h-3 text-green-500 flex-shrink-0" />
+                        <span className="flex-1 truncate">{citation.filename}</span>
+                        {citation.pageNumber && (
+                          <span className="text-muted-foreground flex-shrink-0">p. {citation.pageNumber}</span>
+                        )}
+                        {citation.startTime !== null && citation.startTime !== undefined && (
+                          <span className="text-muted-foreground flex-shrink-0">{formatMediaTime(citation.startTime)}</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                
                 {message.files && message.files.length > 0 && (
                   <div className="space-y-1 mt-2">
                     {message.files.map((file) => (
@@ -766,7 +889,7 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
           </div>
         ))}
         
-        {isLoading && (
+        {isLoading && !isStreaming && (
           <div className="flex gap-2 justify-start">
             <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
               <Bot className="w-3 h-3" />
@@ -841,6 +964,11 @@ export default function AIChatbot({ onFileSelect, isOpen: externalIsOpen, onOpen
           </div>
         )}
       </div>
+
+      <CitationPassageDialog
+        citation={activeCitation}
+        onOpenChange={(open) => !open && setActiveCitation(null)}
+      />
     </div>
   )
 }
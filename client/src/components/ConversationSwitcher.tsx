@@ -0,0 +1,230 @@
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Plus, MoreHorizontal, Pencil, Archive, Trash2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import type { useConversations } from '@/hooks/useConversations'
+
+interface ConversationSwitcherProps {
+  threads: ReturnType<typeof useConversations>
+  disabled?: boolean
+  compact?: boolean
+}
+
+// Thread picker shared by the floating chatbot and the Smart Finder page
+export default function ConversationSwitcher({ threads, disabled, compact }: ConversationSwitcherProps) {
+  const { toast } = useToast()
+  const [renameOpen, setRenameOpen] = useState(false)
+  const [renameValue, setRenameValue] = useState('')
+  const [deleteOpen, setDeleteOpen] = useState(false)
+
+  const {
+    conversations,
+    archivedConversations,
+    activeConversationId,
+    activeConversation,
+    selectConversation,
+    createConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+  } = threads
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(failure, error)
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+    }
+  }
+
+  const handleSelect = (id: string) => {
+    // Opening an archived thread restores it to the active list
+    if (archivedConversations.some(c => c.id === id)) {
+      runAction(async () => {
+        await archiveConversation(id, false)
+        selectConversation(id)
+      }, 'Failed to restore conversation')
+      return
+    }
+    selectConversation(id)
+  }
+
+  const handleRename = async () => {
+    if (!activeConversation || !renameValue.trim()) return
+    await runAction(() => renameConversation(activeConversation.id, renameValue.trim()), 'Failed to rename conversation')
+    setRenameOpen(false)
+  }
+
+  return (
+    <div className="flex items-center gap-1 min-w-0" data-testid="conversation-switcher">
+      <Select
+        value={activeConversationId || undefined}
+        onValueChange={handleSelect}
+        disabled={disabled}
+      >
+        <SelectTrigger
+          className={compact ? 'h-7 text-xs flex-1 min-w-0' : 'w-[240px]'}
+          data-testid="select-conversation"
+        >
+          <SelectValue placeholder="New conversation" />
+        </SelectTrigger>
+        <SelectContent className="z-[60]">
+          {conversations.map((conversation) => (
+            <SelectItem key={conversation.id} value={conversation.id}>
+              {conversation.title}
+            </SelectItem>
+          ))}
+          {archivedConversations.length > 0 && (
+            <>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Archived</SelectLabel>
+                {archivedConversations.map((conversation) => (
+                  <SelectItem key={conversation.id} value={conversation.id} className="text-muted-foreground">
+                    {conversation.title}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => runAction(() => createConversation(), 'Failed to create conversation')}
+        disabled={disabled}
+        className={compact ? 'h-6 w-6 p-0' : ''}
+        title="New conversation"
+        data-testid="button-new-conversation"
+      >
+        <Plus className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+      </Button>
+
+      {activeConversation && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              className={compact ? 'h-6 w-6 p-0' : ''}
+              data-testid="button-conversation-actions"
+            >
+              <MoreHorizontal className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="z-[60]">
+            <DropdownMenuItem
+              onClick={() => {
+                setRenameValue(activeConversation.title)
+                setRenameOpen(true)
+              }}
+            >
+              <Pencil className="w-4 h-4 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => runAction(() => archiveConversation(activeConversation.id), 'Failed to archive conversation')}
+            >
+              <Archive className="w-4 h-4 mr-2" />
+              Archive
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-red-600" onClick={() => setDeleteOpen(true)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Dialog open={renameOpen} onOpenChange={setRenameOpen}>
+        <DialogContent className="z-[60]">
+          <DialogHeader>
+            <DialogTitle>Rename conversation</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename()
+            }}
+            maxLength={200}
+            data-testid="input-conversation-title"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameOpen(false)}>Cancel</Button>
+            <Button onClick={handleRename} disabled={!renameValue.trim()}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent className="z-[60]">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{activeConversation?.title}" and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (activeConversation) {
+                  runAction(() => deleteConversation(activeConversation.id), 'Failed to delete conversation')
+                }
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,272 @@
+import { useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { toast } from '@/hooks/use-toast'
+import { FileUp, Loader2, Upload } from 'lucide-react'
+import { auth } from '@/lib/auth'
+import { PasswordStrengthBadge } from '@/components/PasswordGenerator'
+
+const IMPORT_FORMATS = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'chrome', label: 'Chrome / Edge (CSV)' },
+  { value: 'firefox', label: 'Firefox (CSV)' },
+  { value: 'bitwarden', label: 'Bitwarden (CSV or unencrypted JSON)' },
+  { value: '1password', label: '1Password (CSV)' },
+  { value: 'lastpass', label: 'LastPass (CSV)' },
+]
+
+interface ImportPreviewRow {
+  index: number
+  serviceName: string
+  username: string
+  website: string | null
+  category: string | null
+  isFavorite: boolean
+  hasNotes: boolean
+  passwordStrength: number
+  duplicate: { credentialId: string | null; serviceName: string; samePassword: boolean } | null
+}
+
+interface ImportPreview {
+  format: string
+  skipped: number
+  rows: ImportPreviewRow[]
+  allowance: { current: number; max: number; remaining: number | null }
+}
+
+function formatLabel(format: string): string {
+  return IMPORT_FORMATS.find(option => option.value === format)?.label || format
+}
+
+function DuplicateBadge({ row }: { row: ImportPreviewRow }) {
+  if (!row.duplicate) {
+    return <Badge variant="secondary">New</Badge>
+  }
+  const where = row.duplicate.credentialId ? 'Already saved' : 'Repeated in export'
+  return (
+    <Badge variant="outline" title={`Matches ${row.duplicate.serviceName}`}>
+      {where}{row.duplicate.samePassword ? '' : ', different password'}
+    </Badge>
+  )
+}
+
+// Import wizard: pick another app's password export, review its logins with duplicates unticked, then import the ticked ones
+export function CredentialImport() {
+  const queryClient = useQueryClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState('auto')
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [busy, setBusy] = useState<'preview' | 'import' | null>(null)
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setSelected(new Set())
+    setFormat('auto')
+  }
+
+  const send = async (url: string, extra: Record<string, string> = {}) => {
+    const formData = new FormData()
+    formData.append('file', file!)
+    if (format !== 'auto') {
+      formData.append('format', format)
+    }
+    for (const [key, value] of Object.entries(extra)) {
+      formData.append(key, value)
+    }
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: auth.getAuthHeaders(),
+      body: formData,
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.message || result.error || 'Import failed')
+    }
+    return result.data
+  }
+
+  const loadPreview = async () => {
+    setBusy('preview')
+    try {
+      const data: ImportPreview = await send('/api/credentials/import/preview')
+      setPreview(data)
+      setSelected(new Set(data.rows.filter(row => !row.duplicate).map(row => row.index)))
+    } catch (error) {
+      toast({
+        title: 'Could not read the export',
+        description: error instanceof Error ? error.message : 'Could not read the export',
+        variant: 'destructive',
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const runImport = async () => {
+    setBusy('import')
+    try {
+      const data: { imported: number } = await send('/api/credentials/import', { rows: JSON.stringify(Array.from(selected)) })
+      queryClient.invalidateQueries({ queryKey: ['/api/credentials'] })
+      toast({
+        title: 'Passwords imported',
+        description: `${data.imported} login${data.imported !== 1 ? 's were' : ' was'} added to your vault.`,
+        duration: 2300,
+      })
+      setOpen(false)
+      reset()
+    } catch (error) {
+      toast({
+        title: 'Import failed',
+        description: error instanceof Error ? error.message : 'Import failed',
+        variant: 'destructive',
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (checked) next.add(index)
+      else next.delete(index)
+      return next
+    })
+  }
+
+  const remaining = preview?.allowance.remaining ?? null
+  const overLimit = remaining !== null && selected.size > remaining
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset() }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-import-credentials">
+          <Upload className="w-4 h-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Passwords</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `${preview.rows.length} login${preview.rows.length !== 1 ? 's' : ''} found in your ${formatLabel(preview.format)} export. Choose which to import.`
+              : 'Bring in logins exported from your browser or another password manager. Delete the export file once the import is done.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Exported from</Label>
+              <Select value={format} onValueChange={setFormat}>
+                <SelectTrigger data-testid="select-import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_FORMATS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Export file</Label>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                data-testid="input-import-file"
+              />
+              <Button type="button" variant="outline" className="w-full" onClick={() => inputRef.current?.click()}>
+                <FileUp className="w-4 h-4 mr-2" />
+                {file ? file.name : 'Choose a CSV or JSON file'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {selected.size} selected
+                {preview.skipped > 0 && ` · ${preview.skipped} skipped (notes, cards or no password)`}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(selected.size === preview.rows.length ? new Set() : new Set(preview.rows.map(row => row.index)))}
+                data-testid="button-toggle-all-import"
+              >
+                {selected.size === preview.rows.length ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+            <ScrollArea className="h-[320px] rounded-md border">
+              <div className="divide-y">
+                {preview.rows.map(row => (
+                  <label key={row.index} className="flex items-center gap-3 px-3 py-2 cursor-pointer" data-testid={`import-row-${row.index}`}>
+                    <Checkbox checked={selected.has(row.index)} onCheckedChange={(checked) => toggle(row.index, checked === true)} />
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium truncate">{row.serviceName}</p>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {row.username || 'No username'}{row.category ? ` · ${row.category}` : ''}
+                      </p>
+                    </div>
+                    <PasswordStrengthBadge score={row.passwordStrength} />
+                    <DuplicateBadge row={row} />
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+            {remaining !== null && (
+              <p className={overLimit ? 'text-sm text-destructive' : 'text-sm text-muted-foreground'} data-testid="text-import-allowance">
+                Your plan has room for {remaining} more password{remaining !== 1 ? 's' : ''}
+                {overLimit ? '. Select fewer logins or upgrade your plan.' : '.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={busy !== null}>
+                Back
+              </Button>
+              <Button onClick={runImport} disabled={selected.size === 0 || overLimit || busy !== null} data-testid="button-confirm-import">
+                {busy === 'import' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {selected.size} Login{selected.size !== 1 ? 's' : ''}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={loadPreview} disabled={!file || busy !== null} data-testid="button-preview-import">
+              {busy === 'preview' && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Preview
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
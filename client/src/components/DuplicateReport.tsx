@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { toast } from '@/hooks/use-toast'
+import { Copy, Loader2, Trash2 } from 'lucide-react'
+import { apiRequest } from '@/lib/queryClient'
+import { formatFileSize, formatDate } from '@/utils'
+
+interface DuplicateFile {
+  id: string
+  filename: string
+  fileSize: number
+  fileType: string
+  folderId: string | null
+  createdAt: string | null
+}
+
+interface DuplicateReportData {
+  exact: Array<{ contentHash: string; files: DuplicateFile[] }>
+  similar: Array<{ similarity: number; files: DuplicateFile[] }>
+}
+
+// Identical uploads and near-duplicates (e.g. scans of the same paper), with delete per copy
+export default function DuplicateReport() {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/files/duplicates'],
+    enabled: open,
+  })
+
+  const report = (data as any)?.data as DuplicateReportData | undefined
+  const groups = [
+    ...(report?.exact || []).map(group => ({ key: group.contentHash, label: 'Identical', files: group.files })),
+    ...(report?.similar || []).map(group => ({
+      key: group.files.map(file => file.id).join('-'),
+      label: `${Math.round(group.similarity * 100)}% similar`,
+      files: group.files,
+    })),
+  ]
+
+  const deleteFile = async (file: DuplicateFile) => {
+    setDeletingId(file.id)
+    try {
+      await apiRequest('DELETE', `/api/files/${file.id}`)
+      queryClient.invalidateQueries({ queryKey: ['files'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
+      await queryClient.invalidateQueries({ queryKey: ['/api/files/duplicates'] })
+      toast({
+        title: "Moved to trash",
+        description: `${file.filename} has been moved to the trash`,
+        duration: 2300,
+      })
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete file",
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-find-duplicates">
+          <Copy className="w-4 h-4 mr-2" />
+          Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="duplicate-report-dialog">
+        <DialogHeader>
+          <DialogTitle>Duplicate files</DialogTitle>
+          <DialogDescription>
+            Files uploaded more than once, and documents whose content is nearly the same.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No duplicates found</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <div key={group.key} className="border rounded-lg p-3 space-y-2" data-testid={`duplicate-group-${group.key}`}>
+                <Badge variant="secondary">{group.label}</Badge>
+                {group.files.map(file => (
+                  <div key={file.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 min-w-0 truncate font-medium" title={file.filename}>{file.filename}</span>
+                    <span className="text-muted-foreground text-xs whitespace-nowrap">
+                      {formatFileSize(file.fileSize)}
+                      {file.createdAt && ` • ${formatDate(file.createdAt)}`}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteFile(file)}
+                      disabled={deletingId !== null}
+                      data-testid={`button-delete-duplicate-${file.id}`}
+                    >
+                      {deletingId === file.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
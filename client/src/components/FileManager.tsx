@@ -42,9 +42,20 @@ import {
   AlertTriangle,
   CheckSquare,
   Square,
-  Loader2
+  Loader2,
+  FolderInput,
+  Upload
 } from 'lucide-react'
 import { Checkbox } from '@/components/ui/checkbox'
+import FolderBrowser from '@/components/FolderBrowser'
+import FolderSelect from '@/components/FolderSelect'
+import FileTags from '@/components/FileTags'
+import TagSelect from '@/components/TagSelect'
+import DuplicateReport from '@/components/DuplicateReport'
+import TrashBin from '@/components/TrashBin'
+import FileVersions from '@/components/FileVersions'
+import UploadModal from '@/components/UploadModal'
+import { useFolders, folderErrorMessage } from '@/hooks/useFolders'
 import { formatFileSize, formatDate, isImageFile } from '@/utils'
 import { cn } from '@/utils'
 import { auth } from '@/lib/auth'
@@ -177,7 +188,13 @@ export default function FileManager() {
   const [previewImage, setPreviewImage] = useState<{id: string, filename: string} | null>(null)
   const [isDeletingMultiple, setIsDeletingMultiple] = useState(false)
   const [isDeletingSingle, setIsDeletingSingle] = useState(false)
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null)
+  const [moveDialogOpen, setMoveDialogOpen] = useState(false)
+  const [moveTargetId, setMoveTargetId] = useState<string | null>(null)
+  const [isMoving, setIsMoving] = useState(false)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
   const queryClient = useQueryClient()
+  const { getFolder, moveFiles } = useFolders()
 
   const { user: currentUser, isAuthenticated } = useAuth()
   
@@ -190,7 +207,7 @@ export default function FileManager() {
 
   // Fetch files - temporarily simplified for debugging
   const { data: filesResponse, isLoading, error } = useQuery({
-    queryKey: ['files', currentUser?.id, filterType],
+    queryKey: ['files', currentUser?.id, filterType, currentFolderId, tagFilter],
     queryFn: async () => {
       console.log('FileManager: Fetching files...')
       console.log('FileManager: Auth check:', { 
@@ -199,7 +216,10 @@ export default function FileManager() {
         authHeaders: auth.getAuthHeaders()
       })
       
-      const response = await fetch('/api/files', {
+      // Only the open folder's own files; subfolders are listed by FolderBrowser
+      const params = new URLSearchParams({ folderId: currentFolderId || 'root' })
+      if (tagFilter) params.set('tagId', tagFilter)
+      const response = await fetch(`/api/files?${params}`, {
         headers: {
           ...auth.getAuthHeaders(),
         }
@@ -248,8 +268,8 @@ export default function FileManager() {
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
       queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
       toast({
-        title: "File deleted",
-        description: "File has been successfully deleted",
+        title: "Moved to trash",
+        description: "File can be restored from the trash",
         duration: 2300,
       })
     },
@@ -279,7 +299,11 @@ export default function FileManager() {
           file.fileType.includes('spreadsheetml') ||    // XLSX
           file.fileType.includes('msword') ||           // DOC
           file.fileType.includes('ms-excel') ||         // XLS
-          file.fileType.includes('presentationml')      // PPTX
+          file.fileType.includes('presentationml') ||   // PPTX
+          file.fileType.includes('ms-powerpoint') ||    // PPT
+          file.fileType.includes('opendocument') ||     // ODT, ODS, ODP
+          file.fileType.includes('rtf') ||              // RTF
+          file.fileType.includes('epub')                // EPUB
         )
         default: return true
       }
@@ -353,8 +377,8 @@ export default function FileManager() {
       setSelectedFiles([])
       setDeleteMultipleDialogOpen(false)
       toast({
-        title: "Files deleted",
-        description: `Successfully deleted ${count} file(s)`,
+        title: "Moved to trash",
+        description: `${count} file(s) moved to the trash`,
         duration: 2300,
       })
     } catch (error) {
@@ -369,6 +393,38 @@ export default function FileManager() {
     }
   }
 
+  const openFolder = (folderId: string | null) => {
+    setCurrentFolderId(folderId)
+    setSelectedFiles([])
+    setSelectionMode(false)
+  }
+
+  const confirmMoveSelected = async () => {
+    if (isMoving || selectedFiles.length === 0) return
+
+    setIsMoving(true)
+    try {
+      const count = selectedFiles.length
+      await moveFiles(selectedFiles, moveTargetId)
+      setSelectedFiles([])
+      setMoveDialogOpen(false)
+      toast({
+        title: "Files moved",
+        description: `Moved ${count} file(s) to ${getFolder(moveTargetId)?.name || 'the vault root'}`,
+        duration: 2300,
+      })
+    } catch (error) {
+      toast({
+        title: "Move failed",
+        description: folderErrorMessage(error, "Files could not be moved"),
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
   const handleImageClick = (fileId: string, filename: string) => {
     setPreviewImage({ id: fileId, filename })
     setImagePreviewOpen(true)
@@ -466,6 +522,34 @@ export default function FileManager() {
               File Manager
             </CardTitle>
             <div className="flex items-center gap-2">
+              <DuplicateReport />
+              <TrashBin />
+              {currentFolderId && (
+                <UploadModal
+                  folderId={currentFolderId}
+                  trigger={
+                    <Button variant="outline" size="sm" data-testid="button-upload-here">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload here
+                    </Button>
+                  }
+                />
+              )}
+              {selectedFiles.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setMoveTargetId(currentFolderId)
+                    setMoveDialogOpen(true)
+                  }}
+                  disabled={isMoving}
+                  data-testid="button-move-selected"
+                >
+                  <FolderInput className="w-4 h-4 mr-2" />
+                  Move ({selectedFiles.length})
+                </Button>
+              )}
               {selectedFiles.length > 0 && (
                 <Button 
                   variant="destructive" 
@@ -493,7 +577,9 @@ export default function FileManager() {
             </div>
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <FolderBrowser currentFolderId={currentFolderId} onNavigate={openFolder} />
+
           <div className="flex flex-col sm:flex-row gap-4">
             {/* Select Button */}
             {filteredFiles.length > 0 && (
@@ -545,6 +631,9 @@ export default function FileManager() {
               </SelectContent>
             </Select>
 
+            {/* Tag Filter */}
+            <TagSelect value={tagFilter} onChange={setTagFilter} testId="tag-filter-select" />
+
             {/* View Toggle */}
             <div className="flex border rounded-lg">
               <Button
@@ -575,9 +664,11 @@ export default function FileManager() {
             <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
             <h3 className="text-lg font-semibold mb-2">No files found</h3>
             <p className="text-muted-foreground">
-              {searchTerm || filterType !== 'all' 
+              {searchTerm || filterType !== 'all' || tagFilter
                 ? 'Try adjusting your search or filter criteria'
-                : 'Upload some files to get started'
+                : currentFolderId
+                  ? 'This folder has no files yet'
+                  : 'Upload some files to get started'
               }
             </p>
           </CardContent>
@@ -647,6 +738,7 @@ export default function FileManager() {
                     <p className="text-xs text-muted-foreground">
                       {formatDate(file.createdAt!)}
                     </p>
+                    <FileTags file={file} />
                   </div>
 
                   {/* Actions */}
@@ -659,6 +751,7 @@ export default function FileManager() {
                     >
                       <Download className="w-3 h-3" />
                     </Button>
+                    <FileVersions file={file} />
                     <Button 
                       variant="ghost" 
                       size="sm"
@@ -718,6 +811,9 @@ export default function FileManager() {
                           </Badge>
                         )}
                       </div>
+                      <div className="mt-1">
+                        <FileTags file={file} />
+                      </div>
                     </div>
 
                     {/* Actions */}
@@ -730,6 +826,7 @@ export default function FileManager() {
                       >
                         <Download className="w-4 h-4" />
                       </Button>
+                      <FileVersions file={file} size="icon" />
                       <Button 
                         variant="ghost" 
                         size="sm"
@@ -762,7 +859,7 @@ export default function FileManager() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete File</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {fileToDelete ? `"${fileToDelete.filename}"` : 'this file'}? This action cannot be undone.
+              Move {fileToDelete ? `"${fileToDelete.filename}"` : 'this file'} to the trash? You can restore it until the trash is emptied.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -805,7 +902,7 @@ export default function FileManager() {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Multiple Files</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete {selectedFiles.length} selected file(s)? This action cannot be undone.
+              Move {selectedFiles.length} selected file(s) to the trash? You can restore them until the trash is emptied.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -834,6 +931,37 @@ export default function FileManager() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Move Files Dialog */}
+      <Dialog open={moveDialogOpen} onOpenChange={(open) => !isMoving && setMoveDialogOpen(open)}>
+        <DialogContent data-testid="move-files-dialog">
+          <DialogHeader>
+            <DialogTitle>Move {selectedFiles.length} file(s)</DialogTitle>
+          </DialogHeader>
+          <FolderSelect
+            value={moveTargetId}
+            onChange={setMoveTargetId}
+            rootLabel="Vault root"
+            className="w-full"
+            testId="select-move-files-target"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setMoveDialogOpen(false)} disabled={isMoving}>
+              Cancel
+            </Button>
+            <Button onClick={confirmMoveSelected} disabled={isMoving} data-testid="button-confirm-move">
+              {isMoving ? (
+                <span className="flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Moving...
+                </span>
+              ) : (
+                'Move'
+              )}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Image Preview Dialog */}
       <Dialog open={imagePreviewOpen} onOpenChange={setImagePreviewOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh]">
@@ -1,9 +1,17 @@
-import { useState } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { 
   Dialog,
   DialogContent,
@@ -36,10 +44,20 @@ import {
   Download,
   Search,
   Calendar,
-  HardDrive
+  HardDrive,
+  Loader2,
+  RefreshCw,
+  Save,
+  Plus,
+  Mail,
+  Paperclip,
+  X
 } from 'lucide-react'
-import { formatFileSize, formatDate } from '@/utils'
+import { formatFileSize, formatDate, formatMediaTime } from '@/utils'
 import { auth } from '@/lib/auth'
+import { apiRequest } from '@/lib/queryClient'
+import type { ChatCitation } from '@/lib/chatStream'
+import { describeDue } from '@/components/UpcomingExpiries'
 
 interface FileRecord {
   id: string
@@ -58,6 +76,525 @@ interface FilePreviewProps {
   onFileAction?: (action: 'edit' | 'preview' | 'delete', file: FileRecord) => void
 }
 
+interface CitationPassage {
+  fileId: string
+  filename: string
+  fileType: string
+  chunkId: string
+  chunkIndex: number
+  pageNumber: number | null
+  startTime: number | null
+  text: string
+  highlightStart: number
+  highlightEnd: number
+}
+
+interface CitationPassageDialogProps {
+  citation: ChatCitation | null
+  onOpenChange: (open: boolean) => void
+}
+
+interface DocumentFields {
+  documentType: string
+  vendor: string | null
+  documentDate: string | null
+  totalAmount: string | null
+  currency: string | null
+  documentNumber: string | null
+  expiryDate: string | null
+  holderName: string | null
+  confidence: number | null
+  userEdited: boolean
+}
+
+type DocumentFieldsForm = Record<Exclude<keyof DocumentFields, 'confidence' | 'userEdited'>, string>
+
+const DOCUMENT_TYPE_LABELS: Record<string, string> = {
+  receipt: 'Receipt',
+  invoice: 'Invoice',
+  passport: 'Passport',
+  id_card: 'ID card',
+  driver_license: "Driver's license",
+  insurance_card: 'Insurance card',
+  other: 'Other',
+}
+
+const TEXT_FIELDS: Array<{ key: keyof DocumentFieldsForm; label: string; type?: string; placeholder?: string }> = [
+  { key: 'vendor', label: 'Vendor / issuer' },
+  { key: 'documentDate', label: 'Date', type: 'date' },
+  { key: 'totalAmount', label: 'Total', type: 'number' },
+  { key: 'currency', label: 'Currency', placeholder: 'USD' },
+  { key: 'documentNumber', label: 'Document number' },
+  { key: 'expiryDate', label: 'Expiry date', type: 'date' },
+  { key: 'holderName', label: 'Holder name' },
+]
+
+const toForm = (fields: DocumentFields | null): DocumentFieldsForm => ({
+  documentType: fields?.documentType || 'other',
+  vendor: fields?.vendor || '',
+  documentDate: fields?.documentDate || '',
+  totalAmount: fields?.totalAmount || '',
+  currency: fields?.currency || '',
+  documentNumber: fields?.documentNumber || '',
+  expiryDate: fields?.expiryDate || '',
+  holderName: fields?.holderName || '',
+})
+
+// Vendor, date, total, expiry and other fields extracted from a receipt, invoice or ID, editable by hand
+export function DocumentFieldsEditor({ fileId }: { fileId: string }) {
+  const queryClient = useQueryClient()
+  const fieldsKey = [`/api/files/${fileId}/fields`]
+  const [form, setForm] = useState<DocumentFieldsForm>(toForm(null))
+  const [busy, setBusy] = useState<'save' | 'extract' | null>(null)
+
+  const { data, isLoading } = useQuery<{ success: boolean; data: DocumentFields | null }>({
+    queryKey: fieldsKey,
+  })
+  const fields = data?.data ?? null
+
+  useEffect(() => {
+    setForm(toForm(fields))
+  }, [fields])
+
+  const runAction = async (key: 'save' | 'extract', action: () => Promise<Response>, success: string, failure: string) => {
+    setBusy(key)
+    try {
+      const response = await action()
+      const result = await response.json()
+      await queryClient.invalidateQueries({ queryKey: fieldsKey })
+      toast({
+        title: success,
+        description: result.message,
+        duration: 2300,
+      })
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const save = () => {
+    const orNull = (value: string) => value.trim() || null
+    runAction('save', () => apiRequest('PATCH', `/api/files/${fileId}/fields`, {
+      documentType: form.documentType,
+      vendor: orNull(form.vendor),
+      documentDate: orNull(form.documentDate),
+      totalAmount: form.totalAmount.trim() ? Number(form.totalAmount) : null,
+      currency: orNull(form.currency),
+      documentNumber: orNull(form.documentNumber),
+      expiryDate: orNull(form.expiryDate),
+      holderName: orNull(form.holderName),
+    }), 'Fields saved', 'Failed to save fields')
+  }
+
+  const extract = () =>
+    runAction('extract', () => apiRequest('POST', `/api/files/${fileId}/fields/extract`), 'Extraction finished', 'Extraction failed')
+
+  if (isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading fields...</div>
+  }
+
+  return (
+    <div className="space-y-3" data-testid={`document-fields-${fileId}`}>
+      <div className="flex items-center gap-2">
+        <strong className="text-sm">Extracted fields</strong>
+        {fields?.userEdited ? (
+          <Badge variant="outline">Edited</Badge>
+        ) : fields?.confidence !== null && fields?.confidence !== undefined && (
+          <Badge variant="secondary">{Math.round(fields.confidence * 100)}% confident</Badge>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Type</Label>
+          <Select value={form.documentType} onValueChange={(documentType) => setForm({ ...form, documentType })}>
+            <SelectTrigger className="h-8" data-testid="select-document-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[60]">
+              {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {TEXT_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-xs" htmlFor={`field-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`field-${field.key}`}
+              className="h-8"
+              type={field.type || 'text'}
+              step={field.type === 'number' ? '0.01' : undefined}
+              maxLength={field.key === 'currency' ? 3 : undefined}
+              placeholder={field.placeholder}
+              value={form[field.key]}
+              onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+              data-testid={`input-field-${field.key}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={extract} disabled={busy !== null} data-testid="button-extract-fields">
+          {busy === 'extract' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Re-extract
+        </Button>
+        <Button size="sm" onClick={save} disabled={busy !== null} data-testid="button-save-fields">
+          {busy === 'save' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface DocumentReminder {
+  id: string
+  kind: string
+  dueDate: string
+  label: string | null
+  source: string
+  dismissedAt: string | null
+}
+
+const REMINDER_KIND_LABELS: Record<string, string> = {
+  expiry: 'Expiry',
+  renewal: 'Renewal',
+  warranty: 'Warranty',
+  other: 'Other',
+}
+
+// Expiry and renewal dates of a file, detected from its contents or added by hand
+export function DocumentReminders({ fileId }: { fileId: string }) {
+  const queryClient = useQueryClient()
+  const remindersKey = [`/api/files/${fileId}/reminders`]
+  const [kind, setKind] = useState('expiry')
+  const [dueDate, setDueDate] = useState('')
+  const [label, setLabel] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const { data } = useQuery<{ success: boolean; data: DocumentReminder[] }>({
+    queryKey: remindersKey,
+  })
+  const reminders = data?.data || []
+
+  const runAction = async (key: string, action: () => Promise<Response>, failure: string) => {
+    setBusy(key)
+    try {
+      await action()
+      queryClient.invalidateQueries({ queryKey: ['/api/reminders'] })
+      await queryClient.invalidateQueries({ queryKey: remindersKey })
+      return true
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+      return false
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const addReminder = async () => {
+    const added = await runAction('add', () => apiRequest('POST', `/api/files/${fileId}/reminders`, {
+      kind,
+      dueDate,
+      label: label.trim() || null,
+    }), 'Failed to add reminder')
+    if (added) {
+      setDueDate('')
+      setLabel('')
+    }
+  }
+
+  const deleteReminder = (reminder: DocumentReminder) =>
+    runAction(reminder.id, () => apiRequest('DELETE', `/api/reminders/${reminder.id}`), 'Failed to delete reminder')
+
+  return (
+    <div className="space-y-2" data-testid={`document-reminders-${fileId}`}>
+      <strong className="text-sm">Reminders</strong>
+      {reminders.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No expiry or renewal dates found in this file</p>
+      ) : (
+        reminders.map(reminder => (
+          <div key={reminder.id} className="flex items-center gap-2 text-sm" data-testid={`document-reminder-${reminder.id}`}>
+            <Badge variant="outline">{REMINDER_KIND_LABELS[reminder.kind] || reminder.kind}</Badge>
+            <span className="flex-1 min-w-0 truncate">
+              {reminder.label} • {reminder.dueDate}
+              <span className="text-muted-foreground"> ({describeDue(reminder.dueDate)}{reminder.source === 'detected' ? ', detected' : ''}{reminder.dismissedAt ? ', dismissed' : ''})</span>
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteReminder(reminder)}
+              disabled={busy !== null}
+              title="Delete reminder"
+              data-testid={`button-delete-reminder-${reminder.id}`}
+            >
+              {busy === reminder.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+            </Button>
+          </div>
+        ))
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={kind} onValueChange={setKind}>
+          <SelectTrigger className="h-8 w-[120px]" data-testid="select-reminder-kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="z-[60]">
+            {Object.entries(REMINDER_KIND_LABELS).map(([value, text]) => (
+              <SelectItem key={value} value={value}>{text}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="h-8 w-[150px]"
+          value={dueDate}
+          onChange={(e) => setDueDate(e.target.value)}
+          data-testid="input-reminder-date"
+        />
+        <Input
+          className="h-8 flex-1 min-w-[120px]"
+          placeholder="Label (optional)"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          data-testid="input-reminder-label"
+        />
+        <Button size="sm" onClick={addReminder} disabled={!dueDate || busy !== null} data-testid="button-add-reminder">
+          {busy === 'add' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface EmailDetailsData {
+  messages: Array<{
+    id: string
+    fromAddress: string | null
+    fromName: string | null
+    toAddresses: string[]
+    subject: string | null
+    sentAt: string | null
+    attachmentCount: number
+  }>
+  attachments: Array<{ id: string; filename: string; fileSize: number; embeddingStatus: string | null }>
+  parent: { id: string; filename: string } | null
+}
+
+const MAX_LISTED_MESSAGES = 20
+
+// Headers of an email or mailbox file and the attachments extracted from it, or the email an attachment came from
+export function EmailDetails({ fileId }: { fileId: string }) {
+  const { data } = useQuery<{ success: boolean; data: EmailDetailsData }>({
+    queryKey: [`/api/files/${fileId}/email`],
+  })
+  const email = data?.data
+  if (!email || (email.messages.length === 0 && email.attachments.length === 0 && !email.parent)) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2 text-sm" data-testid={`email-details-${fileId}`}>
+      {email.parent && (
+        <p className="flex items-center gap-2 text-muted-foreground">
+          <Paperclip className="w-4 h-4" />
+          Attachment of <span className="font-medium text-foreground truncate">{email.parent.filename}</span>
+        </p>
+      )}
+      {email.messages.length > 0 && (
+        <div className="space-y-1">
+          <strong>{email.messages.length === 1 ? 'Email' : `Mailbox (${email.messages.length} messages)`}</strong>
+          {email.messages.slice(0, MAX_LISTED_MESSAGES).map(message => (
+            <div key={message.id} className="flex items-start gap-2" data-testid={`email-message-${message.id}`}>
+              <Mail className="w-4 h-4 mt-0.5 text-muted-foreground shrink-0" />
+              <div className="min-w-0">
+                <p className="font-medium truncate">{message.subject || '(no subject)'}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {message.fromName || message.fromAddress || 'Unknown sender'}
+                  {message.toAddresses.length > 0 && ` → ${message.toAddresses.join(', ')}`}
+                  {message.sentAt && ` • ${formatDate(message.sentAt)}`}
+                  {message.attachmentCount > 0 && ` • ${message.attachmentCount} attachment(s)`}
+                </p>
+              </div>
+            </div>
+          ))}
+          {email.messages.length > MAX_LISTED_MESSAGES && (
+            <p className="text-xs text-muted-foreground">and {email.messages.length - MAX_LISTED_MESSAGES} more</p>
+          )}
+        </div>
+      )}
+      {email.attachments.length > 0 && (
+        <div className="space-y-1">
+          <strong>Attachments</strong>
+          {email.attachments.map(attachment => (
+            <div key={attachment.id} className="flex items-center gap-2" data-testid={`email-attachment-${attachment.id}`}>
+              <Paperclip className="w-4 h-4 text-muted-foreground" />
+              <span className="flex-1 min-w-0 truncate">{attachment.filename}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{formatFileSize(attachment.fileSize)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Plays an audio or video document, fetched with the session's auth header, from `startTime` seconds when given
+export function MediaPlayer({ fileId, fileType, startTime }: { fileId: string; fileType: string; startTime?: number | null }) {
+  const mediaRef = useRef<HTMLMediaElement | null>(null)
+  const [src, setSrc] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let url: string | null = null
+    let cancelled = false
+    setSrc(null)
+    setFailed(false)
+    fetch(`/api/files/${fileId}/preview`, { headers: auth.getAuthHeaders() })
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.blob()
+      })
+      .then(blob => {
+        if (cancelled) return
+        url = URL.createObjectURL(blob)
+        setSrc(url)
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [fileId])
+
+  // Seek once the recording has loaded, and again when another citation of it is opened
+  useEffect(() => {
+    const media = mediaRef.current
+    if (!media || startTime === null || startTime === undefined) return
+    const seek = () => { media.currentTime = startTime }
+    if (media.readyState >= 1) {
+      seek()
+      return
+    }
+    media.addEventListener('loadedmetadata', seek, { once: true })
+    return () => media.removeEventListener('loadedmetadata', seek)
+  }, [src, startTime])
+
+  if (failed) {
+    return <p className="text-sm text-muted-foreground">The recording could not be loaded</p>
+  }
+  if (!src) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+  return fileType.startsWith('video/') ? (
+    <video
+      ref={(element) => { mediaRef.current = element }}
+      src={src}
+      controls
+      className="w-full max-h-80 rounded-md bg-black"
+      data-testid={`media-player-${fileId}`}
+    />
+  ) : (
+    <audio
+      ref={(element) => { mediaRef.current = element }}
+      src={src}
+      controls
+      className="w-full"
+      data-testid={`media-player-${fileId}`}
+    />
+  )
+}
+
+// Opens the extracted text of a cited file scrolled to the chunk behind a chat citation, with the passage highlighted.
+// Passages of a recording's transcript come with the recording, cued to where the passage starts
+export function CitationPassageDialog({ citation, onOpenChange }: CitationPassageDialogProps) {
+  const highlightRef = useRef<HTMLElement>(null)
+
+  const { data, isLoading, error } = useQuery<{ success: boolean; data: CitationPassage }>({
+    queryKey: ['/api/files', citation?.documentId, 'chunks', citation?.chunkId],
+    enabled: !!citation?.chunkId,
+  })
+
+  const passage = data?.data
+
+  useEffect(() => {
+    if (passage) {
+      // Wait for the dialog content to mount before scrolling
+      requestAnimationFrame(() => {
+        highlightRef.current?.scrollIntoView({ block: 'center' })
+      })
+    }
+  }, [passage])
+
+  return (
+    <Dialog open={!!citation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl z-[60]" data-testid="citation-preview-modal">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            <span className="truncate">{citation?.filename}</span>
+          </DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            Source [{citation?.index}]
+            {citation?.pageNumber && (
+              <Badge variant="secondary" data-testid="citation-page">Page {citation.pageNumber}</Badge>
+            )}
+            {citation?.startTime !== null && citation?.startTime !== undefined && (
+              <Badge variant="secondary" data-testid="citation-time">{formatMediaTime(citation.startTime)}</Badge>
+            )}
+            {citation?.chunkIndex !== null && citation?.chunkIndex !== undefined && (
+              <Badge variant="outline">Section {citation.chunkIndex + 1}</Badge>
+            )}
+            {citation?.cells && (
+              <Badge variant="outline" data-testid="citation-cells">Computed from spreadsheet cells</Badge>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!citation?.chunkId ? (
+          // Document-level sources (database fallback search) and table query results have no chunk to jump to
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{citation?.preview}</p>
+        ) : isLoading ? (
+          <div className="text-center text-muted-foreground py-8">Loading passage...</div>
+        ) : error || !passage ? (
+          <div className="text-center text-muted-foreground py-8">This passage is no longer available</div>
+        ) : (
+          <div className="space-y-3">
+            {passage.startTime !== null && (passage.fileType.startsWith('audio/') || passage.fileType.startsWith('video/')) && (
+              <MediaPlayer fileId={passage.fileId} fileType={passage.fileType} startTime={passage.startTime} />
+            )}
+            <div dir="auto" className="max-h-[60vh] overflow-y-auto rounded-md bg-muted p-4 text-sm whitespace-pre-wrap break-words" data-testid="citation-passage">
+              {passage.text.substring(0, passage.highlightStart)}
+              <mark ref={highlightRef} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">
+                {passage.text.substring(passage.highlightStart, passage.highlightEnd)}
+              </mark>
+              {passage.text.substring(passage.highlightEnd)}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 export default function FilePreview({ onFileAction }: FilePreviewProps) {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedFile, setSelectedFile] = useState<FileRecord | null>(null)
@@ -106,8 +643,8 @@ export default function FilePreview({ onFileAction }: FilePreviewProps) {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['files'] })
       toast({
-        title: "File deleted",
-        description: "File has been successfully deleted",
+        title: "Moved to trash",
+        description: "File can be restored from the trash",
         duration: 2300,
       })
     },
@@ -310,7 +847,7 @@ export default function FilePreview({ onFileAction }: FilePreviewProps) {
                         <Eye className="w-4 h-4" />
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="max-w-2xl" data-testid="file-preview-modal">
+                    <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="file-preview-modal">
                       <DialogHeader>
                         <DialogTitle>{selectedFile?.filename}</DialogTitle>
                         <DialogDescription>
@@ -346,6 +883,11 @@ export default function FilePreview({ onFileAction }: FilePreviewProps) {
                             </div>
                           )}
                           
+                          {/* Audio and video */}
+                          {(selectedFile.fileType.startsWith('audio/') || selectedFile.fileType.startsWith('video/')) && (
+                            <MediaPlayer fileId={selectedFile.id} fileType={selectedFile.fileType} />
+                          )}
+                          
                           {/* File Details */}
                           <div className="grid grid-cols-2 gap-4 text-sm">
                             <div>
@@ -362,6 +904,15 @@ export default function FilePreview({ onFileAction }: FilePreviewProps) {
                             </div>
                           </div>
                           
+                          {/* Email headers and attachments */}
+                          <EmailDetails fileId={selectedFile.id} />
+
+                          {/* Structured fields */}
+                          <DocumentFieldsEditor fileId={selectedFile.id} />
+
+                          {/* Expiry and renewal reminders */}
+                          <DocumentReminders fileId={selectedFile.id} />
+
                           {/* AI Analysis */}
                           {selectedFile.aiAnalysis && (
                             <div>
@@ -450,7 +1001,7 @@ export default function FilePreview({ onFileAction }: FilePreviewProps) {
                       <AlertDialogHeader>
                         <AlertDialogTitle>Delete File</AlertDialogTitle>
                         <AlertDialogDescription>
-                          Are you sure you want to delete "{file.filename}"? This action cannot be undone.
+                          Move "{file.filename}" to the trash? You can restore it until the trash is emptied.
                         </AlertDialogDescription>
                       </AlertDialogHeader>
                       <AlertDialogFooter>
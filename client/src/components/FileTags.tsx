@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { toast } from '@/hooks/use-toast'
+import { Check, Plus, Sparkles, X } from 'lucide-react'
+import { useTags } from '@/hooks/useTags'
+import { folderErrorMessage } from '@/hooks/useFolders'
+import type { FileRecord } from '@/types'
+
+interface FileTagsProps {
+  file: FileRecord
+}
+
+// A file's tags, its pending suggestions with accept/reject, and a picker to add tags
+export default function FileTags({ file }: FileTagsProps) {
+  const { tags, addTagToFile, removeTagFromFile, acceptSuggestion, rejectSuggestion } = useTags()
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [newTagName, setNewTagName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fileTags = file.tags || []
+  const suggestions = file.tagSuggestions || []
+  const appliedIds = new Set(fileTags.map(tag => tag.id))
+  const query = newTagName.trim().toLowerCase()
+  const available = tags.filter(tag => !appliedIds.has(tag.id) && tag.name.toLowerCase().includes(query))
+  const exactMatch = tags.some(tag => tag.name.toLowerCase() === query)
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+    } catch (error) {
+      console.error(failure, error)
+      toast({
+        title: failure,
+        description: folderErrorMessage(error, failure),
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const addTag = async (tag: { tagId: string } | { name: string }) => {
+    await runAction(() => addTagToFile(file.id, tag), 'Failed to add tag')
+    setNewTagName('')
+    setPickerOpen(false)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" data-testid={`file-tags-${file.id}`}>
+      {fileTags.map(tag => (
+        <Badge key={tag.id} variant="secondary" className="text-xs gap-1 pr-1" data-testid={`file-tag-${file.id}-${tag.id}`}>
+          {tag.name}
+          <button
+            type="button"
+            className="rounded-sm opacity-60 hover:opacity-100"
+            onClick={() => runAction(() => removeTagFromFile(file.id, tag.id), 'Failed to remove tag')}
+            disabled={isSaving}
+            aria-label={`Remove tag ${tag.name}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+
+      {suggestions.map(suggestion => (
+        <Badge
+          key={suggestion.id}
+          variant="outline"
+          className="text-xs gap-1 pr-1 border-dashed text-muted-foreground"
+          title="Suggested from the document's content"
+          data-testid={`tag-suggestion-${suggestion.id}`}
+        >
+          <Sparkles className="w-3 h-3" />
+          {suggestion.name}
+          <button
+            type="button"
+            className="rounded-sm hover:text-green-600"
+            onClick={() => runAction(() => acceptSuggestion(file.id, suggestion.id), 'Failed to accept tag')}
+            disabled={isSaving}
+            aria-label={`Accept tag ${suggestion.name}`}
+            data-testid={`button-accept-suggestion-${suggestion.id}`}
+          >
+            <Check className="w-3 h-3" />
+          </button>
+          <button
+            type="button"
+            className="rounded-sm hover:text-red-600"
+            onClick={() => runAction(() => rejectSuggestion(file.id, suggestion.id), 'Failed to reject tag')}
+            disabled={isSaving}
+            aria-label={`Reject tag ${suggestion.name}`}
+            data-testid={`button-reject-suggestion-${suggestion.id}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-5 px-1 text-xs" data-testid={`button-add-tag-${file.id}`}>
+            <Plus className="w-3 h-3" />
+            {fileTags.length === 0 && suggestions.length === 0 && <span className="ml-1">Tag</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-2 space-y-2" align="start">
+          <Input
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && query) addTag({ name: newTagName.trim() })
+            }}
+            placeholder="Find or create a tag"
+            maxLength={40}
+            className="h-8"
+            autoFocus
+            data-testid="input-tag-name"
+          />
+          <div className="max-h-40 overflow-y-auto">
+            {available.map(tag => (
+              <button
+                key={tag.id}
+                type="button"
+                className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted"
+                onClick={() => addTag({ tagId: tag.id })}
+                disabled={isSaving}
+              >
+                {tag.name}
+              </button>
+            ))}
+            {query && !exactMatch && (
+              <button
+                type="button"
+                className="w-full text-left text-sm px-2 py-1 rounded hover:bg-muted text-primary"
+                onClick={() => addTag({ name: newTagName.trim() })}
+                disabled={isSaving}
+                data-testid="button-create-tag"
+              >
+                Create "{newTagName.trim()}"
+              </button>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
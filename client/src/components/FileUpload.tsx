@@ -3,6 +3,15 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
 import { toast } from '@/hooks/use-toast'
 import { useQueryClient } from '@tanstack/react-query'
 import { 
@@ -31,15 +40,25 @@ interface UploadFile {
   error?: string
 }
 
+// How the server should treat uploads identical to a file already in the vault
+type DuplicateAction = 'keep' | 'replace' | 'skip'
+
+interface DuplicateMatch {
+  filename: string
+  existing: { id: string; filename: string; createdAt: string | null }
+}
+
 interface FileUploadProps {
   onUploadComplete?: (files: any[]) => void
   maxFiles?: number
   maxSize?: number // in bytes
   acceptedTypes?: string[]
+  folderId?: string | null // Destination folder, the vault root when unset
 }
 
 export default function FileUpload({
   onUploadComplete,
+  folderId,
   maxFiles = 10,
   maxSize = 50 * 1024 * 1024, // 50MB
   acceptedTypes = [
@@ -54,12 +73,29 @@ export default function FileUpload({
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
     'application/vnd.openxmlformats-officedocument.presentationml.presentation', // .pptx
     'application/vnd.ms-excel', // .xls (legacy Excel)
+    'application/msword', // .doc (legacy Word)
+    'application/vnd.ms-powerpoint', // .ppt (legacy PowerPoint)
+    // OpenDocument, RTF and EPUB, which some browsers send without a type
+    'application/vnd.oasis.opendocument.text', '.odt',
+    'application/vnd.oasis.opendocument.spreadsheet', '.ods',
+    'application/vnd.oasis.opendocument.presentation', '.odp',
+    'application/rtf', '.rtf',
+    'application/epub+zip', '.epub',
+    // Audio and video recordings, transcribed
+    'audio/mpeg', '.mp3',
+    'audio/mp4', 'audio/x-m4a', '.m4a',
+    'audio/wav', '.wav',
+    'video/mp4', '.mp4',
+    // Emails and mailboxes, often without a type in the browser
+    'message/rfc822', '.eml',
+    'application/mbox', '.mbox',
   ]
 }: FileUploadProps) {
   const [files, setFiles] = useState<UploadFile[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
   const [showOverlay, setShowOverlay] = useState(false)
+  const [duplicateMatches, setDuplicateMatches] = useState<DuplicateMatch[] | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const overlayTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const queryClient = useQueryClient()
@@ -92,6 +128,9 @@ export default function FileUpload({
     }
     
     const isTypeAccepted = acceptedTypes.some(type => {
+      if (type.startsWith('.')) {
+        return file.name.toLowerCase().endsWith(type)
+      }
       if (type.endsWith('/*')) {
         return file.type.startsWith(type.slice(0, -1))
       }
@@ -157,7 +196,7 @@ export default function FileUpload({
     setFiles(prev => prev.filter(f => f.id !== id))
   }
 
-  const uploadFiles = async () => {
+  const uploadFiles = async (onDuplicate?: DuplicateAction) => {
     const pendingFiles = files.filter(f => f.status === 'pending')
     if (pendingFiles.length === 0) return
 
@@ -186,6 +225,12 @@ export default function FileUpload({
       pendingFiles.forEach(uploadFile => {
         formData.append('files', uploadFile.file)
       })
+      if (folderId) {
+        formData.append('folderId', folderId)
+      }
+      if (onDuplicate) {
+        formData.append('onDuplicate', onDuplicate)
+      }
 
       // Update status to uploading
       setFiles(prev => prev.map(f => 
@@ -254,6 +299,15 @@ export default function FileUpload({
         throw new Error(result.message || 'Upload limit exceeded')
       }
 
+      // Some files are already in the vault: nothing was stored, ask how to handle them and resend
+      if (response.status === 409 && Array.isArray(result.duplicates)) {
+        setFiles(prev => prev.map(f =>
+          f.status === 'uploading' ? { ...f, status: 'pending' as const, progress: 0 } : f
+        ))
+        setDuplicateMatches(result.duplicates)
+        return
+      }
+
       if (!response.ok) {
         throw new Error(result.error || `Upload failed: ${response.statusText}`)
       }
@@ -279,7 +333,9 @@ export default function FileUpload({
 
         toast({
           title: "Upload successful",
-          description: `${pendingFiles.length} file(s) uploaded successfully`,
+          description: result.skipped?.length || result.replaced?.length
+            ? result.message
+            : `${pendingFiles.length} file(s) uploaded successfully`,
         })
 
         onUploadComplete?.(result.data)
@@ -427,7 +483,7 @@ export default function FileUpload({
                 )}
                 {files.some(f => f.status === 'pending') && (
                   <Button 
-                    onClick={uploadFiles} 
+                    onClick={() => uploadFiles()} 
                     disabled={isUploading}
                     data-testid="button-upload"
                   >
@@ -502,6 +558,46 @@ export default function FileUpload({
           </CardContent>
         </Card>
       )}
+
+      {/* Duplicate files prompt */}
+      <AlertDialog open={duplicateMatches !== null} onOpenChange={(open) => !open && setDuplicateMatches(null)}>
+        <AlertDialogContent data-testid="duplicate-files-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {duplicateMatches?.length === 1 ? 'This file already exists' : 'Some files already exist'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              These uploads are identical to files in your vault. Keep both copies, replace the existing file's name and folder with the upload's, or skip them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+            {duplicateMatches?.map(match => (
+              <li key={`${match.filename}-${match.existing.id}`} className="truncate">
+                <span className="font-medium">{match.filename}</span>
+                {match.existing.filename !== match.filename && (
+                  <span className="text-muted-foreground"> matches {match.existing.filename}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-duplicate-cancel">Cancel</AlertDialogCancel>
+            {(['skip', 'replace', 'keep'] as const).map(action => (
+              <Button
+                key={action}
+                variant={action === 'skip' ? 'default' : 'outline'}
+                onClick={() => {
+                  setDuplicateMatches(null)
+                  uploadFiles(action)
+                }}
+                data-testid={`button-duplicate-${action}`}
+              >
+                {action === 'skip' ? 'Skip duplicates' : action === 'replace' ? 'Replace existing' : 'Keep both'}
+              </Button>
+            ))}
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
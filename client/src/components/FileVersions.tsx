@@ -0,0 +1,227 @@
+import { useRef, useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { toast } from '@/hooks/use-toast'
+import { Download, Eye, History, Loader2, RotateCcw, Upload } from 'lucide-react'
+import { apiRequest } from '@/lib/queryClient'
+import { auth } from '@/lib/auth'
+import { formatFileSize, formatDate } from '@/utils'
+import type { FileRecord } from '@/types'
+
+interface FileVersion {
+  id: string
+  versionNumber: number
+  filename: string
+  fileSize: number
+  fileType: string
+  createdAt: string | null
+  isCurrent: boolean
+}
+
+interface FileVersionsProps {
+  file: FileRecord
+  size?: 'sm' | 'icon'
+}
+
+// Version history of a file: upload a new version, open or download earlier ones, restore one
+export default function FileVersions({ file, size = 'sm' }: FileVersionsProps) {
+  const queryClient = useQueryClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const versionsKey = [`/api/files/${file.id}/versions`]
+  const { data, isLoading } = useQuery({
+    queryKey: versionsKey,
+    enabled: open,
+  })
+  const versions = ((data as any)?.data || []) as FileVersion[]
+
+  const refresh = async () => {
+    queryClient.invalidateQueries({ queryKey: ['files'] })
+    await queryClient.invalidateQueries({ queryKey: versionsKey })
+  }
+
+  const fetchVersion = async (version: FileVersion, disposition: 'download' | 'preview') => {
+    const response = await fetch(`/api/files/${file.id}/versions/${version.versionNumber}/${disposition}`, {
+      headers: auth.getAuthHeaders(),
+    })
+    if (!response.ok) {
+      throw new Error(disposition === 'preview' ? 'Preview failed' : 'Download failed')
+    }
+    return URL.createObjectURL(await response.blob())
+  }
+
+  const runAction = async (key: string, action: () => Promise<void>, failure: string) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error(failure, error)
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const uploadVersion = (selected: File) => runAction('upload', async () => {
+    const formData = new FormData()
+    formData.append('file', selected)
+    const response = await fetch(`/api/files/${file.id}/versions`, {
+      method: 'POST',
+      headers: auth.getAuthHeaders(),
+      body: formData,
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.message || result.error || 'Upload failed')
+    }
+    await refresh()
+    toast({
+      title: "New version uploaded",
+      description: result.message,
+      duration: 2300,
+    })
+  }, 'Failed to upload version')
+
+  const previewVersion = (version: FileVersion) => runAction(`preview-${version.versionNumber}`, async () => {
+    const url = await fetchVersion(version, 'preview')
+    window.open(url, '_blank')
+    setTimeout(() => URL.revokeObjectURL(url), 60000)
+  }, 'Preview failed')
+
+  const downloadVersion = (version: FileVersion) => runAction(`download-${version.versionNumber}`, async () => {
+    const url = await fetchVersion(version, 'download')
+    const a = document.createElement('a')
+    a.href = url
+    a.download = version.filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }, 'Download failed')
+
+  const restoreVersion = (version: FileVersion) => runAction(`restore-${version.versionNumber}`, async () => {
+    const response = await apiRequest('POST', `/api/files/${file.id}/versions/${version.versionNumber}/restore`)
+    const result = await response.json()
+    await refresh()
+    toast({
+      title: "Version restored",
+      description: result.message,
+      duration: 2300,
+    })
+  }, 'Failed to restore version')
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Version history" data-testid={`button-versions-${file.id}`}>
+          <History className={size === 'icon' ? 'w-4 h-4' : 'w-3 h-3'} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto" data-testid="file-versions-dialog">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Earlier versions of {file.filename} stay available. Chat searches the current version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const selected = e.target.files?.[0]
+            e.target.value = ''
+            if (selected) uploadVersion(selected)
+          }}
+          data-testid="input-new-version"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="self-start"
+          onClick={() => inputRef.current?.click()}
+          disabled={busy !== null}
+          data-testid="button-upload-version"
+        >
+          {busy === 'upload' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+          Upload new version
+        </Button>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {versions.map(version => (
+              <div
+                key={version.versionNumber}
+                className="flex items-center gap-3 border rounded-lg p-3 text-sm"
+                data-testid={`file-version-${version.versionNumber}`}
+              >
+                <Badge variant={version.isCurrent ? 'default' : 'secondary'}>v{version.versionNumber}</Badge>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium" title={version.filename}>{version.filename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(version.fileSize)}
+                    {version.createdAt && ` • ${formatDate(version.createdAt)}`}
+                    {version.isCurrent && ' • Current'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => previewVersion(version)}
+                  disabled={busy !== null}
+                  title="Preview"
+                  data-testid={`button-preview-version-${version.versionNumber}`}
+                >
+                  {busy === `preview-${version.versionNumber}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => downloadVersion(version)}
+                  disabled={busy !== null}
+                  title="Download"
+                  data-testid={`button-download-version-${version.versionNumber}`}
+                >
+                  {busy === `download-${version.versionNumber}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </Button>
+                {!version.isCurrent && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => restoreVersion(version)}
+                    disabled={busy !== null}
+                    title="Restore this version"
+                    data-testid={`button-restore-version-${version.versionNumber}`}
+                  >
+                    {busy === `restore-${version.versionNumber}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,294 @@
+import { useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { toast } from '@/hooks/use-toast'
+import { Folder as FolderIcon, FolderPlus, MoreHorizontal, Pencil, FolderInput, Trash2 } from 'lucide-react'
+import FolderSelect from '@/components/FolderSelect'
+import { useFolders, folderErrorMessage, type Folder } from '@/hooks/useFolders'
+
+interface FolderBrowserProps {
+  currentFolderId: string | null
+  onNavigate: (folderId: string | null) => void
+}
+
+type FolderDialog =
+  | { type: 'create' }
+  | { type: 'rename'; folder: Folder }
+  | { type: 'move'; folder: Folder }
+  | null
+
+// Breadcrumb and subfolders of the open folder, with create, rename, move and delete
+export default function FolderBrowser({ currentFolderId, onNavigate }: FolderBrowserProps) {
+  const { getChildren, getPath, createFolder, renameFolder, moveFolder, deleteFolder } = useFolders()
+  const [dialog, setDialog] = useState<FolderDialog>(null)
+  const [nameValue, setNameValue] = useState('')
+  const [moveTargetId, setMoveTargetId] = useState<string | null>(null)
+  const [folderToDelete, setFolderToDelete] = useState<Folder | null>(null)
+  const [deleteFiles, setDeleteFiles] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const path = getPath(currentFolderId)
+  const subfolders = getChildren(currentFolderId)
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsSaving(true)
+    try {
+      await action()
+      return true
+    } catch (error) {
+      console.error(failure, error)
+      toast({
+        title: failure,
+        description: folderErrorMessage(error, failure),
+        variant: "destructive",
+        duration: 2300,
+      })
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!dialog) return
+    let saved = false
+    if (dialog.type === 'create') {
+      saved = await runAction(() => createFolder(nameValue.trim(), currentFolderId), 'Failed to create folder')
+    } else if (dialog.type === 'rename') {
+      saved = await runAction(() => renameFolder(dialog.folder.id, nameValue.trim()), 'Failed to rename folder')
+    } else {
+      saved = await runAction(() => moveFolder(dialog.folder.id, moveTargetId), 'Failed to move folder')
+    }
+    if (saved) setDialog(null)
+  }
+
+  const handleDelete = async () => {
+    if (!folderToDelete) return
+    const deleted = await runAction(() => deleteFolder(folderToDelete.id, deleteFiles), 'Failed to delete folder')
+    if (deleted) {
+      // Leave the folder if the open one was inside what was deleted
+      if (path.some(folder => folder.id === folderToDelete.id)) {
+        onNavigate(folderToDelete.parentId)
+      }
+      setFolderToDelete(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4" data-testid="folder-browser">
+      <div className="flex items-center justify-between gap-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              {path.length === 0 ? (
+                <BreadcrumbPage>All files</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink className="cursor-pointer" onClick={() => onNavigate(null)} data-testid="breadcrumb-root">
+                  All files
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+            {path.map((folder, index) => (
+              <span key={folder.id} className="contents">
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  {index === path.length - 1 ? (
+                    <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                  ) : (
+                    <BreadcrumbLink
+                      className="cursor-pointer"
+                      onClick={() => onNavigate(folder.id)}
+                      data-testid={`breadcrumb-${folder.id}`}
+                    >
+                      {folder.name}
+                    </BreadcrumbLink>
+                  )}
+                </BreadcrumbItem>
+              </span>
+            ))}
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setNameValue('')
+            setDialog({ type: 'create' })
+          }}
+          data-testid="button-new-folder"
+        >
+          <FolderPlus className="w-4 h-4 mr-2" />
+          New Folder
+        </Button>
+      </div>
+
+      {subfolders.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-3">
+          {subfolders.map(folder => (
+            <Card
+              key={folder.id}
+              className="hover-elevate cursor-pointer"
+              onClick={() => onNavigate(folder.id)}
+              data-testid={`folder-card-${folder.id}`}
+            >
+              <CardContent className="p-3 flex items-center gap-2">
+                <FolderIcon className="w-5 h-5 text-primary flex-shrink-0" />
+                <span className="text-sm font-medium truncate flex-1" title={folder.name}>
+                  {folder.name}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" data-testid={`button-folder-actions-${folder.id}`}>
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    <DropdownMenuItem
+                      onClick={() => {
+                        setNameValue(folder.name)
+                        setDialog({ type: 'rename', folder })
+                      }}
+                    >
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => {
+                        setMoveTargetId(folder.parentId)
+                        setDialog({ type: 'move', folder })
+                      }}
+                    >
+                      <FolderInput className="w-4 h-4 mr-2" />
+                      Move
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-red-600"
+                      onClick={() => {
+                        setDeleteFiles(false)
+                        setFolderToDelete(folder)
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create / rename / move dialog */}
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && !isSaving && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialog?.type === 'create' && 'New folder'}
+              {dialog?.type === 'rename' && 'Rename folder'}
+              {dialog?.type === 'move' && `Move "${dialog.folder.name}"`}
+            </DialogTitle>
+          </DialogHeader>
+          {dialog?.type === 'move' ? (
+            <FolderSelect
+              value={moveTargetId}
+              onChange={setMoveTargetId}
+              rootLabel="Vault root"
+              excludeFolderId={dialog.folder.id}
+              className="w-full"
+              testId="select-move-folder-target"
+            />
+          ) : (
+            <Input
+              value={nameValue}
+              onChange={(e) => setNameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && nameValue.trim()) handleSave()
+              }}
+              placeholder="Folder name"
+              maxLength={120}
+              autoFocus
+              data-testid="input-folder-name"
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} disabled={isSaving}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || (dialog?.type !== 'move' && !nameValue.trim())}
+              data-testid="button-save-folder"
+            >
+              {dialog?.type === 'move' ? 'Move' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete folder confirmation */}
+      <AlertDialog open={folderToDelete !== null} onOpenChange={(open) => !open && !isSaving && setFolderToDelete(null)}>
+        <AlertDialogContent data-testid="delete-folder-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete folder?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{folderToDelete?.name}" and its subfolders will be deleted. Files inside are moved up to the parent folder unless you move them to the trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={deleteFiles} onCheckedChange={(checked) => setDeleteFiles(checked === true)} />
+            Also move the files inside to the trash
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              disabled={isSaving}
+              className="bg-destructive hover:bg-destructive/90"
+              data-testid="button-confirm-delete-folder"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
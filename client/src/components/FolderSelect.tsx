@@ -0,0 +1,62 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Folder as FolderIcon } from "lucide-react"
+import { useFolders } from '@/hooks/useFolders'
+
+// Select has no empty-string values, so the vault root gets a sentinel
+const ROOT_VALUE = '__root__'
+
+interface FolderSelectProps {
+  value: string | null
+  onChange: (folderId: string | null) => void
+  rootLabel?: string
+  excludeFolderId?: string // Hide a folder and its subfolders, e.g. when picking a new parent for it
+  disabled?: boolean
+  className?: string
+  testId?: string
+}
+
+// Indented folder picker used for upload destinations, moves and chat scope
+export default function FolderSelect({
+  value,
+  onChange,
+  rootLabel = 'All documents',
+  excludeFolderId,
+  disabled,
+  className,
+  testId = 'select-folder',
+}: FolderSelectProps) {
+  const { flattened, getPath } = useFolders()
+
+  const options = excludeFolderId
+    ? flattened.filter(({ folder }) => !getPath(folder.id).some(ancestor => ancestor.id === excludeFolderId))
+    : flattened
+
+  return (
+    <Select
+      value={value || ROOT_VALUE}
+      onValueChange={(selected) => onChange(selected === ROOT_VALUE ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className || 'w-[220px]'} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[60]">
+        <SelectItem value={ROOT_VALUE}>{rootLabel}</SelectItem>
+        {options.map(({ folder, depth }) => (
+          <SelectItem key={folder.id} value={folder.id}>
+            <span className="flex items-center gap-2" style={{ paddingLeft: depth * 12 }}>
+              <FolderIcon className="w-3 h-3 text-muted-foreground" />
+              {folder.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,211 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Switch } from '@/components/ui/switch'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Check, RefreshCw, Wand2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  DEFAULT_PASSWORD_GENERATOR_OPTIONS,
+  generatePassword,
+  type CharacterClass,
+  type PasswordGeneratorOptions,
+} from '@shared/passwordGenerator'
+import { estimatePasswordStrength, PASSWORD_STRENGTH_LABELS } from '@shared/passwordStrength'
+
+const OPTIONS_KEY = 'zorli-password-generator'
+
+const CHARACTER_CLASS_LABELS: Record<CharacterClass, string> = {
+  lowercase: 'Lowercase (a-z)',
+  uppercase: 'Uppercase (A-Z)',
+  digits: 'Digits (0-9)',
+  symbols: 'Symbols (!@#$)',
+}
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-lime-500', 'bg-green-600']
+
+function loadOptions(): PasswordGeneratorOptions {
+  try {
+    const saved = localStorage.getItem(OPTIONS_KEY)
+    return saved ? { ...DEFAULT_PASSWORD_GENERATOR_OPTIONS, ...JSON.parse(saved) } : DEFAULT_PASSWORD_GENERATOR_OPTIONS
+  } catch {
+    return DEFAULT_PASSWORD_GENERATOR_OPTIONS
+  }
+}
+
+interface PasswordStrengthMeterProps {
+  password: string
+  userInputs?: Array<string | null | undefined> // Service name, username and website, scored as guessable
+}
+
+// Live strength of a password being typed, scored the same way the server scores it on save
+export function PasswordStrengthMeter({ password, userInputs = [] }: PasswordStrengthMeterProps) {
+  const inputsKey = userInputs.join('\n')
+  const strength = useMemo(() => estimatePasswordStrength(password, userInputs), [password, inputsKey])
+  if (!password) return null
+
+  return (
+    <div className="space-y-1" data-testid="password-strength">
+      <div className="flex gap-1">
+        {[0, 1, 2, 3, 4].map(level => (
+          <div
+            key={level}
+            className={cn('h-1.5 flex-1 rounded-full', level <= strength.score ? STRENGTH_COLORS[strength.score] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{PASSWORD_STRENGTH_LABELS[strength.score]}</span>
+        {strength.warning ? ` · ${strength.warning}` : ''}
+      </p>
+      {strength.suggestions.length > 0 && (
+        <p className="text-xs text-muted-foreground">{strength.suggestions[0]}</p>
+      )}
+    </div>
+  )
+}
+
+interface StrengthBadgeProps {
+  score: number | null
+}
+
+export function PasswordStrengthBadge({ score }: StrengthBadgeProps) {
+  if (score === null) return null
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground" data-testid="badge-strength">
+      <span className={cn('w-2 h-2 rounded-full', STRENGTH_COLORS[score])} />
+      {PASSWORD_STRENGTH_LABELS[score]}
+    </span>
+  )
+}
+
+interface PasswordGeneratorProps {
+  onUse: (password: string) => void
+}
+
+// Generator options remembered per browser; nothing generated leaves the page until it is used and saved
+export function PasswordGenerator({ onUse }: PasswordGeneratorProps) {
+  const [open, setOpen] = useState(false)
+  const [options, setOptions] = useState<PasswordGeneratorOptions>(loadOptions)
+  const [password, setPassword] = useState('')
+
+  const noClassSelected = options.mode === 'characters' && !options.lowercase && !options.uppercase && !options.digits && !options.symbols
+
+  useEffect(() => {
+    if (!open) return
+    localStorage.setItem(OPTIONS_KEY, JSON.stringify(options))
+    setPassword(noClassSelected ? '' : generatePassword(options))
+  }, [open, options, noClassSelected])
+
+  const update = (changes: Partial<PasswordGeneratorOptions>) => setOptions(current => ({ ...current, ...changes }))
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" title="Generate password" data-testid="button-generate-password">
+          <Wand2 className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <Tabs value={options.mode} onValueChange={mode => update({ mode: mode as PasswordGeneratorOptions['mode'] })}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="characters" data-testid="tab-generator-characters">Password</TabsTrigger>
+            <TabsTrigger value="passphrase" data-testid="tab-generator-passphrase">Passphrase</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <Input value={password} readOnly className="font-mono text-sm" data-testid="input-generated-password" />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => setPassword(generatePassword(options))}
+            disabled={noClassSelected}
+            title="Regenerate"
+            data-testid="button-regenerate-password"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+        <PasswordStrengthMeter password={password} />
+
+        {options.mode === 'characters' ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Length: {options.length}</Label>
+              <Slider
+                min={8}
+                max={64}
+                step={1}
+                value={[options.length]}
+                onValueChange={([length]) => update({ length })}
+                data-testid="slider-password-length"
+              />
+            </div>
+            {(Object.keys(CHARACTER_CLASS_LABELS) as CharacterClass[]).map(name => (
+              <div key={name} className="flex items-center justify-between">
+                <Label htmlFor={`generator-${name}`}>{CHARACTER_CLASS_LABELS[name]}</Label>
+                <Switch id={`generator-${name}`} checked={options[name]} onCheckedChange={checked => update({ [name]: checked })} />
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="generator-ambiguous">Avoid look-alikes (l, 1, O, 0)</Label>
+              <Switch id="generator-ambiguous" checked={options.excludeAmbiguous} onCheckedChange={excludeAmbiguous => update({ excludeAmbiguous })} />
+            </div>
+            {noClassSelected && <p className="text-xs text-destructive">Select at least one character class</p>}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Words: {options.words}</Label>
+              <Slider
+                min={3}
+                max={12}
+                step={1}
+                value={[options.words]}
+                onValueChange={([words]) => update({ words })}
+                data-testid="slider-passphrase-words"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="generator-separator">Separator</Label>
+              <Input
+                id="generator-separator"
+                value={options.separator}
+                maxLength={3}
+                onChange={(e) => update({ separator: e.target.value })}
+                className="w-16 text-center font-mono"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="generator-capitalize">Capitalize words</Label>
+              <Switch id="generator-capitalize" checked={options.capitalize} onCheckedChange={capitalize => update({ capitalize })} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="generator-number">Include a number</Label>
+              <Switch id="generator-number" checked={options.includeNumber} onCheckedChange={includeNumber => update({ includeNumber })} />
+            </div>
+          </div>
+        )}
+
+        <Button
+          type="button"
+          className="w-full"
+          disabled={!password}
+          onClick={() => {
+            onUse(password)
+            setOpen(false)
+          }}
+          data-testid="button-use-generated-password"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          Use Password
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Loader2, RefreshCw, Square, Play } from "lucide-react"
+import { auth } from '@/lib/auth'
+import { queryClient } from '@/lib/queryClient'
+import { useToast } from '@/hooks/use-toast'
+
+interface ReembedJob {
+  id: string
+  status: 'waiting' | 'active' | 'completed' | 'failed' | 'cancelled'
+  progress: number | null
+  error: string | null
+  createdAt: string | null
+  data: { provider: string; model: string; chunkSize: number; force: boolean }
+  result: {
+    totalDocuments: number
+    processedDocuments: number
+    reembeddedDocuments: number
+    skippedDocuments: number
+    chunksWritten: number
+    failures: Array<{ documentId: string; filename: string; error: string }>
+  } | null
+}
+
+interface ReembedStatus {
+  activeModel: { provider: string; model: string; dimension: number }
+  indexModels: Array<{ provider: string; model: string; dimension: number | null; count: number }>
+  jobs: ReembedJob[]
+}
+
+const adminFetch = async (url: string, method = 'GET', body?: unknown) => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...auth.getAuthHeaders(),
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || 'Request failed')
+  }
+  return result.data
+}
+
+const statusVariant = (status: ReembedJob['status']) =>
+  status === 'completed' ? 'default' : status === 'failed' ? 'destructive' : 'secondary'
+
+// Admin controls for rebuilding the vector index after an embedding model or chunk size change
+export default function ReembedJobPanel() {
+  const { toast } = useToast()
+  const [provider, setProvider] = useState<string>('current')
+  const [force, setForce] = useState(false)
+
+  const { data, isLoading } = useQuery<ReembedStatus>({
+    queryKey: ['/api/admin/reembed'],
+    queryFn: () => adminFetch('/api/admin/reembed'),
+    // Poll while a job is running so progress stays current
+    refetchInterval: (query) => {
+      const latest = query.state.data?.jobs[0]
+      return latest && (latest.status === 'waiting' || latest.status === 'active') ? 3000 : false
+    },
+  })
+
+  const jobAction = useMutation({
+    mutationFn: ({ url, body }: { url: string; body?: unknown }) => adminFetch(url, 'POST', body),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/admin/reembed'] }),
+    onError: (error) => {
+      toast({
+        title: "Re-embedding",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+        duration: 2300,
+      })
+    },
+  })
+
+  const latest = data?.jobs[0]
+  const isRunning = latest?.status === 'waiting' || latest?.status === 'active'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vector Index</CardTitle>
+        <CardDescription>
+          Re-embed every document after changing the embedding model or chunk size. Search keeps using the old vectors until each file is done.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        ) : (
+          <>
+            <div className="text-sm space-y-1">
+              <p>
+                Active model: <span className="font-medium">{data.activeModel.provider}/{data.activeModel.model}</span> ({data.activeModel.dimension} dimensions)
+              </p>
+              {data.indexModels.map((entry) => (
+                <p key={`${entry.provider}/${entry.model}`} className="text-muted-foreground">
+                  {entry.count} chunks embedded with {entry.provider}/{entry.model}
+                </p>
+              ))}
+            </div>
+
+            {latest && (
+              <div className="space-y-2 rounded-md border p-3" data-testid="reembed-latest-job">
+                <div className="flex items-center justify-between text-sm">
+                  <span>
+                    {latest.data.provider}/{latest.data.model}, {latest.data.chunkSize}-token chunks
+                  </span>
+                  <Badge variant={statusVariant(latest.status)}>{latest.status}</Badge>
+                </div>
+                <Progress value={latest.progress ?? 0} />
+                {latest.result && (
+                  <p className="text-xs text-muted-foreground">
+                    {latest.result.processedDocuments}/{latest.result.totalDocuments} documents processed
+                    · {latest.result.reembeddedDocuments} re-embedded
+                    · {latest.result.skippedDocuments} skipped
+                    · {latest.result.failures.length} failed
+                  </p>
+                )}
+                {latest.error && <p className="text-xs text-red-600">{latest.error}</p>}
+                <div className="flex gap-2">
+                  {isRunning && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={jobAction.isPending}
+                      onClick={() => jobAction.mutate({ url: `/api/admin/reembed/${latest.id}/cancel` })}
+                      data-testid="button-cancel-reembed"
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                  {(latest.status === 'failed' || latest.status === 'cancelled') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={jobAction.isPending}
+                      onClick={() => jobAction.mutate({ url: `/api/admin/reembed/${latest.id}/resume` })}
+                      data-testid="button-resume-reembed"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Resume
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={provider} onValueChange={setProvider} disabled={isRunning}>
+                <SelectTrigger className="w-[220px]" data-testid="select-reembed-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="current">Active model</SelectItem>
+                  <SelectItem value="openai">OpenAI</SelectItem>
+                  <SelectItem value="local">Local model</SelectItem>
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={force} onCheckedChange={(checked) => setForce(checked === true)} disabled={isRunning} />
+                Rebuild files already on this model
+              </label>
+              <Button
+                disabled={isRunning || jobAction.isPending}
+                onClick={() => jobAction.mutate({
+                  url: '/api/admin/reembed',
+                  body: { ...(provider !== 'current' ? { provider } : {}), force },
+                })}
+                data-testid="button-start-reembed"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Start re-embedding
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,57 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Tag as TagIcon } from "lucide-react"
+import { useTags } from '@/hooks/useTags'
+
+// Select has no empty-string values, so "no tag" gets a sentinel
+const ANY_VALUE = '__any__'
+
+interface TagSelectProps {
+  value: string | null
+  onChange: (tagId: string | null) => void
+  anyLabel?: string
+  disabled?: boolean
+  className?: string
+  testId?: string
+}
+
+// Tag picker used for the file filter and chat scope
+export default function TagSelect({
+  value,
+  onChange,
+  anyLabel = 'All tags',
+  disabled,
+  className,
+  testId = 'select-tag',
+}: TagSelectProps) {
+  const { tags } = useTags()
+
+  return (
+    <Select
+      value={value || ANY_VALUE}
+      onValueChange={(selected) => onChange(selected === ANY_VALUE ? null : selected)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className || 'w-[180px]'} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[60]">
+        <SelectItem value={ANY_VALUE}>{anyLabel}</SelectItem>
+        {tags.map(tag => (
+          <SelectItem key={tag.id} value={tag.id}>
+            <span className="flex items-center gap-2">
+              <TagIcon className="w-3 h-3 text-muted-foreground" />
+              {tag.name}
+              <span className="text-xs text-muted-foreground">{tag.documentCount}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { toast } from '@/hooks/use-toast'
+import { Loader2, RotateCcw, Trash2, X } from 'lucide-react'
+import { apiRequest } from '@/lib/queryClient'
+import { formatFileSize, formatDate } from '@/utils'
+
+interface TrashedFile {
+  id: string
+  filename: string
+  fileSize: number
+  deletedAt: string
+  purgeAt: string | null
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90]
+
+// Files moved to the trash, with restore, permanent delete, empty trash and the retention window
+export default function TrashBin() {
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [confirmEmpty, setConfirmEmpty] = useState(false)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/trash'],
+    enabled: open,
+  })
+
+  const files = ((data as any)?.data || []) as TrashedFile[]
+  const retentionDays = (data as any)?.retentionDays as number | undefined
+
+  const runAction = async (key: string, action: () => Promise<Response>, failure: string) => {
+    setBusy(key)
+    try {
+      const response = await action()
+      const result = await response.json()
+      queryClient.invalidateQueries({ queryKey: ['files'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
+      await queryClient.invalidateQueries({ queryKey: ['/api/trash'] })
+      if (result.message) {
+        toast({
+          title: result.message,
+          duration: 2300,
+        })
+      }
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+      setConfirmEmpty(false)
+    }
+  }
+
+  const restore = (file: TrashedFile) =>
+    runAction(`restore-${file.id}`, () => apiRequest('POST', '/api/trash/restore', { fileIds: [file.id] }), 'Restore failed')
+
+  const purge = (file: TrashedFile) =>
+    runAction(`purge-${file.id}`, () => apiRequest('DELETE', `/api/trash/${file.id}`), 'Delete failed')
+
+  const emptyTrash = () =>
+    runAction('empty', () => apiRequest('DELETE', '/api/trash'), 'Failed to empty trash')
+
+  const updateRetention = (value: string) =>
+    runAction('retention', () => apiRequest('PATCH', '/api/trash/settings', { retentionDays: Number(value) }), 'Failed to update retention')
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); setConfirmEmpty(false) }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-open-trash">
+          <Trash2 className="w-4 h-4 mr-2" />
+          Trash
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto" data-testid="trash-dialog">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted files can be restored until they are purged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Keep deleted files for</span>
+            <Select
+              value={retentionDays ? String(retentionDays) : undefined}
+              onValueChange={updateRetention}
+              disabled={busy !== null || retentionDays === undefined}
+            >
+              <SelectTrigger className="w-[110px] h-8" data-testid="select-trash-retention">
+                <SelectValue placeholder="…" />
+              </SelectTrigger>
+              <SelectContent className="z-[60]">
+                {Array.from(new Set([...RETENTION_OPTIONS, ...(retentionDays ? [retentionDays] : [])]))
+                  .sort((a, b) => a - b)
+                  .map(days => (
+                    <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {files.length > 0 && (
+            confirmEmpty ? (
+              <div className="flex items-center gap-2">
+                <span className="text-destructive">Delete {files.length} file(s) forever?</span>
+                <Button variant="destructive" size="sm" onClick={emptyTrash} disabled={busy !== null} data-testid="button-confirm-empty-trash">
+                  {busy === 'empty' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Empty'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setConfirmEmpty(false)} disabled={busy !== null}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => setConfirmEmpty(true)} disabled={busy !== null} data-testid="button-empty-trash">
+                Empty trash
+              </Button>
+            )
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : files.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Trash is empty</p>
+        ) : (
+          <div className="space-y-2">
+            {files.map(file => (
+              <div key={file.id} className="flex items-center gap-3 border rounded-lg p-3 text-sm" data-testid={`trashed-file-${file.id}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium" title={file.filename}>{file.filename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(file.fileSize)} • Deleted {formatDate(file.deletedAt)}
+                    {file.purgeAt && ` • Purged ${formatDate(file.purgeAt)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => restore(file)}
+                  disabled={busy !== null}
+                  title="Restore"
+                  data-testid={`button-restore-${file.id}`}
+                >
+                  {busy === `restore-${file.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => purge(file)}
+                  disabled={busy !== null}
+                  title="Delete forever"
+                  data-testid={`button-purge-${file.id}`}
+                >
+                  {busy === `purge-${file.id}` ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4 text-destructive" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
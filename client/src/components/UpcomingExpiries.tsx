@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { toast } from '@/hooks/use-toast'
+import { BellRing, Check, Loader2, Settings } from 'lucide-react'
+import { apiRequest } from '@/lib/queryClient'
+
+interface Reminder {
+  id: string
+  documentId: string
+  filename: string
+  kind: string
+  dueDate: string
+  label: string | null
+}
+
+interface ReminderSettings {
+  leadDays: number[]
+  emailsEnabled: boolean
+}
+
+const LEAD_DAY_OPTIONS = [90, 60, 30, 14, 7, 3, 1]
+const MAX_LEAD_TIMES = 5
+const WIDGET_LIMIT = 8
+
+export const daysUntil = (dueDate: string) => {
+  const today = new Date()
+  return Math.round((Date.parse(dueDate) - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / (24 * 60 * 60 * 1000))
+}
+
+export const describeDue = (dueDate: string) => {
+  const days = daysUntil(dueDate)
+  if (days < 0) return `Expired ${-days} day${days === -1 ? '' : 's'} ago`
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Tomorrow'
+  return `In ${days} days`
+}
+
+// Dashboard card with the documents that expire or need renewal next, and when reminder emails go out
+export default function UpcomingExpiries() {
+  const queryClient = useQueryClient()
+  const [busy, setBusy] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/reminders'],
+  })
+
+  const reminders = ((data as any)?.data || []).slice(0, WIDGET_LIMIT) as Reminder[]
+  const settings = (data as any)?.settings as ReminderSettings | undefined
+
+  const runAction = async (key: string, action: () => Promise<Response>, failure: string) => {
+    setBusy(key)
+    try {
+      await action()
+      await queryClient.invalidateQueries({ queryKey: ['/api/reminders'] })
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const dismiss = (reminder: Reminder) =>
+    runAction(reminder.id, () => apiRequest('PATCH', `/api/reminders/${reminder.id}`, { dismissed: true }), 'Failed to dismiss reminder')
+
+  const updateSettings = (changes: Partial<ReminderSettings>) =>
+    runAction('settings', () => apiRequest('PATCH', '/api/reminders/settings', changes), 'Failed to update reminder settings')
+
+  const toggleLeadDay = (days: number) => {
+    if (!settings) return
+    const leadDays = settings.leadDays.includes(days)
+      ? settings.leadDays.filter(lead => lead !== days)
+      : [...settings.leadDays, days]
+    if (leadDays.length > MAX_LEAD_TIMES) {
+      toast({
+        title: `Up to ${MAX_LEAD_TIMES} reminder times`,
+        duration: 2300,
+      })
+      return
+    }
+    updateSettings({ leadDays })
+  }
+
+  return (
+    <Card data-testid="upcoming-expiries">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="w-5 h-5 text-primary" />
+              Upcoming Expiries
+            </CardTitle>
+            <CardDescription>
+              Passports, policies, warranties and other documents that expire or renew soon
+            </CardDescription>
+          </div>
+          {settings && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" title="Reminder settings" data-testid="button-reminder-settings">
+                  <Settings className="w-4 h-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-72 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="reminder-emails">Email reminders</Label>
+                  <Switch
+                    id="reminder-emails"
+                    checked={settings.emailsEnabled}
+                    onCheckedChange={(emailsEnabled) => updateSettings({ emailsEnabled })}
+                    disabled={busy !== null}
+                    data-testid="switch-reminder-emails"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Send a reminder this many days before:</p>
+                  <div className="flex flex-wrap gap-1">
+                    {Array.from(new Set([...LEAD_DAY_OPTIONS, ...settings.leadDays]))
+                      .sort((a, b) => b - a)
+                      .map(days => (
+                        <Button
+                          key={days}
+                          variant={settings.leadDays.includes(days) ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2"
+                          onClick={() => toggleLeadDay(days)}
+                          disabled={busy !== null || !settings.emailsEnabled}
+                          data-testid={`button-lead-days-${days}`}
+                        >
+                          {days}d
+                        </Button>
+                      ))}
+                  </div>
+                </div>
+              </PopoverContent>
+            </Popover>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : reminders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No expiry dates yet. They are picked up from uploaded documents, or can be added from a file's preview.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {reminders.map(reminder => {
+              const days = daysUntil(reminder.dueDate)
+              return (
+                <div key={reminder.id} className="flex items-center gap-3 text-sm" data-testid={`reminder-${reminder.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{reminder.label || reminder.kind}</p>
+                    <p className="text-xs text-muted-foreground truncate" title={reminder.filename}>
+                      {reminder.filename} • {reminder.dueDate}
+                    </p>
+                  </div>
+                  <Badge variant={days < 0 || days <= 7 ? 'destructive' : days <= 30 ? 'default' : 'secondary'} className="whitespace-nowrap">
+                    {describeDue(reminder.dueDate)}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => dismiss(reminder)}
+                    disabled={busy !== null}
+                    title="Dismiss"
+                    data-testid={`button-dismiss-reminder-${reminder.id}`}
+                  >
+                    {busy === reminder.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -15,9 +15,10 @@ import { useQueryClient } from '@tanstack/react-query'
 interface UploadModalProps {
   onUploadComplete?: (files: any[]) => void
   trigger?: React.ReactNode
+  folderId?: string | null
 }
 
-export default function UploadModal({ onUploadComplete, trigger }: UploadModalProps) {
+export default function UploadModal({ onUploadComplete, trigger, folderId }: UploadModalProps) {
   const [isOpen, setIsOpen] = useState(false)
   const queryClient = useQueryClient()
 
@@ -52,6 +53,7 @@ export default function UploadModal({ onUploadComplete, trigger }: UploadModalPr
         <div className="mt-4">
           <FileUpload 
             onUploadComplete={handleUploadComplete}
+            folderId={folderId}
             maxFiles={10}
             maxSize={50 * 1024 * 1024} // 50MB
           />
@@ -0,0 +1,295 @@
+import { useMemo, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { toast } from '@/hooks/use-toast'
+import { AlertTriangle, Archive, Download, FileUp, Loader2, RotateCcw } from 'lucide-react'
+import { auth } from '@/lib/auth'
+import { PasswordStrengthMeter } from '@/components/PasswordGenerator'
+import { estimatePasswordStrength } from '@shared/passwordStrength'
+
+// The server refuses backup passphrases scoring below "fair" (MIN_BACKUP_PASSPHRASE_SCORE)
+const MIN_PASSPHRASE_SCORE = 2
+
+interface RestoreResult {
+  mode: 'merge' | 'replace'
+  added: number
+  updated: number
+  unchanged: number
+  removed: number
+  documents: number
+}
+
+async function download(url: string, body: unknown, fallbackName: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...auth.getAuthHeaders() },
+    body: JSON.stringify(body),
+  })
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}))
+    throw new Error(result.error || 'Export failed')
+  }
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || fallbackName
+  const objectUrl = URL.createObjectURL(await response.blob())
+  const a = document.createElement('a')
+  a.href = objectUrl
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(objectUrl)
+}
+
+function describeRestore(result: RestoreResult): string {
+  const parts = [`${result.added} added`]
+  if (result.mode === 'merge') {
+    parts.push(`${result.updated} updated`, `${result.unchanged} already up to date`)
+  } else {
+    parts.push(`${result.removed} removed`)
+  }
+  return parts.join(', ')
+}
+
+// Back up the password vault to a passphrase-encrypted file, restore from one, or export plaintext CSV after re-entering the account password
+export function VaultBackup() {
+  const queryClient = useQueryClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  const [busy, setBusy] = useState<'export' | 'restore' | 'csv' | null>(null)
+
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [includeDocuments, setIncludeDocuments] = useState(false)
+
+  const [backupFile, setBackupFile] = useState<File | null>(null)
+  const [restorePassphrase, setRestorePassphrase] = useState('')
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge')
+
+  const [accountPassword, setAccountPassword] = useState('')
+
+  const passphraseScore = useMemo(() => estimatePasswordStrength(passphrase).score, [passphrase])
+  const canExport = passphraseScore >= MIN_PASSPHRASE_SCORE && passphrase === confirmPassphrase
+
+  const reset = () => {
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setIncludeDocuments(false)
+    setBackupFile(null)
+    setRestorePassphrase('')
+    setRestoreMode('merge')
+    setAccountPassword('')
+  }
+
+  const run = async (action: 'export' | 'restore' | 'csv', task: () => Promise<void>, failure: string) => {
+    setBusy(action)
+    try {
+      await task()
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: 'destructive',
+        duration: 2300,
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const exportBackup = () => run('export', async () => {
+    await download('/api/credentials/export', { passphrase, includeDocuments }, 'zorli-vault.zvault')
+    toast({
+      title: 'Backup downloaded',
+      description: 'Keep the passphrase safe: without it the backup cannot be opened.',
+      duration: 2300,
+    })
+    setPassphrase('')
+    setConfirmPassphrase('')
+  }, 'Backup failed')
+
+  const restoreBackup = () => run('restore', async () => {
+    const formData = new FormData()
+    formData.append('file', backupFile!)
+    formData.append('passphrase', restorePassphrase)
+    formData.append('mode', restoreMode)
+    const response = await fetch('/api/credentials/restore', {
+      method: 'POST',
+      headers: auth.getAuthHeaders(),
+      body: formData,
+    })
+    const result = await response.json()
+    if (!response.ok) {
+      throw new Error(result.message || result.error || 'Restore failed')
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/credentials'] })
+    toast({
+      title: 'Backup restored',
+      description: describeRestore(result.data),
+      duration: 2300,
+    })
+    setOpen(false)
+    reset()
+  }, 'Restore failed')
+
+  const exportCsv = () => run('csv', async () => {
+    await download('/api/credentials/export/csv', { password: accountPassword }, 'zorli-passwords.csv')
+    setAccountPassword('')
+  }, 'Export failed')
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (!isOpen) reset() }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-vault-backup">
+          <Archive className="w-4 h-4 mr-2" />
+          Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup and Restore</DialogTitle>
+          <DialogDescription>
+            Keep a copy of your passwords outside Zorli, or bring one back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="export" data-testid="tab-backup-export">Back up</TabsTrigger>
+            <TabsTrigger value="restore" data-testid="tab-backup-restore">Restore</TabsTrigger>
+            <TabsTrigger value="csv" data-testid="tab-backup-csv">CSV</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Every password is encrypted with a passphrase you choose. Zorli does not keep it, so a forgotten passphrase means an unreadable backup.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase">Passphrase</Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                data-testid="input-backup-passphrase"
+              />
+              <PasswordStrengthMeter password={passphrase} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="backup-passphrase-confirm"
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                data-testid="input-backup-passphrase-confirm"
+              />
+              {confirmPassphrase && passphrase !== confirmPassphrase && (
+                <p className="text-xs text-destructive">Passphrases don't match</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="backup-documents" checked={includeDocuments} onCheckedChange={(checked) => setIncludeDocuments(checked === true)} />
+              <Label htmlFor="backup-documents" className="font-normal">Include a list of my documents (names, folders and tags, not the files)</Label>
+            </div>
+            <Button className="w-full" onClick={exportBackup} disabled={!canExport || busy !== null} data-testid="button-export-backup">
+              {busy === 'export' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Download Encrypted Backup
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="restore" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>Backup file</Label>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".zvault,application/json"
+                className="hidden"
+                onChange={(e) => setBackupFile(e.target.files?.[0] || null)}
+                data-testid="input-backup-file"
+              />
+              <Button type="button" variant="outline" className="w-full" onClick={() => inputRef.current?.click()}>
+                <FileUp className="w-4 h-4 mr-2" />
+                {backupFile ? backupFile.name : 'Choose a .zvault file'}
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restore-passphrase">Passphrase</Label>
+              <Input
+                id="restore-passphrase"
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                data-testid="input-restore-passphrase"
+              />
+            </div>
+            <RadioGroup value={restoreMode} onValueChange={(value) => setRestoreMode(value as 'merge' | 'replace')} className="space-y-2">
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="restore-merge" className="mt-1" />
+                <Label htmlFor="restore-merge" className="font-normal">
+                  <span className="font-medium">Merge</span> – add missing logins and take newer passwords from the backup
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="restore-replace" className="mt-1" />
+                <Label htmlFor="restore-replace" className="font-normal">
+                  <span className="font-medium">Replace</span> – delete every saved password and restore the backup's
+                </Label>
+              </div>
+            </RadioGroup>
+            {restoreMode === 'replace' && (
+              <p className="flex items-start gap-2 text-sm text-destructive">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                Passwords saved since this backup was made will be lost.
+              </p>
+            )}
+            <Button
+              className="w-full"
+              variant={restoreMode === 'replace' ? 'destructive' : 'default'}
+              onClick={restoreBackup}
+              disabled={!backupFile || !restorePassphrase || busy !== null}
+              data-testid="button-restore-backup"
+            >
+              {busy === 'restore' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+              Restore
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="csv" className="space-y-4 pt-2">
+            <p className="flex items-start gap-2 text-sm text-destructive">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              The CSV file holds every password unencrypted. Anyone who gets it can read them. Import it where you need it, then delete it.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="csv-account-password">Your Zorli account password</Label>
+              <Input
+                id="csv-account-password"
+                type="password"
+                value={accountPassword}
+                onChange={(e) => setAccountPassword(e.target.value)}
+                data-testid="input-csv-account-password"
+              />
+            </div>
+            <Button className="w-full" variant="outline" onClick={exportCsv} disabled={!accountPassword || busy !== null} data-testid="button-export-csv">
+              {busy === 'csv' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              Download Plaintext CSV
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
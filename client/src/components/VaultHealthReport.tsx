@@ -0,0 +1,219 @@
+import type { ReactNode } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { CopyX, Clock, Loader2, ShieldAlert, ShieldCheck, ShieldX, Wrench } from 'lucide-react'
+import { apiRequest } from '@/lib/queryClient'
+import { PasswordStrengthBadge } from '@/components/PasswordGenerator'
+
+interface HealthCredential {
+  id: string
+  serviceName: string
+  username: string
+  website: string | null
+  category: string | null
+  passwordStrength: number | null
+  breachCount: number | null
+  updatedAt: string | null
+  lastUsed: string | null
+}
+
+interface VaultHealthReportData {
+  total: number
+  healthy: number
+  unreadable: number
+  breached: HealthCredential[]
+  reused: Array<{ groupId: number; credentials: HealthCredential[] }>
+  weak: HealthCredential[]
+  stale: Array<HealthCredential & { lastTouched: string | null; daysSinceTouched: number }>
+}
+
+interface VaultHealthReportProps {
+  onFix: (credentialId: string) => void
+}
+
+function formatAge(days: number): string {
+  const years = Math.floor(days / 365)
+  const months = Math.floor((days % 365) / 30)
+  const parts = [years > 0 && `${years} year${years !== 1 ? 's' : ''}`, months > 0 && `${months} month${months !== 1 ? 's' : ''}`]
+  return parts.filter(Boolean).join(' ') || `${days} days`
+}
+
+function CredentialRow({ credential, detail, onFix }: { credential: HealthCredential; detail: ReactNode; onFix: (id: string) => void }) {
+  return (
+    <div className="flex items-center justify-between gap-3 py-2" data-testid={`health-credential-${credential.id}`}>
+      <div className="min-w-0">
+        <p className="font-medium truncate">{credential.serviceName}</p>
+        <p className="text-sm text-muted-foreground truncate">{credential.username}</p>
+      </div>
+      <div className="flex items-center gap-3 flex-shrink-0">
+        {detail}
+        <Button variant="outline" size="sm" onClick={() => onFix(credential.id)} data-testid={`button-fix-${credential.id}`}>
+          <Wrench className="w-3 h-3 mr-1" />
+          Fix
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Reused, weak and stale credentials from the server's health report, each with a shortcut to edit it
+export function VaultHealthReport({ onFix }: VaultHealthReportProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['/api/credentials', 'health'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', '/api/credentials/health')
+      return res.json()
+    },
+  })
+
+  const report = (data as any)?.data as VaultHealthReportData | undefined
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Checking your vault...
+      </div>
+    )
+  }
+
+  if (error || !report) {
+    return <p className="text-center py-12 text-destructive">Failed to build the health report</p>
+  }
+
+  const reusedCount = report.reused.reduce((total, group) => total + group.credentials.length, 0)
+  const healthyPercent = report.total > 0 ? Math.round((report.healthy / report.total) * 100) : 100
+
+  return (
+    <div className="space-y-6" data-testid="vault-health-report">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {healthyPercent === 100 ? <ShieldCheck className="w-5 h-5 text-green-600" /> : <ShieldAlert className="w-5 h-5 text-orange-500" />}
+            Vault Health
+          </CardTitle>
+          <CardDescription>
+            {report.healthy} of {report.total} credential{report.total !== 1 ? 's' : ''} have no issues
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Progress value={healthyPercent} />
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-bold" data-testid="text-breached-count">{report.breached.length}</p>
+              <p className="text-sm text-muted-foreground">Breached</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold" data-testid="text-reused-count">{reusedCount}</p>
+              <p className="text-sm text-muted-foreground">Reused</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold" data-testid="text-weak-count">{report.weak.length}</p>
+              <p className="text-sm text-muted-foreground">Weak</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold" data-testid="text-stale-count">{report.stale.length}</p>
+              <p className="text-sm text-muted-foreground">Over a year old</p>
+            </div>
+          </div>
+          {report.unreadable > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {report.unreadable} credential{report.unreadable !== 1 ? 's' : ''} could not be decrypted and {report.unreadable !== 1 ? 'were' : 'was'} left out of the reuse check.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.breached.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldX className="w-4 h-4 text-destructive" />
+              Found in data breaches
+            </CardTitle>
+            <CardDescription>These passwords appear in leaked password lists that attackers try first. Change them now.</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {report.breached.map(credential => (
+              <CredentialRow
+                key={credential.id}
+                credential={credential}
+                detail={<Badge variant="destructive">Seen {credential.breachCount!.toLocaleString()} time{credential.breachCount !== 1 ? 's' : ''}</Badge>}
+                onFix={onFix}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report.reused.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <CopyX className="w-4 h-4" />
+              Reused passwords
+            </CardTitle>
+            <CardDescription>One leaked password opens every account that shares it. Give each account its own.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {report.reused.map(group => (
+              <div key={group.groupId} className="rounded-md border px-3 divide-y" data-testid={`reused-group-${group.groupId}`}>
+                <p className="py-2 text-sm text-muted-foreground">Same password on {group.credentials.length} accounts</p>
+                {group.credentials.map(credential => (
+                  <CredentialRow key={credential.id} credential={credential} detail={null} onFix={onFix} />
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report.weak.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <ShieldAlert className="w-4 h-4" />
+              Weak passwords
+            </CardTitle>
+            <CardDescription>These would fall quickly to a guessing attack. Replace them with generated ones.</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {report.weak.map(credential => (
+              <CredentialRow
+                key={credential.id}
+                credential={credential}
+                detail={<PasswordStrengthBadge score={credential.passwordStrength} />}
+                onFix={onFix}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {report.stale.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Untouched for over a year
+            </CardTitle>
+            <CardDescription>Neither used nor changed in over a year. Change the password, or delete accounts you no longer need.</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {report.stale.map(credential => (
+              <CredentialRow
+                key={credential.id}
+                credential={credential}
+                detail={<Badge variant="secondary">{formatAge(credential.daysSinceTouched)}</Badge>}
+                onFix={onFix}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
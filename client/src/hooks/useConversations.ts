@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { auth } from '@/lib/auth'
+import { apiRequest } from '@/lib/queryClient'
+
+export interface Conversation {
+  id: string
+  userId: string
+  title: string
+  isArchived: boolean | null
+  lastMessageAt: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+// Shared by the floating chatbot and the Smart Finder page so both open the same thread
+export const getActiveConversationKey = (userId: string) => `zorli-ai-active-conversation-${userId}`
+
+export function useConversations() {
+  const currentUser = auth.getCurrentUser()
+  const userId = currentUser?.id
+  const queryClient = useQueryClient()
+  const ACTIVE_KEY = userId ? getActiveConversationKey(userId) : 'zorli-ai-active-conversation-guest'
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/conversations'],
+    enabled: auth.isAuthenticated(),
+  })
+
+  // Archived threads share the query key prefix so a single invalidation refreshes both lists
+  const { data: archivedData } = useQuery({
+    queryKey: ['/api/conversations', 'archived'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/conversations?archived=true')
+      return response.json()
+    },
+    enabled: auth.isAuthenticated(),
+  })
+
+  const conversations = ((data as any)?.data || []) as Conversation[]
+  const archivedConversations = ((archivedData as any)?.data || []) as Conversation[]
+
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem(ACTIVE_KEY)
+    } catch {
+      return null
+    }
+  })
+
+  const selectConversation = useCallback((id: string | null) => {
+    setActiveConversationId(id)
+    try {
+      if (id) {
+        localStorage.setItem(ACTIVE_KEY, id)
+      } else {
+        localStorage.removeItem(ACTIVE_KEY)
+      }
+    } catch (error) {
+      console.warn('Failed to persist active conversation:', error)
+    }
+  }, [ACTIVE_KEY])
+
+  // Fall back to the most recent thread when the stored one was deleted or archived
+  useEffect(() => {
+    if (isLoading || !data) return
+    if (activeConversationId && conversations.some(c => c.id === activeConversationId)) return
+    selectConversation(conversations[0]?.id || null)
+  }, [data, isLoading, activeConversationId])
+
+  const refresh = useCallback(() => {
+    return queryClient.invalidateQueries({ queryKey: ['/api/conversations'] })
+  }, [queryClient])
+
+  const createConversation = useCallback(async (title?: string): Promise<Conversation> => {
+    const response = await apiRequest('POST', '/api/conversations', title ? { title } : {})
+    const result = await response.json()
+    const conversation = result.data as Conversation
+    // Seed the cache so the fallback effect doesn't deselect the new thread before the refetch lands
+    queryClient.setQueryData(['/api/conversations'], (old: any) => ({
+      ...(old || { success: true }),
+      data: [conversation, ...((old?.data as Conversation[]) || [])],
+    }))
+    selectConversation(conversation.id)
+    refresh()
+    return conversation
+  }, [queryClient, selectConversation, refresh])
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    await apiRequest('PATCH', `/api/conversations/${id}`, { title })
+    await refresh()
+  }, [refresh])
+
+  const archiveConversation = useCallback(async (id: string, isArchived: boolean = true) => {
+    await apiRequest('PATCH', `/api/conversations/${id}`, { isArchived })
+    await refresh()
+  }, [refresh])
+
+  const deleteConversation = useCallback(async (id: string) => {
+    await apiRequest('DELETE', `/api/conversations/${id}`)
+    if (userId) {
+      localStorage.removeItem(`zorli-ai-chat-history-${userId}-${id}`)
+    }
+    await refresh()
+  }, [refresh, userId])
+
+  return {
+    conversations,
+    archivedConversations,
+    isLoading,
+    activeConversationId,
+    activeConversation: conversations.find(c => c.id === activeConversationId) || null,
+    selectConversation,
+    createConversation,
+    renameConversation,
+    archiveConversation,
+    deleteConversation,
+    refresh,
+  }
+}
@@ -0,0 +1,116 @@
+import { useCallback, useMemo } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { auth } from '@/lib/auth'
+import { apiRequest } from '@/lib/queryClient'
+
+export interface Folder {
+  id: string
+  userId: string
+  parentId: string | null
+  name: string
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+// Folder tree for the vault, shared by the file manager, upload destination and chat scope pickers
+export function useFolders() {
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/folders'],
+    enabled: auth.isAuthenticated(),
+  })
+
+  const folders = ((data as any)?.data || []) as Folder[]
+  const byId = useMemo(() => new Map(folders.map(folder => [folder.id, folder])), [folders])
+
+  const getChildren = useCallback((parentId: string | null) => {
+    return folders.filter(folder => (folder.parentId || null) === parentId)
+  }, [folders])
+
+  // Breadcrumb from the top-level folder down to the given folder
+  const getPath = useCallback((folderId: string | null): Folder[] => {
+    const path: Folder[] = []
+    let current = folderId ? byId.get(folderId) : undefined
+    while (current && path.length <= byId.size) {
+      path.unshift(current)
+      current = current.parentId ? byId.get(current.parentId) : undefined
+    }
+    return path
+  }, [byId])
+
+  // Every folder in tree order with its depth, for indented pickers
+  const flattened = useMemo(() => {
+    const result: Array<{ folder: Folder; depth: number }> = []
+    const visit = (parentId: string | null, depth: number) => {
+      for (const folder of getChildren(parentId)) {
+        result.push({ folder, depth })
+        visit(folder.id, depth + 1)
+      }
+    }
+    visit(null, 0)
+    return result
+  }, [getChildren])
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['files'] })
+    return queryClient.invalidateQueries({ queryKey: ['/api/folders'] })
+  }, [queryClient])
+
+  const createFolder = useCallback(async (name: string, parentId: string | null): Promise<Folder> => {
+    const response = await apiRequest('POST', '/api/folders', { name, parentId })
+    const result = await response.json()
+    await refresh()
+    return result.data as Folder
+  }, [refresh])
+
+  const renameFolder = useCallback(async (id: string, name: string) => {
+    await apiRequest('PATCH', `/api/folders/${id}`, { name })
+    await refresh()
+  }, [refresh])
+
+  const moveFolder = useCallback(async (id: string, parentId: string | null) => {
+    await apiRequest('PATCH', `/api/folders/${id}`, { parentId })
+    await refresh()
+  }, [refresh])
+
+  const deleteFolder = useCallback(async (id: string, deleteFiles: boolean = false) => {
+    await apiRequest('DELETE', `/api/folders/${id}${deleteFiles ? '?deleteFiles=true' : ''}`)
+    if (deleteFiles) {
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
+    }
+    await refresh()
+  }, [queryClient, refresh])
+
+  const moveFiles = useCallback(async (fileIds: string[], folderId: string | null) => {
+    await apiRequest('POST', '/api/files/move', { fileIds, folderId })
+    await refresh()
+  }, [refresh])
+
+  return {
+    folders,
+    flattened,
+    isLoading,
+    getFolder: (id: string | null) => (id ? byId.get(id) || null : null),
+    getChildren,
+    getPath,
+    createFolder,
+    renameFolder,
+    moveFolder,
+    deleteFolder,
+    moveFiles,
+    refresh,
+  }
+}
+
+// apiRequest errors read "409: {json}"; pull out the server's message for toasts
+export function folderErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback
+  const body = error.message.replace(/^\d+:\s*/, '')
+  try {
+    return JSON.parse(body).error || fallback
+  } catch {
+    return body || fallback
+  }
+}
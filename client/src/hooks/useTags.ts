@@ -0,0 +1,82 @@
+import { useCallback } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { auth } from '@/lib/auth'
+import { apiRequest } from '@/lib/queryClient'
+
+export interface Tag {
+  id: string
+  userId: string
+  name: string
+  documentCount: number
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+// The user's tags plus tagging of files and decisions on suggested tags
+export function useTags() {
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/tags'],
+    enabled: auth.isAuthenticated(),
+  })
+
+  const tags = ((data as any)?.data || []) as Tag[]
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['files'] })
+    return queryClient.invalidateQueries({ queryKey: ['/api/tags'] })
+  }, [queryClient])
+
+  const createTag = useCallback(async (name: string): Promise<Tag> => {
+    const response = await apiRequest('POST', '/api/tags', { name })
+    const result = await response.json()
+    await refresh()
+    return result.data as Tag
+  }, [refresh])
+
+  const renameTag = useCallback(async (id: string, name: string) => {
+    await apiRequest('PATCH', `/api/tags/${id}`, { name })
+    await refresh()
+  }, [refresh])
+
+  const deleteTag = useCallback(async (id: string) => {
+    await apiRequest('DELETE', `/api/tags/${id}`)
+    await refresh()
+  }, [refresh])
+
+  // Tag a file with an existing tag, or by name to create the tag on the fly
+  const addTagToFile = useCallback(async (fileId: string, tag: { tagId: string } | { name: string }) => {
+    await apiRequest('POST', `/api/files/${fileId}/tags`, tag)
+    await refresh()
+  }, [refresh])
+
+  const removeTagFromFile = useCallback(async (fileId: string, tagId: string) => {
+    await apiRequest('DELETE', `/api/files/${fileId}/tags/${tagId}`)
+    await refresh()
+  }, [refresh])
+
+  const acceptSuggestion = useCallback(async (fileId: string, suggestionId: string) => {
+    await apiRequest('POST', `/api/files/${fileId}/tag-suggestions/${suggestionId}/accept`)
+    await refresh()
+  }, [refresh])
+
+  const rejectSuggestion = useCallback(async (fileId: string, suggestionId: string) => {
+    await apiRequest('POST', `/api/files/${fileId}/tag-suggestions/${suggestionId}/reject`)
+    await refresh()
+  }, [refresh])
+
+  return {
+    tags,
+    isLoading,
+    getTag: (id: string | null) => (id ? tags.find(tag => tag.id === id) || null : null),
+    createTag,
+    renameTag,
+    deleteTag,
+    addTagToFile,
+    removeTagFromFile,
+    acceptSuggestion,
+    rejectSuggestion,
+    refresh,
+  }
+}
@@ -171,7 +171,11 @@ class AuthManager {
     
     // Clear user-specific chat history to prevent data leakage
     if (userId) {
-      localStorage.removeItem(`zorli-ai-chat-history-${userId}`);
+      // Each conversation thread is cached under its own key
+      Object.keys(localStorage)
+        .filter(key => key.startsWith(`zorli-ai-chat-history-${userId}`))
+        .forEach(key => localStorage.removeItem(key));
+      localStorage.removeItem(`zorli-ai-active-conversation-${userId}`);
     }
     
     this.setState({
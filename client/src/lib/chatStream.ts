@@ -0,0 +1,145 @@
+import { auth } from './auth'
+
+export interface ChatCitation {
+  index: number // Matches the [n] markers in the answer text
+  documentId: string
+  filename: string
+  sourceType: string
+  relevanceScore: number
+  preview: string
+  chunkId: string | null
+  chunkIndex: number | null
+  startOffset: number | null
+  endOffset: number | null
+  pageNumber: number | null
+  startTime: number | null // Seconds into an audio or video recording
+  cells: string | null // A1 references of the spreadsheet cells a table query result was computed from
+}
+
+export interface ChatUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ChatStreamResult {
+  message: string
+  files: any[]
+  citations: ChatCitation[]
+  hasRelevantContent: boolean
+  usage: ChatUsage | null
+}
+
+export interface ChatStreamHandlers {
+  onSources?: (sources: { citations: ChatCitation[]; hasRelevantContent: boolean }) => void
+  onToken?: (token: string) => void
+}
+
+// Error thrown when the server rejects the chat request before streaming starts (limits, validation)
+export class ChatRequestError extends Error {
+  status: number
+  data: any
+
+  constructor(status: number, data: any) {
+    super(data?.error || `HTTP error! status: ${status}`)
+    this.status = status
+    this.data = data
+  }
+}
+
+/**
+ * Send a chat message to /api/ai/chat in streaming mode and parse the Server-Sent Events
+ * Resolves with the payload of the final `done` event
+ */
+export async function streamChat(
+  body: { message: string; conversation?: Array<{ role: string; content: string }>; folderId?: string; tagId?: string },
+  handlers: ChatStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<ChatStreamResult> {
+  const response = await fetch('/api/ai/chat', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...auth.getAuthHeaders()
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  })
+
+  // Limit and validation errors are still returned as plain JSON
+  if (!response.ok || !response.headers.get('content-type')?.includes('text/event-stream')) {
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new ChatRequestError(response.status, data)
+    }
+    return {
+      message: data.message,
+      files: data.files || [],
+      citations: data.citations || [],
+      hasRelevantContent: !!data.hasRelevantContent,
+      usage: null
+    }
+  }
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let result: ChatStreamResult | null = null
+
+  const handleFrame = (frame: string) => {
+    let event = 'message'
+    const dataLines: string[] = []
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+    if (dataLines.length === 0) return
+
+    const data = JSON.parse(dataLines.join('\n'))
+    switch (event) {
+      case 'sources':
+        handlers.onSources?.(data)
+        break
+      case 'token':
+        handlers.onToken?.(data.content)
+        break
+      case 'done':
+        result = data
+        break
+      case 'error':
+        throw new Error(data.error || 'Failed to process chat request')
+    }
+  }
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        handleFrame(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+      }
+    }
+  } catch (error) {
+    // An error frame or unreadable frame ends the answer; release the connection instead of leaving it open
+    reader.cancel().catch(() => {})
+    throw error
+  }
+
+  if (!result) {
+    throw new Error('Chat stream ended unexpectedly')
+  }
+  return result
+}
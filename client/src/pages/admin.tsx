@@ -27,6 +27,7 @@ import { useQuery, useMutation } from '@tanstack/react-query'
 import { apiRequest, queryClient } from '@/lib/queryClient'
 import { useToast } from '@/hooks/use-toast'
 import { useProfilePictureUrl } from '@/hooks/useProfilePictureUrl'
+import ReembedJobPanel from '@/components/ReembedJobPanel'
 import vaultLogo from '@assets/generated_images/zorli-vault-logo.png'
 import { 
   AlertDialog,
@@ -599,6 +600,9 @@ export default function AdminDashboard() {
             </div>
           </div>
 
+          {/* Vector index maintenance */}
+          <ReembedJobPanel />
+
           {/* Users Table */}
           <Card>
             <CardHeader>
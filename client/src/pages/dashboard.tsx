@@ -24,6 +24,7 @@ import {
 import { auth } from '@/lib/auth'
 import UploadModal from '@/components/UploadModal'
 import FileManager from '@/components/FileManager'
+import UpcomingExpiries from '@/components/UpcomingExpiries'
 import AIChatbot from '@/components/AIChatbot'
 import { useQuery } from '@tanstack/react-query'
 import { useProfilePictureUrl } from '@/hooks/useProfilePictureUrl'
@@ -508,6 +509,11 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Upcoming Expiries */}
+        <div className="mb-8">
+          <UpcomingExpiries />
+        </div>
+
         {/* File Management */}
         <FileManager key={uploadCount} />
       </div>
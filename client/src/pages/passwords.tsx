@@ -22,11 +22,18 @@ import {
   CheckCircle2,
   ArrowLeft,
   CheckSquare,
-  Loader2
+  Loader2,
+  ShieldAlert
 } from 'lucide-react';
 import { auth } from '@/lib/auth';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { PasswordGenerator, PasswordStrengthMeter, PasswordStrengthBadge } from '@/components/PasswordGenerator';
+import { VaultHealthReport } from '@/components/VaultHealthReport';
+import { CredentialImport } from '@/components/CredentialImport';
+import { VaultBackup } from '@/components/VaultBackup';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -56,10 +63,14 @@ interface AccountCredential {
   website: string | null;
   notes: string | null;
   category: string | null;
+  passwordStrength: number | null; // 0-4, scored by the server when the password is saved
+  breachCount: number | null; // Times seen in the breach corpus; null until checked
   createdAt: string;
   updatedAt: string;
 }
 
+type CredentialSort = 'updated' | 'name' | 'weakest';
+
 export default function PasswordsPage() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
@@ -73,6 +84,9 @@ export default function PasswordsPage() {
   const [selectedCredentials, setSelectedCredentials] = useState<string[]>([]);
   const [batchDeleteDialogOpen, setBatchDeleteDialogOpen] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [sort, setSort] = useState<CredentialSort>('updated');
+  const [weakOnly, setWeakOnly] = useState(false);
+  const [view, setView] = useState<'credentials' | 'health'>('credentials');
   
   const [formData, setFormData] = useState({
     serviceName: '',
@@ -102,9 +116,15 @@ export default function PasswordsPage() {
     }
   }, [authState.isLoading, authState.isAuthenticated, navigate]);
 
-  // Fetch all credentials
+  // Fetch credentials; sorting and the weak filter use the strength scores stored on the server
   const { data: credentialsData, isLoading: credentialsLoading } = useQuery({
-    queryKey: ['/api/credentials'],
+    queryKey: ['/api/credentials', sort, weakOnly],
+    queryFn: async () => {
+      const params = new URLSearchParams({ sort });
+      if (weakOnly) params.set('weak', 'true');
+      const res = await apiRequest('GET', `/api/credentials?${params}`);
+      return res.json();
+    },
     enabled: !!user,
   });
 
@@ -228,6 +248,21 @@ export default function PasswordsPage() {
     setEditDialogOpen(true);
   };
 
+  // Opens the edit dialog for a credential flagged in the health report
+  const handleFix = async (credentialId: string) => {
+    try {
+      const res = await apiRequest('GET', `/api/credentials/${credentialId}`);
+      handleEdit(await res.json());
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load credential',
+        variant: 'destructive',
+        duration: 2300,
+      });
+    }
+  };
+
   const handleUpdate = () => {
     if (selectedCredential) {
       // Only include password if it was changed
@@ -422,283 +457,337 @@ export default function PasswordsPage() {
           </p>
         </div>
 
-        {/* Search and Create */}
-        <Card>
-          <CardHeader>
-            <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
-              <div className="flex-1 w-full">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search credentials..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10"
-                    data-testid="input-search"
-                  />
-                </div>
-              </div>
-              <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button data-testid="button-add-credential">
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Credential
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
-                  <DialogHeader>
-                    <DialogTitle>Add New Credential</DialogTitle>
-                    <DialogDescription>
-                      Store a new account credential securely
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="serviceName">Service Name *</Label>
-                      <Input
-                        id="serviceName"
-                        placeholder="e.g., Gmail, Netflix"
-                        value={formData.serviceName}
-                        onChange={(e) => setFormData({ ...formData, serviceName: e.target.value })}
-                        data-testid="input-service-name"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="username">Username/Email *</Label>
-                      <Input
-                        id="username"
-                        placeholder="username@example.com"
-                        value={formData.username}
-                        onChange={(e) => setFormData({ ...formData, username: e.target.value })}
-                        data-testid="input-username"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="password">Password *</Label>
-                      <Input
-                        id="password"
-                        type="password"
-                        placeholder="Enter password"
-                        value={formData.password}
-                        onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                        data-testid="input-password"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="website">Website</Label>
-                      <Input
-                        id="website"
-                        placeholder="https://example.com (optional)"
-                        value={formData.website}
-                        onChange={(e) => setFormData({ ...formData, website: e.target.value })}
-                        data-testid="input-website"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="category">Category</Label>
+        <Tabs value={view} onValueChange={(value) => setView(value as 'credentials' | 'health')}>
+          <TabsList>
+            <TabsTrigger value="credentials" data-testid="tab-credentials">Passwords</TabsTrigger>
+            <TabsTrigger value="health" data-testid="tab-health">Health</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {view === 'health' ? (
+          <VaultHealthReport onFix={handleFix} />
+        ) : (
+          <>
+            {/* Search and Create */}
+            <Card>
+              <CardHeader>
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mb-4">
+                  <div className="flex-1 w-full">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                       <Input
-                        id="category"
-                        placeholder="e.g., Social, Work, Finance (optional)"
-                        value={formData.category}
-                        onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                        data-testid="input-category"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="notes">Notes</Label>
-                      <Textarea
-                        id="notes"
-                        placeholder="Additional notes (optional)"
-                        value={formData.notes}
-                        onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                        data-testid="input-notes"
+                        placeholder="Search credentials..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="pl-10"
+                        data-testid="input-search"
                       />
                     </div>
                   </div>
-                  <DialogFooter>
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setCreateDialogOpen(false);
-                        resetForm();
-                      }}
-                      data-testid="button-cancel-create"
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      onClick={handleCreate}
-                      disabled={!formData.serviceName || !formData.username || !formData.password || createCredential.isPending}
-                      data-testid="button-save-credential"
-                    >
-                      {createCredential.isPending ? 'Saving...' : 'Save Credential'}
-                    </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
-            </div>
-            {filteredCredentials.length > 0 && (
-              <div className="flex items-center gap-2 flex-wrap">
-                <Button
-                  variant={selectionMode ? "default" : "outline"}
-                  size="sm"
-                  onClick={toggleSelectionMode}
-                  data-testid="button-select"
-                >
-                  <CheckSquare className="w-4 h-4 mr-2" />
-                  Select
-                </Button>
-                {selectionMode && (
-                  <>
+                  <VaultBackup />
+                  <CredentialImport />
+                  <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button data-testid="button-add-credential">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Credential
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                      <DialogHeader>
+                        <DialogTitle>Add New Credential</DialogTitle>
+                        <DialogDescription>
+                          Store a new account credential securely
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="serviceName">Service Name *</Label>
+                          <Input
+                            id="serviceName"
+                            placeholder="e.g., Gmail, Netflix"
+                            value={formData.serviceName}
+                            onChange={(e) => setFormData({ ...formData, serviceName: e.target.value })}
+                            data-testid="input-service-name"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="username">Username/Email *</Label>
+                          <Input
+                            id="username"
+                            placeholder="username@example.com"
+                            value={formData.username}
+                            onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                            data-testid="input-username"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="password">Password *</Label>
+                          <div className="flex items-center gap-2">
+                            <Input
+                              id="password"
+                              type="password"
+                              placeholder="Enter password"
+                              value={formData.password}
+                              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                              data-testid="input-password"
+                            />
+                            <PasswordGenerator onUse={(password) => setFormData({ ...formData, password })} />
+                          </div>
+                          <PasswordStrengthMeter
+                            password={formData.password}
+                            userInputs={[formData.serviceName, formData.username, formData.website]}
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="website">Website</Label>
+                          <Input
+                            id="website"
+                            placeholder="https://example.com (optional)"
+                            value={formData.website}
+                            onChange={(e) => setFormData({ ...formData, website: e.target.value })}
+                            data-testid="input-website"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="category">Category</Label>
+                          <Input
+                            id="category"
+                            placeholder="e.g., Social, Work, Finance (optional)"
+                            value={formData.category}
+                            onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                            data-testid="input-category"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="notes">Notes</Label>
+                          <Textarea
+                            id="notes"
+                            placeholder="Additional notes (optional)"
+                            value={formData.notes}
+                            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                            data-testid="input-notes"
+                          />
+                        </div>
+                      </div>
+                      <DialogFooter>
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setCreateDialogOpen(false);
+                            resetForm();
+                          }}
+                          data-testid="button-cancel-create"
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          onClick={handleCreate}
+                          disabled={!formData.serviceName || !formData.username || !formData.password || createCredential.isPending}
+                          data-testid="button-save-credential"
+                        >
+                          {createCredential.isPending ? 'Saving...' : 'Save Credential'}
+                        </Button>
+                      </DialogFooter>
+                    </DialogContent>
+                  </Dialog>
+                </div>
+                {(filteredCredentials.length > 0 || weakOnly) && (
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Select value={sort} onValueChange={(value) => setSort(value as CredentialSort)}>
+                      <SelectTrigger className="w-[170px] h-9" data-testid="select-sort">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="updated">Recently updated</SelectItem>
+                        <SelectItem value="name">Name</SelectItem>
+                        <SelectItem value="weakest">Weakest first</SelectItem>
+                      </SelectContent>
+                    </Select>
                     <Button
-                      variant="ghost"
+                      variant={weakOnly ? "default" : "outline"}
                       size="sm"
-                      onClick={toggleSelectAll}
-                      data-testid="button-select-all"
+                      onClick={() => setWeakOnly(!weakOnly)}
+                      data-testid="button-filter-weak"
                     >
-                      {selectedCredentials.length === filteredCredentials.length ? 'Deselect All' : 'Select All'}
+                      <ShieldAlert className="w-4 h-4 mr-2" />
+                      Weak only
                     </Button>
                     <Button
-                      variant="destructive"
+                      variant={selectionMode ? "default" : "outline"}
                       size="sm"
-                      onClick={handleBatchDelete}
-                      disabled={selectedCredentials.length === 0}
-                      data-testid="button-delete-selected"
+                      onClick={toggleSelectionMode}
+                      data-testid="button-select"
                     >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete Selected ({selectedCredentials.length})
+                      <CheckSquare className="w-4 h-4 mr-2" />
+                      Select
                     </Button>
-                  </>
-                )}
-                <Badge variant="secondary">{filteredCredentials.length} password{filteredCredentials.length !== 1 ? 's' : ''}</Badge>
-              </div>
-            )}
-          </CardHeader>
-        </Card>
-
-        {/* Credentials List */}
-        <div>
-          {credentialsLoading ? (
-            <div className="text-center py-12">
-              <p className="text-muted-foreground">Loading credentials...</p>
-            </div>
-          ) : filteredCredentials.length === 0 ? (
-            <Card>
-              <CardContent className="flex flex-col items-center justify-center py-12">
-                <Lock className="w-12 h-12 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No credentials found</h3>
-                <p className="text-muted-foreground text-center max-w-md mb-4">
-                  {searchQuery ? 'No credentials match your search.' : 'Start by adding your first credential to the vault.'}
-                </p>
-                {!searchQuery && (
-                  <Button onClick={() => setCreateDialogOpen(true)} data-testid="button-add-first-credential">
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Your First Credential
-                  </Button>
-                )}
-              </CardContent>
-            </Card>
-          ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredCredentials.map((credential) => (
-                <Card key={credential.id} className="hover-elevate flex flex-col" data-testid={`card-credential-${credential.id}`}>
-                  <CardHeader className="space-y-3">
-                    <div className="flex items-center gap-2">
-                      {selectionMode && (
-                        <Checkbox
-                          checked={selectedCredentials.includes(credential.id)}
-                          onCheckedChange={() => toggleCredentialSelection(credential.id)}
-                          data-testid={`checkbox-credential-${credential.id}`}
-                        />
-                      )}
-                      <Key className="w-4 h-4 text-primary flex-shrink-0" />
-                      <CardTitle className="text-lg truncate flex-1">
-                        {credential.serviceName}
-                      </CardTitle>
-                    </div>
-                    <CardDescription className="truncate">
-                      {credential.username}
-                    </CardDescription>
-                    {credential.category && (
-                      <Badge variant="secondary" className="w-fit">{credential.category}</Badge>
-                    )}
-                  </CardHeader>
-                  <CardContent className="space-y-3 flex flex-col flex-1">
-                    <div className="space-y-3 flex-1">
-                      {credential.website && (
-                        <div className="flex items-center gap-2 text-sm">
-                          <span className="text-muted-foreground">Website:</span>
-                          <a 
-                            href={credential.website} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="text-primary hover:underline truncate"
-                          >
-                            {credential.website}
-                          </a>
-                        </div>
-                      )}
-                      <div className="flex items-center gap-2">
-                        <Input
-                          type={visiblePasswords[credential.id] ? 'text' : 'password'}
-                          value={visiblePasswords[credential.id] ? credential.password : '••••••••••••'}
-                          readOnly
-                          className="flex-1"
-                          data-testid={`input-password-${credential.id}`}
-                        />
+                    {selectionMode && (
+                      <>
                         <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => togglePasswordVisibility(credential.id)}
-                          data-testid={`button-toggle-visibility-${credential.id}`}
+                          variant="ghost"
+                          size="sm"
+                          onClick={toggleSelectAll}
+                          data-testid="button-select-all"
                         >
-                          {visiblePasswords[credential.id] ? (
-                            <EyeOff className="w-4 h-4" />
-                          ) : (
-                            <Eye className="w-4 h-4" />
-                          )}
+                          {selectedCredentials.length === filteredCredentials.length ? 'Deselect All' : 'Select All'}
                         </Button>
                         <Button
-                          variant="outline"
-                          size="icon"
-                          onClick={() => copyToClipboard(credential.password, 'Password')}
-                          data-testid={`button-copy-${credential.id}`}
+                          variant="destructive"
+                          size="sm"
+                          onClick={handleBatchDelete}
+                          disabled={selectedCredentials.length === 0}
+                          data-testid="button-delete-selected"
                         >
-                          <Copy className="w-4 h-4" />
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete Selected ({selectedCredentials.length})
                         </Button>
-                      </div>
-                      {credential.notes && (
-                        <p className="text-sm text-muted-foreground line-clamp-2">
-                          {credential.notes}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center justify-between pt-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleEdit(credential)}
-                        data-testid={`button-edit-${credential.id}`}
-                      >
-                        <Edit className="w-3 h-3 mr-1" />
-                        Edit
-                      </Button>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDelete(credential)}
-                        data-testid={`button-delete-${credential.id}`}
-                      >
-                        <Trash2 className="w-3 h-3 mr-1" />
-                        Delete
+                      </>
+                    )}
+                    <Badge variant="secondary">{filteredCredentials.length} password{filteredCredentials.length !== 1 ? 's' : ''}</Badge>
+                  </div>
+                )}
+              </CardHeader>
+            </Card>
+
+            {/* Credentials List */}
+            <div>
+              {credentialsLoading ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">Loading credentials...</p>
+                </div>
+              ) : filteredCredentials.length === 0 ? (
+                <Card>
+                  <CardContent className="flex flex-col items-center justify-center py-12">
+                    <Lock className="w-12 h-12 text-muted-foreground mb-4" />
+                    <h3 className="text-lg font-semibold mb-2">{weakOnly && !searchQuery ? 'No weak passwords' : 'No credentials found'}</h3>
+                    <p className="text-muted-foreground text-center max-w-md mb-4">
+                      {searchQuery
+                        ? 'No credentials match your search.'
+                        : weakOnly
+                          ? 'Every saved password scores fair or better.'
+                          : 'Start by adding your first credential to the vault.'}
+                    </p>
+                    {!searchQuery && !weakOnly && (
+                      <Button onClick={() => setCreateDialogOpen(true)} data-testid="button-add-first-credential">
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Your First Credential
                       </Button>
-                    </div>
+                    )}
                   </CardContent>
                 </Card>
-              ))}
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {filteredCredentials.map((credential) => (
+                    <Card key={credential.id} className="hover-elevate flex flex-col" data-testid={`card-credential-${credential.id}`}>
+                      <CardHeader className="space-y-3">
+                        <div className="flex items-center gap-2">
+                          {selectionMode && (
+                            <Checkbox
+                              checked={selectedCredentials.includes(credential.id)}
+                              onCheckedChange={() => toggleCredentialSelection(credential.id)}
+                              data-testid={`checkbox-credential-${credential.id}`}
+                            />
+                          )}
+                          <Key className="w-4 h-4 text-primary flex-shrink-0" />
+                          <CardTitle className="text-lg truncate flex-1">
+                            {credential.serviceName}
+                          </CardTitle>
+                        </div>
+                        <CardDescription className="truncate">
+                          {credential.username}
+                        </CardDescription>
+                        <div className="flex items-center gap-3 flex-wrap">
+                          {credential.category && (
+                            <Badge variant="secondary" className="w-fit">{credential.category}</Badge>
+                          )}
+                          <PasswordStrengthBadge score={credential.passwordStrength} />
+                          {!!credential.breachCount && (
+                            <Badge variant="destructive" className="w-fit" data-testid={`badge-breached-${credential.id}`}>
+                              <ShieldAlert className="w-3 h-3 mr-1" />
+                              Found in breaches
+                            </Badge>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3 flex flex-col flex-1">
+                        <div className="space-y-3 flex-1">
+                          {credential.website && (
+                            <div className="flex items-center gap-2 text-sm">
+                              <span className="text-muted-foreground">Website:</span>
+                              <a 
+                                href={credential.website} 
+                                target="_blank" 
+                                rel="noopener noreferrer"
+                                className="text-primary hover:underline truncate"
+                              >
+                                {credential.website}
+                              </a>
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type={visiblePasswords[credential.id] ? 'text' : 'password'}
+                              value={visiblePasswords[credential.id] ? credential.password : '••••••••••••'}
+                              readOnly
+                              className="flex-1"
+                              data-testid={`input-password-${credential.id}`}
+                            />
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => togglePasswordVisibility(credential.id)}
+                              data-testid={`button-toggle-visibility-${credential.id}`}
+                            >
+                              {visiblePasswords[credential.id] ? (
+                                <EyeOff className="w-4 h-4" />
+                              ) : (
+                                <Eye className="w-4 h-4" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              onClick={() => copyToClipboard(credential.password, 'Password')}
+                              data-testid={`button-copy-${credential.id}`}
+                            >
+                              <Copy className="w-4 h-4" />
+                            </Button>
+                          </div>
+                          {credential.notes && (
+                            <p className="text-sm text-muted-foreground line-clamp-2">
+                              {credential.notes}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between pt-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEdit(credential)}
+                            data-testid={`button-edit-${credential.id}`}
+                          >
+                            <Edit className="w-3 h-3 mr-1" />
+                            Edit
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDelete(credential)}
+                            data-testid={`button-delete-${credential.id}`}
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
 
       {/* Edit Dialog */}
@@ -731,13 +820,20 @@ export default function PasswordsPage() {
             </div>
             <div className="space-y-2">
               <Label htmlFor="edit-password">Password (leave empty to keep current)</Label>
-              <Input
-                id="edit-password"
-                type="password"
-                placeholder="Enter new password"
-                value={formData.password}
-                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                data-testid="input-edit-password"
+              <div className="flex items-center gap-2">
+                <Input
+                  id="edit-password"
+                  type="password"
+                  placeholder="Enter new password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  data-testid="input-edit-password"
+                />
+                <PasswordGenerator onUse={(password) => setFormData({ ...formData, password })} />
+              </div>
+              <PasswordStrengthMeter
+                password={formData.password}
+                userInputs={[formData.serviceName, formData.username, formData.website]}
               />
             </div>
             <div className="space-y-2">
@@ -18,12 +18,13 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
-import { User, Mail, Calendar, CreditCard, Shield, Camera, Edit2, Check, X, Loader2, Trash2 } from "lucide-react"
+import { User, Mail, Calendar, CreditCard, Shield, Camera, Edit2, Check, X, Loader2, Trash2, Languages } from "lucide-react"
 import { auth } from '@/lib/auth'
 import { useQuery, useMutation } from '@tanstack/react-query'
 import { apiRequest, queryClient } from '@/lib/queryClient'
 import { useToast } from '@/hooks/use-toast'
 import { useProfilePictureUrl } from '@/hooks/useProfilePictureUrl'
+import type { DocumentLanguage } from '@shared/languages'
 
 export default function Settings() {
   const [, navigate] = useLocation()
@@ -57,6 +58,37 @@ export default function Settings() {
 
   const subscription = (subscriptionData as any)?.data
 
+  const { data: ocrLanguagesData } = useQuery<{ success: boolean; data: { languages: DocumentLanguage[]; preferred: string[] } }>({
+    queryKey: ['/api/user/ocr-languages'],
+    enabled: authState.isAuthenticated,
+  })
+
+  const ocrLanguages = ocrLanguagesData?.data
+
+  // Preferred scan languages; applies to files processed from now on
+  const ocrLanguagesMutation = useMutation({
+    mutationFn: async (languages: string[]) => {
+      const response = await apiRequest('PUT', '/api/user/ocr-languages', { languages })
+      return response.json()
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['/api/user/ocr-languages'], result)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+        duration: 2300,
+      })
+    },
+  })
+
+  const toggleOcrLanguage = (code: string) => {
+    const preferred = ocrLanguages?.preferred || []
+    ocrLanguagesMutation.mutate(preferred.includes(code) ? preferred.filter(language => language !== code) : [...preferred, code])
+  }
+
   // Profile picture upload mutation
   const profilePictureMutation = useMutation({
     mutationFn: async (file: File) => {
@@ -454,6 +486,38 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {ocrLanguages && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Languages className="w-5 h-5" />
+                Document Languages
+              </CardTitle>
+              <CardDescription>
+                Languages your scanned documents and photos are written in. With none selected, the language is detected from the script of each scan
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {ocrLanguages.languages.map((language) => {
+                  const selected = ocrLanguages.preferred.includes(language.code)
+                  return (
+                    <Badge
+                      key={language.code}
+                      variant={selected ? 'default' : 'outline'}
+                      className="cursor-pointer select-none"
+                      onClick={() => !ocrLanguagesMutation.isPending && toggleOcrLanguage(language.code)}
+                      data-testid={`badge-ocr-language-${language.code}`}
+                    >
+                      {language.name}
+                    </Badge>
+                  )
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {subscription && user?.role !== 'admin' && (
           <Card>
             <CardHeader>
@@ -27,6 +27,10 @@ import type { InsertChatMessage } from '@shared/schema'
 import { useLocation } from 'wouter'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useProfilePictureUrl } from '@/hooks/useProfilePictureUrl'
+import { useConversations } from '@/hooks/useConversations'
+import ConversationSwitcher from '@/components/ConversationSwitcher'
+import FolderSelect from '@/components/FolderSelect'
+import TagSelect from '@/components/TagSelect'
 
 interface ChatMessage {
   id: string
@@ -47,7 +51,13 @@ export default function SmartFinderPage() {
   const queryClient = useQueryClient();
   const profilePictureUrl = useProfilePictureUrl(currentUser?.profilePictureUrl);
   
-  const CHAT_STORAGE_KEY = userId ? `zorli-ai-chat-history-${userId}` : 'zorli-ai-chat-history-guest';
+  const threads = useConversations();
+  const { activeConversationId } = threads;
+  const createdForSendRef = useRef<string | null>(null);
+  
+  const CHAT_STORAGE_KEY = userId
+    ? `zorli-ai-chat-history-${userId}-${activeConversationId || 'new'}`
+    : 'zorli-ai-chat-history-guest';
   
   const { data: usageData } = useQuery({
     queryKey: ['/api/subscriptions/usage'],
@@ -81,8 +91,14 @@ export default function SmartFinderPage() {
     // Don't reload if we're currently clearing
     if (isClearing) return;
     
+    // The thread was just created by sendMessage - keep the in-flight exchange on screen
+    if (activeConversationId && createdForSendRef.current === activeConversationId) {
+      createdForSendRef.current = null;
+      return;
+    }
+    
     const loadChatHistory = async () => {
-      // First, try to load from localStorage for offline persistence
+      // First, try to load the active thread from localStorage for offline persistence
       try {
         const cachedData = localStorage.getItem(CHAT_STORAGE_KEY);
         if (cachedData) {
@@ -91,18 +107,20 @@ export default function SmartFinderPage() {
             timestamp: new Date(msg.timestamp)
           }));
           setMessages(cachedMessages);
+        } else {
+          setMessages([welcomeMessage]);
         }
       } catch (error) {
         console.warn('Failed to load chat history from localStorage:', error);
       }
 
       // Then, load from database if authenticated (will replace cached data)
-      if (!auth.isAuthenticated() || !userId) {
+      if (!auth.isAuthenticated() || !userId || !activeConversationId) {
         return;
       }
 
       try {
-        const response = await fetch('/api/chat/messages', {
+        const response = await fetch(`/api/chat/messages?conversationId=${encodeURIComponent(activeConversationId)}`, {
           headers: auth.getAuthHeaders()
         });
         
@@ -136,10 +154,12 @@ export default function SmartFinderPage() {
     };
 
     loadChatHistory();
-  }, [userId, CHAT_STORAGE_KEY, isClearing])
+  }, [userId, activeConversationId, CHAT_STORAGE_KEY, isClearing])
 
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [scopeFolderId, setScopeFolderId] = useState<string | null>(null) // Search only this folder and its subfolders
+  const [scopeTagId, setScopeTagId] = useState<string | null>(null) // Search only documents with this tag
   const [isRecording, setIsRecording] = useState(false)
   const [isTranscribing, setIsTranscribing] = useState(false)
   const [speechSupported, setSpeechSupported] = useState(false)
@@ -308,12 +328,13 @@ export default function SmartFinderPage() {
     }
   }
 
-  const saveChatToDatabase = useCallback(async (message: ChatMessage) => {
+  const saveChatToDatabase = useCallback(async (message: ChatMessage, conversationId: string) => {
     if (!auth.isAuthenticated() || message.id === '1') return
 
     try {
       const chatMessage: InsertChatMessage = {
         userId: auth.getCurrentUser()?.id || '',
+        conversationId,
         role: message.role,
         content: message.content,
         files: message.files || null,
@@ -356,10 +377,10 @@ export default function SmartFinderPage() {
       timestamp: new Date()
     }
     
-    // Clear from database first
-    if (auth.isAuthenticated()) {
+    // Clear the active thread from database first
+    if (auth.isAuthenticated() && activeConversationId) {
       try {
-        await fetch('/api/chat/messages', {
+        await fetch(`/api/chat/messages?conversationId=${encodeURIComponent(activeConversationId)}`, {
           method: 'DELETE',
           headers: auth.getAuthHeaders()
         })
@@ -389,7 +410,7 @@ export default function SmartFinderPage() {
         duration: 3000
       })
     }, 500);
-  }, [CHAT_STORAGE_KEY, toast, auth])
+  }, [CHAT_STORAGE_KEY, activeConversationId, toast, auth])
 
   const sendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return
@@ -408,6 +429,14 @@ export default function SmartFinderPage() {
     setIsLoading(true)
 
     try {
+      // Start a new thread on the first message if none is selected
+      let conversationId = activeConversationId
+      if (!conversationId) {
+        const conversation = await threads.createConversation()
+        createdForSendRef.current = conversation.id
+        conversationId = conversation.id
+      }
+
       const response = await fetch('/api/ai/chat', {
         method: 'POST',
         headers: {
@@ -416,7 +445,9 @@ export default function SmartFinderPage() {
         },
         body: JSON.stringify({
           message: originalInput,
-          conversation: messages.filter(m => m.id !== '1').map(m => ({ role: m.role, content: m.content }))
+          conversation: messages.filter(m => m.id !== '1').map(m => ({ role: m.role, content: m.content })),
+          ...(scopeFolderId ? { folderId: scopeFolderId } : {}),
+          ...(scopeTagId ? { tagId: scopeTagId } : {})
         })
       })
 
@@ -446,7 +477,8 @@ export default function SmartFinderPage() {
         throw new Error(data.error || `HTTP error! status: ${response.status}`)
       }
 
-      saveChatToDatabase(userMessage)
+      // Saving the first question may auto-title the thread
+      saveChatToDatabase(userMessage, conversationId).then(() => threads.refresh())
 
       const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -457,7 +489,7 @@ export default function SmartFinderPage() {
       }
 
       setMessages(prev => [...prev, assistantMessage])
-      saveChatToDatabase(assistantMessage)
+      saveChatToDatabase(assistantMessage, conversationId)
       
       queryClient.invalidateQueries({ queryKey: ['/api/subscriptions/usage'] })
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard/metrics'] })
@@ -531,6 +563,26 @@ export default function SmartFinderPage() {
                   </p>
                 </div>
               </div>
+              <div className="flex items-center gap-2">
+              {auth.isAuthenticated() && (
+                <>
+                  <FolderSelect
+                    value={scopeFolderId}
+                    onChange={setScopeFolderId}
+                    disabled={isLoading}
+                    className="w-[180px]"
+                    testId="select-chat-folder-scope"
+                  />
+                  <TagSelect
+                    value={scopeTagId}
+                    onChange={setScopeTagId}
+                    disabled={isLoading}
+                    className="w-[150px]"
+                    testId="select-chat-tag-scope"
+                  />
+                  <ConversationSwitcher threads={threads} disabled={isLoading || isClearingChat} />
+                </>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -542,6 +594,7 @@ export default function SmartFinderPage() {
                 <Trash2 className="w-4 h-4 mr-2" />
                 Clear Chat History
               </Button>
+              </div>
             </div>
           </CardHeader>
         </Card>
@@ -6,11 +6,13 @@ import { Badge } from '@/components/ui/badge'
 import { Upload, FolderOpen, BarChart3, Settings } from 'lucide-react'
 import FileUpload from '@/components/FileUpload'
 import FileManager from '@/components/FileManager'
+import FolderSelect from '@/components/FolderSelect'
 import { auth } from '@/lib/auth'
 
 export default function Vault() {
   const [, navigate] = useLocation()
   const [uploadCount, setUploadCount] = useState(0)
+  const [uploadFolderId, setUploadFolderId] = useState<string | null>(null)
   const [authState, setAuthState] = useState(auth.getState())
 
   useEffect(() => {
@@ -82,9 +84,19 @@ export default function Vault() {
           {/* Upload Tab */}
           <TabsContent value="upload" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              <div className="lg:col-span-2">
+              <div className="lg:col-span-2 space-y-4">
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-muted-foreground">Upload to</span>
+                  <FolderSelect
+                    value={uploadFolderId}
+                    onChange={setUploadFolderId}
+                    rootLabel="Vault root"
+                    testId="select-upload-folder"
+                  />
+                </div>
                 <FileUpload 
                   onUploadComplete={handleUploadComplete}
+                  folderId={uploadFolderId}
                   maxFiles={10}
                   maxSize={50 * 1024 * 1024} // 50MB
                 />
@@ -22,10 +22,27 @@ export interface FileRecord {
   fileSize: number
   fileType: string
   storagePath: string
+  folderId: string | null
+  currentVersion?: number
   aiProcessed: boolean
   createdAt: string
   updatedAt: string
   aiAnalysis?: AIAnalysisResult
+  tags?: FileTag[]
+  tagSuggestions?: TagSuggestion[]
+}
+
+export interface FileTag {
+  id: string
+  name: string
+  source: 'user' | 'ai'
+}
+
+// Tag proposed from a file's content, waiting for the user to accept or reject it
+export interface TagSuggestion {
+  id: string
+  name: string
+  confidence: number | null
 }
 
 export interface UploadedFile {
@@ -41,6 +41,15 @@ export const isAudioFile = (fileType: string): boolean => {
   return fileType && fileType.startsWith('audio/')
 }
 
+// Position in a recording, as transcripts write it: "mm:ss", or "h:mm:ss" from an hour on
+export const formatMediaTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0')
+  const rest = String(total % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`
+}
+
 // Date utilities
 export const formatDate = (date: string | Date): string => {
   return new Date(date).toLocaleDateString('en-US', {
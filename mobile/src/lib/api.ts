@@ -1,5 +1,5 @@
 import { getAuthHeaders as getBackendAuthHeaders } from './auth';
-import { DocumentRecord, ChatMessage, AccountCredential, SubscriptionUsage, Payment } from '../types';
+import { DocumentRecord, TrashedDocument, DocumentReminder, ReminderSettings, Folder, ChatMessage, Conversation, AccountCredential, CredentialImportPreview, CredentialSort, PasswordGeneratorOptions, PasswordStrength, VaultHealthReport, VaultRestoreResult, SubscriptionUsage, Payment } from '../types';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
 
@@ -38,13 +38,27 @@ export const getSignedUrl = async (storagePath: string): Promise<string | null>
   }
 };
 
-export const uploadFile = async (uri: string, filename: string, fileType: string): Promise<ApiResponse> => {
+// onDuplicate decides what happens when the vault already holds an identical file; without it the
+// server answers with `duplicates` and nothing is stored
+export const uploadFile = async (
+  uri: string,
+  filename: string,
+  fileType: string,
+  folderId?: string | null,
+  onDuplicate?: 'keep' | 'replace' | 'skip'
+): Promise<ApiResponse & { duplicates?: Array<{ filename: string; existing: { id: string; filename: string } }> }> => {
   const formData = new FormData();
   formData.append('files', {
     uri,
     name: filename,
     type: fileType,
   } as any);
+  if (folderId) {
+    formData.append('folderId', folderId);
+  }
+  if (onDuplicate) {
+    formData.append('onDuplicate', onDuplicate);
+  }
 
   const authHeaders = await getBackendAuthHeaders();
 
@@ -59,15 +73,68 @@ export const uploadFile = async (uri: string, filename: string, fileType: string
   return response.json();
 };
 
-export const getFiles = async (): Promise<DocumentRecord[]> => {
+// Pass null for the vault root or a folder id for that folder's files; omit for every file
+export const getFiles = async (folderId?: string | null): Promise<DocumentRecord[]> => {
+  const headers = await getAuthHeaders();
+  const query = folderId === undefined ? '' : `?folderId=${encodeURIComponent(folderId || 'root')}`;
+  const response = await fetch(`${API_URL}/api/files${query}`, {
+    headers,
+  });
+  const result = await response.json();
+  return result.success && Array.isArray(result.data) ? result.data : [];
+};
+
+export const moveFiles = async (fileIds: string[], folderId: string | null): Promise<ApiResponse<{ moved: number }>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/files/move`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ fileIds, folderId }),
+  });
+  return response.json();
+};
+
+export const getFolders = async (): Promise<Folder[]> => {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_URL}/api/files`, {
+  const response = await fetch(`${API_URL}/api/folders`, {
     headers,
   });
   const result = await response.json();
   return result.success && Array.isArray(result.data) ? result.data : [];
 };
 
+export const createFolder = async (name: string, parentId: string | null): Promise<ApiResponse<Folder>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/folders`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ name, parentId }),
+  });
+  return response.json();
+};
+
+export const updateFolder = async (
+  id: string,
+  updates: { name?: string; parentId?: string | null }
+): Promise<ApiResponse<Folder>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/folders/${id}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(updates),
+  });
+  return response.json();
+};
+
+export const deleteFolder = async (id: string, deleteFiles: boolean = false): Promise<ApiResponse> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/folders/${id}${deleteFiles ? '?deleteFiles=true' : ''}`, {
+    method: 'DELETE',
+    headers,
+  });
+  return response.json();
+};
+
 export const deleteFile = async (fileId: string): Promise<ApiResponse> => {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_URL}/api/files/${fileId}`, {
@@ -77,6 +144,80 @@ export const deleteFile = async (fileId: string): Promise<ApiResponse> => {
   return response.json();
 };
 
+export const getTrash = async (): Promise<{ files: TrashedDocument[]; retentionDays: number | null }> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/trash`, {
+    headers,
+  });
+  const result = await response.json();
+  return {
+    files: result.success && Array.isArray(result.data) ? result.data : [],
+    retentionDays: result.retentionDays ?? null,
+  };
+};
+
+export const restoreFromTrash = async (fileIds: string[]): Promise<ApiResponse<DocumentRecord[]>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/trash/restore`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ fileIds }),
+  });
+  return response.json();
+};
+
+// Permanently delete one trashed file, or every trashed file when no id is given
+export const purgeFromTrash = async (fileId?: string): Promise<ApiResponse> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/trash${fileId ? `/${fileId}` : ''}`, {
+    method: 'DELETE',
+    headers,
+  });
+  return response.json();
+};
+
+export const updateTrashRetention = async (retentionDays: number): Promise<ApiResponse<{ retentionDays: number }>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/trash/settings`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ retentionDays }),
+  });
+  return response.json();
+};
+
+export const getReminders = async (): Promise<{ reminders: DocumentReminder[]; settings: ReminderSettings | null }> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/reminders`, {
+    headers,
+  });
+  const result = await response.json();
+  return {
+    reminders: result.success && Array.isArray(result.data) ? result.data : [],
+    settings: result.settings ?? null,
+  };
+};
+
+export const dismissReminder = async (reminderId: string): Promise<ApiResponse<DocumentReminder>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/reminders/${reminderId}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify({ dismissed: true }),
+  });
+  return response.json();
+};
+
+export const updateReminderSettings = async (settings: Partial<ReminderSettings>): Promise<ApiResponse<ReminderSettings>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/reminders/settings`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(settings),
+  });
+  return response.json();
+};
+
 export const sendChatMessage = async (message: string, fileIds?: string[]): Promise<ApiResponse<{ message: string; content: string }>> => {
   const headers = await getAuthHeaders();
   const response = await fetch(`${API_URL}/api/ai/chat`, {
@@ -87,9 +228,167 @@ export const sendChatMessage = async (message: string, fileIds?: string[]): Prom
   return response.json();
 };
 
-export const getChatHistory = async (): Promise<ChatMessage[]> => {
+export interface ChatStreamHandlers {
+  onSources?: (sources: { citations: any[]; hasRelevantContent: boolean }) => void;
+  onToken?: (token: string) => void;
+}
+
+export interface ChatStreamResult {
+  message: string;
+  files: any[];
+  citations: any[];
+  hasRelevantContent: boolean;
+  usage: { promptTokens: number; completionTokens: number; totalTokens: number } | null;
+}
+
+// React Native's fetch cannot read a response body incrementally, so the
+// Server-Sent Events stream is consumed through XMLHttpRequest progress events
+export const streamChatMessage = async (
+  message: string,
+  handlers: ChatStreamHandlers = {},
+  conversation?: Array<{ role: string; content: string }>
+): Promise<ChatStreamResult> => {
+  const headers = (await getAuthHeaders()) as Record<string, string>;
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let offset = 0;
+    let result: ChatStreamResult | null = null;
+    let settled = false;
+
+    // An error frame or an unreadable frame ends the answer: stop the request and reject once
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      xhr.abort();
+      reject(error);
+    };
+
+    const handleFrame = (frame: string) => {
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).trimStart());
+        }
+      }
+      if (dataLines.length === 0) return;
+
+      const data = JSON.parse(dataLines.join('\n'));
+      if (event === 'sources') handlers.onSources?.(data);
+      else if (event === 'token') handlers.onToken?.(data.content);
+      else if (event === 'done') result = data;
+      else if (event === 'error') throw new Error(data.error || 'Failed to process chat request');
+    };
+
+    const consume = () => {
+      const text = xhr.responseText || '';
+      let boundary = text.indexOf('\n\n', offset);
+      while (boundary !== -1 && !settled) {
+        try {
+          handleFrame(text.slice(offset, boundary));
+        } catch (error) {
+          fail(error instanceof Error ? error : new Error('Failed to read the chat stream'));
+        }
+        offset = boundary + 2;
+        boundary = text.indexOf('\n\n', offset);
+      }
+    };
+
+    xhr.open('POST', `${API_URL}/api/ai/chat`);
+    Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+
+    xhr.onprogress = () => {
+      if (xhr.status === 200) consume();
+    };
+
+    xhr.onload = () => {
+      if (settled) return;
+      const contentType = xhr.getResponseHeader('Content-Type') || '';
+      if (xhr.status !== 200 || !contentType.includes('text/event-stream')) {
+        // Errors (limits, validation) and older servers answer with plain JSON
+        try {
+          const data = JSON.parse(xhr.responseText);
+          if (xhr.status !== 200) {
+            reject(new Error(data.message || data.error || `HTTP error! status: ${xhr.status}`));
+            return;
+          }
+          resolve({
+            message: data.message,
+            files: data.files || [],
+            citations: data.citations || [],
+            hasRelevantContent: !!data.hasRelevantContent,
+            usage: null,
+          });
+        } catch {
+          reject(new Error(`HTTP error! status: ${xhr.status}`));
+        }
+        return;
+      }
+
+      consume();
+      if (settled) return;
+      settled = true;
+      if (result) resolve(result);
+      else reject(new Error('Chat stream ended unexpectedly'));
+    };
+
+    xhr.onerror = () => fail(new Error('Network error while contacting Smart Finder'));
+
+    xhr.send(JSON.stringify({ message, conversation, stream: true }));
+  });
+};
+
+export const getConversations = async (archived: boolean = false): Promise<Conversation[]> => {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_URL}/api/chat/messages`, {
+  const response = await fetch(`${API_URL}/api/conversations${archived ? '?archived=true' : ''}`, {
+    headers,
+  });
+  const result = await response.json();
+  return result.success && Array.isArray(result.data) ? result.data : [];
+};
+
+export const createConversation = async (title?: string): Promise<ApiResponse<Conversation>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/conversations`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(title ? { title } : {}),
+  });
+  return response.json();
+};
+
+export const updateConversation = async (
+  id: string,
+  updates: { title?: string; isArchived?: boolean }
+): Promise<ApiResponse<Conversation>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/conversations/${id}`, {
+    method: 'PATCH',
+    headers,
+    body: JSON.stringify(updates),
+  });
+  return response.json();
+};
+
+export const deleteConversation = async (id: string): Promise<ApiResponse> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/conversations/${id}`, {
+    method: 'DELETE',
+    headers,
+  });
+  return response.json();
+};
+
+const conversationQuery = (conversationId?: string | null) =>
+  conversationId ? `?conversationId=${encodeURIComponent(conversationId)}` : '';
+
+export const getChatHistory = async (conversationId?: string | null): Promise<ChatMessage[]> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/chat/messages${conversationQuery(conversationId)}`, {
     headers,
   });
   const result = await response.json();
@@ -102,6 +401,7 @@ export const saveChatMessage = async (message: ChatMessage): Promise<ApiResponse
     method: 'POST',
     headers,
     body: JSON.stringify({
+      conversationId: message.conversationId || null,
       role: message.role,
       content: message.content,
       files: message.files || null,
@@ -111,24 +411,130 @@ export const saveChatMessage = async (message: ChatMessage): Promise<ApiResponse
   return response.json();
 };
 
-export const deleteChatHistory = async (): Promise<ApiResponse> => {
+export const deleteChatHistory = async (conversationId?: string | null): Promise<ApiResponse> => {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_URL}/api/chat/messages`, {
+  const response = await fetch(`${API_URL}/api/chat/messages${conversationQuery(conversationId)}`, {
     method: 'DELETE',
     headers,
   });
   return response.json();
 };
 
-export const getCredentials = async (): Promise<AccountCredential[]> => {
+export const getCredentials = async (sort: CredentialSort = 'updated', weakOnly: boolean = false): Promise<AccountCredential[]> => {
   const headers = await getAuthHeaders();
-  const response = await fetch(`${API_URL}/api/credentials`, {
+  const response = await fetch(`${API_URL}/api/credentials?sort=${sort}${weakOnly ? '&weak=true' : ''}`, {
     headers,
   });
   const result = await response.json();
   return result.success && Array.isArray(result.data) ? result.data : [];
 };
 
+export const getCredential = async (credentialId: string): Promise<AccountCredential | null> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/${credentialId}`, {
+    headers,
+  });
+  return response.ok ? response.json() : null;
+};
+
+export const getVaultHealth = async (): Promise<VaultHealthReport | null> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/health`, {
+    headers,
+  });
+  const result = await response.json();
+  return result.success ? result.data : null;
+};
+
+// Send a password export picked from the device; the server reads it and flags duplicates
+export const previewCredentialImport = async (
+  uri: string,
+  filename: string,
+  fileType: string
+): Promise<ApiResponse<CredentialImportPreview>> => {
+  const formData = new FormData();
+  formData.append('file', { uri, name: filename, type: fileType } as any);
+
+  const authHeaders = await getBackendAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/import/preview`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: formData,
+  });
+  return response.json();
+};
+
+// Import the previewed logins at the given indexes. A plan limit error carries its text in `message`
+export const importCredentials = async (
+  uri: string,
+  filename: string,
+  fileType: string,
+  rows: number[]
+): Promise<ApiResponse<{ imported: number }>> => {
+  const formData = new FormData();
+  formData.append('file', { uri, name: filename, type: fileType } as any);
+  formData.append('rows', JSON.stringify(rows));
+
+  const authHeaders = await getBackendAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/import`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: formData,
+  });
+  return response.json();
+};
+
+// The encrypted backup file's name and contents, to be saved or shared from the device
+export const exportVaultBackup = async (
+  passphrase: string,
+  includeDocuments: boolean
+): Promise<{ filename?: string; content?: string; error?: string }> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/export`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ passphrase, includeDocuments }),
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    return { error: result.error || 'Failed to export backup' };
+  }
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || 'zorli-vault.zvault';
+  return { filename, content: await response.text() };
+};
+
+export const restoreVaultBackup = async (
+  uri: string,
+  filename: string,
+  passphrase: string,
+  mode: 'merge' | 'replace'
+): Promise<ApiResponse<VaultRestoreResult>> => {
+  const formData = new FormData();
+  formData.append('file', { uri, name: filename, type: 'application/json' } as any);
+  formData.append('passphrase', passphrase);
+  formData.append('mode', mode);
+
+  const authHeaders = await getBackendAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/restore`, {
+    method: 'POST',
+    headers: authHeaders,
+    body: formData,
+  });
+  return response.json();
+};
+
+export const generatePassword = async (
+  options: Partial<PasswordGeneratorOptions>
+): Promise<ApiResponse<{ password: string; strength: PasswordStrength }>> => {
+  const headers = await getAuthHeaders();
+  const response = await fetch(`${API_URL}/api/credentials/generate`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(options),
+  });
+  return response.json();
+};
+
 export const saveCredential = async (credential: Partial<AccountCredential>): Promise<ApiResponse> => {
   const headers = await getAuthHeaders();
   
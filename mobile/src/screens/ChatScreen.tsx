@@ -13,13 +13,25 @@ import {
   Alert,
   RefreshControl,
   Image,
+  ScrollView,
+  Modal,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { Audio } from 'expo-av';
-import { getChatHistory, sendChatMessage, deleteChatHistory, saveChatMessage, getSignedUrl } from '../lib/api';
+import {
+  getChatHistory,
+  streamChatMessage,
+  deleteChatHistory,
+  saveChatMessage,
+  getSignedUrl,
+  getConversations,
+  createConversation,
+  updateConversation,
+  deleteConversation,
+} from '../lib/api';
 import { getAuthHeaders, refreshUser } from '../lib/auth';
-import type { ChatMessage } from '../types';
+import type { ChatMessage, Conversation } from '../types';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
 
@@ -35,6 +47,10 @@ export default function ChatScreen({ navigation, route }: any) {
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [user, setUser] = useState<any>(null);
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [renameTarget, setRenameTarget] = useState<Conversation | null>(null);
+  const [renameText, setRenameText] = useState('');
   const flatListRef = useRef<FlatList>(null);
   const initialMessageSent = useRef<string | false>(false);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
@@ -138,9 +154,13 @@ export default function ChatScreen({ navigation, route }: any) {
 
   const loadHistory = async () => {
     try {
-      const history = await getChatHistory();
+      // Open the most recently active thread
+      const threads = await getConversations();
+      setConversations(threads);
+      const conversationId = threads[0]?.id || null;
+      setActiveConversationId(conversationId);
       // Keep messages in chronological order (oldest first)
-      setMessages(history);
+      setMessages(conversationId ? await getChatHistory(conversationId) : []);
     } catch (error) {
       console.error('Error loading chat history:', error);
     } finally {
@@ -148,11 +168,96 @@ export default function ChatScreen({ navigation, route }: any) {
     }
   };
 
+  const refreshConversations = async () => {
+    try {
+      setConversations(await getConversations());
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  };
+
+  const handleSelectConversation = async (conversationId: string) => {
+    if (conversationId === activeConversationId || sending) return;
+    setActiveConversationId(conversationId);
+    setMessages([]);
+    try {
+      setMessages(await getChatHistory(conversationId));
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+      Alert.alert('Error', 'Failed to load conversation');
+    }
+  };
+
+  const handleNewConversation = () => {
+    if (sending) return;
+    // The thread itself is created when the first message is sent
+    setActiveConversationId(null);
+    setMessages([]);
+  };
+
+  const handleRenameConversation = async () => {
+    if (!renameTarget || !renameText.trim()) return;
+    try {
+      await updateConversation(renameTarget.id, { title: renameText.trim() });
+      await refreshConversations();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to rename conversation');
+    } finally {
+      setRenameTarget(null);
+    }
+  };
+
+  const removeConversationFromView = async (conversationId: string) => {
+    const remaining = conversations.filter((c) => c.id !== conversationId);
+    setConversations(remaining);
+    if (conversationId === activeConversationId) {
+      const nextId = remaining[0]?.id || null;
+      setActiveConversationId(nextId);
+      setMessages(nextId ? await getChatHistory(nextId) : []);
+    }
+  };
+
+  const handleConversationActions = (conversation: Conversation) => {
+    Alert.alert(conversation.title, undefined, [
+      {
+        text: 'Rename',
+        onPress: () => {
+          setRenameText(conversation.title);
+          setRenameTarget(conversation);
+        },
+      },
+      {
+        text: 'Archive',
+        onPress: async () => {
+          try {
+            await updateConversation(conversation.id, { isArchived: true });
+            await removeConversationFromView(conversation.id);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to archive conversation');
+          }
+        },
+      },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteConversation(conversation.id);
+            await removeConversationFromView(conversation.id);
+          } catch (error) {
+            Alert.alert('Error', 'Failed to delete conversation');
+          }
+        },
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      const history = await getChatHistory();
-      setMessages(history);
+      await refreshConversations();
+      setMessages(activeConversationId ? await getChatHistory(activeConversationId) : []);
     } catch (error) {
       console.error('Error refreshing chat history:', error);
       Alert.alert('Error', 'Failed to refresh chat history');
@@ -179,36 +284,73 @@ export default function ChatScreen({ navigation, route }: any) {
 
     setMessages((prev) => [...prev, tempUserMsg]);
 
+    const assistantId = Date.now().toString() + '_ai';
+    let assistantAdded = false;
+
     try {
-      const response = await sendChatMessage(userMessage);
-      
-      if (!response || response.error) {
-        setMessages((prev) => prev.slice(0, -1));
-        Alert.alert('Error', response?.error || 'Failed to get response from Smart Finder');
-        return;
+      // Start a new thread on the first message
+      let conversationId = activeConversationId;
+      if (!conversationId) {
+        const created = await createConversation();
+        if (!created.data) {
+          throw new Error(created.error || 'Failed to create conversation');
+        }
+        conversationId = created.data.id;
+        setActiveConversationId(conversationId);
+        setConversations((prev) => [created.data!, ...prev]);
       }
 
-      const messageContent = response.data?.message || response.data?.content || response.message;
+      const response = await streamChatMessage(userMessage, {
+        onToken: (token) => {
+          // Render the answer as it streams in
+          if (!assistantAdded) {
+            assistantAdded = true;
+            setMessages((prev) => [
+              ...prev,
+              {
+                id: assistantId,
+                userId: 'temp',
+                role: 'assistant',
+                content: token,
+                timestamp: new Date().toISOString(),
+                createdAt: new Date().toISOString(),
+              },
+            ]);
+            return;
+          }
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === assistantId ? { ...msg, content: msg.content + token } : msg))
+          );
+        },
+      });
+
+      const messageContent = response.message;
       
       if (!messageContent) {
-        setMessages((prev) => prev.slice(0, -1));
+        setMessages((prev) => prev.filter((msg) => msg.id !== tempUserMsg.id && msg.id !== assistantId));
         Alert.alert('Error', 'Received empty response from Smart Finder');
         return;
       }
       
-      // Save user message to database
-      await saveChatMessage(tempUserMsg);
+      // Save user message to database (this may auto-title the thread)
+      await saveChatMessage({ ...tempUserMsg, conversationId });
+      refreshConversations();
       
       const assistantMsg: ChatMessage = {
-        id: Date.now().toString() + '_ai',
+        id: assistantId,
         userId: 'temp',
+        conversationId,
         role: 'assistant',
         content: messageContent,
         timestamp: new Date().toISOString(),
         createdAt: new Date().toISOString(),
       };
 
-      setMessages((prev) => [...prev, assistantMsg]);
+      setMessages((prev) =>
+        assistantAdded
+          ? prev.map((msg) => (msg.id === assistantId ? assistantMsg : msg))
+          : [...prev, assistantMsg]
+      );
       
       // Save assistant message to database
       await saveChatMessage(assistantMsg);
@@ -218,7 +360,7 @@ export default function ChatScreen({ navigation, route }: any) {
       }, 100);
     } catch (error: any) {
       console.error('Error sending message:', error);
-      setMessages((prev) => prev.slice(0, -1));
+      setMessages((prev) => prev.filter((msg) => msg.id !== tempUserMsg.id && msg.id !== assistantId));
       Alert.alert('Error', error.message || 'Sorry, I encountered an error. Please try again.');
     } finally {
       setSending(false);
@@ -233,7 +375,7 @@ export default function ChatScreen({ navigation, route }: any) {
   const handleDeleteChat = () => {
     Alert.alert(
       'Delete Chat History',
-      'Are you sure you want to delete all chat messages? This cannot be undone.',
+      'Are you sure you want to delete all messages in this conversation? This cannot be undone.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -241,7 +383,9 @@ export default function ChatScreen({ navigation, route }: any) {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteChatHistory();
+              if (activeConversationId) {
+                await deleteChatHistory(activeConversationId);
+              }
               setMessages([]);
               Alert.alert('Success', 'Chat history deleted');
             } catch (error) {
@@ -426,7 +570,7 @@ export default function ChatScreen({ navigation, route }: any) {
         </TouchableOpacity>
       ),
     });
-  }, [navigation]);
+  }, [navigation, activeConversationId]);
 
   if (loading) {
     return (
@@ -438,6 +582,36 @@ export default function ChatScreen({ navigation, route }: any) {
 
   return (
     <View style={styles.container}>
+      <View style={styles.threadBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.threadBarContent}>
+          <TouchableOpacity
+            style={[styles.threadChip, !activeConversationId && styles.threadChipActive]}
+            onPress={handleNewConversation}
+          >
+            <Ionicons name="add" size={16} color={!activeConversationId ? '#fff' : ZorliBrandKit.colors.vaultBlue} />
+            <Text style={[styles.threadChipText, !activeConversationId && styles.threadChipTextActive]}>New</Text>
+          </TouchableOpacity>
+          {conversations.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+            return (
+              <TouchableOpacity
+                key={conversation.id}
+                style={[styles.threadChip, isActive && styles.threadChipActive]}
+                onPress={() => handleSelectConversation(conversation.id)}
+                onLongPress={() => handleConversationActions(conversation)}
+              >
+                <Text
+                  style={[styles.threadChipText, isActive && styles.threadChipTextActive]}
+                  numberOfLines={1}
+                >
+                  {conversation.title}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      </View>
+
       <FlatList
         ref={flatListRef}
         data={messages}
@@ -465,6 +639,7 @@ export default function ChatScreen({ navigation, route }: any) {
             <Text style={styles.emptySubtext}>I can analyze and answer questions</Text>
             <Text style={styles.emptyHint}>💡 Long-press messages to copy them</Text>
             <Text style={styles.emptyHint}>🔄 Pull down to refresh chat history</Text>
+            <Text style={styles.emptyHint}>🗂️ Long-press a conversation to rename, archive or delete it</Text>
           </View>
         }
       />
@@ -513,6 +688,39 @@ export default function ChatScreen({ navigation, route }: any) {
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
+
+      {/* Rename Conversation Modal */}
+      <Modal
+        visible={!!renameTarget}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenameTarget(null)}
+      >
+        <View style={styles.renameModalContainer}>
+          <View style={styles.renameModalContent}>
+            <Text style={styles.renameModalTitle}>Rename conversation</Text>
+            <TextInput
+              style={styles.renameInput}
+              value={renameText}
+              onChangeText={setRenameText}
+              maxLength={200}
+              autoFocus
+            />
+            <View style={styles.renameModalActions}>
+              <TouchableOpacity onPress={() => setRenameTarget(null)} style={styles.renameModalButton}>
+                <Text style={styles.renameCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleRenameConversation}
+                style={styles.renameModalButton}
+                disabled={!renameText.trim()}
+              >
+                <Text style={styles.renameSaveText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -530,6 +738,80 @@ const styles = StyleSheet.create({
   headerButton: {
     marginRight: 16,
   },
+  threadBar: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  threadBarContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  threadChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    gap: 4,
+  },
+  threadChipActive: {
+    backgroundColor: ZorliBrandKit.colors.vaultBlue,
+  },
+  threadChipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  threadChipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  renameModalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  renameModalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+  },
+  renameModalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 12,
+  },
+  renameInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000',
+  },
+  renameModalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+    gap: 16,
+  },
+  renameModalButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 4,
+  },
+  renameCancelText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  renameSaveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: ZorliBrandKit.colors.vaultBlue,
+  },
   messageList: {
     padding: 16,
     flexGrow: 1,
@@ -13,15 +13,28 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Audio } from 'expo-av';
-import { getDashboardStats, getSubscriptionUsage, getSignedUrl } from '../lib/api';
+import { getDashboardStats, getSubscriptionUsage, getSignedUrl, getReminders, dismissReminder, updateReminderSettings } from '../lib/api';
 import { refreshUser, getAuthHeaders } from '../lib/auth';
 import { ZorliBrandKit } from '../theme/zorli-brand-kit';
+import type { DocumentReminder, ReminderSettings } from '../types';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
+const UPCOMING_LIMIT = 5;
+
+const describeDue = (dueDate: string) => {
+  const today = new Date();
+  const days = Math.round((Date.parse(dueDate) - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / (24 * 60 * 60 * 1000));
+  if (days < 0) return { text: `Expired ${-days}d ago`, urgent: true };
+  if (days === 0) return { text: 'Today', urgent: true };
+  if (days === 1) return { text: 'Tomorrow', urgent: true };
+  return { text: `In ${days} days`, urgent: days <= 7 };
+};
 
 export default function DashboardScreen({ navigation }: any) {
   const [stats, setStats] = useState<any>(null);
   const [usage, setUsage] = useState<any>(null);
+  const [reminders, setReminders] = useState<DocumentReminder[]>([]);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null);
   const [user, setUser] = useState<any>(null);
   const [profileImageUrl, setProfileImageUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -60,13 +73,16 @@ export default function DashboardScreen({ navigation }: any) {
 
   const loadData = async () => {
     try {
-      const [statsData, usageData, userData] = await Promise.all([
+      const [statsData, usageData, userData, reminderData] = await Promise.all([
         getDashboardStats(),
         getSubscriptionUsage(),
         refreshUser(),
+        getReminders(),
       ]);
       setStats(statsData);
       setUsage(usageData);
+      setReminders(reminderData.reminders);
+      setReminderSettings(reminderData.settings);
       setUser(userData);
       
       // Load profile image with signed URL
@@ -123,6 +139,25 @@ export default function DashboardScreen({ navigation }: any) {
     loadData();
   };
 
+  const handleDismissReminder = async (reminder: DocumentReminder) => {
+    const result = await dismissReminder(reminder.id);
+    if (result.success) {
+      setReminders(prev => prev.filter(r => r.id !== reminder.id));
+    } else {
+      Alert.alert('Error', result.error || 'Failed to dismiss reminder');
+    }
+  };
+
+  const handleToggleReminderEmails = async () => {
+    if (!reminderSettings) return;
+    const result = await updateReminderSettings({ emailsEnabled: !reminderSettings.emailsEnabled });
+    if (result.success && result.data) {
+      setReminderSettings(result.data);
+    } else {
+      Alert.alert('Error', result.error || 'Failed to update reminder settings');
+    }
+  };
+
   const handleSearchSubmit = () => {
     if (searchQuery.trim()) {
       navigation.navigate('Smart Finder', { initialMessage: searchQuery.trim() });
@@ -355,6 +390,41 @@ export default function DashboardScreen({ navigation }: any) {
         </View>
       </View>
 
+      <View style={styles.expiriesSection}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Upcoming Expiries</Text>
+          {reminderSettings && (
+            <TouchableOpacity onPress={handleToggleReminderEmails} style={styles.reminderToggle}>
+              <Ionicons
+                name={reminderSettings.emailsEnabled ? 'notifications' : 'notifications-off-outline'}
+                size={20}
+                color={reminderSettings.emailsEnabled ? ZorliBrandKit.colors.vaultBlue : '#999'}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+        {reminders.length === 0 ? (
+          <Text style={styles.emptyText}>No expiry dates found in your documents yet</Text>
+        ) : (
+          reminders.slice(0, UPCOMING_LIMIT).map(reminder => {
+            const due = describeDue(reminder.dueDate);
+            return (
+              <View key={reminder.id} style={styles.reminderRow}>
+                <Ionicons name="calendar-outline" size={22} color={due.urgent ? ZorliBrandKit.colors.errorRed : ZorliBrandKit.colors.vaultBlue} />
+                <View style={styles.reminderInfo}>
+                  <Text style={styles.reminderLabel} numberOfLines={1}>{reminder.label || reminder.kind}</Text>
+                  <Text style={styles.reminderFile} numberOfLines={1}>{reminder.filename} • {reminder.dueDate}</Text>
+                </View>
+                <Text style={[styles.reminderDue, due.urgent && styles.reminderDueUrgent]}>{due.text}</Text>
+                <TouchableOpacity onPress={() => handleDismissReminder(reminder)} style={styles.reminderDismiss}>
+                  <Ionicons name="checkmark" size={20} color="#999" />
+                </TouchableOpacity>
+              </View>
+            );
+          })
+        )}
+      </View>
+
       <View style={styles.quickActions}>
         <Text style={styles.sectionTitle}>Quick Actions</Text>
         
@@ -475,6 +545,57 @@ const styles = StyleSheet.create({
   quickActions: {
     padding: 20,
   },
+  expiriesSection: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  reminderToggle: {
+    padding: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  reminderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  reminderInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  reminderLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  reminderFile: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  reminderDue: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 8,
+  },
+  reminderDueUrgent: {
+    color: ZorliBrandKit.colors.errorRed,
+    fontWeight: '600',
+  },
+  reminderDismiss: {
+    marginLeft: 8,
+    padding: 4,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
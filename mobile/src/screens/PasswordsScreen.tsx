@@ -15,8 +15,39 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
-import { getCredentials, saveCredential, deleteCredential } from '../lib/api';
-import type { AccountCredential } from '../types';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { getCredentials, getCredential, saveCredential, deleteCredential, generatePassword, getVaultHealth, previewCredentialImport, importCredentials, exportVaultBackup, restoreVaultBackup } from '../lib/api';
+import type { AccountCredential, CredentialImportPreview, CredentialImportRow, CredentialSort, HealthCredential, PasswordGeneratorOptions, PasswordStrength, VaultHealthReport } from '../types';
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'];
+const STRENGTH_COLORS = ['#EF4444', '#F97316', '#EAB308', '#84CC16', '#16A34A'];
+
+const SORT_OPTIONS: Array<{ value: CredentialSort; label: string }> = [
+  { value: 'updated', label: 'Recent' },
+  { value: 'name', label: 'Name' },
+  { value: 'weakest', label: 'Weakest' },
+];
+
+const CHARACTER_CLASSES: Array<{ key: 'lowercase' | 'uppercase' | 'digits' | 'symbols'; label: string }> = [
+  { key: 'lowercase', label: 'a-z' },
+  { key: 'uppercase', label: 'A-Z' },
+  { key: 'digits', label: '0-9' },
+  { key: 'symbols', label: '!@#' },
+];
+
+const DEFAULT_GENERATOR_OPTIONS: PasswordGeneratorOptions = {
+  mode: 'characters',
+  length: 20,
+  lowercase: true,
+  uppercase: true,
+  digits: true,
+  symbols: true,
+  words: 5,
+  separator: '-',
+  capitalize: false,
+};
 
 export default function PasswordsScreen() {
   const [credentials, setCredentials] = useState<AccountCredential[]>([]);
@@ -31,14 +62,34 @@ export default function PasswordsScreen() {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedCredentials, setSelectedCredentials] = useState<string[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [sort, setSort] = useState<CredentialSort>('updated');
+  const [weakOnly, setWeakOnly] = useState(false);
+  const [generatorVisible, setGeneratorVisible] = useState(false);
+  const [generatorOptions, setGeneratorOptions] = useState<PasswordGeneratorOptions>(DEFAULT_GENERATOR_OPTIONS);
+  const [generating, setGenerating] = useState(false);
+  const [generatedStrength, setGeneratedStrength] = useState<PasswordStrength | null>(null);
+  const [showFormPassword, setShowFormPassword] = useState(false);
+  const [view, setView] = useState<'credentials' | 'health'>('credentials');
+  const [healthReport, setHealthReport] = useState<VaultHealthReport | null>(null);
+  const [healthLoading, setHealthLoading] = useState(false);
+  const [importFile, setImportFile] = useState<{ uri: string; name: string; mimeType: string } | null>(null);
+  const [importPreview, setImportPreview] = useState<CredentialImportPreview | null>(null);
+  const [importSelected, setImportSelected] = useState<number[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [backupVisible, setBackupVisible] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupConfirm, setBackupConfirm] = useState('');
+  const [backupIncludeDocuments, setBackupIncludeDocuments] = useState(false);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [backupBusy, setBackupBusy] = useState<'export' | 'restore' | null>(null);
 
   useEffect(() => {
     loadCredentials();
-  }, []);
+  }, [sort, weakOnly]);
 
   const loadCredentials = async () => {
     try {
-      const data = await getCredentials();
+      const data = await getCredentials(sort, weakOnly);
       setCredentials(data);
     } catch (error) {
       console.error('Error loading credentials:', error);
@@ -53,6 +104,213 @@ export default function PasswordsScreen() {
     loadCredentials();
   };
 
+  const loadHealth = async () => {
+    setHealthLoading(true);
+    try {
+      setHealthReport(await getVaultHealth());
+    } catch (error) {
+      console.error('Error loading vault health:', error);
+    } finally {
+      setHealthLoading(false);
+    }
+  };
+
+  const showView = (next: 'credentials' | 'health') => {
+    setView(next);
+    if (next === 'health') {
+      loadHealth();
+    }
+  };
+
+  // Opens the edit form for a credential flagged in the health report
+  const handleFix = async (credentialId: string) => {
+    const credential = credentials.find((item) => item.id === credentialId) || (await getCredential(credentialId));
+    if (!credential) {
+      Alert.alert('Error', 'Failed to load password');
+      return;
+    }
+    handleEdit(credential);
+  };
+
+  // Pick a CSV or JSON export from a browser or another password manager and preview its logins
+  const handleImportPick = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const file = { uri: asset.uri, name: asset.name, mimeType: asset.mimeType || 'text/csv' };
+      setImporting(true);
+      const response = await previewCredentialImport(file.uri, file.name, file.mimeType);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to read the export');
+      }
+      setImportFile(file);
+      setImportPreview(response.data);
+      setImportSelected(response.data.rows.filter((row) => !row.duplicate).map((row) => row.index));
+    } catch (error: any) {
+      console.error('Import preview error:', error);
+      Alert.alert('Import Failed', error.message || 'Failed to read the export');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const closeImport = () => {
+    setImportFile(null);
+    setImportPreview(null);
+    setImportSelected([]);
+  };
+
+  const toggleImportRow = (index: number) => {
+    setImportSelected((current) =>
+      current.includes(index) ? current.filter((item) => item !== index) : [...current, index]
+    );
+  };
+
+  const handleImportConfirm = async () => {
+    if (!importFile) return;
+    setImporting(true);
+    try {
+      const response = await importCredentials(importFile.uri, importFile.name, importFile.mimeType, importSelected);
+      if (!response.success || !response.data) {
+        throw new Error(response.message || response.error || 'Failed to import passwords');
+      }
+      const imported = response.data.imported;
+      Alert.alert('Passwords Imported', `${imported} login${imported !== 1 ? 's were' : ' was'} added to your vault.`);
+      closeImport();
+      loadCredentials();
+    } catch (error: any) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', error.message || 'Failed to import passwords');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const closeBackup = () => {
+    setBackupVisible(false);
+    setBackupPassphrase('');
+    setBackupConfirm('');
+    setBackupIncludeDocuments(false);
+    setRestorePassphrase('');
+  };
+
+  // The server encrypts the backup with the passphrase; the file is then handed to the share sheet
+  const handleBackupExport = async () => {
+    if (backupPassphrase !== backupConfirm) {
+      Alert.alert('Error', "Passphrases don't match");
+      return;
+    }
+    setBackupBusy('export');
+    try {
+      const result = await exportVaultBackup(backupPassphrase, backupIncludeDocuments);
+      if (!result.content || !result.filename) {
+        throw new Error(result.error || 'Failed to export backup');
+      }
+      const fileUri = FileSystem.cacheDirectory + result.filename;
+      await FileSystem.writeAsStringAsync(fileUri, result.content);
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: 'application/json',
+          dialogTitle: result.filename,
+          UTI: 'public.item',
+        });
+      } else {
+        Alert.alert('Success', `Backup saved to: ${fileUri}`);
+      }
+      closeBackup();
+    } catch (error: any) {
+      console.error('Backup export error:', error);
+      Alert.alert('Backup Failed', error.message || 'Failed to export backup');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const restoreFromBackup = async (mode: 'merge' | 'replace') => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets[0]) {
+        return;
+      }
+
+      setBackupBusy('restore');
+      const response = await restoreVaultBackup(picked.assets[0].uri, picked.assets[0].name, restorePassphrase, mode);
+      if (!response.success || !response.data) {
+        throw new Error(response.message || response.error || 'Failed to restore backup');
+      }
+      const result = response.data;
+      Alert.alert(
+        'Backup Restored',
+        mode === 'merge'
+          ? `${result.added} added, ${result.updated} updated, ${result.unchanged} already up to date`
+          : `${result.added} restored, ${result.removed} removed`
+      );
+      closeBackup();
+      loadCredentials();
+    } catch (error: any) {
+      console.error('Backup restore error:', error);
+      Alert.alert('Restore Failed', error.message || 'Failed to restore backup');
+    } finally {
+      setBackupBusy(null);
+    }
+  };
+
+  const handleRestore = (mode: 'merge' | 'replace') => {
+    if (mode === 'merge') {
+      restoreFromBackup(mode);
+      return;
+    }
+    Alert.alert(
+      'Replace All Passwords',
+      "Every saved password will be deleted and replaced with the backup's. Passwords saved since the backup was made will be lost.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => restoreFromBackup(mode) },
+      ]
+    );
+  };
+
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingCredential({});
+    setIsEditing(false);
+    setGeneratorVisible(false);
+    setGeneratedStrength(null);
+    setShowFormPassword(false);
+  };
+
+  const updateGeneratorOptions = (changes: Partial<PasswordGeneratorOptions>) => {
+    setGeneratorOptions((current) => ({ ...current, ...changes }));
+  };
+
+  // Generated on the server, which scores it the same way it scores saved passwords
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const result = await generatePassword(generatorOptions);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to generate password');
+      }
+      setEditingCredential((current) => ({ ...current, password: result.data!.password }));
+      setGeneratedStrength(result.data.strength);
+      setShowFormPassword(true);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   const handleSave = async () => {
     if (!editingCredential.serviceName || !editingCredential.username || 
         (!isEditing && !editingCredential.password)) {
@@ -76,10 +334,11 @@ export default function PasswordsScreen() {
       }
 
       await saveCredential(dataToSave);
-      setModalVisible(false);
-      setEditingCredential({});
-      setIsEditing(false);
+      closeModal();
       loadCredentials();
+      if (view === 'health') {
+        loadHealth();
+      }
       Alert.alert('Success', isEditing ? 'Password updated successfully' : 'Password saved successfully');
     } catch (error: any) {
       Alert.alert('Error', error.message);
@@ -245,11 +504,25 @@ export default function PasswordsScreen() {
               <View style={styles.credentialDetails}>
                 <Text style={styles.serviceName}>{item.serviceName}</Text>
                 <Text style={styles.username}>{item.username}</Text>
-                {item.category && (
-                  <View style={styles.categoryBadge}>
-                    <Text style={styles.categoryText}>{item.category}</Text>
-                  </View>
-                )}
+                <View style={styles.badgeRow}>
+                  {item.category && (
+                    <View style={styles.categoryBadge}>
+                      <Text style={styles.categoryText}>{item.category}</Text>
+                    </View>
+                  )}
+                  {item.passwordStrength !== null && item.passwordStrength !== undefined && (
+                    <View style={styles.strengthBadge}>
+                      <View style={[styles.strengthDot, { backgroundColor: STRENGTH_COLORS[item.passwordStrength] }]} />
+                      <Text style={styles.strengthText}>{STRENGTH_LABELS[item.passwordStrength]}</Text>
+                    </View>
+                  )}
+                  {!!item.breachCount && (
+                    <View style={styles.breachedBadge}>
+                      <Ionicons name="warning" size={12} color="#fff" />
+                      <Text style={styles.breachedText}>Found in breaches</Text>
+                    </View>
+                  )}
+                </View>
               </View>
             </View>
           </View>
@@ -324,6 +597,141 @@ export default function PasswordsScreen() {
     );
   });
 
+  const renderImportRow = (row: CredentialImportRow) => {
+    const selected = importSelected.includes(row.index);
+    const status = !row.duplicate
+      ? 'New'
+      : `${row.duplicate.credentialId ? 'Already saved' : 'Repeated in export'}${row.duplicate.samePassword ? '' : ', different password'}`;
+    return (
+      <TouchableOpacity key={row.index} style={styles.healthItem} onPress={() => toggleImportRow(row.index)}>
+        <Ionicons
+          name={selected ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={ZorliBrandKit.colors.vaultBlue}
+          style={styles.importCheckbox}
+        />
+        <View style={styles.healthItemInfo}>
+          <Text style={styles.serviceName} numberOfLines={1}>{row.serviceName}</Text>
+          <Text style={styles.username} numberOfLines={1}>{row.username || 'No username'}</Text>
+          <Text style={styles.healthDetail}>
+            {status} · {STRENGTH_LABELS[row.passwordStrength]}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHealthItem = (credential: HealthCredential, detail: string | null) => (
+    <View key={credential.id} style={styles.healthItem}>
+      <View style={styles.healthItemInfo}>
+        <Text style={styles.serviceName} numberOfLines={1}>{credential.serviceName}</Text>
+        <Text style={styles.username} numberOfLines={1}>{credential.username}</Text>
+        {detail && <Text style={styles.healthDetail}>{detail}</Text>}
+      </View>
+      <TouchableOpacity style={styles.fixButton} onPress={() => handleFix(credential.id)}>
+        <Ionicons name="build-outline" size={14} color={ZorliBrandKit.colors.vaultBlue} />
+        <Text style={styles.fixButtonText}>Fix</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderHealth = () => {
+    if (healthLoading && !healthReport) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={ZorliBrandKit.colors.vaultBlue} />
+        </View>
+      );
+    }
+    if (!healthReport) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>Failed to check vault health</Text>
+        </View>
+      );
+    }
+
+    const reusedCount = healthReport.reused.reduce((total, group) => total + group.credentials.length, 0);
+    return (
+      <ScrollView
+        contentContainerStyle={styles.list}
+        refreshControl={<RefreshControl refreshing={healthLoading} onRefresh={loadHealth} />}
+      >
+        <View style={styles.healthSummary}>
+          <Text style={styles.healthSummaryTitle}>
+            {healthReport.healthy} of {healthReport.total} passwords have no issues
+          </Text>
+          <View style={styles.healthStats}>
+            <View style={styles.healthStat}>
+              <Text style={styles.healthStatValue}>{healthReport.breached.length}</Text>
+              <Text style={styles.healthStatLabel}>Breached</Text>
+            </View>
+            <View style={styles.healthStat}>
+              <Text style={styles.healthStatValue}>{reusedCount}</Text>
+              <Text style={styles.healthStatLabel}>Reused</Text>
+            </View>
+            <View style={styles.healthStat}>
+              <Text style={styles.healthStatValue}>{healthReport.weak.length}</Text>
+              <Text style={styles.healthStatLabel}>Weak</Text>
+            </View>
+            <View style={styles.healthStat}>
+              <Text style={styles.healthStatValue}>{healthReport.stale.length}</Text>
+              <Text style={styles.healthStatLabel}>Over a year old</Text>
+            </View>
+          </View>
+          {healthReport.unreadable > 0 && (
+            <Text style={styles.healthDetail}>
+              {healthReport.unreadable} password(s) could not be decrypted and were left out of the reuse check.
+            </Text>
+          )}
+        </View>
+
+        {healthReport.breached.length > 0 && (
+          <View style={styles.credentialCard}>
+            <Text style={styles.healthSectionTitle}>Found in data breaches</Text>
+            <Text style={styles.healthSectionHint}>These passwords appear in leaked password lists. Change them now.</Text>
+            {healthReport.breached.map((credential) =>
+              renderHealthItem(credential, `Seen ${(credential.breachCount || 0).toLocaleString()} time(s) in breaches`)
+            )}
+          </View>
+        )}
+
+        {healthReport.reused.length > 0 && (
+          <View style={styles.credentialCard}>
+            <Text style={styles.healthSectionTitle}>Reused passwords</Text>
+            <Text style={styles.healthSectionHint}>One leaked password opens every account that shares it.</Text>
+            {healthReport.reused.map((group) => (
+              <View key={group.groupId} style={styles.reusedGroup}>
+                <Text style={styles.healthDetail}>Same password on {group.credentials.length} accounts</Text>
+                {group.credentials.map((credential) => renderHealthItem(credential, null))}
+              </View>
+            ))}
+          </View>
+        )}
+
+        {healthReport.weak.length > 0 && (
+          <View style={styles.credentialCard}>
+            <Text style={styles.healthSectionTitle}>Weak passwords</Text>
+            <Text style={styles.healthSectionHint}>These would fall quickly to a guessing attack.</Text>
+            {healthReport.weak.map((credential) =>
+              renderHealthItem(credential, credential.passwordStrength !== null ? STRENGTH_LABELS[credential.passwordStrength] : null)
+            )}
+          </View>
+        )}
+
+        {healthReport.stale.length > 0 && (
+          <View style={styles.credentialCard}>
+            <Text style={styles.healthSectionTitle}>Untouched for over a year</Text>
+            <Text style={styles.healthSectionHint}>Change the password, or delete accounts you no longer need.</Text>
+            {healthReport.stale.map((credential) =>
+              renderHealthItem(credential, `${Math.floor(credential.daysSinceTouched / 365)}+ year(s) since last used or changed`)
+            )}
+          </View>
+        )}
+      </ScrollView>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -350,103 +758,160 @@ export default function PasswordsScreen() {
         </Modal>
       )}
       
-      <View style={styles.searchContainer}>
-        <Ionicons name="search-outline" size={20} color="#999" style={styles.searchIcon} />
-        <TextInput
-          style={styles.searchInput}
-          placeholder="Search passwords..."
-          value={searchQuery}
-          onChangeText={setSearchQuery}
-          placeholderTextColor="#999"
-        />
-        {searchQuery.length > 0 && (
-          <TouchableOpacity onPress={() => setSearchQuery('')}>
-            <Ionicons name="close-circle" size={20} color="#999" />
-          </TouchableOpacity>
-        )}
-      </View>
+      {view === 'credentials' && (
+        <View style={styles.searchContainer}>
+          <Ionicons name="search-outline" size={20} color="#999" style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search passwords..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholderTextColor="#999"
+          />
+          {searchQuery.length > 0 && (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <Ionicons name="close-circle" size={20} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
 
       <View style={styles.headerContainer}>
         <Text style={styles.headerTitle}>Password Vault</Text>
         <Text style={styles.headerSubtitle}>
           Securely manage your account credentials with AES-256-GCM encryption
         </Text>
+        <View style={styles.viewSwitcher}>
+          {(['credentials', 'health'] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, view === option && styles.chipActive]}
+              onPress={() => showView(option)}
+            >
+              <Text style={[styles.chipText, view === option && styles.chipTextActive]}>
+                {option === 'credentials' ? 'Passwords' : 'Health'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
-      {selectionMode && (
-        <View style={styles.selectionControls}>
-          <TouchableOpacity 
-            style={styles.selectAllButton}
-            onPress={toggleSelectAll}
-          >
-            <Ionicons 
-              name={selectedCredentials.length === filteredCredentials.length ? "checkbox" : "square-outline"} 
-              size={24} 
-              color={ZorliBrandKit.colors.vaultBlue} 
-            />
-            <Text style={styles.selectAllText}>
-              {selectedCredentials.length === filteredCredentials.length ? 'Deselect All' : 'Select All'}
-            </Text>
-          </TouchableOpacity>
+      {view === 'health' ? renderHealth() : (
+        <>
+          <View style={styles.filterBar}>
+            {SORT_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, sort === option.value && styles.chipActive]}
+                onPress={() => setSort(option.value)}
+              >
+                <Text style={[styles.chipText, sort === option.value && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={[styles.chip, styles.weakChip, weakOnly && styles.chipActive]}
+              onPress={() => setWeakOnly(!weakOnly)}
+            >
+              <Ionicons name="warning-outline" size={14} color={weakOnly ? '#fff' : '#666'} />
+              <Text style={[styles.chipText, weakOnly && styles.chipTextActive]}> Weak only</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, styles.weakChip]}
+              onPress={handleImportPick}
+              disabled={importing}
+            >
+              {importing && !importPreview ? (
+                <ActivityIndicator size="small" color="#666" />
+              ) : (
+                <Ionicons name="cloud-upload-outline" size={14} color="#666" />
+              )}
+              <Text style={styles.chipText}> Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.chip, styles.weakChip]}
+              onPress={() => setBackupVisible(true)}
+            >
+              <Ionicons name="archive-outline" size={14} color="#666" />
+              <Text style={styles.chipText}> Backup</Text>
+            </TouchableOpacity>
+          </View>
 
-          <TouchableOpacity 
-            style={styles.deleteSelectedButton}
-            onPress={handleDeleteSelected}
-            disabled={selectedCredentials.length === 0}
+          {selectionMode && (
+            <View style={styles.selectionControls}>
+              <TouchableOpacity 
+                style={styles.selectAllButton}
+                onPress={toggleSelectAll}
+              >
+                <Ionicons 
+                  name={selectedCredentials.length === filteredCredentials.length ? "checkbox" : "square-outline"} 
+                  size={24} 
+                  color={ZorliBrandKit.colors.vaultBlue} 
+                />
+                <Text style={styles.selectAllText}>
+                  {selectedCredentials.length === filteredCredentials.length ? 'Deselect All' : 'Select All'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity 
+                style={styles.deleteSelectedButton}
+                onPress={handleDeleteSelected}
+                disabled={selectedCredentials.length === 0}
+              >
+                <Ionicons name="trash-outline" size={24} color={selectedCredentials.length > 0 ? ZorliBrandKit.colors.errorRed : "#999"} />
+                <Text style={[styles.deleteSelectedText, selectedCredentials.length === 0 && styles.disabledText]}>
+                  Delete ({selectedCredentials.length})
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <FlatList
+            data={filteredCredentials}
+            renderItem={renderCredential}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.list}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <Ionicons 
+                  name={searchQuery ? "search-outline" : "lock-closed-outline"} 
+                  size={64} 
+                  color="#ccc" 
+                />
+                <Text style={styles.emptyText}>
+                  {searchQuery ? "No passwords found" : weakOnly ? "No weak passwords" : "No passwords saved"}
+                </Text>
+                <Text style={styles.emptySubtext}>
+                  {searchQuery
+                    ? "Try a different search term"
+                    : weakOnly
+                      ? "Every saved password scores fair or better"
+                      : "Add your first password to get started"}
+                </Text>
+              </View>
+            }
+          />
+
+          <TouchableOpacity
+            style={styles.fab}
+            onPress={() => {
+              setEditingCredential({});
+              setIsEditing(false);
+              setModalVisible(true);
+            }}
           >
-            <Ionicons name="trash-outline" size={24} color={selectedCredentials.length > 0 ? ZorliBrandKit.colors.errorRed : "#999"} />
-            <Text style={[styles.deleteSelectedText, selectedCredentials.length === 0 && styles.disabledText]}>
-              Delete ({selectedCredentials.length})
-            </Text>
+            <Ionicons name="add" size={32} color="#fff" />
           </TouchableOpacity>
-        </View>
+        </>
       )}
 
-      <FlatList
-        data={filteredCredentials}
-        renderItem={renderCredential}
-        keyExtractor={(item) => item.id}
-        contentContainerStyle={styles.list}
-        refreshControl={
-          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-        }
-        ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Ionicons 
-              name={searchQuery ? "search-outline" : "lock-closed-outline"} 
-              size={64} 
-              color="#ccc" 
-            />
-            <Text style={styles.emptyText}>
-              {searchQuery ? "No passwords found" : "No passwords saved"}
-            </Text>
-            <Text style={styles.emptySubtext}>
-              {searchQuery ? "Try a different search term" : "Add your first password to get started"}
-            </Text>
-          </View>
-        }
-      />
-
-      <TouchableOpacity
-        style={styles.fab}
-        onPress={() => {
-          setEditingCredential({});
-          setIsEditing(false);
-          setModalVisible(true);
-        }}
-      >
-        <Ionicons name="add" size={32} color="#fff" />
-      </TouchableOpacity>
-
       <Modal
         visible={modalVisible}
         animationType="slide"
         transparent={true}
-        onRequestClose={() => {
-          setModalVisible(false);
-          setEditingCredential({});
-          setIsEditing(false);
-        }}
+        onRequestClose={closeModal}
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalContent}>
@@ -454,13 +919,7 @@ export default function PasswordsScreen() {
               <Text style={styles.modalTitle}>
                 {isEditing ? 'Edit Password' : 'Add Password'}
               </Text>
-              <TouchableOpacity
-                onPress={() => {
-                  setModalVisible(false);
-                  setEditingCredential({});
-                  setIsEditing(false);
-                }}
-              >
+              <TouchableOpacity onPress={closeModal}>
                 <Ionicons name="close" size={24} color="#000" />
               </TouchableOpacity>
             </View>
@@ -480,13 +939,131 @@ export default function PasswordsScreen() {
                 onChangeText={(text) => setEditingCredential({ ...editingCredential, username: text })}
               />
 
-              <TextInput
-                style={styles.input}
-                placeholder={isEditing ? "Password (leave empty to keep current)" : "Password *"}
-                value={editingCredential.password || ''}
-                onChangeText={(text) => setEditingCredential({ ...editingCredential, password: text })}
-                secureTextEntry
-              />
+              <View style={styles.formPasswordRow}>
+                <TextInput
+                  style={[styles.input, styles.formPasswordInput]}
+                  placeholder={isEditing ? "Password (leave empty to keep current)" : "Password *"}
+                  value={editingCredential.password || ''}
+                  onChangeText={(text) => {
+                    setEditingCredential({ ...editingCredential, password: text });
+                    setGeneratedStrength(null);
+                  }}
+                  secureTextEntry={!showFormPassword}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TouchableOpacity style={styles.formIconButton} onPress={() => setShowFormPassword(!showFormPassword)}>
+                  <Ionicons name={showFormPassword ? 'eye-off-outline' : 'eye-outline'} size={20} color="#666" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.formIconButton} onPress={() => setGeneratorVisible(!generatorVisible)}>
+                  <Ionicons name="color-wand-outline" size={20} color={ZorliBrandKit.colors.vaultBlue} />
+                </TouchableOpacity>
+              </View>
+
+              {generatedStrength && (
+                <Text style={styles.generatedStrength}>
+                  <Text style={{ color: STRENGTH_COLORS[generatedStrength.score], fontWeight: '600' }}>
+                    {STRENGTH_LABELS[generatedStrength.score]}
+                  </Text>
+                  {` · about ${Math.round(generatedStrength.entropy)} bits`}
+                </Text>
+              )}
+
+              {generatorVisible && (
+                <View style={styles.generatorPanel}>
+                  <View style={styles.generatorRow}>
+                    {(['characters', 'passphrase'] as const).map((mode) => (
+                      <TouchableOpacity
+                        key={mode}
+                        style={[styles.chip, generatorOptions.mode === mode && styles.chipActive]}
+                        onPress={() => updateGeneratorOptions({ mode })}
+                      >
+                        <Text style={[styles.chipText, generatorOptions.mode === mode && styles.chipTextActive]}>
+                          {mode === 'characters' ? 'Password' : 'Passphrase'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {generatorOptions.mode === 'characters' ? (
+                    <>
+                      <View style={styles.generatorRow}>
+                        <Text style={styles.generatorLabel}>Length</Text>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => updateGeneratorOptions({ length: Math.max(8, generatorOptions.length - 1) })}
+                        >
+                          <Ionicons name="remove" size={18} color="#000" />
+                        </TouchableOpacity>
+                        <Text style={styles.stepperValue}>{generatorOptions.length}</Text>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => updateGeneratorOptions({ length: Math.min(64, generatorOptions.length + 1) })}
+                        >
+                          <Ionicons name="add" size={18} color="#000" />
+                        </TouchableOpacity>
+                      </View>
+                      <View style={styles.generatorRow}>
+                        {CHARACTER_CLASSES.map(({ key, label }) => (
+                          <TouchableOpacity
+                            key={key}
+                            style={[styles.chip, generatorOptions[key] && styles.chipActive]}
+                            onPress={() => updateGeneratorOptions({ [key]: !generatorOptions[key] })}
+                          >
+                            <Text style={[styles.chipText, generatorOptions[key] && styles.chipTextActive]}>{label}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  ) : (
+                    <>
+                      <View style={styles.generatorRow}>
+                        <Text style={styles.generatorLabel}>Words</Text>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => updateGeneratorOptions({ words: Math.max(3, generatorOptions.words - 1) })}
+                        >
+                          <Ionicons name="remove" size={18} color="#000" />
+                        </TouchableOpacity>
+                        <Text style={styles.stepperValue}>{generatorOptions.words}</Text>
+                        <TouchableOpacity
+                          style={styles.stepperButton}
+                          onPress={() => updateGeneratorOptions({ words: Math.min(12, generatorOptions.words + 1) })}
+                        >
+                          <Ionicons name="add" size={18} color="#000" />
+                        </TouchableOpacity>
+                      </View>
+                      <View style={styles.generatorRow}>
+                        <TouchableOpacity
+                          style={[styles.chip, generatorOptions.capitalize && styles.chipActive]}
+                          onPress={() => updateGeneratorOptions({ capitalize: !generatorOptions.capitalize })}
+                        >
+                          <Text style={[styles.chipText, generatorOptions.capitalize && styles.chipTextActive]}>Capitalize</Text>
+                        </TouchableOpacity>
+                        {['-', '.', ' '].map((separator) => (
+                          <TouchableOpacity
+                            key={separator}
+                            style={[styles.chip, generatorOptions.separator === separator && styles.chipActive]}
+                            onPress={() => updateGeneratorOptions({ separator })}
+                          >
+                            <Text style={[styles.chipText, generatorOptions.separator === separator && styles.chipTextActive]}>
+                              {separator === ' ' ? 'space' : separator}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+
+                  <TouchableOpacity style={styles.generateButton} onPress={handleGenerate} disabled={generating}>
+                    {generating ? (
+                      <ActivityIndicator color={ZorliBrandKit.colors.vaultBlue} size="small" />
+                    ) : (
+                      <Text style={styles.generateButtonText}>Generate</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
 
               <TextInput
                 style={styles.input}
@@ -528,6 +1105,144 @@ export default function PasswordsScreen() {
           </View>
         </View>
       </Modal>
+      <Modal
+        visible={!!importPreview}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeImport}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Import Passwords</Text>
+              <TouchableOpacity onPress={closeImport}>
+                <Ionicons name="close" size={24} color="#000" />
+              </TouchableOpacity>
+            </View>
+
+            {importPreview && (
+              <>
+                <Text style={styles.healthDetail}>
+                  {importPreview.rows.length} login{importPreview.rows.length !== 1 ? 's' : ''} found, {importSelected.length} selected
+                  {importPreview.skipped > 0 ? ` · ${importPreview.skipped} skipped (notes, cards or no password)` : ''}
+                </Text>
+                <ScrollView style={styles.importList}>
+                  {importPreview.rows.map(renderImportRow)}
+                </ScrollView>
+                {importPreview.allowance.remaining !== null && (
+                  <Text
+                    style={[
+                      styles.healthDetail,
+                      importSelected.length > importPreview.allowance.remaining && styles.importLimitText,
+                    ]}
+                  >
+                    Your plan has room for {importPreview.allowance.remaining} more password{importPreview.allowance.remaining !== 1 ? 's' : ''}
+                  </Text>
+                )}
+                <TouchableOpacity
+                  style={[styles.importButton, (importing || importSelected.length === 0) && styles.saveButtonDisabled]}
+                  onPress={handleImportConfirm}
+                  disabled={importing || importSelected.length === 0}
+                >
+                  {importing ? (
+                    <ActivityIndicator color="#fff" size="small" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>
+                      Import {importSelected.length} Login{importSelected.length !== 1 ? 's' : ''}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+      <Modal
+        visible={backupVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={closeBackup}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Backup and Restore</Text>
+              <TouchableOpacity onPress={closeBackup}>
+                <Ionicons name="close" size={24} color="#000" />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalScroll}>
+              <Text style={styles.sectionLabel}>Encrypted backup</Text>
+              <Text style={styles.healthDetail}>
+                Every password is encrypted with a passphrase you choose. Without it the backup cannot be opened.
+              </Text>
+              <TextInput
+                style={[styles.input, styles.backupInput]}
+                placeholder="Passphrase"
+                value={backupPassphrase}
+                onChangeText={setBackupPassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Confirm passphrase"
+                value={backupConfirm}
+                onChangeText={setBackupConfirm}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <TouchableOpacity
+                style={[styles.chip, styles.weakChip, backupIncludeDocuments && styles.chipActive]}
+                onPress={() => setBackupIncludeDocuments(!backupIncludeDocuments)}
+              >
+                <Ionicons name={backupIncludeDocuments ? 'checkbox' : 'square-outline'} size={14} color={backupIncludeDocuments ? '#fff' : '#666'} />
+                <Text style={[styles.chipText, backupIncludeDocuments && styles.chipTextActive]}> Include document list</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.importButton, (backupBusy !== null || !backupPassphrase) && styles.saveButtonDisabled]}
+                onPress={handleBackupExport}
+                disabled={backupBusy !== null || !backupPassphrase}
+              >
+                {backupBusy === 'export' ? (
+                  <ActivityIndicator color="#fff" size="small" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Export Backup</Text>
+                )}
+              </TouchableOpacity>
+
+              <Text style={styles.sectionLabel}>Restore</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="Backup passphrase"
+                value={restorePassphrase}
+                onChangeText={setRestorePassphrase}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+              <View style={styles.restoreButtons}>
+                {(['merge', 'replace'] as const).map((mode) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[styles.fixButton, styles.restoreButton, mode === 'replace' && styles.replaceButton]}
+                    onPress={() => handleRestore(mode)}
+                    disabled={backupBusy !== null || !restorePassphrase}
+                  >
+                    {backupBusy === 'restore' ? (
+                      <ActivityIndicator size="small" color={ZorliBrandKit.colors.vaultBlue} />
+                    ) : (
+                      <Text style={[styles.fixButtonText, mode === 'replace' && styles.importLimitText]}>
+                        {mode === 'merge' ? 'Merge from file' : 'Replace from file'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -616,6 +1331,10 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 2,
   },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   categoryBadge: {
     backgroundColor: '#E5E5EA',
     paddingHorizontal: 8,
@@ -623,6 +1342,37 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     alignSelf: 'flex-start',
     marginTop: 4,
+    marginRight: 8,
+  },
+  strengthBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  strengthDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  strengthText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  breachedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: ZorliBrandKit.colors.errorRed,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginTop: 4,
+    marginLeft: 8,
+  },
+  breachedText: {
+    fontSize: 12,
+    color: '#fff',
+    marginLeft: 3,
   },
   categoryText: {
     fontSize: 12,
@@ -773,6 +1523,225 @@ const styles = StyleSheet.create({
     height: 80,
     textAlignVertical: 'top',
   },
+  formPasswordRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  formPasswordInput: {
+    flex: 1,
+  },
+  formIconButton: {
+    padding: 12,
+    marginLeft: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+  },
+  generatedStrength: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  generatorPanel: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    backgroundColor: '#fafafa',
+  },
+  generatorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  generatorLabel: {
+    fontSize: 14,
+    color: '#333',
+    marginRight: 12,
+  },
+  stepperButton: {
+    padding: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 6,
+    backgroundColor: '#fff',
+  },
+  stepperValue: {
+    minWidth: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  generateButton: {
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: ZorliBrandKit.colors.vaultBlue,
+    alignItems: 'center',
+  },
+  generateButtonText: {
+    color: ZorliBrandKit.colors.vaultBlue,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  viewSwitcher: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  healthSummary: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  healthSummaryTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  healthStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  healthStat: {
+    alignItems: 'center',
+  },
+  healthStatValue: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  healthStatLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  healthSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  healthSectionHint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  reusedGroup: {
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingTop: 8,
+    marginBottom: 8,
+  },
+  healthItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  healthItemInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  healthDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  importCheckbox: {
+    marginRight: 10,
+  },
+  importList: {
+    maxHeight: 360,
+    marginVertical: 12,
+  },
+  importLimitText: {
+    color: ZorliBrandKit.colors.errorRed,
+  },
+  importButton: {
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 12,
+    marginBottom: 20,
+    backgroundColor: ZorliBrandKit.colors.vaultBlue,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  backupInput: {
+    marginTop: 12,
+  },
+  restoreButtons: {
+    flexDirection: 'row',
+    marginBottom: 20,
+  },
+  restoreButton: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingVertical: 12,
+    marginRight: 8,
+  },
+  replaceButton: {
+    borderColor: ZorliBrandKit.colors.errorRed,
+  },
+  fixButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: ZorliBrandKit.colors.vaultBlue,
+  },
+  fixButtonText: {
+    fontSize: 14,
+    color: ZorliBrandKit.colors.vaultBlue,
+    marginLeft: 4,
+  },
+  filterBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingTop: 4,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  chipActive: {
+    backgroundColor: ZorliBrandKit.colors.vaultBlue,
+    borderColor: ZorliBrandKit.colors.vaultBlue,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  weakChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   saveButton: {
     padding: 16,
     borderRadius: 8,
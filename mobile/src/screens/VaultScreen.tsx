@@ -20,9 +20,9 @@ import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
-import { getFiles, uploadFile, deleteFile } from '../lib/api';
+import { getFiles, uploadFile, deleteFile, moveFiles, getFolders, createFolder, updateFolder, deleteFolder, getTrash, restoreFromTrash, purgeFromTrash, updateTrashRetention } from '../lib/api';
 import { getAuthHeaders } from '../lib/auth';
-import type { DocumentRecord } from '../types';
+import type { DocumentRecord, TrashedDocument, Folder } from '../types';
 
 const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
 const { width } = Dimensions.get('window');
@@ -131,12 +131,24 @@ export default function VaultScreen() {
   const [previewImageData, setPreviewImageData] = useState<{id: string, filename: string} | null>(null);
   const [isDeletingBatch, setIsDeletingBatch] = useState(false);
   const [isDeletingSingle, setIsDeletingSingle] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [folderNameModal, setFolderNameModal] = useState<{ folder: Folder | null } | null>(null); // folder null creates a new one
+  const [folderName, setFolderName] = useState('');
+  const [moveSubject, setMoveSubject] = useState<{ folder: Folder | null } | null>(null); // folder null moves the selected files
+  const [trashVisible, setTrashVisible] = useState(false);
+  const [trashFiles, setTrashFiles] = useState<TrashedDocument[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+  const [trashBusy, setTrashBusy] = useState(false);
 
   useEffect(() => {
     requestPermissions();
-    loadFiles();
   }, []);
 
+  useEffect(() => {
+    loadFiles();
+  }, [currentFolderId]);
+
   const requestPermissions = async () => {
     const { status: cameraStatus } = await ImagePicker.requestCameraPermissionsAsync();
     const { status: mediaStatus } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -151,8 +163,10 @@ export default function VaultScreen() {
 
   const loadFiles = async () => {
     try {
-      const data = await getFiles();
+      // Only the open folder's own files; its subfolders are listed above them
+      const [data, folderList] = await Promise.all([getFiles(currentFolderId), getFolders()]);
       setFiles(data);
+      setFolders(folderList);
     } catch (error) {
       console.error('Error loading files:', error);
       Alert.alert('Error', 'Failed to load files');
@@ -233,10 +247,18 @@ export default function VaultScreen() {
     }
   };
 
-  const handleUpload = async (uri: string, filename: string, fileType: string) => {
+  const handleUpload = async (uri: string, filename: string, fileType: string, onDuplicate?: 'keep' | 'replace' | 'skip') => {
     setUploading(true);
     try {
-      const response = await uploadFile(uri, filename, fileType);
+      const response = await uploadFile(uri, filename, fileType, currentFolderId, onDuplicate);
+      if (response.duplicates?.length) {
+        Alert.alert('File Already Exists', response.error || `${filename} is already in your vault`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Keep Both', onPress: () => handleUpload(uri, filename, fileType, 'keep') },
+          { text: 'Replace', onPress: () => handleUpload(uri, filename, fileType, 'replace') },
+        ]);
+        return;
+      }
       if (response.error) {
         throw new Error(response.error);
       }
@@ -315,12 +337,12 @@ export default function VaultScreen() {
     if (isDeletingBatch) return;
     
     Alert.alert(
-      'Delete Files',
-      `Are you sure you want to delete ${selectedFiles.length} selected file(s)?`,
+      'Move to Trash',
+      `Move ${selectedFiles.length} selected file(s) to the trash? You can restore them until the trash is emptied.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete',
+          text: 'Move to Trash',
           style: 'destructive',
           onPress: async () => {
             setIsDeletingBatch(true);
@@ -335,7 +357,7 @@ export default function VaultScreen() {
               setSelectedFiles([]);
               setSelectionMode(false);
               loadFiles();
-              Alert.alert('Success', `Deleted ${count} file(s)`);
+              Alert.alert('Moved to Trash', `${count} file(s) moved to the trash`);
             } catch (error: any) {
               Alert.alert('Error', error.message || 'Failed to delete files');
             } finally {
@@ -351,12 +373,12 @@ export default function VaultScreen() {
     if (isDeletingSingle) return;
     
     Alert.alert(
-      'Delete File',
-      `Are you sure you want to delete "${filename}"?`,
+      'Move to Trash',
+      `Move "${filename}" to the trash? You can restore it until the trash is emptied.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete',
+          text: 'Move to Trash',
           style: 'destructive',
           onPress: async () => {
             setIsDeletingSingle(true);
@@ -377,6 +399,186 @@ export default function VaultScreen() {
     );
   };
 
+  // Breadcrumb from the top-level folder down to the open one
+  const getFolderPath = (folderId: string | null): Folder[] => {
+    const path: Folder[] = [];
+    let current = folders.find(f => f.id === folderId);
+    while (current && path.length <= folders.length) {
+      path.unshift(current);
+      const parentId: string | null = current.parentId;
+      current = parentId ? folders.find(f => f.id === parentId) : undefined;
+    }
+    return path;
+  };
+
+  // Every folder in tree order with its depth, for the move picker
+  const getFolderTree = (parentId: string | null = null, depth = 0): Array<{ folder: Folder; depth: number }> =>
+    folders
+      .filter(f => (f.parentId || null) === parentId)
+      .flatMap(folder => [{ folder, depth }, ...getFolderTree(folder.id, depth + 1)]);
+
+  const openFolder = (folderId: string | null) => {
+    setSelectedFiles([]);
+    setSelectionMode(false);
+    setSearchQuery('');
+    setLoading(true);
+    setCurrentFolderId(folderId);
+  };
+
+  const runFolderAction = async (action: () => Promise<{ error?: string }>, failure: string) => {
+    try {
+      const response = await action();
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      loadFiles();
+      return true;
+    } catch (error: any) {
+      Alert.alert('Error', error.message || failure);
+      return false;
+    }
+  };
+
+  const handleSaveFolderName = async () => {
+    if (!folderNameModal || !folderName.trim()) return;
+    const { folder } = folderNameModal;
+    const saved = await runFolderAction(
+      () => folder
+        ? updateFolder(folder.id, { name: folderName.trim() })
+        : createFolder(folderName.trim(), currentFolderId),
+      folder ? 'Failed to rename folder' : 'Failed to create folder'
+    );
+    if (saved) setFolderNameModal(null);
+  };
+
+  const handleMoveTo = async (targetId: string | null) => {
+    if (!moveSubject) return;
+    const { folder } = moveSubject;
+    const count = selectedFiles.length;
+    const moved = await runFolderAction(
+      () => folder ? updateFolder(folder.id, { parentId: targetId }) : moveFiles(selectedFiles, targetId),
+      folder ? 'Failed to move folder' : 'Failed to move files'
+    );
+    if (moved) {
+      setMoveSubject(null);
+      if (!folder) {
+        setSelectedFiles([]);
+        setSelectionMode(false);
+        Alert.alert('Success', `Moved ${count} file(s)`);
+      }
+    }
+  };
+
+  const handleDeleteFolder = (folder: Folder) => {
+    Alert.alert(
+      'Delete Folder',
+      `Delete "${folder.name}" and its subfolders? Files inside can be moved up to the parent folder or to the trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Keep Files',
+          onPress: () => runFolderAction(() => deleteFolder(folder.id, false), 'Failed to delete folder'),
+        },
+        {
+          text: 'Trash Files',
+          style: 'destructive',
+          onPress: () => runFolderAction(() => deleteFolder(folder.id, true), 'Failed to delete folder'),
+        },
+      ]
+    );
+  };
+
+  const handleFolderActions = (folder: Folder) => {
+    Alert.alert(folder.name, undefined, [
+      {
+        text: 'Rename',
+        onPress: () => {
+          setFolderName(folder.name);
+          setFolderNameModal({ folder });
+        },
+      },
+      { text: 'Move', onPress: () => setMoveSubject({ folder }) },
+      { text: 'Delete', style: 'destructive', onPress: () => handleDeleteFolder(folder) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const loadTrash = async () => {
+    try {
+      const trash = await getTrash();
+      setTrashFiles(trash.files);
+      setTrashRetentionDays(trash.retentionDays);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      Alert.alert('Error', 'Failed to load trash');
+    }
+  };
+
+  const openTrash = () => {
+    setTrashVisible(true);
+    loadTrash();
+  };
+
+  const runTrashAction = async (action: () => Promise<{ error?: string }>, failure: string) => {
+    setTrashBusy(true);
+    try {
+      const response = await action();
+      if (response.error) {
+        throw new Error(response.error);
+      }
+      await loadTrash();
+      loadFiles();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || failure);
+    } finally {
+      setTrashBusy(false);
+    }
+  };
+
+  const handlePurge = (file: TrashedDocument) => {
+    Alert.alert(
+      'Delete Forever',
+      `"${file.filename}" will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: () => runTrashAction(() => purgeFromTrash(file.id), 'Failed to delete file'),
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete ${trashFiles.length} file(s)? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: () => runTrashAction(() => purgeFromTrash(), 'Failed to empty trash'),
+        },
+      ]
+    );
+  };
+
+  const handleTrashRetention = () => {
+    Alert.alert(
+      'Keep Deleted Files For',
+      trashRetentionDays ? `Currently ${trashRetentionDays} days` : undefined,
+      [
+        ...[7, 30, 90].map(days => ({
+          text: `${days} days`,
+          onPress: () => runTrashAction(() => updateTrashRetention(days), 'Failed to update retention'),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -400,6 +602,14 @@ export default function VaultScreen() {
     return file.filename.toLowerCase().includes(query);
   });
 
+  const folderPath = getFolderPath(currentFolderId);
+  const subfolders = folders.filter(f => (f.parentId || null) === currentFolderId);
+  const movingFolder = moveSubject?.folder;
+  // A folder cannot move into itself or below itself
+  const moveTargets = getFolderTree().filter(({ folder }) =>
+    !movingFolder || !getFolderPath(folder.id).some(ancestor => ancestor.id === movingFolder.id)
+  );
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -443,6 +653,15 @@ export default function VaultScreen() {
               </Text>
             </TouchableOpacity>
 
+            <TouchableOpacity 
+              style={styles.selectAllButton}
+              onPress={() => setMoveSubject({ folder: null })}
+              disabled={selectedFiles.length === 0 || isDeletingBatch || isDeletingSingle}
+            >
+              <Ionicons name="folder-open-outline" size={24} color={selectedFiles.length > 0 ? ZorliBrandKit.colors.vaultBlue : "#999"} />
+              <Text style={[styles.selectAllText, selectedFiles.length === 0 && styles.disabledText]}>Move</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity 
               style={styles.deleteSelectedButton}
               onPress={handleDeleteSelected}
@@ -503,12 +722,61 @@ export default function VaultScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       >
+        <View style={styles.folderHeader}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.breadcrumb}>
+            <TouchableOpacity onPress={() => openFolder(null)} disabled={!currentFolderId}>
+              <Text style={[styles.breadcrumbText, !currentFolderId && styles.breadcrumbCurrent]}>All files</Text>
+            </TouchableOpacity>
+            {folderPath.map((folder, index) => (
+              <View key={folder.id} style={styles.breadcrumbItem}>
+                <Ionicons name="chevron-forward" size={14} color="#999" />
+                <TouchableOpacity onPress={() => openFolder(folder.id)} disabled={index === folderPath.length - 1}>
+                  <Text style={[styles.breadcrumbText, index === folderPath.length - 1 && styles.breadcrumbCurrent]}>
+                    {folder.name}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+          <TouchableOpacity
+            style={styles.newFolderButton}
+            onPress={() => {
+              setFolderName('');
+              setFolderNameModal({ folder: null });
+            }}
+          >
+            <Ionicons name="add" size={18} color={ZorliBrandKit.colors.vaultBlue} />
+            <Text style={styles.newFolderText}>Folder</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.trashButton} onPress={openTrash}>
+            <Ionicons name="trash-outline" size={18} color={ZorliBrandKit.colors.vaultBlue} />
+          </TouchableOpacity>
+        </View>
+
+        {subfolders.map((folder) => (
+          <TouchableOpacity
+            key={folder.id}
+            style={styles.folderRow}
+            onPress={() => openFolder(folder.id)}
+            onLongPress={() => handleFolderActions(folder)}
+            disabled={selectionMode}
+          >
+            <Ionicons name="folder" size={24} color={ZorliBrandKit.colors.vaultBlue} />
+            <Text style={styles.folderName} numberOfLines={1}>{folder.name}</Text>
+            <TouchableOpacity onPress={() => handleFolderActions(folder)} style={styles.folderMenuButton}>
+              <Ionicons name="ellipsis-horizontal" size={20} color="#666" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+
         {files.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Ionicons name="folder-open-outline" size={64} color="#ccc" />
-            <Text style={styles.emptyText}>No files yet</Text>
-            <Text style={styles.emptySubtext}>Upload your first file to get started</Text>
-          </View>
+          subfolders.length > 0 ? null : (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="folder-open-outline" size={64} color="#ccc" />
+              <Text style={styles.emptyText}>{currentFolderId ? 'This folder is empty' : 'No files yet'}</Text>
+              <Text style={styles.emptySubtext}>Upload your first file to get started</Text>
+            </View>
+          )
         ) : filteredFiles.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Ionicons name="search-outline" size={64} color="#ccc" />
@@ -598,6 +866,132 @@ export default function VaultScreen() {
         </View>
       </Modal>
 
+      {/* Folder Name Modal */}
+      <Modal
+        visible={folderNameModal !== null}
+        transparent={true}
+        animationType="fade"
+        onRequestClose={() => setFolderNameModal(null)}
+      >
+        <View style={styles.deletingModalContainer}>
+          <View style={styles.folderModalContent}>
+            <Text style={styles.folderModalTitle}>{folderNameModal?.folder ? 'Rename Folder' : 'New Folder'}</Text>
+            <TextInput
+              style={styles.folderModalInput}
+              value={folderName}
+              onChangeText={setFolderName}
+              placeholder="Folder name"
+              placeholderTextColor="#999"
+              maxLength={120}
+              autoFocus
+              onSubmitEditing={handleSaveFolderName}
+            />
+            <View style={styles.folderModalActions}>
+              <TouchableOpacity onPress={() => setFolderNameModal(null)} style={styles.folderModalButton}>
+                <Text style={styles.folderModalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSaveFolderName} style={styles.folderModalButton} disabled={!folderName.trim()}>
+                <Text style={[styles.folderModalSave, !folderName.trim() && styles.disabledText]}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Move Destination Modal */}
+      <Modal
+        visible={moveSubject !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setMoveSubject(null)}
+      >
+        <View style={styles.deletingModalContainer}>
+          <View style={styles.folderModalContent}>
+            <Text style={styles.folderModalTitle}>
+              {movingFolder ? `Move "${movingFolder.name}"` : `Move ${selectedFiles.length} file(s)`}
+            </Text>
+            <ScrollView style={styles.moveTargetList}>
+              <TouchableOpacity style={styles.moveTarget} onPress={() => handleMoveTo(null)}>
+                <Ionicons name="home-outline" size={20} color={ZorliBrandKit.colors.vaultBlue} />
+                <Text style={styles.moveTargetText}>Vault root</Text>
+              </TouchableOpacity>
+              {moveTargets.map(({ folder, depth }) => (
+                <TouchableOpacity
+                  key={folder.id}
+                  style={[styles.moveTarget, { paddingLeft: 12 + depth * 16 }]}
+                  onPress={() => handleMoveTo(folder.id)}
+                >
+                  <Ionicons name="folder-outline" size={20} color={ZorliBrandKit.colors.vaultBlue} />
+                  <Text style={styles.moveTargetText} numberOfLines={1}>{folder.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.folderModalActions}>
+              <TouchableOpacity onPress={() => setMoveSubject(null)} style={styles.folderModalButton}>
+                <Text style={styles.folderModalCancel}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Trash Modal */}
+      <Modal
+        visible={trashVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setTrashVisible(false)}
+      >
+        <View style={styles.deletingModalContainer}>
+          <View style={styles.folderModalContent}>
+            <Text style={styles.folderModalTitle}>Trash</Text>
+            <TouchableOpacity onPress={handleTrashRetention} disabled={trashBusy}>
+              <Text style={styles.trashRetentionText}>
+                {trashRetentionDays ? `Deleted files are kept for ${trashRetentionDays} days` : 'Deleted files are kept until purged'}
+              </Text>
+            </TouchableOpacity>
+            <ScrollView style={styles.moveTargetList}>
+              {trashFiles.length === 0 ? (
+                <Text style={styles.trashEmptyText}>Trash is empty</Text>
+              ) : (
+                trashFiles.map((file) => (
+                  <View key={file.id} style={styles.moveTarget}>
+                    <View style={styles.trashFileInfo}>
+                      <Text style={styles.moveTargetText} numberOfLines={1}>{file.filename}</Text>
+                      <Text style={styles.fileSize}>
+                        {formatFileSize(file.fileSize)}
+                        {file.purgeAt ? ` • purged ${new Date(file.purgeAt).toLocaleDateString()}` : ''}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={styles.actionButton}
+                      onPress={() => runTrashAction(() => restoreFromTrash([file.id]), 'Failed to restore file')}
+                      disabled={trashBusy}
+                    >
+                      <Ionicons name="arrow-undo-outline" size={20} color={ZorliBrandKit.colors.vaultBlue} />
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.actionButton} onPress={() => handlePurge(file)} disabled={trashBusy}>
+                      <Ionicons name="trash-outline" size={20} color={ZorliBrandKit.colors.errorRed} />
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+            </ScrollView>
+            <View style={styles.folderModalActions}>
+              {trashBusy && <ActivityIndicator size="small" color={ZorliBrandKit.colors.vaultBlue} />}
+              {trashFiles.length > 0 && (
+                <TouchableOpacity onPress={handleEmptyTrash} style={styles.folderModalButton} disabled={trashBusy}>
+                  <Text style={styles.trashEmptyAction}>Empty Trash</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => setTrashVisible(false)} style={styles.folderModalButton}>
+                <Text style={styles.folderModalCancel}>Close</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Image Preview Modal */}
       <Modal
         visible={imagePreviewVisible}
@@ -808,6 +1202,143 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: 16,
   },
+  folderHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  breadcrumb: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: 8,
+  },
+  breadcrumbItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  breadcrumbText: {
+    fontSize: 14,
+    color: ZorliBrandKit.colors.vaultBlue,
+    marginHorizontal: 4,
+  },
+  breadcrumbCurrent: {
+    color: '#333',
+    fontWeight: '600',
+  },
+  newFolderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f0f8ff',
+    borderRadius: 8,
+    marginLeft: 'auto',
+  },
+  newFolderText: {
+    marginLeft: 4,
+    color: ZorliBrandKit.colors.vaultBlue,
+    fontWeight: '600',
+  },
+  trashButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    backgroundColor: '#f0f8ff',
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  trashRetentionText: {
+    fontSize: 13,
+    color: ZorliBrandKit.colors.vaultBlue,
+    marginBottom: 8,
+  },
+  trashEmptyText: {
+    fontSize: 15,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  trashFileInfo: {
+    flex: 1,
+  },
+  trashEmptyAction: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: ZorliBrandKit.colors.errorRed,
+  },
+  folderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  folderName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    marginLeft: 12,
+  },
+  folderMenuButton: {
+    padding: 4,
+  },
+  folderModalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    width: '85%',
+    maxHeight: '70%',
+  },
+  folderModalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 16,
+  },
+  folderModalInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#000',
+  },
+  folderModalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  folderModalButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+  },
+  folderModalCancel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  folderModalSave: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: ZorliBrandKit.colors.vaultBlue,
+  },
+  moveTargetList: {
+    flexGrow: 0,
+  },
+  moveTarget: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  moveTargetText: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 15,
+    color: '#333',
+  },
   gridContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -17,18 +17,42 @@ export interface DocumentRecord {
   fileSize: number;
   fileType: string;
   storagePath: string;
+  folderId: string | null;
   downloadUrl: string | null;
   extractedText: string | null;
   embeddingStatus: string | null;
   shareToken: string | null;
   isShared: boolean | null;
+  deletedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// A document in the trash and when it will be purged
+export interface TrashedDocument extends DocumentRecord {
+  deletedAt: string;
+  purgeAt: string | null;
+}
+
+export interface DocumentReminder {
+  id: string;
+  documentId: string;
+  filename: string;
+  kind: 'expiry' | 'renewal' | 'warranty' | 'other';
+  dueDate: string;
+  label: string | null;
+  source: 'user' | 'detected';
+}
+
+export interface ReminderSettings {
+  leadDays: number[];
+  emailsEnabled: boolean;
+}
+
 export interface ChatMessage {
   id: string;
   userId: string;
+  conversationId?: string | null;
   role: 'user' | 'assistant';
   content: string;
   files?: any[];
@@ -36,6 +60,25 @@ export interface ChatMessage {
   createdAt: string;
 }
 
+export interface Folder {
+  id: string;
+  userId: string;
+  parentId: string | null;
+  name: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  userId: string;
+  title: string;
+  isArchived: boolean | null;
+  lastMessageAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
 export interface SubscriptionPlan {
   id: string;
   name: string;
@@ -72,11 +115,85 @@ export interface AccountCredential {
   notes?: string | null;
   category?: string | null;
   isFavorite?: boolean;
+  passwordStrength?: number | null; // 0-4, scored by the server when the password is saved
+  breachCount?: number | null; // Times seen in the breach corpus; null until checked
   lastUsed?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type CredentialSort = 'updated' | 'name' | 'weakest';
+
+// A credential as the vault health report lists it, without its password
+export interface HealthCredential {
+  id: string;
+  serviceName: string;
+  username: string;
+  website: string | null;
+  category: string | null;
+  passwordStrength: number | null;
+  breachCount: number | null;
+  updatedAt: string | null;
+  lastUsed: string | null;
+}
+
+export interface VaultHealthReport {
+  total: number;
+  healthy: number;
+  unreadable: number;
+  breached: HealthCredential[];
+  reused: Array<{ groupId: number; credentials: HealthCredential[] }>;
+  weak: HealthCredential[];
+  stale: Array<HealthCredential & { lastTouched: string | null; daysSinceTouched: number }>;
+}
+
+export interface CredentialImportRow {
+  index: number;
+  serviceName: string;
+  username: string;
+  website: string | null;
+  category: string | null;
+  isFavorite: boolean;
+  hasNotes: boolean;
+  passwordStrength: number;
+  duplicate: { credentialId: string | null; serviceName: string; samePassword: boolean } | null;
+}
+
+export interface CredentialImportPreview {
+  format: string;
+  skipped: number;
+  rows: CredentialImportRow[];
+  allowance: { current: number; max: number; remaining: number | null };
+}
+
+export interface VaultRestoreResult {
+  mode: 'merge' | 'replace';
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  documents: number;
+}
+
+export interface PasswordGeneratorOptions {
+  mode: 'characters' | 'passphrase';
+  length: number;
+  lowercase: boolean;
+  uppercase: boolean;
+  digits: boolean;
+  symbols: boolean;
+  words: number; // Passphrase mode only
+  separator: string;
+  capitalize: boolean;
+}
+
+export interface PasswordStrength {
+  score: number; // 0 (very weak) to 4 (very strong)
+  entropy: number;
+  warning: string | null;
+  suggestions: string[];
+}
+
 export interface JobRecord {
   id: string;
   userId: string;
@@ -0,0 +1,193 @@
+import { db } from "../server/db";
+import { storage } from "../server/storage";
+import { embeddingsService, type TextChunk } from "../server/embeddingsService";
+import { vectorDatabase } from "../server/vectorDatabase";
+import { textChunks, documents } from "../shared/schema";
+import { sql, desc, asc, eq, and, isNotNull, isNull } from "drizzle-orm";
+
+// Compares pgvector HNSW search with the brute-force in-memory cosine scan it replaced.
+// Usage: npx tsx scripts/benchmarkVectorSearch.ts [userId] [--queries=50] [--k=10]
+// Without a userId the user with the most embedded chunks is benchmarked. Filters are applied after the
+// index scan, so recall is also reported for the user with the fewest chunks and for one folder.
+
+const args = process.argv.slice(2);
+const getFlag = (name: string, fallback: number) => {
+  const flag = args.find((arg) => arg.startsWith(`--${name}=`));
+  return flag ? parseInt(flag.split("=")[1], 10) : fallback;
+};
+
+const QUERY_COUNT = getFlag("queries", 50);
+const K = getFlag("k", 10);
+const NOISE = 0.02; // Perturb sampled embeddings so queries aren't exact copies of stored chunks
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+  return sorted[index];
+}
+
+function summarize(label: string, timings: number[]) {
+  const mean = timings.reduce((sum, t) => sum + t, 0) / timings.length;
+  console.log(
+    `${label.padEnd(28)} mean ${mean.toFixed(2)}ms  p50 ${percentile(timings, 50).toFixed(2)}ms  p95 ${percentile(timings, 95).toFixed(2)}ms`,
+  );
+}
+
+function perturb(embedding: number[]): number[] {
+  return embedding.map((value) => value + (Math.random() * 2 - 1) * NOISE);
+}
+
+async function pickUser(order: "largest" | "smallest"): Promise<string | undefined> {
+  const count = sql<number>`count(*)`;
+  const [row] = await db
+    .select({ userId: textChunks.userId, count })
+    .from(textChunks)
+    .where(isNotNull(textChunks.embedding))
+    .groupBy(textChunks.userId)
+    .having(sql`count(*) >= ${K}`)
+    .orderBy(order === "largest" ? desc(count) : asc(count))
+    .limit(1);
+  return row?.userId;
+}
+
+// Live files of the user's folder holding the most documents
+async function pickFolderFiles(userId: string): Promise<string[]> {
+  const [folder] = await db
+    .select({ folderId: documents.folderId })
+    .from(documents)
+    .where(and(eq(documents.userId, userId), isNull(documents.deletedAt), isNotNull(documents.folderId)))
+    .groupBy(documents.folderId)
+    .orderBy(desc(sql`count(*)`))
+    .limit(1);
+  if (!folder?.folderId) return [];
+  const files = await db
+    .select({ id: documents.id })
+    .from(documents)
+    .where(and(eq(documents.folderId, folder.folderId), isNull(documents.deletedAt)));
+  return files.map((file) => file.id);
+}
+
+// In-memory path: every chunk loaded up front, as VectorDatabase did at boot. Only chunks the HNSW
+// query can return are loaded (current versions, no trashed documents), so recall compares like with like
+async function loadChunks(userId: string): Promise<{ chunks: TextChunk[]; loadTime: number }> {
+  const loadStart = performance.now();
+  const records = await storage.getAllTextChunks(userId);
+  const loadTime = performance.now() - loadStart;
+  const chunks: TextChunk[] = records.map((record) => ({
+    id: record.id,
+    fileId: record.fileId,
+    userId: record.userId,
+    content: record.content,
+    chunkIndex: record.chunkIndex,
+    embedding: record.embedding || undefined,
+    embeddingProvider: record.embeddingProvider,
+    embeddingModel: record.embeddingModel,
+  })).filter((chunk) => embeddingsService.isCompatibleChunk(chunk));
+  return { chunks, loadTime };
+}
+
+function sampleQueries(chunks: TextChunk[]) {
+  return Array.from({ length: QUERY_COUNT }, () => {
+    const source = chunks[Math.floor(Math.random() * chunks.length)];
+    return {
+      embedding: perturb(source.embedding!),
+      text: source.content.split(/\s+/).slice(0, 8).join(" "),
+    };
+  });
+}
+
+// Recall@K of the pgvector query against the exact scan over the same chunks
+async function scopedRecall(label: string, userId: string, chunks: TextChunk[], fileIds?: string[]) {
+  if (chunks.length === 0) {
+    console.log(`${label.padEnd(28)} skipped, no compatible chunks`);
+    return;
+  }
+  let recallSum = 0;
+  const queries = sampleQueries(chunks);
+  for (const query of queries) {
+    const exact = embeddingsService.findSimilarChunks(query.embedding, chunks, K, -1);
+    const approximate = await storage.findNearestTextChunks(query.embedding, {
+      userId,
+      fileIds,
+      limit: K,
+      embeddingModel: embeddingsService.getModelSignature(),
+    });
+    const exactIds = new Set(exact.map((result) => result.chunk.id));
+    const hits = approximate.filter((result) => exactIds.has(result.chunk.id)).length;
+    recallSum += exactIds.size > 0 ? hits / exactIds.size : 1;
+  }
+  console.log(`${label.padEnd(28)} recall@${K} ${((recallSum / queries.length) * 100).toFixed(1)}% over ${chunks.length} chunks`);
+}
+
+async function benchmarkVectorSearch() {
+  const userId = args.find((arg) => !arg.startsWith("--")) || (await pickUser("largest"));
+  if (!userId) {
+    console.log("No embedded chunks found - upload and process some documents first");
+    return;
+  }
+
+  console.log(`📊 Benchmarking vector search for user ${userId} (${QUERY_COUNT} queries, k=${K})`);
+
+  const { chunks, loadTime } = await loadChunks(userId);
+
+  if (chunks.length === 0) {
+    console.log(`User has no chunks embedded with ${embeddingsService.getModelSignature().model}`);
+    return;
+  }
+  console.log(`✓ Loaded ${chunks.length} chunks into memory in ${loadTime.toFixed(0)}ms`);
+
+  const queries = sampleQueries(chunks);
+
+  const memoryTimings: number[] = [];
+  const pgvectorTimings: number[] = [];
+  const hybridTimings: number[] = [];
+  let recallSum = 0;
+
+  for (const query of queries) {
+    let start = performance.now();
+    const exact = embeddingsService.findSimilarChunks(query.embedding, chunks, K, -1);
+    memoryTimings.push(performance.now() - start);
+
+    start = performance.now();
+    const approximate = await storage.findNearestTextChunks(query.embedding, {
+      userId,
+      limit: K,
+      embeddingModel: embeddingsService.getModelSignature(),
+    });
+    pgvectorTimings.push(performance.now() - start);
+
+    const exactIds = new Set(exact.map((result) => result.chunk.id));
+    const hits = approximate.filter((result) => exactIds.has(result.chunk.id)).length;
+    recallSum += exactIds.size > 0 ? hits / exactIds.size : 1;
+
+    start = performance.now();
+    await vectorDatabase.search({ text: query.text, embedding: query.embedding, userId, limit: K, threshold: 0 });
+    hybridTimings.push(performance.now() - start);
+  }
+
+  console.log("");
+  summarize("In-memory brute force", memoryTimings);
+  summarize("pgvector HNSW", pgvectorTimings);
+  summarize("Hybrid search (HNSW + rerank)", hybridTimings);
+  console.log(`Recall@${K} (HNSW vs exact): ${((recallSum / queries.length) * 100).toFixed(1)}%`);
+  console.log(`In-memory path also pays ${loadTime.toFixed(0)}ms to load this user's chunks after every restart`);
+
+  // Scopes where filtering after the index scan hurts recall most
+  console.log("");
+  const smallUserId = await pickUser("smallest");
+  if (smallUserId && smallUserId !== userId) {
+    await scopedRecall("Smallest user", smallUserId, (await loadChunks(smallUserId)).chunks);
+  }
+  const folderFiles = await pickFolderFiles(userId);
+  if (folderFiles.length > 0) {
+    const inFolder = new Set(folderFiles);
+    await scopedRecall("Largest folder", userId, chunks.filter((chunk) => inFolder.has(chunk.fileId)), folderFiles);
+  }
+}
+
+benchmarkVectorSearch()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Benchmark failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,135 @@
+import { storage } from './storage';
+import { decryptPassword } from './encryption';
+import { createBreachRangeSource, passwordSha1, RANGE_PREFIX_LENGTH, type BreachRangeSource } from './breachSources';
+import type { AccountCredentialRecord } from '@shared/schema';
+
+const CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const CHECK_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Breach corpora grow, so passwords that were clean are looked up again after this many days
+const RECHECK_DAYS = parseInt(process.env.BREACH_RECHECK_DAYS || '30', 10);
+
+/**
+ * Looks saved passwords up in a breach corpus through a k-anonymity range source (a local copy of
+ * Pwned Passwords or its API, see breachSources.ts). Passwords are checked when saved, and a daily
+ * job rechecks every credential once its last check is older than BREACH_RECHECK_DAYS
+ */
+export class BreachCheckService {
+  private static instance: BreachCheckService;
+  private source: BreachRangeSource | null | undefined;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  private constructor() {}
+
+  public static getInstance(): BreachCheckService {
+    if (!BreachCheckService.instance) {
+      BreachCheckService.instance = new BreachCheckService();
+    }
+    return BreachCheckService.instance;
+  }
+
+  private getSource(): BreachRangeSource | null {
+    if (this.source === undefined) {
+      this.source = createBreachRangeSource();
+      if (this.source && !this.source.isAvailable()) {
+        console.warn(`Breach check source "${this.source.name}" is not available; breach checking is off`);
+        this.source = null;
+      }
+    }
+    return this.source;
+  }
+
+  isEnabled(): boolean {
+    return this.getSource() !== null;
+  }
+
+  /**
+   * How many times the password appears in the corpus (0 when it doesn't), or null when breach
+   * checking is off. Only the first five characters of its SHA-1 leave this method
+   */
+  async countBreaches(password: string): Promise<number | null> {
+    const source = this.getSource();
+    if (!source) {
+      return null;
+    }
+    const hash = passwordSha1(password);
+    const range = await source.getRange(hash.slice(0, RANGE_PREFIX_LENGTH));
+    return range.get(hash.slice(RANGE_PREFIX_LENGTH)) || 0;
+  }
+
+  /**
+   * Check a credential that was just saved and record the result. A failed lookup is logged and
+   * leaves the credential for the next scheduled run rather than failing the save
+   */
+  async checkOnSave(credential: AccountCredentialRecord, password: string): Promise<number | null> {
+    try {
+      const breachCount = await this.countBreaches(password);
+      if (breachCount !== null) {
+        await storage.setAccountCredentialBreach(credential.id, breachCount);
+      }
+      return breachCount;
+    } catch (error) {
+      console.warn(`Breach check failed for credential ${credential.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check due credentials now and then every day
+   */
+  startSchedule(): void {
+    if (this.checkTimer || !this.isEnabled()) {
+      return;
+    }
+    this.checkDueCredentials();
+    this.checkTimer = setInterval(() => this.checkDueCredentials(), CHECK_INTERVAL_MS);
+    this.checkTimer.unref();
+  }
+
+  async checkDueCredentials(): Promise<number> {
+    if (this.checking || !this.isEnabled()) {
+      return 0;
+    }
+    this.checking = true;
+
+    let checked = 0;
+    let breached = 0;
+    try {
+      const checkedBefore = new Date(Date.now() - RECHECK_DAYS * DAY_MS);
+      for (;;) {
+        const credentials = await storage.getAccountCredentialsDueForBreachCheck(checkedBefore, CHECK_BATCH_SIZE);
+        for (const credential of credentials) {
+          let password: string;
+          try {
+            password = decryptPassword(credential.encryptedPassword);
+          } catch {
+            await storage.setAccountCredentialBreach(credential.id, null);
+            continue;
+          }
+          // A source error ends the run; the remaining credentials stay due for the next one
+          const breachCount = await this.countBreaches(password);
+          await storage.setAccountCredentialBreach(credential.id, breachCount);
+          checked++;
+          if (breachCount) {
+            breached++;
+          }
+        }
+        if (credentials.length < CHECK_BATCH_SIZE) {
+          break;
+        }
+      }
+      if (checked > 0) {
+        console.log(`Checked ${checked} saved password(s) against the breach corpus, ${breached} found in breaches`);
+      }
+    } catch (error) {
+      console.error('Breach check run failed:', error);
+    } finally {
+      this.checking = false;
+    }
+    return checked;
+  }
+}
+
+export const breachCheckService = BreachCheckService.getInstance();
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export const RANGE_PREFIX_LENGTH = 5;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * A source of breached password hashes queried the Pwned Passwords way (k-anonymity): given the first
+ * five hex characters of a password's SHA-1 it returns the other 35 characters of every breached hash
+ * sharing that prefix, with how often each was seen. Neither the password nor its full hash is sent
+ */
+export interface BreachRangeSource {
+  readonly name: string;
+  isAvailable(): boolean;
+  getRange(prefix: string): Promise<Map<string, number>>; // Hash suffix (uppercase hex) to breach count
+}
+
+/**
+ * Uppercase hex SHA-1, as Pwned Passwords ranges are keyed
+ */
+export function passwordSha1(password: string): string {
+  return createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+}
+
+/**
+ * A range response body: one "SUFFIX:COUNT" per line. Padding entries (count 0) are dropped
+ */
+export function parseRange(body: string): Map<string, number> {
+  const range = new Map<string, number>();
+  for (const line of body.split(/\r?\n/)) {
+    const [suffix, count] = line.trim().split(':');
+    const seen = parseInt(count, 10);
+    if (suffix && seen > 0) {
+      range.set(suffix.toUpperCase(), seen);
+    }
+  }
+  return range;
+}
+
+/**
+ * A local copy of the corpus, one file per prefix (00000.txt to FFFFF.txt) in the range response
+ * format, as the Pwned Passwords downloader writes it when not merging into a single file
+ */
+export class FileRangeSource implements BreachRangeSource {
+  readonly name = 'file';
+
+  constructor(private directory: string = process.env.BREACH_CORPUS_DIR || '') {}
+
+  isAvailable(): boolean {
+    return !!this.directory && fs.existsSync(this.directory);
+  }
+
+  async getRange(prefix: string): Promise<Map<string, number>> {
+    try {
+      return parseRange(await fs.promises.readFile(path.join(this.directory, `${prefix.toUpperCase()}.txt`), 'utf8'));
+    } catch (error: any) {
+      // Trimmed corpora (say, only the most common passwords) leave out prefixes with nothing in them
+      if (error.code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * The Pwned Passwords range API, or a self-hosted mirror of it. Responses are padded so their
+ * size doesn't hint at the prefix
+ */
+export class HttpRangeSource implements BreachRangeSource {
+  readonly name = 'http';
+
+  constructor(private baseUrl: string = process.env.BREACH_RANGE_URL || 'https://api.pwnedpasswords.com/range') {}
+
+  isAvailable(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async getRange(prefix: string): Promise<Map<string, number>> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/${prefix.toUpperCase()}`, {
+      headers: { 'Add-Padding': 'true', 'User-Agent': 'Zorli-AI-Vault' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Breach range request failed with status ${response.status}`);
+    }
+    return parseRange(await response.text());
+  }
+}
+
+/**
+ * Pick the source from BREACH_CHECK_SOURCE ("file", "http" or "off")
+ * Without it, the local corpus is used when BREACH_CORPUS_DIR is set; otherwise breach checking is
+ * off, so no deployment reaches out to a third party unless configured to
+ */
+export function createBreachRangeSource(source: string | undefined = process.env.BREACH_CHECK_SOURCE): BreachRangeSource | null {
+  const configured = source?.toLowerCase();
+
+  switch (configured) {
+    case 'file':
+      return new FileRangeSource();
+    case 'http':
+      return new HttpRangeSource();
+    case 'off':
+      return null;
+    case undefined:
+    case '':
+      return process.env.BREACH_CORPUS_DIR ? new FileRangeSource() : null;
+    default:
+      throw new Error(`Unknown breach check source "${configured}" - expected "file", "http" or "off"`);
+  }
+}
@@ -0,0 +1,286 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+
+// Password exports from browsers and other password managers, read into credentials for the vault
+
+export const CREDENTIAL_IMPORT_FORMATS = ['chrome', 'firefox', 'bitwarden', '1password', 'lastpass'] as const;
+export type CredentialImportFormat = typeof CREDENTIAL_IMPORT_FORMATS[number];
+
+export const CREDENTIAL_IMPORT_FORMAT_LABELS: Record<CredentialImportFormat, string> = {
+  chrome: 'Chrome / Edge (CSV)',
+  firefox: 'Firefox (CSV)',
+  bitwarden: 'Bitwarden (CSV or unencrypted JSON)',
+  '1password': '1Password (CSV)',
+  lastpass: 'LastPass (CSV)',
+};
+
+export const MAX_IMPORT_CREDENTIALS = 5000;
+
+// LastPass exports secure notes as entries with this URL
+const LASTPASS_NOTE_URL = 'http://sn';
+
+const BITWARDEN_LOGIN_TYPE = 1;
+
+export interface ImportedCredential {
+  serviceName: string;
+  username: string;
+  password: string;
+  website: string | null;
+  notes: string | null;
+  category: string | null;
+  isFavorite: boolean;
+}
+
+export interface ParsedCredentialImport {
+  format: CredentialImportFormat;
+  credentials: ImportedCredential[];
+  skipped: number; // Entries that aren't logins (secure notes, cards, identities) or have no password
+}
+
+/**
+ * An export that can't be read, with a message meant for the user
+ */
+export class CredentialImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialImportError';
+    Object.setPrototypeOf(this, CredentialImportError.prototype);
+  }
+}
+
+type CsvRow = Record<string, string>;
+
+/**
+ * Read an export. The format is detected from the CSV header or JSON shape unless given
+ */
+export async function parseCredentialExport(content: Buffer | string, format?: CredentialImportFormat): Promise<ParsedCredentialImport> {
+  if (Buffer.isBuffer(content) && content.subarray(0, 2).toString('latin1') === 'PK') {
+    throw new CredentialImportError('This looks like a zip archive (such as a 1Password .1pux file). Export your passwords as CSV instead.');
+  }
+  const text = (Buffer.isBuffer(content) ? content.toString('utf8') : content).replace(/^\uFEFF/, '').trim();
+  if (!text) {
+    throw new CredentialImportError('The export is empty');
+  }
+
+  let parsed: ParsedCredentialImport;
+  if (text.startsWith('{')) {
+    if (format && format !== 'bitwarden') {
+      throw new CredentialImportError(`${CREDENTIAL_IMPORT_FORMAT_LABELS[format]} exports are CSV files, but this is JSON`);
+    }
+    parsed = parseBitwardenJson(text);
+  } else {
+    const rows = await readCsv(text);
+    const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const detected = format || detectCsvFormat(headers);
+    if (!detected) {
+      throw new CredentialImportError('Unrecognized export. Choose the app it came from, or export it again as CSV.');
+    }
+    parsed = parseCsvRows(detected, rows);
+  }
+
+  if (parsed.credentials.length > MAX_IMPORT_CREDENTIALS) {
+    throw new CredentialImportError(`An import can hold at most ${MAX_IMPORT_CREDENTIALS} logins`);
+  }
+  return parsed;
+}
+
+/**
+ * The app a CSV export came from, told apart by the columns only it writes. Header names are
+ * compared lowercased
+ */
+export function detectCsvFormat(headers: string[]): CredentialImportFormat | null {
+  const columns = new Set(headers);
+  if (columns.has('login_password')) return 'bitwarden';
+  if (columns.has('grouping') || columns.has('extra')) return 'lastpass';
+  if (columns.has('httprealm') || columns.has('formactionorigin')) return 'firefox';
+  if (columns.has('title') && columns.has('password')) return '1password';
+  if (columns.has('name') && columns.has('url') && columns.has('password')) return 'chrome';
+  return null;
+}
+
+function readCsv(text: string): Promise<CsvRow[]> {
+  return new Promise((resolve, reject) => {
+    const rows: CsvRow[] = [];
+    Readable.from([text])
+      .pipe(csv({ mapHeaders: ({ header }) => header.trim().toLowerCase() }))
+      .on('data', (row: CsvRow) => {
+        rows.push(row);
+      })
+      .on('end', () => resolve(rows))
+      .on('error', (error) => reject(new CredentialImportError(`The CSV file could not be read: ${error.message}`)));
+  });
+}
+
+function parseCsvRows(format: CredentialImportFormat, rows: CsvRow[]): ParsedCredentialImport {
+  const credentials: ImportedCredential[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const credential = readCsvRow(format, row);
+    if (credential) {
+      credentials.push(credential);
+    } else {
+      skipped++;
+    }
+  }
+  return { format, credentials, skipped };
+}
+
+function readCsvRow(format: CredentialImportFormat, row: CsvRow): ImportedCredential | null {
+  switch (format) {
+    case 'chrome':
+      return toCredential({ name: row.name, url: row.url, username: row.username, password: row.password, notes: row.note });
+    case 'firefox':
+      return toCredential({ url: row.url, username: row.username, password: row.password });
+    case 'bitwarden':
+      if (row.type && row.type !== 'login') return null;
+      return toCredential({
+        name: row.name,
+        url: row.login_uri?.split(',')[0],
+        username: row.login_username,
+        password: row.login_password,
+        notes: row.notes,
+        category: row.folder,
+        isFavorite: row.favorite === '1',
+      });
+    case '1password':
+      return toCredential({
+        name: row.title,
+        url: row.url || row.website,
+        username: row.username,
+        password: row.password,
+        notes: row.notes || row.notesplain,
+        category: row.tags?.split(/[,;]/)[0],
+        isFavorite: row.favorite?.toLowerCase() === 'true',
+      });
+    case 'lastpass':
+      if (row.url === LASTPASS_NOTE_URL) return null;
+      return toCredential({
+        name: row.name,
+        url: row.url,
+        username: row.username,
+        password: row.password,
+        notes: row.extra,
+        category: row.grouping?.replace(/\\/g, '/'),
+        isFavorite: row.fav === '1',
+      });
+  }
+}
+
+/**
+ * Bitwarden's unencrypted JSON export. Password-protected and account-encrypted exports can't be
+ * read without the user's Bitwarden keys
+ */
+function parseBitwardenJson(text: string): ParsedCredentialImport {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new CredentialImportError('The JSON file could not be read');
+  }
+  if (data?.encrypted) {
+    throw new CredentialImportError('Encrypted Bitwarden exports can\'t be read. Export again as unencrypted JSON or CSV.');
+  }
+  if (!Array.isArray(data?.items)) {
+    throw new CredentialImportError('Unrecognized JSON export. Only Bitwarden JSON exports are supported.');
+  }
+
+  const folders = new Map<string, string>(
+    (Array.isArray(data.folders) ? data.folders : []).map((folder: any) => [folder.id, folder.name]),
+  );
+  const credentials: ImportedCredential[] = [];
+  let skipped = 0;
+
+  for (const item of data.items) {
+    const credential = item?.type === BITWARDEN_LOGIN_TYPE && item.login
+      ? toCredential({
+          name: item.name,
+          url: item.login.uris?.[0]?.uri,
+          username: item.login.username,
+          password: item.login.password,
+          notes: item.notes,
+          category: item.folderId ? folders.get(item.folderId) : undefined,
+          isFavorite: item.favorite === true,
+        })
+      : null;
+    if (credential) {
+      credentials.push(credential);
+    } else {
+      skipped++;
+    }
+  }
+  return { format: 'bitwarden', credentials, skipped };
+}
+
+function toCredential(entry: {
+  name?: string | null;
+  url?: string | null;
+  username?: string | null;
+  password?: string | null;
+  notes?: string | null;
+  category?: string | null;
+  isFavorite?: boolean;
+}): ImportedCredential | null {
+  // Passwords are kept exactly as exported; surrounding spaces may be part of them
+  if (!entry.password) {
+    return null;
+  }
+  const website = entry.url?.trim() || null;
+  const serviceName = entry.name?.trim() || (website && hostOf(website)) || 'Imported login';
+
+  return {
+    serviceName,
+    username: entry.username?.trim() || '',
+    password: entry.password,
+    website,
+    notes: entry.notes?.trim() || null,
+    category: entry.category?.trim() || null,
+    isFavorite: entry.isFavorite || false,
+  };
+}
+
+/**
+ * Host of a URL without "www.", or null when it has none. Exports often hold bare hosts, which
+ * are read as https
+ */
+export function hostOf(url: string): string | null {
+  try {
+    const parsed = new URL(/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : `https://${url}`);
+    return parsed.hostname.replace(/^www\./, '').toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+const CSV_EXPORT_COLUMNS = ['folder', 'favorite', 'type', 'name', 'notes', 'fields', 'reprompt', 'login_uri', 'login_username', 'login_password', 'login_totp'];
+
+/**
+ * Credentials as a plaintext CSV in Bitwarden's layout, which most password managers (and
+ * parseCredentialExport) can import. Values are written as they are, without the formula escaping
+ * spreadsheets would want, so passwords survive the round trip exactly
+ */
+export function formatCredentialsCsv(credentials: ImportedCredential[]): string {
+  const lines = [CSV_EXPORT_COLUMNS.join(',')];
+  for (const credential of credentials) {
+    const cells = [
+      credential.category,
+      credential.isFavorite ? '1' : '',
+      'login',
+      credential.serviceName,
+      credential.notes,
+      '',
+      '0',
+      credential.website,
+      credential.username,
+      credential.password,
+      '',
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function csvCell(value: string | null): string {
+  const text = value ?? '';
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
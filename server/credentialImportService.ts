@@ -0,0 +1,185 @@
+import { storage } from './storage';
+import { encryptPassword, decryptPassword, passwordFingerprint } from './encryption';
+import { maxPasswordsForPlan } from './subscriptionService';
+import { scoreCredentialPassword } from './vaultHealthService';
+import { breachCheckService } from './breachCheckService';
+import { hostOf, MAX_IMPORT_CREDENTIALS, type CredentialImportFormat, type ImportedCredential, type ParsedCredentialImport } from './credentialImportFormats';
+import type { AccountCredentialRecord } from '@shared/schema';
+
+export interface PasswordAllowance {
+  current: number; // Saved passwords counted against the plan
+  max: number; // -1 for unlimited
+  remaining: number | null; // null when unlimited
+}
+
+export interface CredentialImportDuplicate {
+  credentialId: string | null; // null when the match is an earlier entry of the same export
+  serviceName: string;
+  samePassword: boolean;
+}
+
+// An entry of the export as the preview shows it: never its password
+export interface CredentialImportPreviewRow {
+  index: number; // Position in the export, used to pick the entries to import
+  serviceName: string;
+  username: string;
+  website: string | null;
+  category: string | null;
+  isFavorite: boolean;
+  hasNotes: boolean;
+  passwordStrength: number;
+  duplicate: CredentialImportDuplicate | null;
+}
+
+export interface CredentialImportPreview {
+  format: CredentialImportFormat;
+  skipped: number;
+  rows: CredentialImportPreviewRow[];
+  allowance: PasswordAllowance;
+}
+
+export interface CredentialImportResult {
+  imported: number;
+  allowance: PasswordAllowance;
+}
+
+/**
+ * Previews and imports credentials read from another app's export (see credentialImportFormats.ts).
+ * Entries with the same site (the website's host, or the service name without one) and username as a
+ * saved credential or an earlier entry are flagged as duplicates, and imports count against the
+ * plan's password limit the same way saving a credential does
+ */
+export class CredentialImportService {
+  private static instance: CredentialImportService;
+
+  private constructor() {}
+
+  public static getInstance(): CredentialImportService {
+    if (!CredentialImportService.instance) {
+      CredentialImportService.instance = new CredentialImportService();
+    }
+    return CredentialImportService.instance;
+  }
+
+  async getPasswordAllowance(userId: string): Promise<PasswordAllowance> {
+    const userSubscription = await storage.getUserSubscription(userId);
+    const usage = await storage.getSubscriptionUsage(userId);
+    const plan = userSubscription ? await storage.getSubscriptionPlan(userSubscription.planId) : null;
+
+    const max = maxPasswordsForPlan(plan?.name);
+    const current = usage?.passwordsCount || 0;
+    return { current, max, remaining: max === -1 ? null : Math.max(max - current, 0) };
+  }
+
+  async preview(userId: string, parsed: ParsedCredentialImport): Promise<CredentialImportPreview> {
+    const existing = await this.indexExistingCredentials(userId);
+    const seen = new Map<string, Array<{ fingerprint: string; serviceName: string }>>();
+
+    const rows = parsed.credentials.map((credential, index): CredentialImportPreviewRow => {
+      const key = credentialMatchKey(credential);
+      const fingerprint = passwordFingerprint(credential.password);
+
+      let duplicate: CredentialImportDuplicate | null = null;
+      const saved = existing.get(key);
+      if (saved?.length) {
+        const match = saved.find(candidate => candidate.fingerprint === fingerprint) || saved[0];
+        duplicate = { credentialId: match.credential.id, serviceName: match.credential.serviceName, samePassword: match.fingerprint === fingerprint };
+      } else if (seen.get(key)?.length) {
+        const earlier = seen.get(key)!;
+        const match = earlier.find(candidate => candidate.fingerprint === fingerprint) || earlier[0];
+        duplicate = { credentialId: null, serviceName: match.serviceName, samePassword: match.fingerprint === fingerprint };
+      }
+      seen.set(key, [...(seen.get(key) || []), { fingerprint, serviceName: credential.serviceName }]);
+
+      return {
+        index,
+        serviceName: credential.serviceName,
+        username: credential.username,
+        website: credential.website,
+        category: credential.category,
+        isFavorite: credential.isFavorite,
+        hasNotes: !!credential.notes,
+        passwordStrength: scoreCredentialPassword(credential.password, credential),
+        duplicate,
+      };
+    });
+
+    return {
+      format: parsed.format,
+      skipped: parsed.skipped,
+      rows,
+      allowance: await this.getPasswordAllowance(userId),
+    };
+  }
+
+  /**
+   * Save the chosen entries of an export (by their preview index). The caller checks the count
+   * against the password allowance first. Breach lookups run after the response, so a large import
+   * doesn't wait on them
+   */
+  async importCredentials(userId: string, parsed: ParsedCredentialImport, indexes: number[]): Promise<CredentialImportResult> {
+    const chosen = Array.from(new Set(indexes))
+      .filter(index => Number.isInteger(index) && index >= 0 && index < parsed.credentials.length)
+      .map(index => parsed.credentials[index]);
+
+    const created: Array<{ credential: AccountCredentialRecord; password: string }> = [];
+    for (const entry of chosen) {
+      const credential = await storage.createAccountCredential({
+        userId,
+        serviceName: entry.serviceName,
+        username: entry.username,
+        encryptedPassword: encryptPassword(entry.password),
+        website: entry.website,
+        notes: entry.notes,
+        passwordHint: null,
+        category: entry.category,
+        isFavorite: entry.isFavorite,
+        passwordStrength: scoreCredentialPassword(entry.password, entry),
+      });
+      await storage.incrementPasswordCount(userId);
+      created.push({ credential, password: entry.password });
+    }
+
+    if (created.length > 0) {
+      console.log(`Imported ${created.length} credential(s) from a ${parsed.format} export for user ${userId}`);
+      if (breachCheckService.isEnabled()) {
+        this.checkImportedForBreaches(created);
+      }
+    }
+
+    return { imported: created.length, allowance: await this.getPasswordAllowance(userId) };
+  }
+
+  private async checkImportedForBreaches(created: Array<{ credential: AccountCredentialRecord; password: string }>): Promise<void> {
+    for (const { credential, password } of created) {
+      await breachCheckService.checkOnSave(credential, password);
+    }
+  }
+
+  private async indexExistingCredentials(userId: string): Promise<Map<string, Array<{ credential: AccountCredentialRecord; fingerprint: string | null }>>> {
+    const credentials = await storage.getAccountCredentialsByUserId(userId, { limit: MAX_IMPORT_CREDENTIALS, sort: 'name' });
+    const byKey = new Map<string, Array<{ credential: AccountCredentialRecord; fingerprint: string | null }>>();
+    for (const credential of credentials) {
+      let fingerprint: string | null = null;
+      try {
+        fingerprint = passwordFingerprint(decryptPassword(credential.encryptedPassword));
+      } catch {
+        // Still a duplicate by site and username; its password just can't be compared
+      }
+      const key = credentialMatchKey(credential);
+      byKey.set(key, [...(byKey.get(key) || []), { credential, fingerprint }]);
+    }
+    return byKey;
+  }
+}
+
+/**
+ * What makes two credentials the same login: the site (the website's host, or the service name
+ * without one) and the username
+ */
+export function credentialMatchKey(credential: Pick<ImportedCredential, 'serviceName' | 'username' | 'website'>): string {
+  const site = (credential.website && hostOf(credential.website)) || credential.serviceName.trim().toLowerCase();
+  return `${site}\n${credential.username.trim().toLowerCase()}`;
+}
+
+export const credentialImportService = CredentialImportService.getInstance();
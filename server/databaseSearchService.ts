@@ -1,43 +1,59 @@
 import { db } from "./db";
 import { documents as documentsTable } from "@shared/schema";
-import { eq, sql, ilike } from "drizzle-orm";
+import { eq, sql, and, desc, isNotNull, isNull, inArray } from "drizzle-orm";
+import { parseSearchQuery, toTsQuery } from "./searchQuery";
+import { storage } from "./storage";
+import { findDocumentLanguage, searchConfigCase, DEFAULT_SEARCH_CONFIG } from "@shared/languages";
 
 export interface DatabaseSearchResult {
   id: string;
   filename: string;
   extractedText: string;
   fileType: string;
-  relevanceScore: number;
-  matchedContent: string; // Preview of relevant content
+  relevanceScore: number; // ts_rank_cd, normalized to 0-1
+  matchedContent: string; // ts_headline snippet with matched words in **bold**
 }
 
+export interface DocumentSearchOptions {
+  mode?: 'all' | 'any'; // Whether every term must match; searchDocuments falls back to 'any' when 'all' finds nothing
+  fileIds?: string[]; // Restrict to these documents, e.g. the files of one folder
+  searchConfigs?: string[]; // Stemmers for the query; looked up from the documents' languages when not given
+}
+
+// ts_headline settings: up to two fragments around the matches, with matched words in markdown bold
+const HEADLINE_OPTIONS = 'StartSel=**, StopSel=**, MaxWords=35, MinWords=15, ShortWord=3, MaxFragments=2, FragmentDelimiter=" ... "';
+
 export class DatabaseSearchService {
   /**
-   * Search documents by extracted text content using simple text matching
-   * This searches directly in the Supabase database extractedText field
+   * Full-text search over documents' filenames and extracted text
+   * Supports "quoted phrases", -excluded terms and OR; results are ranked with ts_rank_cd
+   * and carry a highlighted ts_headline snippet
    */
   async searchDocuments(
     userId: string, 
     query: string, 
-    limit: number = 5
+    limit: number = 5,
+    fileIds?: string[]
   ): Promise<DatabaseSearchResult[]> {
     try {
       console.log(`Searching database documents for user ${userId} with query: "${query}"`);
       
-      // First, try exact phrase matching for better results
-      const exactResults = await this.searchByExactPhrase(userId, query, limit);
+      const searchConfigs = await this.searchConfigs(userId, fileIds);
+
+      // First require every term, for the most precise results
+      const allTermResults = await this.searchByTsQuery(userId, query, limit, { mode: 'all', fileIds, searchConfigs });
       
-      // If we have good exact matches, return those
-      if (exactResults.length >= 2) {
-        console.log(`Found ${exactResults.length} exact phrase matches`);
-        return exactResults;
+      // If we have good matches, return those
+      if (allTermResults.length >= 2) {
+        console.log(`Found ${allTermResults.length} documents matching all terms`);
+        return allTermResults;
       }
       
-      // Otherwise, fall back to keyword search
-      const keywordResults = await this.searchByKeywords(userId, query, limit);
+      // Otherwise, fall back to documents matching any term
+      const anyTermResults = await this.searchByTsQuery(userId, query, limit, { mode: 'any', fileIds, searchConfigs });
       
-      // Combine results, prioritizing exact matches
-      const combined = [...exactResults, ...keywordResults];
+      // Combine results, prioritizing documents that matched every term
+      const combined = [...allTermResults, ...anyTermResults];
       const uniqueResults = this.removeDuplicates(combined);
       
       console.log(`Found ${uniqueResults.length} total matches after deduplication`);
@@ -50,85 +66,61 @@ export class DatabaseSearchService {
   }
 
   /**
-   * Search for documents containing the exact phrase or very similar content
-   */
-  private async searchByExactPhrase(
-    userId: string, 
-    query: string, 
-    limit: number
-  ): Promise<DatabaseSearchResult[]> {
-    const searchTerms = query.toLowerCase().trim();
-    
-    const documents = await db
-      .select({
-        id: documentsTable.id,
-        filename: documentsTable.filename,
-        extractedText: documentsTable.extractedText,
-        fileType: documentsTable.fileType,
-      })
-      .from(documentsTable)
-      .where(
-        sql`${documentsTable.userId} = ${userId} 
-            AND ${documentsTable.extractedText} IS NOT NULL 
-            AND LOWER(${documentsTable.extractedText}) LIKE ${'%' + searchTerms + '%'}`
-      )
-      .limit(limit);
-
-    return documents
-      .filter(doc => doc.extractedText) // Ensure we have content
-      .map(doc => ({
-        id: doc.id,
-        filename: doc.filename,
-        extractedText: doc.extractedText!,
-        fileType: doc.fileType,
-        relevanceScore: this.calculateRelevanceScore(doc.extractedText!, query),
-        matchedContent: this.extractRelevantContent(doc.extractedText!, query)
-      }))
-      .sort((a, b) => b.relevanceScore - a.relevanceScore);
-  }
-
-  /**
-   * Search for documents containing individual keywords from the query
+   * Ranked full-text query through the GIN index on documents.search_vector. Each document is stemmed in
+   * its own language, so the query is stemmed with every configuration in searchConfigs and the results OR-ed
    */
-  private async searchByKeywords(
-    userId: string, 
-    query: string, 
-    limit: number
+  async searchByTsQuery(
+    userId: string,
+    query: string,
+    limit: number,
+    options: DocumentSearchOptions = {}
   ): Promise<DatabaseSearchResult[]> {
-    // Extract meaningful keywords (skip common words)
-    const keywords = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !this.isCommonWord(word))
-      .slice(0, 5); // Limit to top 5 keywords
-
-    if (keywords.length === 0) {
+    const tsQueryText = toTsQuery(parseSearchQuery(query), options.mode || 'all');
+    if (!tsQueryText || (options.fileIds && options.fileIds.length === 0)) {
+      return [];
+    }
+    const searchConfigs = options.searchConfigs || await this.searchConfigs(userId, options.fileIds);
+    if (searchConfigs.length === 0) {
       return [];
     }
 
-    // Build SQL condition to search for any keyword
-    const keywordConditions = keywords.map(keyword => 
-      sql`LOWER(${documentsTable.extractedText}) LIKE ${'%' + keyword + '%'}`
-    );
-    
-    const combinedCondition = sql`(${keywordConditions.reduce((acc, condition, index) => 
-      index === 0 ? condition : sql`${acc} OR ${condition}`
-    )})`;
+    const tsQuery = sql`(${sql.join(searchConfigs.map(config => sql`to_tsquery(${config}::regconfig, ${tsQueryText})`), sql` || `)})`;
+    // Normalization 32 maps the rank into 0-1 (rank / (rank + 1))
+    const rank = sql<number>`ts_rank_cd(${documentsTable.searchVector}, ${tsQuery}, 32)`;
 
-    const documents = await db
+    // Rank first and only build headlines for the rows that are returned, ts_headline re-parses the whole text
+    const ranked = db
       .select({
         id: documentsTable.id,
         filename: documentsTable.filename,
         extractedText: documentsTable.extractedText,
         fileType: documentsTable.fileType,
+        language: documentsTable.language,
+        rank: rank.as('rank'),
       })
       .from(documentsTable)
-      .where(
-        sql`${documentsTable.userId} = ${userId} 
-            AND ${documentsTable.extractedText} IS NOT NULL 
-            AND ${combinedCondition}`
-      )
-      .limit(limit * 2); // Get more results for better sorting
+      .where(and(
+        eq(documentsTable.userId, userId),
+        isNull(documentsTable.deletedAt),
+        isNotNull(documentsTable.extractedText),
+        sql`${documentsTable.searchVector} @@ ${tsQuery}`,
+        options.fileIds ? inArray(documentsTable.id, options.fileIds) : undefined
+      ))
+      .orderBy(desc(rank))
+      .limit(limit)
+      .as('ranked');
+
+    const documents = await db
+      .select({
+        id: ranked.id,
+        filename: ranked.filename,
+        extractedText: ranked.extractedText,
+        fileType: ranked.fileType,
+        rank: ranked.rank,
+        headline: sql<string>`ts_headline(${sql.raw(searchConfigCase('ranked.language'))}, ${ranked.extractedText}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(ranked)
+      .orderBy(desc(ranked.rank));
 
     return documents
       .filter(doc => doc.extractedText) // Ensure we have content
@@ -137,74 +129,23 @@ export class DatabaseSearchService {
         filename: doc.filename,
         extractedText: doc.extractedText!,
         fileType: doc.fileType,
-        relevanceScore: this.calculateRelevanceScore(doc.extractedText!, query),
-        matchedContent: this.extractRelevantContent(doc.extractedText!, query)
-      }))
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, limit);
-  }
-
-  /**
-   * Calculate a simple relevance score based on keyword frequency and positioning
-   */
-  private calculateRelevanceScore(text: string, query: string): number {
-    const lowerText = text.toLowerCase();
-    const lowerQuery = query.toLowerCase();
-    let score = 0;
-
-    // Exact phrase match gets highest score
-    if (lowerText.includes(lowerQuery)) {
-      score += 10;
-    }
-
-    // Individual keyword matches
-    const keywords = lowerQuery.split(/\s+/).filter(word => word.length > 2);
-    keywords.forEach(keyword => {
-      const matches = (lowerText.match(new RegExp(keyword, 'g')) || []).length;
-      score += matches * 2;
-    });
-
-    // Bonus for matches near the beginning of the document
-    const firstHalf = lowerText.substring(0, lowerText.length / 2);
-    if (firstHalf.includes(lowerQuery)) {
-      score += 3;
-    }
-
-    return score;
+        relevanceScore: Number(doc.rank),
+        matchedContent: doc.headline
+      }));
   }
 
   /**
-   * Extract the most relevant content snippet containing the query terms
+   * Stemmers for a document search: one per language among the documents being searched
    */
-  private extractRelevantContent(text: string, query: string): string {
-    const lowerText = text.toLowerCase();
-    const lowerQuery = query.toLowerCase();
-    
-    // Try to find the exact query first
-    let index = lowerText.indexOf(lowerQuery);
-    
-    // If not found, try the first keyword
-    if (index === -1) {
-      const keywords = lowerQuery.split(/\s+/).filter(word => word.length > 2);
-      if (keywords.length > 0) {
-        index = lowerText.indexOf(keywords[0]);
-      }
-    }
-    
-    if (index === -1) {
-      // Fallback to beginning of text
-      return text.substring(0, 300) + (text.length > 300 ? '...' : '');
+  private async searchConfigs(userId: string, fileIds?: string[]): Promise<string[]> {
+    try {
+      const languages = await storage.getDocumentLanguages(userId, fileIds);
+      const configs = languages.map(code => findDocumentLanguage(code)?.searchConfig || DEFAULT_SEARCH_CONFIG);
+      return configs.length > 0 ? Array.from(new Set(configs)) : [DEFAULT_SEARCH_CONFIG];
+    } catch (error) {
+      console.warn('Failed to look up document languages, stemming the query as English:', error);
+      return [DEFAULT_SEARCH_CONFIG];
     }
-    
-    // Extract context around the match
-    const start = Math.max(0, index - 150);
-    const end = Math.min(text.length, index + 300);
-    let snippet = text.substring(start, end);
-    
-    if (start > 0) snippet = '...' + snippet;
-    if (end < text.length) snippet += '...';
-    
-    return snippet;
   }
 
   /**
@@ -220,23 +161,6 @@ export class DatabaseSearchService {
       return true;
     });
   }
-
-  /**
-   * Check if a word is too common to be useful for search
-   */
-  private isCommonWord(word: string): boolean {
-    const commonWords = new Set([
-      'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had', 
-      'her', 'was', 'one', 'our', 'out', 'day', 'get', 'has', 'him', 'his', 
-      'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who', 'boy', 
-      'did', 'man', 'men', 'put', 'say', 'she', 'too', 'use', 'what', 'is', 
-      'this', 'that', 'with', 'have', 'from', 'they', 'know', 'want', 'been',
-      'good', 'much', 'some', 'time', 'very', 'when', 'come', 'here', 'just',
-      'like', 'long', 'make', 'many', 'over', 'such', 'take', 'than', 'them',
-      'well', 'were'
-    ]);
-    return commonWords.has(word);
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,361 @@
+/**
+ * Structure-aware chunking of extracted text
+ *
+ * Works on the plain text the extractors produce and the structure they leave in it:
+ * "--- Page N ---", "--- Slide N ---" and "--- Sheet: Name ---" markers, markdown headings
+ * (DOCX headings are converted to these), "Headers: ..." rows for CSV/Excel and markdown tables.
+ * Chunks never cross a page, slide, sheet or heading boundary, headings stay with their body,
+ * table rows are never split and continuation chunks of a table repeat its header row.
+ * Transcripts mark lines with "[mm:ss]" timestamps, and each chunk records the time it starts at.
+ */
+
+export interface DocumentChunk {
+  content: string; // Text to embed: section path, table header when repeated, then the body
+  startOffset: number; // Character span of the body within the source text
+  endOffset: number;
+  tokenCount: number;
+  sectionPath: string[]; // e.g. ["Sheet: Sales"] or ["Slide 3"] or ["Setup", "Installation"]
+  pageNumber?: number;
+  startTime?: number; // Seconds into the recording, for transcripts
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+type BlockKind = 'heading' | 'paragraph' | 'row';
+
+interface Block {
+  kind: BlockKind;
+  start: number;
+  end: number;
+  tokens: number;
+  sectionPath: string[];
+  pageNumber?: number;
+  tableHeader?: string; // Header row of the table a row belongs to
+  isTableHeader?: boolean;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+const SECTION_MARKER = /^--- (?:Page (\d+)|Slide (\d+)|Sheet: (.+?)) ---$/;
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+const TABLE_HEADER = /^Headers:\s/;
+const MARKDOWN_TABLE_ROW = /^\|.*\|$/;
+const MARKDOWN_TABLE_SEPARATOR = /^\|[\s:|-]+\|$/;
+const TIMESTAMP_MARKER = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\] /gm;
+
+/**
+ * A transcript timestamp as written in extracted text: "mm:ss", or "h:mm:ss" from an hour on
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${String(minutes).padStart(2, '0')}:${rest}`;
+}
+
+/**
+ * Estimate the number of model tokens in a text without a tokenizer
+ * Mirrors how BPE/WordPiece vocabularies split text: short words are one token, longer words
+ * roughly one per 4 characters, digits in groups of 3, and punctuation and non-Latin characters
+ * one each. Errs on the high side so chunks stay under model limits
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of Array.from(text.matchAll(/[A-Za-z\u00C0-\u024F]+|\d+|[^\sA-Za-z\d\u00C0-\u024F]/g))) {
+    const piece = match[0];
+    if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (piece.length > 1) {
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Split extracted text into chunks of at most `maxTokens` estimated tokens
+ */
+export function chunkDocument(text: string, options: ChunkOptions): DocumentChunk[] {
+  const maxTokens = Math.max(16, options.maxTokens);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens), Math.floor(maxTokens / 2));
+
+  const blocks = splitOversizedBlocks(text, parseBlocks(text), maxTokens, overlapTokens);
+  const timestamps = Array.from(text.matchAll(TIMESTAMP_MARKER)).map(match => ({
+    offset: match.index!,
+    seconds: parseInt(match[1] || '0', 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10)
+  }));
+  const chunks: DocumentChunk[] = [];
+  let current: Block[] = [];
+  let currentTokens = 0;
+
+  const contextFor = (first: Block, blocks: Block[]) => {
+    const last = blocks[blocks.length - 1];
+    const lines = [last.sectionPath.join(' > ')];
+    // Rows cut off from their table keep the column names with them
+    if (first.tableHeader && !blocks.some(block => block.isTableHeader)) {
+      lines.push(first.tableHeader);
+    }
+    return lines.filter(Boolean).join('\n');
+  };
+
+  const emit = (blocks: Block[]) => {
+    const first = blocks[0];
+    const last = blocks[blocks.length - 1];
+    const body = text.slice(first.start, last.end).trim();
+    if (!body) return;
+    const context = contextFor(first, blocks);
+    const content = context ? `${context}\n${body}` : body;
+    // The latest timestamp at or before the chunk, which may begin partway through a marked line
+    let startTime: number | undefined;
+    for (const timestamp of timestamps) {
+      if (timestamp.offset > first.start) break;
+      startTime = timestamp.seconds;
+    }
+    chunks.push({
+      content,
+      startOffset: first.start,
+      endOffset: last.end,
+      tokenCount: estimateTokens(content),
+      sectionPath: last.sectionPath,
+      pageNumber: first.pageNumber,
+      startTime
+    });
+  };
+
+  for (const block of blocks) {
+    const sameSection = current.length > 0 && sameSectionPath(current[current.length - 1].sectionPath, block.sectionPath);
+    const onlyHeadings = current.every(item => item.kind === 'heading');
+
+    // A heading with nothing under it yet is carried into the next chunk instead of standing alone
+    if (current.length > 0 && !sameSection && !onlyHeadings) {
+      emit(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    const contextTokens = estimateTokens(contextFor(current[0] || block, [...current, block]));
+    if (current.length > 0 && !onlyHeadings && currentTokens + block.tokens + contextTokens > maxTokens) {
+      emit(current);
+
+      // Overlap with trailing prose from the same section; table rows are self-contained records
+      const carry: Block[] = [];
+      let carryTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        const candidate = current[i];
+        if (candidate.kind !== 'paragraph' || carryTokens + candidate.tokens > overlapTokens) break;
+        carry.unshift(candidate);
+        carryTokens += candidate.tokens;
+      }
+      if (carryTokens + block.tokens + contextTokens > maxTokens) {
+        carry.length = 0;
+        carryTokens = 0;
+      }
+      current = carry;
+      currentTokens = carryTokens;
+    }
+
+    current.push(block);
+    currentTokens += block.tokens;
+  }
+
+  if (current.length > 0) {
+    emit(current);
+  }
+
+  return chunks;
+}
+
+function sameSectionPath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, index) => part === b[index]);
+}
+
+/**
+ * Turn the text into headings, paragraphs and table rows, each tagged with its section path
+ */
+function parseBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let root: string | null = null;
+  let pageNumber: number | undefined;
+  let headings: string[] = [];
+  let tableHeader: string | null = null;
+  let paragraph: { start: number; end: number } | null = null;
+
+  const sectionPath = () => (root ? [root, ...headings] : [...headings]);
+
+  const push = (kind: BlockKind, start: number, end: number, extra: Partial<Block> = {}) => {
+    blocks.push({
+      kind,
+      start,
+      end,
+      tokens: estimateTokens(text.slice(start, end)),
+      sectionPath: sectionPath(),
+      pageNumber,
+      ...extra
+    });
+  };
+
+  const flushParagraph = () => {
+    if (paragraph) {
+      push('paragraph', paragraph.start, paragraph.end);
+      paragraph = null;
+    }
+  };
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      tableHeader = null;
+      continue;
+    }
+
+    const marker = trimmed.match(SECTION_MARKER);
+    if (marker) {
+      flushParagraph();
+      const [, page, slide, sheet] = marker;
+      root = page ? `Page ${page}` : slide ? `Slide ${slide}` : `Sheet: ${sheet}`;
+      if (page) {
+        pageNumber = parseInt(page, 10);
+      }
+      headings = [];
+      tableHeader = null;
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      tableHeader = null;
+      headings = [...headings.slice(0, heading[1].length - 1), heading[2]];
+      push('heading', lineStart, lineEnd);
+      continue;
+    }
+
+    if (TABLE_HEADER.test(trimmed) || (!tableHeader && MARKDOWN_TABLE_ROW.test(trimmed))) {
+      flushParagraph();
+      tableHeader = trimmed;
+      push('row', lineStart, lineEnd, { tableHeader: trimmed, isTableHeader: true });
+      continue;
+    }
+
+    if (tableHeader) {
+      const previous = blocks[blocks.length - 1];
+      if (MARKDOWN_TABLE_SEPARATOR.test(trimmed) && previous?.isTableHeader) {
+        previous.end = lineEnd;
+        continue;
+      }
+      push('row', lineStart, lineEnd, { tableHeader });
+      continue;
+    }
+
+    paragraph = paragraph ? { start: paragraph.start, end: lineEnd } : { start: lineStart, end: lineEnd };
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/**
+ * Break blocks that cannot fit in a chunk on their own at sentence, then word boundaries
+ */
+function splitOversizedBlocks(text: string, blocks: Block[], maxTokens: number, overlapTokens: number): Block[] {
+  const result: Block[] = [];
+
+  for (const block of blocks) {
+    const contextTokens = estimateTokens(block.sectionPath.join(' > ')) + (block.tableHeader ? estimateTokens(block.tableHeader) : 0);
+    const limit = Math.max(8, maxTokens - contextTokens - 2);
+    if (block.tokens <= limit) {
+      result.push(block);
+      continue;
+    }
+
+    const units: Span[] = [];
+    for (const sentence of spansOf(text, block.start, block.end, /[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+      if (sentence.tokens <= limit) {
+        units.push(sentence);
+        continue;
+      }
+      for (const word of spansOf(text, sentence.start, sentence.end, /\S+/g)) {
+        if (word.tokens <= limit) {
+          units.push(word);
+          continue;
+        }
+        // Very long tokens (encoded data, URLs) are cut by characters
+        const step = limit * 3;
+        for (let start = word.start; start < word.end; start += step) {
+          const end = Math.min(word.end, start + step);
+          units.push({ start, end, tokens: estimateTokens(text.slice(start, end)) });
+        }
+      }
+    }
+
+    for (const piece of packSpans(units, limit, overlapTokens)) {
+      result.push({ ...block, start: piece.start, end: piece.end, tokens: piece.tokens, isTableHeader: false });
+    }
+  }
+
+  return result;
+}
+
+function spansOf(text: string, start: number, end: number, pattern: RegExp): Span[] {
+  const spans: Span[] = [];
+  for (const match of Array.from(text.slice(start, end).matchAll(pattern))) {
+    if (!match[0].trim()) continue;
+    const spanStart = start + match.index!;
+    spans.push({ start: spanStart, end: spanStart + match[0].length, tokens: estimateTokens(match[0]) });
+  }
+  return spans;
+}
+
+/**
+ * Greedily group consecutive spans up to `limit` tokens, repeating trailing spans for overlap
+ */
+function packSpans(units: Span[], limit: number, overlapTokens: number): Span[] {
+  const pieces: Span[] = [];
+  let current: Span[] = [];
+  let currentTokens = 0;
+
+  const toPiece = (spans: Span[], tokens: number): Span => ({ start: spans[0].start, end: spans[spans.length - 1].end, tokens });
+
+  for (const unit of units) {
+    if (current.length > 0 && currentTokens + unit.tokens > limit) {
+      pieces.push(toPiece(current, currentTokens));
+
+      const carry: Span[] = [];
+      let carryTokens = 0;
+      for (let i = current.length - 1; i > 0; i--) {
+        if (carryTokens + current[i].tokens > overlapTokens) break;
+        carry.unshift(current[i]);
+        carryTokens += current[i].tokens;
+      }
+      if (carryTokens + unit.tokens > limit) {
+        carry.length = 0;
+        carryTokens = 0;
+      }
+      current = carry;
+      currentTokens = carryTokens;
+    }
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) {
+    pieces.push(toPiece(current, currentTokens));
+  }
+  return pieces;
+}
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { extractWordBinaryText, extractPowerPointBinaryText, parseRtf, extractEpubText, documentFormatMimeTypeFor } from './documentFormats';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '__fixtures__');
+const fixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name));
+
+describe('extractWordBinaryText', () => {
+  it('reads 8-bit and UTF-16 pieces and keeps field results', () => {
+    assert.equal(
+      extractWordBinaryText(fixture('sample.doc')),
+      'Quarterly report\nRevenue grew 12% — Zoë signed off.\nSee the summary for details.',
+    );
+  });
+
+  it('rejects files that are not compound documents', () => {
+    assert.throws(() => extractWordBinaryText(fixture('sample.rtf')), /Not a valid compound document/);
+  });
+
+  it('rejects compound documents without a Word stream', () => {
+    assert.throws(() => extractWordBinaryText(fixture('sample.ppt')), /No Word document stream/);
+  });
+});
+
+describe('extractPowerPointBinaryText', () => {
+  it('reads slide and notes text without the masters', () => {
+    const { content, slides } = extractPowerPointBinaryText(fixture('sample.ppt'));
+    assert.equal(slides, 2);
+    assert.equal(content, [
+      '--- Slide 1 ---',
+      'Café launch plan',
+      'Open in March',
+      'Hire two baristas',
+      '--- Slide 2 ---',
+      'Budget',
+      'Total: $12,000',
+      'Remember the permit deadline',
+    ].join('\n'));
+    assert.doesNotMatch(content, /Master title/);
+  });
+
+  it('rejects compound documents without a PowerPoint stream', () => {
+    assert.throws(() => extractPowerPointBinaryText(fixture('sample.doc')), /No PowerPoint document stream/);
+  });
+});
+
+describe('parseRtf', () => {
+  it('decodes code page bytes and \\u escapes and skips non-text destinations', () => {
+    assert.equal(parseRtf(fixture('sample.rtf')), [
+      'Lease summary',
+      'Tenant: Renée Dupont, Café du Nord',
+      'Rent is due on the 1st – late after the 5th.',
+      'Deposit:\t€ 1,500',
+    ].join('\n'));
+  });
+
+  it('rejects files that are not RTF', () => {
+    assert.throws(() => parseRtf(Buffer.from('plain text')), /Not an RTF document/);
+  });
+});
+
+describe('extractEpubText', () => {
+  it('reads chapters in spine order with the title and headings', () => {
+    const { content, chapters, title } = extractEpubText(fixture('sample.epub'));
+    assert.equal(title, 'Home Maintenance & Repairs');
+    assert.equal(chapters, 2);
+    assert.equal(content, [
+      '# Home Maintenance & Repairs',
+      'By A. Handy',
+      '',
+      '# Boiler',
+      'Service the boiler once a year.',
+      '',
+      '## Gutters',
+      'Clear the gutters every autumn.',
+    ].join('\n'));
+  });
+
+  it('rejects archives without a package document', () => {
+    assert.throws(() => extractEpubText(fixture('sample.odt')), /EPUB package document not found/);
+  });
+});
+
+describe('OpenDocument text', () => {
+  it('reads headings and paragraphs through extractText', async () => {
+    // textExtraction reaches the database module, which needs a URL to load; no connection is made
+    process.env.DATABASE_URL ||= 'postgres://test@localhost/test';
+    const { textExtractionService } = await import('./textExtraction');
+    const { content, metadata } = await textExtractionService.extractText(path.join(fixturesDir, 'sample.odt'), 'application/vnd.oasis.opendocument.text');
+    assert.equal(content, 'Insurance policy\nPolicy number: HX-20931\nRenewal date: 1 March 2027');
+    assert.ok(metadata);
+    assert.equal(metadata.extractionMethod, 'officeparser');
+  });
+});
+
+describe('documentFormatMimeTypeFor', () => {
+  it('maps the new extensions', () => {
+    assert.equal(documentFormatMimeTypeFor('Lease.RTF'), 'application/rtf');
+    assert.equal(documentFormatMimeTypeFor('book.epub'), 'application/epub+zip');
+    assert.equal(documentFormatMimeTypeFor('policy.odt'), 'application/vnd.oasis.opendocument.text');
+    assert.equal(documentFormatMimeTypeFor('notes.txt'), null);
+  });
+});
@@ -0,0 +1,423 @@
+import XLSX from 'xlsx';
+import path from 'path';
+import { parse as parseHtml } from 'node-html-parser';
+
+// Readers for formats without a dedicated parser package: legacy Word and PowerPoint binaries (OLE
+// compound files, opened with the CFB reader bundled in xlsx), RTF and EPUB
+
+const CFB = XLSX.CFB;
+
+// Windows code pages RTF and Word use, by number, as TextDecoder labels
+const CODE_PAGES: Record<number, string> = {
+  437: 'ibm437',
+  850: 'ibm850',
+  866: 'ibm866',
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh',
+};
+
+// Types browsers give these formats, by extension; many send none for .epub, .odt and .rtf
+const DOCUMENT_FORMAT_EXTENSIONS: Record<string, string> = {
+  '.doc': 'application/msword',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.ods': 'application/vnd.oasis.opendocument.spreadsheet',
+  '.odp': 'application/vnd.oasis.opendocument.presentation',
+  '.rtf': 'application/rtf',
+  '.epub': 'application/epub+zip',
+};
+
+export const DOCUMENT_FORMAT_MIME_TYPES = [...Object.values(DOCUMENT_FORMAT_EXTENSIONS), 'text/rtf'];
+
+/**
+ * The MIME type of an upload named like one of these formats, or null
+ */
+export function documentFormatMimeTypeFor(filename: string): string | null {
+  const extension = path.extname(filename).toLowerCase();
+  return DOCUMENT_FORMAT_EXTENSIONS[extension] || null;
+}
+
+// Windows-1252 bytes 0x80-0x9F, which Node's decoder drops (it reads the code page as Latin-1)
+const WINDOWS_1252_HIGH = '€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ';
+
+function decodeCodePage(bytes: Uint8Array, codePage: number): string {
+  const label = CODE_PAGES[codePage] || (codePage >= 1250 && codePage <= 1258 ? `windows-${codePage}` : 'windows-1252');
+  try {
+    return label === 'windows-1252' ? decodeWindows1252(bytes) : new TextDecoder(label).decode(bytes);
+  } catch {
+    return decodeWindows1252(bytes);
+  }
+}
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += bytes[i] >= 0x80 && bytes[i] < 0xA0 ? WINDOWS_1252_HIGH[bytes[i] - 0x80] : String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function readCompoundFile(buffer: Buffer) {
+  try {
+    return CFB.read(buffer, { type: 'buffer' });
+  } catch (error) {
+    throw new Error(`Not a valid compound document: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+}
+
+function findStream(container: ReturnType<typeof CFB.read>, name: string): Buffer | null {
+  const entry = CFB.find(container, name);
+  return entry?.content ? Buffer.from(entry.content as Uint8Array) : null;
+}
+
+/**
+ * Text of a Word 97-2003 (.doc) document, read through its piece table
+ */
+export function extractWordBinaryText(buffer: Buffer): string {
+  const container = readCompoundFile(buffer);
+  const wordDocument = findStream(container, 'WordDocument');
+  if (!wordDocument || wordDocument.length < 0x200 || wordDocument.readUInt16LE(0) !== 0xA5EC) {
+    throw new Error('No Word document stream found');
+  }
+
+  const nFib = wordDocument.readUInt16LE(2);
+  const flags = wordDocument.readUInt16LE(0x0A);
+  if (flags & 0x0100) {
+    throw new Error('Password-protected Word documents cannot be read');
+  }
+  if (nFib < 101) {
+    throw new Error('Word 95 and earlier documents are not supported');
+  }
+
+  // The piece table (Clx) lives in the 0Table or 1Table stream, at an offset given in the FIB
+  const table = findStream(container, flags & 0x0200 ? '1Table' : '0Table');
+  if (!table) {
+    throw new Error('No Word table stream found');
+  }
+  const csw = wordDocument.readUInt16LE(32);
+  const cslw = wordDocument.readUInt16LE(34 + csw * 2);
+  const fcLcbStart = 34 + csw * 2 + 2 + cslw * 4 + 2;
+  const fcClx = wordDocument.readUInt32LE(fcLcbStart + 33 * 8);
+  const lcbClx = wordDocument.readUInt32LE(fcLcbStart + 33 * 8 + 4);
+  if (lcbClx === 0 || fcClx + lcbClx > table.length) {
+    throw new Error('Word piece table is missing');
+  }
+
+  // Skip property modifiers (Prc) to reach the piece descriptors (Pcdt)
+  let position = fcClx;
+  while (position < fcClx + lcbClx && table[position] === 0x01) {
+    position += 3 + table.readUInt16LE(position + 1);
+  }
+  if (table[position] !== 0x02) {
+    throw new Error('Word piece table is malformed');
+  }
+  const lcb = table.readUInt32LE(position + 1);
+  const plc = position + 5;
+  const pieceCount = (lcb - 4) / 12;
+
+  const pieces: string[] = [];
+  for (let i = 0; i < pieceCount; i++) {
+    const start = table.readUInt32LE(plc + i * 4);
+    const end = table.readUInt32LE(plc + (i + 1) * 4);
+    const fc = table.readUInt32LE(plc + (pieceCount + 1) * 4 + i * 8 + 2);
+    const length = end - start;
+    if (fc & 0x40000000) {
+      // 8-bit text, stored at half the given offset
+      const offset = (fc & 0x3FFFFFFF) / 2;
+      pieces.push(decodeCodePage(wordDocument.subarray(offset, offset + length), 1252));
+    } else {
+      pieces.push(wordDocument.subarray(fc, fc + length * 2).toString('utf16le'));
+    }
+  }
+
+  return cleanWordText(pieces.join(''));
+}
+
+/**
+ * Word's special characters as plain text: field instructions dropped in favour of their results,
+ * table cells separated by tabs and rows by line breaks
+ */
+function cleanWordText(text: string): string {
+  let result = '';
+  const fields: Array<{ showing: boolean }> = [];
+  for (const char of text) {
+    if (char === '\x13') {
+      fields.push({ showing: false });
+    } else if (char === '\x14') {
+      if (fields.length > 0) fields[fields.length - 1].showing = true;
+    } else if (char === '\x15') {
+      fields.pop();
+    } else if (fields.every(field => field.showing)) {
+      result += char;
+    }
+  }
+
+  return result
+    .replace(/\x07\x07/g, '\n')
+    .replace(/\x07/g, '\t')
+    .replace(/[\r\x0B]/g, '\n')
+    .replace(/\x0C/g, '\n\n')
+    .replace(/\x1E/g, '-')
+    .replace(/[\x00-\x08\x0E-\x1F]/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const PPT_RECORD_TYPES = {
+  slidePersistAtom: 0x03F3,
+  mainMaster: 0x03F8,
+  slideListWithText: 0x0FF0,
+  textCharsAtom: 0x0FA0,
+  textBytesAtom: 0x0FA8,
+};
+
+/**
+ * Text of a PowerPoint 97-2003 (.ppt) presentation: slide titles and bodies, text boxes and notes,
+ * without the master slides' placeholder text
+ */
+export function extractPowerPointBinaryText(buffer: Buffer): { content: string; slides: number } {
+  const container = readCompoundFile(buffer);
+  const stream = findStream(container, 'PowerPoint Document');
+  if (!stream) {
+    throw new Error('No PowerPoint document stream found');
+  }
+
+  const blocks: string[] = [];
+  let slides = 0;
+
+  // slideList is the instance of the enclosing slide list: 0 for slides, 2 for notes
+  const walk = (start: number, end: number, slideList: number | null) => {
+    let position = start;
+    while (position + 8 <= end) {
+      const versionAndInstance = stream.readUInt16LE(position);
+      const recordType = stream.readUInt16LE(position + 2);
+      const length = stream.readUInt32LE(position + 4);
+      const body = position + 8;
+      const bodyEnd = Math.min(body + length, end);
+
+      if ((versionAndInstance & 0x0F) === 0x0F) {
+        const instance = versionAndInstance >> 4;
+        if (recordType === PPT_RECORD_TYPES.slideListWithText) {
+          // Instance 1 holds the masters' text
+          if (instance !== 1) walk(body, bodyEnd, instance);
+        } else if (recordType !== PPT_RECORD_TYPES.mainMaster) {
+          walk(body, bodyEnd, slideList);
+        }
+      } else if (recordType === PPT_RECORD_TYPES.slidePersistAtom && slideList === 0) {
+        slides++;
+        blocks.push(`--- Slide ${slides} ---`);
+      } else if (recordType === PPT_RECORD_TYPES.textCharsAtom) {
+        blocks.push(stream.subarray(body, bodyEnd).toString('utf16le'));
+      } else if (recordType === PPT_RECORD_TYPES.textBytesAtom) {
+        blocks.push(stream.subarray(body, bodyEnd).toString('latin1'));
+      }
+      position = body + length;
+    }
+  };
+  walk(0, stream.length, null);
+
+  const content = blocks
+    .map(block => block.replace(/[\r\x0B]/g, '\n').replace(/[\x00-\x08\x0E-\x1F]/g, '').trim())
+    .filter(Boolean)
+    .filter((block, index, all) => !(block.startsWith('--- Slide') && all[index + 1]?.startsWith('--- Slide')))
+    .join('\n');
+
+  return { content: content.replace(/\n{3,}/g, '\n\n').trim(), slides };
+}
+
+// RTF destinations whose content is not document text
+const RTF_SKIPPED_DESTINATIONS = new Set(['fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable',
+  'info', 'pict', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'rsidtbl',
+  'generator', 'filetbl', 'revtbl', 'fldinst', 'object', 'objdata', 'header', 'footer', 'headerl', 'headerr',
+  'headerf', 'footerl', 'footerr', 'footerf', 'private']);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', tab: '\t', cell: '\t', row: '\n',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+  emspace: ' ', enspace: ' ', qmspace: ' ',
+};
+
+/**
+ * Plain text of an RTF document, decoding \'hh bytes in the document's code page and \u escapes
+ */
+export function parseRtf(raw: Buffer): string {
+  const source = raw.toString('latin1');
+  if (!source.startsWith('{\\rtf')) {
+    throw new Error('Not an RTF document');
+  }
+
+  let codePage = 1252;
+  let state = { skip: false, unicodeSkip: 1 };
+  const stack: Array<typeof state> = [];
+  let output = '';
+  let bytes: number[] = [];
+  let pendingSkip = 0; // Fallback characters still to drop after a \u escape
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      if (!state.skip) output += decodeCodePage(Uint8Array.from(bytes), codePage);
+      bytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) output += text;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      pendingSkip = 0;
+    } else if (char === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      pendingSkip = 0;
+    } else if (char === '\\') {
+      const next = source[i + 1];
+      if (next === "'") {
+        const byte = parseInt(source.substr(i + 2, 2), 16);
+        i += 3;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+        } else if (!isNaN(byte)) {
+          bytes.push(byte);
+        }
+        continue;
+      }
+      if (/[a-zA-Z]/.test(next)) {
+        const match = source.slice(i + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/)!;
+        i += match[0].length;
+        const word = match[1];
+        const param = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+        if (pendingSkip > 0) {
+          pendingSkip--;
+          continue;
+        }
+        if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+          flushBytes();
+          state.skip = true;
+        } else if (word === 'ansicpg' && param !== undefined) {
+          codePage = param;
+        } else if (word === 'uc' && param !== undefined) {
+          state.unicodeSkip = param;
+        } else if (word === 'u' && param !== undefined) {
+          emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+          pendingSkip = state.unicodeSkip;
+        } else if (word === 'bin' && param !== undefined) {
+          i += param;
+        } else if (RTF_SYMBOLS[word]) {
+          emit(RTF_SYMBOLS[word]);
+        }
+        continue;
+      }
+      i++;
+      if (next === '*') {
+        // Optional destinations are skipped unless listed as text
+        flushBytes();
+        state.skip = true;
+      } else if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+      } else if (next === '~') {
+        emit(' ');
+      } else if (next === '_') {
+        emit('-');
+      } else if (next === '\n' || next === '\r') {
+        emit('\n');
+      }
+    } else if (char !== '\r' && char !== '\n') {
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else {
+        emit(char);
+      }
+    }
+  }
+  flushBytes();
+
+  return output.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Text of an EPUB book in reading order, with the title and each chapter's headings as markdown headings
+ */
+export function extractEpubText(buffer: Buffer): { content: string; chapters: number; title: string | null } {
+  let container: ReturnType<typeof CFB.read>;
+  try {
+    container = CFB.read(buffer, { type: 'buffer' });
+  } catch (error) {
+    throw new Error(`Not a valid EPUB archive: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+  const readEntry = (entryPath: string) => findStream(container, `/${entryPath}`)?.toString('utf-8') ?? null;
+
+  const manifestXml = readEntry('META-INF/container.xml');
+  const packagePath = manifestXml && attribute(manifestXml.match(/<rootfile\b[^>]*>/)?.[0] || '', 'full-path');
+  const packageXml = packagePath ? readEntry(packagePath) : null;
+  if (!packagePath || !packageXml) {
+    throw new Error('EPUB package document not found');
+  }
+
+  const packageDir = path.posix.dirname(packagePath);
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of packageXml.match(/<item\b[^>]*>/g) || []) {
+    const id = attribute(item, 'id');
+    const href = attribute(item, 'href');
+    if (id && href) {
+      manifest.set(id, { href, mediaType: attribute(item, 'media-type') || '' });
+    }
+  }
+
+  const chapters: string[] = [];
+  for (const itemref of packageXml.match(/<itemref\b[^>]*>/g) || []) {
+    const item = manifest.get(attribute(itemref, 'idref') || '');
+    if (!item || !/html/.test(item.mediaType)) continue;
+    const chapterPath = path.posix.normalize(path.posix.join(packageDir, decodeURIComponent(item.href.split('#')[0])));
+    const html = readEntry(chapterPath);
+    if (!html) continue;
+    const text = chapterText(html);
+    if (text) chapters.push(text);
+  }
+  if (chapters.length === 0) {
+    throw new Error('EPUB has no readable chapters');
+  }
+
+  const title = decodeXmlEntities(packageXml.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1]?.trim() || '') || null;
+  const creator = decodeXmlEntities(packageXml.match(/<dc:creator\b[^>]*>([\s\S]*?)<\/dc:creator>/)?.[1]?.trim() || '');
+  const heading = [title ? `# ${title}` : '', creator ? `By ${creator}` : ''].filter(Boolean).join('\n');
+
+  return {
+    content: [heading, ...chapters].filter(Boolean).join('\n\n'),
+    chapters: chapters.length,
+    title,
+  };
+}
+
+function chapterText(html: string): string {
+  const root = parseHtml(html);
+  const body = root.querySelector('body') || root;
+  body.querySelectorAll('script, style').forEach(element => element.remove());
+  body.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(heading => {
+    const text = heading.text.replace(/\s+/g, ' ').trim();
+    heading.set_content(text ? `${'#'.repeat(parseInt(heading.tagName[1], 10))} ${text}` : '');
+  });
+  return body.structuredText.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function attribute(tag: string, name: string): string | null {
+  const value = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`))?.slice(2).find(group => group !== undefined);
+  return value !== undefined ? decodeXmlEntities(value) : null;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import { embeddingsService } from './embeddingsService';
+import type { DocumentRecord } from '@shared/schema';
+
+export const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.95;
+
+export interface DuplicateFile {
+  id: string;
+  filename: string;
+  fileSize: number;
+  fileType: string;
+  folderId: string | null;
+  createdAt: Date | null;
+}
+
+export interface DuplicateReport {
+  exact: Array<{ contentHash: string; files: DuplicateFile[] }>;
+  similar: Array<{ similarity: number; files: DuplicateFile[] }>; // Lowest pairwise similarity that joined the group
+}
+
+/**
+ * SHA-256 of uploaded bytes, hex encoded, as stored in documents.content_hash
+ */
+export function computeContentHash(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Finds files a user has stored more than once: byte-identical uploads by content hash, and
+ * near-duplicates (e.g. two scans of the same paper) by the similarity of their embeddings
+ */
+export class DuplicateService {
+  private static instance: DuplicateService;
+
+  private constructor() {}
+
+  public static getInstance(): DuplicateService {
+    if (!DuplicateService.instance) {
+      DuplicateService.instance = new DuplicateService();
+    }
+    return DuplicateService.instance;
+  }
+
+  async getReport(userId: string, threshold: number = DEFAULT_NEAR_DUPLICATE_THRESHOLD): Promise<DuplicateReport> {
+    const [exactGroups, pairs] = await Promise.all([
+      storage.getContentHashDuplicates(userId),
+      storage.findSimilarFilePairs(userId, embeddingsService.getModelSignature(), threshold),
+    ]);
+
+    // Identical files are also near-identical; only report them once
+    const exactKey = new Map<string, string>();
+    for (const group of exactGroups) {
+      for (const fileId of group.fileIds) {
+        exactKey.set(fileId, group.contentHash);
+      }
+    }
+    const similarPairs = pairs.filter(pair => {
+      const hash = exactKey.get(pair.fileId);
+      return !hash || hash !== exactKey.get(pair.otherFileId);
+    });
+
+    const similarGroups = this.groupPairs(similarPairs);
+
+    const fileIds = new Set([...exactGroups.flatMap(group => group.fileIds), ...similarGroups.flatMap(group => group.fileIds)]);
+    const files = new Map<string, DuplicateFile>();
+    for (const fileId of Array.from(fileIds)) {
+      const file = await storage.getFile(fileId);
+      if (file) {
+        files.set(fileId, this.describe(file));
+      }
+    }
+    const resolve = (ids: string[]) => ids.map(id => files.get(id)).filter((file): file is DuplicateFile => Boolean(file));
+
+    return {
+      exact: exactGroups
+        .map(group => ({ contentHash: group.contentHash, files: resolve(group.fileIds) }))
+        .filter(group => group.files.length > 1),
+      similar: similarGroups
+        .map(group => ({ similarity: group.similarity, files: resolve(group.fileIds) }))
+        .filter(group => group.files.length > 1),
+    };
+  }
+
+  describe(file: DocumentRecord): DuplicateFile {
+    return {
+      id: file.id,
+      filename: file.filename,
+      fileSize: file.fileSize,
+      fileType: file.fileType,
+      folderId: file.folderId,
+      createdAt: file.createdAt,
+    };
+  }
+
+  /**
+   * Join pairs that share a file into groups (union-find), best match first
+   */
+  private groupPairs(pairs: Array<{ fileId: string; otherFileId: string; similarity: number }>): Array<{ fileIds: string[]; similarity: number }> {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const next = parent.get(id) ?? id;
+      if (next === id) return id;
+      const root = find(next);
+      parent.set(id, root);
+      return root;
+    };
+
+    for (const pair of pairs) {
+      parent.set(find(pair.fileId), find(pair.otherFileId));
+    }
+
+    const groups = new Map<string, { fileIds: Set<string>; similarity: number }>();
+    for (const pair of pairs) {
+      const root = find(pair.fileId);
+      const group = groups.get(root) || { fileIds: new Set<string>(), similarity: 1 };
+      group.fileIds.add(pair.fileId);
+      group.fileIds.add(pair.otherFileId);
+      group.similarity = Math.min(group.similarity, pair.similarity);
+      groups.set(root, group);
+    }
+
+    return Array.from(groups.values())
+      .map(group => ({ fileIds: Array.from(group.fileIds), similarity: Math.round(group.similarity * 1000) / 1000 }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+}
+
+export const duplicateService = DuplicateService.getInstance();
@@ -104,6 +104,61 @@ export async function sendVerificationEmail(email: string, verificationToken: st
   }
 }
 
+// Send a digest of documents that expire or need renewal soon
+export async function sendExpiryReminderEmail(
+  email: string,
+  reminders: Array<{ filename: string; label: string; dueDate: string; daysLeft: number }>
+): Promise<boolean> {
+  try {
+    const describeDue = (daysLeft: number) =>
+      daysLeft <= 0 ? 'today' : daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`;
+    const rows = reminders.map(reminder => `
+            <tr>
+              <td style="padding: 8px; border-bottom: 1px solid #eee;">${escapeHtml(reminder.label)}<br><span style="color: #666; font-size: 12px;">${escapeHtml(reminder.filename)}</span></td>
+              <td style="padding: 8px; border-bottom: 1px solid #eee; white-space: nowrap;">${reminder.dueDate}<br><span style="color: #FF3B30; font-size: 12px;">${describeDue(reminder.daysLeft)}</span></td>
+            </tr>`).join('');
+
+    const mailOptions = {
+      from: `"Zorli AI Vault" <${process.env.GMAIL_USER}>`,
+      to: email,
+      subject: reminders.length === 1
+        ? `${reminders[0].label} ${describeDue(reminders[0].daysLeft)} - Zorli AI Vault`
+        : `${reminders.length} documents expire soon - Zorli AI Vault`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #333;">Upcoming expiry and renewal dates</h2>
+          <p>These documents in your Zorli AI Vault expire or are due for renewal soon:</p>
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">${rows}
+          </table>
+          <p>You can change when these reminders are sent, or turn them off, from the dashboard.</p>
+          <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+          <p style="color: #666; font-size: 12px;">
+            This is an automated email from Zorli AI Vault. Please do not reply to this email.
+          </p>
+        </div>
+      `,
+      text: `Upcoming expiry and renewal dates in your Zorli AI Vault:\n\n${reminders
+        .map(reminder => `- ${reminder.label} (${reminder.filename}): ${reminder.dueDate}, ${describeDue(reminder.daysLeft)}`)
+        .join('\n')}`,
+    };
+
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Expiry reminder email sent:', info.messageId);
+    return true;
+  } catch (error) {
+    console.error('❌ Failed to send expiry reminder email:', error);
+    return false;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 // Verify transporter configuration
 export async function verifyEmailConfig(): Promise<boolean> {
   try {
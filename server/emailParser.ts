@@ -0,0 +1,304 @@
+import { parse as parseHtml } from 'node-html-parser';
+
+export interface EmailAddress {
+  name: string | null;
+  address: string; // Lowercased
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedEmail {
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string | null;
+  date: Date | null;
+  messageId: string | null;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+const MAX_PART_DEPTH = 10;
+
+// Exported mailboxes are often sent without a type, so uploads are recognised by extension
+const EMAIL_EXTENSIONS: Record<string, string> = {
+  '.eml': 'message/rfc822',
+  '.mbox': 'application/mbox',
+};
+
+export const EMAIL_MIME_TYPES = Object.values(EMAIL_EXTENSIONS);
+
+/**
+ * The email MIME type of an upload named like an email file, or null
+ */
+export function emailMimeTypeFor(filename: string): string | null {
+  const extension = filename.toLowerCase().match(/\.[a-z]+$/)?.[0];
+  return (extension && EMAIL_EXTENSIONS[extension]) || null;
+}
+
+/**
+ * Parse one RFC 5322 message: decoded headers, the readable body (plain text preferred over HTML)
+ * and its attachments, including attached messages
+ */
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const { headers, body } = splitHeaders(raw);
+  const collected: CollectedParts = { plain: [], html: [], attachments: [] };
+  walkPart(headers, body, collected, 0);
+
+  const text = collected.plain.length > 0
+    ? collected.plain.join('\n\n')
+    : collected.html.map(htmlToText).join('\n\n');
+
+  const date = headers.get('date') ? new Date(headers.get('date')!) : null;
+
+  return {
+    from: parseAddresses(headers.get('from'))[0] || null,
+    to: parseAddresses(headers.get('to')),
+    cc: parseAddresses(headers.get('cc')),
+    subject: headers.get('subject')?.trim() || null,
+    date: date && !isNaN(date.getTime()) ? date : null,
+    messageId: headers.get('message-id')?.trim().replace(/^<|>$/g, '') || null,
+    text: text.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim(),
+    attachments: collected.attachments,
+  };
+}
+
+/**
+ * Split an mbox file into its raw messages, undoing the ">From " quoting of body lines
+ */
+export function splitMbox(raw: Buffer): Buffer[] {
+  const mailbox = raw.toString('latin1');
+  return mailbox
+    .split(/^From [^\n]*\n/m)
+    .filter(message => message.trim().length > 0)
+    .map(message => Buffer.from(message.replace(/^>(>*From )/gm, '$1'), 'latin1'));
+}
+
+interface CollectedParts {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+function walkPart(headers: Map<string, string>, body: Buffer, collected: CollectedParts, depth: number): void {
+  const contentType = parseHeaderValue(headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderValue(headers.get('content-disposition') || '');
+  const mimeType = contentType.value || 'text/plain';
+  const filename = disposition.params.filename || contentType.params.name || null;
+
+  if (mimeType.startsWith('multipart/') && contentType.params.boundary && depth < MAX_PART_DEPTH) {
+    const parts = splitMultipart(body, contentType.params.boundary).map(splitHeaders);
+    if (mimeType === 'multipart/alternative') {
+      // Alternatives carry the same message; keep the plain-text one when there is one
+      const alternatives = parts.map(part => {
+        const alternative: CollectedParts = { plain: [], html: [], attachments: [] };
+        walkPart(part.headers, part.body, alternative, depth + 1);
+        return alternative;
+      });
+      const chosen = alternatives.find(alternative => alternative.plain.length > 0)
+        || [...alternatives].reverse().find(alternative => alternative.html.length > 0);
+      if (chosen) {
+        collected.plain.push(...chosen.plain);
+        collected.html.push(...chosen.html);
+      }
+      alternatives.forEach(alternative => collected.attachments.push(...alternative.attachments));
+      return;
+    }
+    parts.forEach(part => walkPart(part.headers, part.body, collected, depth + 1));
+    return;
+  }
+
+  const content = decodeTransferEncoding(body, headers.get('content-transfer-encoding'));
+  const isAttachment = disposition.value === 'attachment'
+    || (Boolean(filename) && !mimeType.startsWith('text/'))
+    || mimeType === 'message/rfc822';
+
+  if (isAttachment) {
+    // Inline images referenced from the HTML body (logos, signatures) are not documents of their own
+    if (disposition.value !== 'attachment' && headers.has('content-id') && mimeType.startsWith('image/')) {
+      return;
+    }
+    if (content.length === 0) {
+      return;
+    }
+    collected.attachments.push({
+      filename: filename || defaultAttachmentName(mimeType, content, collected.attachments.length),
+      contentType: mimeType,
+      content,
+    });
+    return;
+  }
+
+  if (mimeType === 'text/html') {
+    collected.html.push(decodeCharset(content, contentType.params.charset));
+  } else if (mimeType.startsWith('text/')) {
+    collected.plain.push(decodeCharset(content, contentType.params.charset));
+  }
+}
+
+function defaultAttachmentName(mimeType: string, content: Buffer, index: number): string {
+  if (mimeType === 'message/rfc822') {
+    const subject = splitHeaders(content).headers.get('subject')?.trim();
+    return `${(subject || 'Attached message').replace(/[\\/:*?"<>|]/g, '_').slice(0, 100)}.eml`;
+  }
+  return `attachment-${index + 1}`;
+}
+
+function splitHeaders(raw: Buffer): { headers: Map<string, string>; body: Buffer } {
+  const text = raw.toString('latin1');
+  // A part without headers starts with the blank line
+  const match = text.match(/^\r?\n|\r?\n\r?\n/);
+  const headerEnd = match?.index ?? text.length;
+  const bodyStart = match ? headerEnd + match[0].length : text.length;
+
+  const headers = new Map<string, string>();
+  // Headers are ASCII with encoded words, though some senders put raw UTF-8 in them
+  const headerText = decodeCharset(raw.subarray(0, headerEnd), 'utf-8').replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of headerText.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, decodeEncodedWords(line.slice(separator + 1).trim()));
+    }
+  }
+
+  return { headers, body: raw.subarray(bodyStart) };
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('latin1');
+  const delimiter = `--${boundary}`;
+  const parts: Buffer[] = [];
+  let searchFrom = 0;
+  let partStart = -1;
+
+  while (true) {
+    const index = text.indexOf(delimiter, searchFrom);
+    if (index === -1) break;
+    // Delimiters only count at the start of a line
+    if (index > 0 && text[index - 1] !== '\n') {
+      searchFrom = index + delimiter.length;
+      continue;
+    }
+    if (partStart !== -1) {
+      const partEnd = text[index - 2] === '\r' ? index - 2 : index - 1;
+      parts.push(body.subarray(partStart, Math.max(partStart, partEnd)));
+    }
+    const isClosing = text.startsWith('--', index + delimiter.length);
+    if (isClosing) break;
+    const lineEnd = text.indexOf('\n', index);
+    if (lineEnd === -1) break;
+    partStart = lineEnd + 1;
+    searchFrom = partStart;
+  }
+
+  return parts;
+}
+
+/**
+ * A structured header such as Content-Type as its lowercased value and parameters, including
+ * RFC 2231 encoded and continued parameters
+ */
+function parseHeaderValue(header: string): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  const continued: Record<string, Array<{ index: number; text: string; encoded: boolean }>> = {};
+  const pattern = /([^=\s;]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+
+  for (const match of Array.from(rest.join(';').matchAll(pattern))) {
+    const key = match[1].toLowerCase();
+    const raw = match[2].trim().replace(/^"|"$/g, '').replace(/\\(.)/g, '$1');
+    const extended = key.match(/^([^*]+)\*(?:(\d+)\*?)?$/);
+    if (extended) {
+      const pieces = continued[extended[1]] || (continued[extended[1]] = []);
+      pieces.push({ index: extended[2] ? parseInt(extended[2], 10) : 0, text: raw, encoded: key.endsWith('*') });
+    } else {
+      params[key] = raw;
+    }
+  }
+
+  for (const [key, pieces] of Object.entries(continued)) {
+    pieces.sort((a, b) => a.index - b.index);
+    const charsetMatch = pieces[0].encoded ? pieces[0].text.match(/^([^']*)'[^']*'/) : null;
+    const charset = charsetMatch?.[1] || 'utf-8';
+    if (charsetMatch) pieces[0].text = pieces[0].text.slice(charsetMatch[0].length);
+    const bytes = Buffer.concat(pieces.map(piece => piece.encoded
+      ? Buffer.from(piece.text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1')
+      : Buffer.from(piece.text, 'latin1')));
+    params[key] = decodeCharset(bytes, charset);
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?utf-8?B?...?=") in a header value
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (__, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+      return decodeCharset(bytes, charset);
+    });
+}
+
+function decodeTransferEncoding(body: Buffer, encoding: string | undefined): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body.toString('latin1')
+          .replace(/[ \t]+(?=\r?\n)/g, '')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return body;
+  }
+}
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').trim().toLowerCase().replace(/^"|"$/g, '');
+  try {
+    return new TextDecoder(label === 'us-ascii' ? 'utf-8' : label).decode(bytes);
+  } catch {
+    // Charsets the runtime does not know are read byte for byte
+    return bytes.toString('latin1');
+  }
+}
+
+/**
+ * Addresses in a From/To/Cc header, e.g. `"Acme Billing" <billing@acme.com>, jo@example.org`
+ */
+function parseAddresses(header: string | undefined): EmailAddress[] {
+  if (!header) return [];
+  const addresses: EmailAddress[] = [];
+  // Split on commas outside quotes and angle brackets
+  const entries = header.match(/(?:"(?:[^"\\]|\\.)*"|<[^>]*>|[^,"<])+/g) || [];
+  for (const entry of entries) {
+    const angle = entry.match(/<([^>]+)>/);
+    const address = (angle ? angle[1] : entry.replace(/\(.*?\)/g, '')).trim().toLowerCase();
+    if (!address.includes('@')) continue;
+    const name = angle
+      ? entry.slice(0, angle.index).trim().replace(/^"|"$/g, '').replace(/\\(.)/g, '$1').trim()
+      : entry.match(/\((.*?)\)/)?.[1]?.trim();
+    addresses.push({ name: name || null, address });
+  }
+  return addresses;
+}
+
+function htmlToText(html: string): string {
+  const root = parseHtml(html);
+  root.querySelectorAll('script, style, head').forEach(element => element.remove());
+  return root.structuredText;
+}
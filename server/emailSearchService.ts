@@ -0,0 +1,95 @@
+import { storage } from './storage';
+import { EMAIL_MIME_TYPES } from './emailParser';
+import type { DocumentRecord } from '@shared/schema';
+
+const MAX_MATCHED_MESSAGES = 50;
+const MAX_LISTED_MESSAGES = 10;
+
+// Words of a question that never name a sender
+const NON_SENDER_WORDS = new Set(['what', 'did', 'does', 'send', 'sent', 'sends', 'email', 'emails', 'mail', 'mails',
+  'message', 'messages', 'about', 'from', 'the', 'any', 'tell', 'show', 'find', 'list', 'give', 'last', 'latest',
+  'recent', 'when', 'who', 'which', 'have', 'has', 'had', 'was', 'were', 'with', 'regarding', 'reply', 'replied',
+  'write', 'wrote', 'said', 'say', 'attachment', 'attachments', 'attached', 'they', 'their', 'them', 'this', 'that',
+  'there', 'get', 'got', 'receive', 'received', 'and', 'for', 'you', 'your', 'our', 'how', 'why', 'where', 'can',
+  'could', 'would', 'should', 'will', 'all', 'some', 'please', 'year', 'month', 'week', 'today', 'yesterday']);
+
+export interface EmailChatContext {
+  summary: string;
+  senderTerms: string[]; // Words of the question that matched a sender, normalised like the chat's lexical filter
+  documentIds: string[]; // The matching email documents and the attachments extracted from them
+}
+
+/**
+ * Finds mail in a user's .eml and .mbox documents by who sent it, so chat can answer questions such as
+ * "what did Acme send me about the renewal" from the right messages and their attachments
+ */
+export class EmailSearchService {
+  private static instance: EmailSearchService;
+
+  private constructor() {}
+
+  public static getInstance(): EmailSearchService {
+    if (!EmailSearchService.instance) {
+      EmailSearchService.instance = new EmailSearchService();
+    }
+    return EmailSearchService.instance;
+  }
+
+  /**
+   * Messages among the given files from a sender the question names, or null when no word of the
+   * question matches the name or address of a sender
+   */
+  async findForChat(userId: string, message: string, files: DocumentRecord[]): Promise<EmailChatContext | null> {
+    const emailFileIds = files.filter(file => EMAIL_MIME_TYPES.includes(file.fileType)).map(file => file.id);
+    const words = Array.from(new Set(
+      message.toLowerCase().replace(/'s\b/g, '').split(/[^a-z0-9]+/).filter(word => word.length >= 3 && !NON_SENDER_WORDS.has(word))
+    ));
+    if (emailFileIds.length === 0 || words.length === 0) {
+      return null;
+    }
+
+    // The database matches substrings; only whole words of the sender's name or address count
+    const candidates = await storage.findEmailMessagesBySender(userId, words, emailFileIds, MAX_MATCHED_MESSAGES);
+    const matchedWords = new Set<string>();
+    const messages = candidates.filter(candidate => {
+      const senderWords = `${candidate.fromName || ''} ${candidate.fromAddress || ''}`.toLowerCase().split(/[^a-z0-9]+/);
+      const matches = words.filter(word => senderWords.some(senderWord => senderWord === word || (word.length >= 4 && senderWord.startsWith(word))));
+      matches.forEach(word => matchedWords.add(word));
+      return matches.length > 0;
+    });
+    if (messages.length === 0) {
+      return null;
+    }
+
+    // Attachments, including those of attached messages
+    const documentIds = new Set(messages.map(email => email.documentId));
+    let added: boolean;
+    do {
+      added = false;
+      for (const file of files) {
+        if (file.parentDocumentId && documentIds.has(file.parentDocumentId) && !documentIds.has(file.id)) {
+          documentIds.add(file.id);
+          added = true;
+        }
+      }
+    } while (added);
+
+    const summary = messages.slice(0, MAX_LISTED_MESSAGES).map(email => {
+      const sender = email.fromName ? `${email.fromName} <${email.fromAddress}>` : email.fromAddress;
+      const parts = [
+        `"${email.subject || '(no subject)'}" from ${sender}`,
+        email.sentAt ? `on ${email.sentAt.toISOString().slice(0, 10)}` : '',
+        `(in "${email.filename}"${email.attachmentCount > 0 ? `; ${email.attachmentCount} attachment(s)` : ''})`,
+      ];
+      return `- ${parts.filter(Boolean).join(' ')}`;
+    }).join('\n');
+
+    return {
+      summary: messages.length > MAX_LISTED_MESSAGES ? `${summary}\n(latest ${MAX_LISTED_MESSAGES} of ${messages.length} messages)` : summary,
+      senderTerms: Array.from(matchedWords).map(word => word.replace(/s$/, '')),
+      documentIds: Array.from(documentIds),
+    };
+  }
+}
+
+export const emailSearchService = EmailSearchService.getInstance();
@@ -0,0 +1,152 @@
+import OpenAI from 'openai';
+import { createRequire } from 'module';
+
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  tokens: number;
+}
+
+/**
+ * A source of text embeddings. Vectors from different providers/models live in different
+ * spaces and must never be compared with each other
+ */
+export interface EmbeddingProvider {
+  readonly name: string; // Recorded per chunk as embedding_provider
+  readonly model: string; // Recorded per chunk as embedding_model
+  readonly dimension: number; // Native vector size before padding to the column width
+  readonly maxTokens: number;
+  readonly batchSize: number;
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<EmbeddingBatch>;
+}
+
+/**
+ * OpenAI hosted embeddings
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly dimension = 1536; // Dimension for text-embedding-3-small and ada-002
+  readonly maxTokens = 8191; // Maximum context length for text-embedding-3-small
+  readonly batchSize = 100; // OpenAI allows up to 2048 inputs, but we'll be conservative
+  private openai: OpenAI | null;
+
+  constructor(model: string = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small') {
+    this.model = model;
+    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }) : null;
+  }
+
+  isAvailable(): boolean {
+    return this.openai !== null;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    if (!this.openai) {
+      throw new Error('OpenAI API key not configured - embeddings service unavailable');
+    }
+
+    const response = await this.openai.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float'
+    });
+
+    return {
+      embeddings: response.data.map(item => item.embedding),
+      tokens: response.usage?.total_tokens || 0
+    };
+  }
+}
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+/**
+ * Local CPU embeddings via transformers.js (ONNX runtime), no network access needed once the model is cached
+ * Requires the optional `@huggingface/transformers` package to be installed
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly dimension: number;
+  readonly maxTokens = 256; // MiniLM-class models truncate at 256 word pieces
+  readonly batchSize = 16; // Keep CPU memory bounded
+  private extractor: Promise<any> | null = null;
+
+  constructor(
+    model: string = process.env.LOCAL_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2',
+    dimension: number = parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '384', 10)
+  ) {
+    this.model = model;
+    this.dimension = dimension;
+  }
+
+  isAvailable(): boolean {
+    try {
+      createRequire(import.meta.url).resolve(TRANSFORMERS_PACKAGE);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const extractor = await this.getExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    const embeddings: number[][] = output.tolist();
+
+    // A model swap without updating LOCAL_EMBEDDING_DIMENSION would otherwise be recorded with the wrong size
+    if (embeddings[0] && embeddings[0].length !== this.dimension) {
+      throw new Error(`Local model ${this.model} returned ${embeddings[0].length}-dimensional vectors, expected ${this.dimension}`);
+    }
+
+    return { embeddings, tokens: 0 };
+  }
+
+  private getExtractor(): Promise<any> {
+    if (!this.extractor) {
+      console.log(`Loading local embedding model ${this.model}...`);
+      // Module name kept in a variable so the package stays optional for builds that don't use it
+      this.extractor = import(TRANSFORMERS_PACKAGE)
+        .then(({ pipeline }) => pipeline('feature-extraction', this.model, { dtype: 'fp32' }))
+        .catch(error => {
+          this.extractor = null;
+          throw new Error(`Failed to load local embedding model ${this.model}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+    }
+    return this.extractor;
+  }
+}
+
+export interface EmbeddingProviderConfig {
+  provider: string;
+  model?: string;
+  dimension?: number; // Only needed for local models
+}
+
+/**
+ * Pick the provider from EMBEDDING_PROVIDER ("openai" or "local"), or build the one described by `config`
+ * Without explicit config, OpenAI is used when a key is set, otherwise the local model if installed
+ */
+export function createEmbeddingProvider(config?: EmbeddingProviderConfig): EmbeddingProvider {
+  const configured = (config ? config.provider : process.env.EMBEDDING_PROVIDER)?.toLowerCase();
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config?.model);
+    case 'local':
+      return new LocalEmbeddingProvider(config?.model, config?.dimension);
+    case undefined:
+    case '': {
+      const openaiProvider = new OpenAIEmbeddingProvider();
+      if (openaiProvider.isAvailable()) {
+        return openaiProvider;
+      }
+      const localProvider = new LocalEmbeddingProvider();
+      return localProvider.isAvailable() ? localProvider : openaiProvider;
+    }
+    default:
+      throw new Error(`Unknown embedding provider "${configured}" - expected "openai" or "local"`);
+  }
+}
@@ -1,4 +1,14 @@
-import OpenAI from 'openai';
+import { createEmbeddingProvider, type EmbeddingProvider, type EmbeddingProviderConfig } from './embeddingProviders';
+import { EMBEDDING_COLUMN_DIMENSION } from '@shared/schema';
+import { chunkDocument } from './documentChunker';
+
+// Chunks stored before providers were recorded were all embedded with this OpenAI model
+export const LEGACY_EMBEDDING_MODEL = { provider: 'openai', model: 'text-embedding-3-small' };
+
+export interface EmbeddingModelSignature {
+  provider: string;
+  model: string;
+}
 
 export interface TextChunk {
   id: string;
@@ -6,11 +16,19 @@ export interface TextChunk {
   fileId: string;
   userId: string; // Added for security: track which user owns this chunk
   chunkIndex: number;
+  version?: number; // Document version the chunk was cut from; 1 when omitted
   embedding?: number[];
+  embeddingProvider?: string | null;
+  embeddingModel?: string | null;
   metadata?: {
-    startPosition?: number;
-    endPosition?: number;
     wordCount?: number;
+    tokenCount?: number; // Estimated model tokens, including the section context line
+    startOffset?: number; // Character offset of the chunk within the file's extracted text
+    endOffset?: number;
+    pageNumber?: number; // PDF page the chunk starts on, when the extractor marked pages
+    startTime?: number; // Seconds into an audio or video recording the chunk starts at
+    language?: string; // Document language (see DOCUMENT_LANGUAGES); picks the keyword search stemmer
+    sectionPath?: string[]; // Page/slide/sheet and heading trail, e.g. ["Sheet: Sales"] or ["Setup", "Installation"]
   };
 }
 
@@ -18,19 +36,20 @@ export interface EmbeddingResult {
   chunkId: string;
   embedding: number[];
   tokens: number;
+  provider: string;
+  model: string;
+  dimension: number; // Native dimension, before padding
 }
 
 export class EmbeddingsService {
   private static instance: EmbeddingsService;
-  private openai: OpenAI | null;
-  private readonly EMBEDDING_MODEL = 'text-embedding-3-small'; // Updated to use latest model as requested
-  private readonly MAX_TOKENS_PER_REQUEST = 8191; // Maximum context length for text-embedding-3-small
-  private readonly EMBEDDING_DIMENSION = 1536; // Dimension for text-embedding-3-small
+  private provider: EmbeddingProvider;
+  // Other models that still (or already) own part of the index, e.g. the target of a running re-embedding job
+  private searchProviders: EmbeddingProvider[] = [];
 
   private constructor() {
-    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    }) : null;
+    this.provider = EmbeddingsService.checkDimension(createEmbeddingProvider());
+    console.log(`Embeddings provider: ${this.provider.name} (${this.provider.model}, ${this.provider.dimension} dimensions)`);
   }
 
   public static getInstance(): EmbeddingsService {
@@ -40,19 +59,87 @@ export class EmbeddingsService {
     return EmbeddingsService.instance;
   }
 
+  private static checkDimension(provider: EmbeddingProvider): EmbeddingProvider {
+    if (provider.dimension > EMBEDDING_COLUMN_DIMENSION) {
+      throw new Error(`Embedding model ${provider.model} produces ${provider.dimension}-dimensional vectors, but the database columns hold at most ${EMBEDDING_COLUMN_DIMENSION}`);
+    }
+    return provider;
+  }
+
+  /**
+   * Build a provider other than the active one, for re-embedding into a different model
+   */
+  createProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+    return EmbeddingsService.checkDimension(createEmbeddingProvider(config));
+  }
+
+  /**
+   * Also run vector searches against another model's chunks, so files keep matching while the index
+   * is migrated between models. The active model is always searched
+   */
+  addSearchProvider(provider: EmbeddingProvider): void {
+    const signature = { provider: provider.name, model: provider.model };
+    if (this.isActiveModel(signature) || this.searchProviders.some(p => p.name === provider.name && p.model === provider.model)) {
+      return;
+    }
+    this.searchProviders.push(provider);
+    console.log(`Vector search also covers chunks embedded with ${provider.name}/${provider.model}`);
+  }
+
+  /**
+   * Additional providers to search with, besides the active one
+   */
+  getSearchProviders(): EmbeddingProvider[] {
+    return this.searchProviders.filter(provider => provider.isAvailable());
+  }
+
   /**
    * Check if embeddings service is available
    */
   isAvailable(): boolean {
-    return this.openai !== null;
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Provider and model of the active embeddings, used to keep searches within one vector space
+   */
+  getModelSignature(): EmbeddingModelSignature {
+    return { provider: this.provider.name, model: this.provider.model };
+  }
+
+  /**
+   * Whether a provider/model pair is the active one
+   */
+  isActiveModel(signature: EmbeddingModelSignature): boolean {
+    return signature.provider === this.provider.name && signature.model === this.provider.model;
+  }
+
+  /**
+   * Whether a stored chunk was embedded by the active model (chunks without a recorded model are legacy OpenAI ones)
+   */
+  isCompatibleChunk(chunk: Pick<TextChunk, 'embeddingProvider' | 'embeddingModel'>): boolean {
+    return this.isActiveModel({
+      provider: chunk.embeddingProvider ?? LEGACY_EMBEDDING_MODEL.provider,
+      model: chunk.embeddingModel ?? LEGACY_EMBEDDING_MODEL.model
+    });
+  }
+
+  /**
+   * Zero-pad a vector to the database column width (cosine similarity is unaffected)
+   */
+  private padToColumn(embedding: number[]): number[] {
+    if (embedding.length === EMBEDDING_COLUMN_DIMENSION) {
+      return embedding;
+    }
+    return embedding.concat(new Array(EMBEDDING_COLUMN_DIMENSION - embedding.length).fill(0));
   }
 
   /**
-   * Generate embeddings for text chunks
+   * Generate embeddings for text chunks, with the active provider unless another one is given
    */
-  async generateEmbeddings(chunks: TextChunk[]): Promise<EmbeddingResult[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI API key not configured - embeddings service unavailable');
+  async generateEmbeddings(chunks: TextChunk[], provider: EmbeddingProvider = this.provider): Promise<EmbeddingResult[]> {
+    if (!provider.isAvailable()) {
+      throw new Error(`Embedding provider ${provider.name} is not configured - embeddings service unavailable`);
     }
 
     if (chunks.length === 0) {
@@ -73,7 +160,7 @@ export class EmbeddingsService {
 
       // Process in batches to avoid API limits
       const results: EmbeddingResult[] = [];
-      const batchSize = 100; // OpenAI allows up to 2048 inputs, but we'll be conservative
+      const batchSize = provider.batchSize;
       
       for (let i = 0; i < texts.length; i += batchSize) {
         const batch = texts.slice(i, i + batchSize);
@@ -81,19 +168,18 @@ export class EmbeddingsService {
         
         console.log(`Processing embedding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(texts.length / batchSize)}`);
         
-        const response = await this.openai.embeddings.create({
-          model: this.EMBEDDING_MODEL,
-          input: batch,
-          encoding_format: 'float'
-        });
+        const response = await provider.embed(batch);
 
         // Process results
-        response.data.forEach((embedding, index) => {
+        response.embeddings.forEach((embedding, index) => {
           const chunk = batchChunks[index];
           results.push({
             chunkId: chunk.id,
-            embedding: embedding.embedding,
-            tokens: response.usage?.total_tokens || 0
+            embedding: this.padToColumn(embedding),
+            tokens: response.tokens,
+            provider: provider.name,
+            model: provider.model,
+            dimension: embedding.length
           });
         });
 
@@ -115,19 +201,15 @@ export class EmbeddingsService {
   /**
    * Generate embedding for a single query text
    */
-  async generateQueryEmbedding(query: string): Promise<number[]> {
-    if (!this.openai) {
-      throw new Error('OpenAI API key not configured - embeddings service unavailable');
+  async generateQueryEmbedding(query: string, provider: EmbeddingProvider = this.provider): Promise<number[]> {
+    if (!provider.isAvailable()) {
+      throw new Error(`Embedding provider ${provider.name} is not configured - embeddings service unavailable`);
     }
 
     try {
-      const response = await this.openai.embeddings.create({
-        model: this.EMBEDDING_MODEL,
-        input: query.trim(),
-        encoding_format: 'float'
-      });
+      const response = await provider.embed([query.trim()]);
 
-      return response.data[0].embedding;
+      return this.padToColumn(response.embeddings[0]);
     } catch (error) {
       console.error('Query embedding generation failed:', error);
       throw new Error(`Failed to generate query embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -169,7 +251,13 @@ export class EmbeddingsService {
     topK: number = 10,
     threshold: number = 0.7
   ): Array<{ chunk: TextChunk; similarity: number }> {
-    const similarities = chunks
+    // Never compare vectors from different models, even when they happen to have the same length
+    const compatibleChunks = chunks.filter(chunk => this.isCompatibleChunk(chunk));
+    if (compatibleChunks.length < chunks.length) {
+      console.warn(`Skipped ${chunks.length - compatibleChunks.length} chunks embedded with a different model than ${this.provider.model}`);
+    }
+
+    const similarities = compatibleChunks
       .filter(chunk => chunk.embedding && chunk.embedding.length > 0)
       .map(chunk => ({
         chunk,
@@ -185,47 +273,46 @@ export class EmbeddingsService {
 
   /**
    * Create text chunks from extracted content
+   * Sizes are in estimated tokens and capped at what the embedding model accepts; chunks follow
+   * the document's pages, slides, sheets, headings and table rows (see documentChunker)
+   * Chunks of later document versions get their own ids so older versions' chunks can be kept alongside
    */
   createTextChunks(
     content: string, 
     fileId: string, 
     userId: string, // Added userId for security
     maxTokens: number = 500, 
-    overlapTokens: number = 100
+    overlapTokens: number = 100,
+    modelTokenLimit: number = this.provider.maxTokens,
+    version: number = 1,
+    language?: string
   ): TextChunk[] {
-    // Convert tokens to approximate word count (1 token ≈ 0.75 words)
-    const maxWords = Math.floor(maxTokens * 0.75); // ~375 words for 500 tokens
-    const overlapWords = Math.floor(overlapTokens * 0.75); // ~75 words for 100 tokens
-    
-    const words = content.split(/\s+/).filter(word => word.trim().length > 0);
-    const chunks: TextChunk[] = [];
-    let chunkIndex = 0;
-
-    for (let i = 0; i < words.length; i += maxWords - overlapWords) {
-      const chunkWords = words.slice(i, i + maxWords);
-      const chunkContent = chunkWords.join(' ');
-      
-      if (chunkContent.trim().length > 0) {
-        chunks.push({
-          id: `${fileId}-chunk-${chunkIndex}`,
-          content: chunkContent,
-          fileId,
-          userId, // Include userId for security filtering
-          chunkIndex,
-          metadata: {
-            startPosition: i,
-            endPosition: i + chunkWords.length,
-            wordCount: chunkWords.length
-          }
-        });
-        chunkIndex++;
+    const chunkTokens = Math.min(maxTokens, modelTokenLimit);
+    const documentChunks = chunkDocument(content, {
+      maxTokens: chunkTokens,
+      overlapTokens: Math.min(overlapTokens, Math.floor(chunkTokens / 4))
+    });
+
+    const chunks: TextChunk[] = documentChunks.map((chunk, chunkIndex) => ({
+      id: version > 1 ? `${fileId}-v${version}-chunk-${chunkIndex}` : `${fileId}-chunk-${chunkIndex}`,
+      content: chunk.content,
+      fileId,
+      userId, // Include userId for security filtering
+      chunkIndex,
+      version,
+      metadata: {
+        wordCount: chunk.content.split(/\s+/).filter(Boolean).length,
+        tokenCount: chunk.tokenCount,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        pageNumber: chunk.pageNumber,
+        startTime: chunk.startTime,
+        language,
+        sectionPath: chunk.sectionPath.length > 0 ? chunk.sectionPath : undefined
       }
-      
-      // Break if we've reached the end
-      if (i + maxWords >= words.length) break;
-    }
+    }));
 
-    console.log(`Created ${chunks.length} text chunks for file ${fileId} (~${maxTokens} tokens each)`);
+    console.log(`Created ${chunks.length} text chunks for file ${fileId} (up to ${chunkTokens} tokens each)`);
     return chunks;
   }
 
@@ -234,9 +321,10 @@ export class EmbeddingsService {
    */
   getModelInfo() {
     return {
-      model: this.EMBEDDING_MODEL,
-      dimension: this.EMBEDDING_DIMENSION,
-      maxTokens: this.MAX_TOKENS_PER_REQUEST
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimension: this.provider.dimension,
+      maxTokens: this.provider.maxTokens
     };
   }
 }
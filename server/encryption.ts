@@ -1,4 +1,4 @@
-import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, scryptSync } from 'crypto';
 
 const ALGORITHM = 'aes-256-gcm';
 const KEY_LENGTH = 32;
@@ -101,6 +101,20 @@ export function decryptPassword(encryptedData: string): string {
   }
 }
 
+let fingerprintKey: Buffer | null = null;
+
+/**
+ * Keyed hash (HMAC-SHA256) of a plaintext password, for telling whether two credentials share a password
+ * without comparing plaintexts. The key is derived from ENCRYPTION_KEY, so fingerprints can't be
+ * checked against guesses without it
+ */
+export function passwordFingerprint(plaintext: string): string {
+  if (!fingerprintKey) {
+    fingerprintKey = Buffer.from(hkdfSync('sha256', getEncryptionKey(), Buffer.alloc(0), 'password-fingerprint', KEY_LENGTH));
+  }
+  return createHmac('sha256', fingerprintKey).update(plaintext, 'utf8').digest('hex');
+}
+
 /**
  * Generate a random encryption key for use as ENCRYPTION_KEY
  * This is a utility function for generating secure keys
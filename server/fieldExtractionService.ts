@@ -0,0 +1,460 @@
+import OpenAI from 'openai';
+import { storage, type DocumentFieldFilters, type DocumentFieldGroupBy } from './storage';
+import type { DocumentFieldsRecord } from '@shared/schema';
+
+export const DOCUMENT_TYPES = ['receipt', 'invoice', 'passport', 'id_card', 'driver_license', 'insurance_card', 'other'] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+
+const CONTENT_SAMPLE_LENGTH = 6000; // Characters of extracted text sent to the model
+const MAX_LISTED_DOCUMENTS = 20; // Documents spelled out in chat context
+
+export interface ExtractedFields {
+  documentType: DocumentType;
+  vendor: string | null;
+  documentDate: string | null; // YYYY-MM-DD
+  totalAmount: number | null;
+  currency: string | null; // ISO 4217
+  documentNumber: string | null;
+  expiryDate: string | null; // YYYY-MM-DD
+  holderName: string | null;
+  confidence: number;
+}
+
+// Keyword rules that classify a document when no OpenAI key is configured or the model call fails
+const TYPE_RULES: Array<{ type: DocumentType; patterns: RegExp[] }> = [
+  { type: 'invoice', patterns: [/\binvoice\b/i, /\bamount due\b/i, /\bbill to\b/i, /\bdue date\b/i] },
+  { type: 'receipt', patterns: [/\breceipt\b/i, /\bthank you for (shopping|your (purchase|order))\b/i, /\bchange due\b/i, /\bcashier\b/i] },
+  { type: 'passport', patterns: [/\bpassport\b/i, /\bnationality\b/i, /\bplace of birth\b/i, /^P<[A-Z]{3}/m] },
+  { type: 'driver_license', patterns: [/\bdriver'?s? licen[cs]e\b/i, /\bdriving licen[cs]e\b/i] },
+  { type: 'id_card', patterns: [/\b(identity|id|identification) card\b/i, /\bnational id\b/i] },
+  { type: 'insurance_card', patterns: [/\binsurance card\b/i, /\bmember id\b/i, /\bgroup (no|number)\b/i, /\bpolicy (no|number)\b/i] },
+];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₩': 'KRW', '₽': 'RUB', '₺': 'TRY' };
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'INR', 'CAD', 'AUD', 'CHF', 'CNY', 'SEK', 'NOK', 'DKK', 'PLN', 'PKR', 'AED', 'SAR', 'SGD', 'HKD', 'NZD', 'ZAR', 'MXN', 'BRL', 'KRW', 'RUB', 'TRY'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// Dates as printed on documents, in one capture group; see normalizeDate
+export const DATE_PATTERN = String.raw`(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,2}\s+[A-Za-z]{3,9}\.?\s+\d{4}|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`;
+const AMOUNT_PATTERN = String.raw`([$€£¥₹]|[A-Z]{3})?\s*(\d{1,3}(?:[ ,.]\d{3})*(?:[.,]\d{2})?|\d+(?:[.,]\d{2})?)\s*([$€£¥₹]|[A-Z]{3})?`;
+
+// Words in a chat message that suggest it can be answered from extracted fields
+const FIELD_QUESTION_PATTERN = /\b(how much|total|spent|spend|spending|sum|paid|cost|expenses?|receipts?|invoices?|vendors?|merchants?|expir(e|es|ed|y|ing|ation)|passports?|licen[cs]e|id cards?|insurance cards?)\b/i;
+
+export interface FieldQuery {
+  filters: DocumentFieldFilters;
+  groupBy?: DocumentFieldGroupBy;
+}
+
+/**
+ * Reads typed fields (vendor, date, total, currency, document number, expiry, holder) from receipts,
+ * invoices and identity documents after text extraction and stores them for filtering and aggregation.
+ * Documents whose fields the user corrected are not overwritten
+ */
+export class FieldExtractionService {
+  private static instance: FieldExtractionService;
+  private openai: OpenAI | null;
+
+  private constructor() {
+    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }) : null;
+  }
+
+  public static getInstance(): FieldExtractionService {
+    if (!FieldExtractionService.instance) {
+      FieldExtractionService.instance = new FieldExtractionService();
+    }
+    return FieldExtractionService.instance;
+  }
+
+  /**
+   * Extract fields from a processed document and store them. Returns undefined when nothing was
+   * recognised or the stored fields were edited by the user
+   */
+  async extractFields(fileId: string, userId: string, content: string): Promise<DocumentFieldsRecord | undefined> {
+    const file = await storage.getFile(fileId);
+    if (!file || !content.trim()) {
+      return undefined;
+    }
+
+    const existing = await storage.getDocumentFields(fileId);
+    if (existing?.userEdited) {
+      return undefined;
+    }
+
+    const fromRules = this.extractWithRules(content);
+    const fromModel = await this.extractWithModel(file.filename, content);
+    const fields = fromModel ? this.fillGaps(fromModel, fromRules) : fromRules;
+
+    if (fields.documentType === 'other' && !fields.totalAmount && !fields.expiryDate) {
+      return undefined;
+    }
+
+    const saved = await storage.upsertDocumentFields({
+      documentId: fileId,
+      userId,
+      documentType: fields.documentType,
+      vendor: fields.vendor,
+      documentDate: fields.documentDate,
+      totalAmount: fields.totalAmount === null ? null : fields.totalAmount.toFixed(2),
+      currency: fields.currency,
+      documentNumber: fields.documentNumber,
+      expiryDate: fields.expiryDate,
+      holderName: fields.holderName,
+      confidence: fields.confidence,
+    });
+    if (saved) {
+      console.log(`Extracted ${fields.documentType} fields for ${fileId}`);
+    }
+    return saved;
+  }
+
+  /**
+   * Answer-ready summary of the extracted fields a chat message asks about (totals, spending by vendor
+   * or month, expiry dates), or null when the message is not about them or nothing matches
+   */
+  async describeForChat(userId: string, message: string, fileIds?: string[]): Promise<string | null> {
+    if (!FIELD_QUESTION_PATTERN.test(message)) {
+      return null;
+    }
+
+    const query = (await this.planQueryWithModel(message)) || this.planQueryWithRules(message);
+    const filters: DocumentFieldFilters = { ...query.filters, ...(fileIds ? { fileIds } : {}) };
+
+    const [documents, totals, groups] = await Promise.all([
+      storage.queryDocumentFields(userId, filters, MAX_LISTED_DOCUMENTS),
+      storage.aggregateDocumentFields(userId, filters),
+      query.groupBy ? storage.aggregateDocumentFields(userId, filters, query.groupBy) : Promise.resolve([]),
+    ]);
+    if (documents.length === 0) {
+      return null;
+    }
+
+    const describedFilters = Object.entries(query.filters)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(', ');
+    const money = (amount: number, currency: string | null) => `${currency || '(no currency)'} ${amount.toFixed(2)}`;
+
+    let summary = `Filters: ${describedFilters || 'none'}\n`;
+    summary += `Totals: ${totals.map(row => `${money(row.totalAmount, row.currency)} across ${row.documentCount} document(s)`).join('; ')}\n`;
+    if (query.groupBy && groups.length > 0) {
+      summary += `By ${query.groupBy}:\n`;
+      summary += groups.map(row => `- ${row.group || '(unknown)'}: ${money(row.totalAmount, row.currency)} (${row.documentCount} document(s))`).join('\n') + '\n';
+    }
+    summary += `Documents${totals.reduce((count, row) => count + row.documentCount, 0) > documents.length ? ` (latest ${documents.length})` : ''}:\n`;
+    summary += documents.map(doc => {
+      const parts = [
+        doc.documentType,
+        doc.vendor && `vendor ${doc.vendor}`,
+        doc.documentDate && `date ${doc.documentDate}`,
+        doc.totalAmount && `total ${money(Number(doc.totalAmount), doc.currency)}`,
+        doc.documentNumber && `number ${doc.documentNumber}`,
+        doc.holderName && `holder ${doc.holderName}`,
+        doc.expiryDate && `expires ${doc.expiryDate}`,
+      ].filter(Boolean);
+      return `- "${doc.filename}": ${parts.join(', ')}`;
+    }).join('\n');
+    return summary;
+  }
+
+  extractWithRules(content: string): ExtractedFields {
+    const text = content.slice(0, CONTENT_SAMPLE_LENGTH * 2);
+
+    const scored = TYPE_RULES
+      .map(rule => ({ type: rule.type, matches: rule.patterns.filter(pattern => pattern.test(text)).length }))
+      .filter(rule => rule.matches > 0)
+      .sort((a, b) => b.matches - a.matches);
+    const documentType: DocumentType = scored[0]?.type || 'other';
+    const isIdentity = ['passport', 'id_card', 'driver_license', 'insurance_card'].includes(documentType);
+
+    const labelledDate = (labels: string) => {
+      const match = text.match(new RegExp(`(?:${labels})\\s*[:.]?\\s*${DATE_PATTERN}`, 'i'));
+      return match ? normalizeDate(match[1]) : null;
+    };
+    const anyDate = () => {
+      const match = text.match(new RegExp(DATE_PATTERN));
+      return match ? normalizeDate(match[1]) : null;
+    };
+
+    const expiryDate = labelledDate('date of expiry|expiry date|expiration date|expiration|expires(?: on)?|valid (?:until|thru|through)|exp\\.?');
+    const issuedDate = labelledDate('invoice date|receipt date|date of issue|issue date|issued(?: on)?|date of purchase|purchase date|date')
+      || (isIdentity ? null : anyDate());
+    // "Expiry date: ..." also matches the bare "date" label
+    const documentDate = issuedDate === expiryDate ? null : issuedDate;
+
+    const total = isIdentity ? null : findTotal(text);
+    const currency = total?.currency || findCurrency(text);
+
+    const numberMatch = text.match(/\b(?:invoice|receipt|order|passport|document|card|licen[cs]e|policy|member(?: id)?)\s*(?:no\.?|number|#|id)\s*[:#.]?\s*([A-Z0-9][A-Z0-9-]{3,24})\b/i);
+    const holderMatch = isIdentity
+      ? text.match(/\b(?:name|holder|member(?: name)?|surname and given names?)\s*[:.]\s*([A-Za-z][A-Za-z' .-]{1,60})/i)
+      : null;
+
+    const found = [documentDate, total, currency, numberMatch, expiryDate].filter(Boolean).length;
+    return {
+      documentType,
+      vendor: isIdentity ? null : findVendor(text),
+      documentDate,
+      totalAmount: total?.amount ?? null,
+      currency,
+      documentNumber: numberMatch ? numberMatch[1] : null,
+      expiryDate,
+      holderName: holderMatch ? holderMatch[1].trim() : null,
+      confidence: Math.min(0.3 + found * 0.1, 0.7),
+    };
+  }
+
+  private async extractWithModel(filename: string, content: string): Promise<ExtractedFields | null> {
+    if (!this.openai) {
+      return null;
+    }
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: `You read documents from a personal vault and extract structured fields. Classify the document as one of: ${DOCUMENT_TYPES.join(', ')}. For receipts and invoices, vendor is the merchant or issuer and totalAmount is the final amount paid or due. For passports, ID cards, driver licenses and insurance cards, vendor is the issuing authority or insurer and holderName is the person the document belongs to. Use null for anything not present. Dates are YYYY-MM-DD, currency is an ISO 4217 code. Respond with JSON: {"documentType": string, "vendor": string|null, "documentDate": string|null, "totalAmount": number|null, "currency": string|null, "documentNumber": string|null, "expiryDate": string|null, "holderName": string|null, "confidence": number between 0 and 1}`,
+          },
+          {
+            role: 'user',
+            content: `Filename: ${filename}\n\n${content.slice(0, CONTENT_SAMPLE_LENGTH)}`,
+          },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      });
+
+      const parsed = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim().slice(0, 200) : null;
+      const amount = typeof parsed.totalAmount === 'number' ? parsed.totalAmount : Number.parseFloat(parsed.totalAmount);
+      const currency = text(parsed.currency)?.toUpperCase() || null;
+
+      return {
+        documentType: DOCUMENT_TYPES.includes(parsed.documentType) ? parsed.documentType : 'other',
+        vendor: text(parsed.vendor),
+        documentDate: text(parsed.documentDate) && normalizeDate(parsed.documentDate),
+        totalAmount: Number.isFinite(amount) ? Math.round(amount * 100) / 100 : null,
+        currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : null,
+        documentNumber: text(parsed.documentNumber),
+        expiryDate: text(parsed.expiryDate) && normalizeDate(parsed.expiryDate),
+        holderName: text(parsed.holderName),
+        confidence: typeof parsed.confidence === 'number' ? Math.max(0, Math.min(parsed.confidence, 1)) : 0.7,
+      };
+    } catch (error) {
+      console.warn('AI field extraction failed, using keyword rules only:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Fields the model left empty are taken from the rules when both agree on the document type
+   */
+  private fillGaps(primary: ExtractedFields, fallback: ExtractedFields): ExtractedFields {
+    if (primary.documentType !== fallback.documentType && primary.documentType !== 'other') {
+      return primary;
+    }
+    return {
+      documentType: primary.documentType === 'other' ? fallback.documentType : primary.documentType,
+      vendor: primary.vendor ?? fallback.vendor,
+      documentDate: primary.documentDate ?? fallback.documentDate,
+      totalAmount: primary.totalAmount ?? fallback.totalAmount,
+      currency: primary.currency ?? fallback.currency,
+      documentNumber: primary.documentNumber ?? fallback.documentNumber,
+      expiryDate: primary.expiryDate ?? fallback.expiryDate,
+      holderName: primary.holderName ?? fallback.holderName,
+      confidence: primary.confidence,
+    };
+  }
+
+  private async planQueryWithModel(message: string): Promise<FieldQuery | null> {
+    if (!this.openai) {
+      return null;
+    }
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: `Translate a question about a user's receipts, invoices and identity documents into filters over extracted fields. Today is ${toIsoDate(new Date())}. Document types: ${DOCUMENT_TYPES.join(', ')}. Dates are YYYY-MM-DD and inclusive; resolve relative periods such as "last month". Omit filters the question does not imply. groupBy is one of vendor, month, currency, document_type, or null. Respond with JSON: {"documentType": string|null, "vendor": string|null, "currency": string|null, "dateFrom": string|null, "dateTo": string|null, "expiresBefore": string|null, "groupBy": string|null}`,
+          },
+          { role: 'user', content: message },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0,
+      });
+
+      const parsed = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const date = (value: unknown) => typeof value === 'string' ? normalizeDate(value) ?? undefined : undefined;
+      const groupBy = ['vendor', 'month', 'currency', 'document_type'].includes(parsed.groupBy) ? parsed.groupBy as DocumentFieldGroupBy : undefined;
+
+      return {
+        filters: {
+          documentType: DOCUMENT_TYPES.includes(parsed.documentType) ? parsed.documentType : undefined,
+          vendor: typeof parsed.vendor === 'string' && parsed.vendor.trim() ? parsed.vendor.trim() : undefined,
+          currency: typeof parsed.currency === 'string' && /^[A-Za-z]{3}$/.test(parsed.currency) ? parsed.currency.toUpperCase() : undefined,
+          dateFrom: date(parsed.dateFrom),
+          dateTo: date(parsed.dateTo),
+          expiresBefore: date(parsed.expiresBefore),
+        },
+        groupBy,
+      };
+    } catch (error) {
+      console.warn('AI field query planning failed, using keyword rules:', error);
+      return null;
+    }
+  }
+
+  planQueryWithRules(message: string): FieldQuery {
+    const filters: DocumentFieldFilters = {};
+    const lower = message.toLowerCase();
+
+    if (/\breceipts?\b/.test(lower)) filters.documentType = 'receipt';
+    else if (/\binvoices?\b/.test(lower)) filters.documentType = 'invoice';
+    else if (/\bpassports?\b/.test(lower)) filters.documentType = 'passport';
+    else if (/\b(driver'?s?|driving) licen[cs]es?\b/.test(lower)) filters.documentType = 'driver_license';
+    else if (/\bid cards?\b/.test(lower)) filters.documentType = 'id_card';
+    else if (/\binsurance cards?\b/.test(lower)) filters.documentType = 'insurance_card';
+
+    const today = new Date();
+    const year = lower.match(/\b(?:in|during|for)\s+(\d{4})\b/);
+    if (year) {
+      filters.dateFrom = `${year[1]}-01-01`;
+      filters.dateTo = `${year[1]}-12-31`;
+    } else if (/\bthis year\b/.test(lower)) {
+      filters.dateFrom = `${today.getFullYear()}-01-01`;
+    } else if (/\blast year\b/.test(lower)) {
+      filters.dateFrom = `${today.getFullYear() - 1}-01-01`;
+      filters.dateTo = `${today.getFullYear() - 1}-12-31`;
+    } else if (/\bthis month\b/.test(lower)) {
+      filters.dateFrom = toIsoDate(new Date(today.getFullYear(), today.getMonth(), 1));
+    } else if (/\blast month\b/.test(lower)) {
+      filters.dateFrom = toIsoDate(new Date(today.getFullYear(), today.getMonth() - 1, 1));
+      filters.dateTo = toIsoDate(new Date(today.getFullYear(), today.getMonth(), 0));
+    }
+
+    const within = lower.match(/\bexpir\w*\s+(?:in|within)\s+(?:the\s+)?(?:next\s+)?(\d+)\s+(day|week|month|year)s?\b/);
+    if (within) {
+      const days = Number(within[1]) * { day: 1, week: 7, month: 30, year: 365 }[within[2] as 'day' | 'week' | 'month' | 'year'];
+      filters.expiresBefore = toIsoDate(new Date(today.getTime() + days * 24 * 60 * 60 * 1000));
+    }
+
+    const vendor = message.match(/\b(?:at|from)\s+([A-Z][\w&'.-]*(?:\s+[A-Z][\w&'.-]*)*)/);
+    if (vendor) {
+      filters.vendor = vendor[1];
+    }
+
+    const groupBy = /\b(by|per|each) (vendor|merchant|store|shop)\b/.test(lower) ? 'vendor'
+      : /\b(by|per|each) month\b|\bmonthly\b/.test(lower) ? 'month'
+      : /\b(by|per|each) currency\b/.test(lower) ? 'currency'
+      : /\b(by|per|each) (type|document type)\b/.test(lower) ? 'document_type'
+      : undefined;
+
+    return { filters, groupBy };
+  }
+}
+
+/**
+ * YYYY-MM-DD of a date in server local time
+ */
+export function toIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * YYYY-MM-DD from the date notations found on receipts and IDs. Numeric day/month order is read as
+ * day first unless that is impossible
+ */
+export function normalizeDate(value: string): string | null {
+  const trimmed = value.trim().replace(/\.$/, '');
+  let year: number, month: number, day: number;
+
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2,4})$/))) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    [day, month] = first > 12 || second <= 12 ? [first, second] : [second, first];
+    year = Number(match[3]) < 100 ? 2000 + Number(match[3]) : Number(match[3]);
+  } else if ((match = trimmed.match(/^(\d{1,2})\s+([A-Za-z]{3,9})\.?\s+(\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1, Number(match[3])];
+  } else if ((match = trimmed.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/))) {
+    [month, day, year] = [MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1, Number(match[2]), Number(match[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || year < 1900 || year > 2200) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function parseAmount(value: string): number | null {
+  let normalized = value.replace(/\s/g, '');
+  // A trailing ",dd" is a decimal comma (1.234,56); otherwise commas group thousands
+  if (/,\d{2}$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else {
+    normalized = normalized.replace(/,/g, '');
+  }
+  const amount = Number.parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+function toCurrency(token: string | undefined): string | null {
+  if (!token) return null;
+  if (CURRENCY_SYMBOLS[token]) return CURRENCY_SYMBOLS[token];
+  return CURRENCY_CODES.includes(token) ? token : null;
+}
+
+/**
+ * The amount on the most specific total line: grand total or amount due first, then the last plain
+ * total that is not a subtotal
+ */
+function findTotal(text: string): { amount: number; currency: string | null } | null {
+  const labels = ['grand total|total due|amount due|balance due|amount paid|total paid', '(?<!sub)(?<!sub )total(?: amount)?'];
+  for (const label of labels) {
+    const matches = Array.from(text.matchAll(new RegExp(`\\b(?:${label})\\b[^\\S\\n]*[:=-]?[^\\S\\n]*${AMOUNT_PATTERN}`, 'gi')));
+    const last = matches[matches.length - 1];
+    if (last) {
+      const amount = parseAmount(last[2]);
+      if (amount !== null) {
+        return { amount, currency: toCurrency(last[1]) || toCurrency(last[3]) };
+      }
+    }
+  }
+  return null;
+}
+
+function findCurrency(text: string): string | null {
+  const symbol = text.match(/[$€£¥₹₩₽₺]/);
+  if (symbol) {
+    return CURRENCY_SYMBOLS[symbol[0]];
+  }
+  const code = text.match(new RegExp(`\\b(${CURRENCY_CODES.join('|')})\\b`));
+  return code ? code[1] : null;
+}
+
+/**
+ * Merchants usually print their name on the first line of a receipt or invoice
+ */
+function findVendor(text: string): string | null {
+  const labelled = text.match(/\b(?:sold by|merchant|vendor|from|issued by)\s*:\s*([^\n]{2,80})/i);
+  if (labelled) {
+    return labelled[1].trim();
+  }
+  const firstLine = text.split('\n').map(line => line.trim()).find(line => /[A-Za-z]{2}/.test(line));
+  if (firstLine && firstLine.length <= 60 && !/\b(invoice|receipt|page)\b/i.test(firstLine)) {
+    return firstLine;
+  }
+  return null;
+}
+
+export const fieldExtractionService = FieldExtractionService.getInstance();
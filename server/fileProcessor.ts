@@ -1,10 +1,73 @@
 import { textExtractionService } from './textExtraction';
-import { embeddingsService, TextChunk } from './embeddingsService';
+import { embeddingsService, TextChunk, EmbeddingResult } from './embeddingsService';
 import { vectorDatabase } from './vectorDatabase';
+import { tagSuggestionService } from './tagSuggestionService';
+import { fieldExtractionService } from './fieldExtractionService';
+import { reminderService } from './reminderService';
+import { computeContentHash } from './duplicateService';
+import { detectLanguage } from './languageDetection';
 import { storage } from './storage';
+import type { EmailAttachment, ParsedEmail } from './emailParser';
+import type { DocumentRecord } from '@shared/schema';
 import fs from 'fs';
 import path from 'path';
 
+const MAX_EMAIL_ATTACHMENTS = 50; // Per email or mailbox file
+
+// File extensions by MIME type, for temp files and for attachments sent without a usable type
+const MIME_TO_EXTENSION: Record<string, string> = {
+  // PowerPoint files (the main focus of this fix)
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'application/vnd.ms-powerpoint': '.ppt',
+  
+  // Other Office documents
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/msword': '.doc',
+  'application/vnd.ms-word': '.doc',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.ms-excel': '.xls',
+
+  // OpenDocument, RTF and EPUB
+  'application/vnd.oasis.opendocument.text': '.odt',
+  'application/vnd.oasis.opendocument.spreadsheet': '.ods',
+  'application/vnd.oasis.opendocument.presentation': '.odp',
+  'application/rtf': '.rtf',
+  'text/rtf': '.rtf',
+  'application/epub+zip': '.epub',
+  
+  // PDF and text
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'text/html': '.html',
+  'text/markdown': '.md',
+  'application/json': '.json',
+  'text/xml': '.xml',
+  
+  // Images
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/bmp': '.bmp',
+  'image/tiff': '.tiff',
+
+  // Audio and video, transcribed
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/m4a': '.m4a',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav',
+  'video/mp4': '.mp4',
+
+  // Email
+  'message/rfc822': '.eml',
+  'application/mbox': '.mbox'
+};
+
 export interface ProcessingResult {
   success: boolean;
   fileId: string;
@@ -37,8 +100,8 @@ export interface FileProcessingStatus {
 export class FileProcessor {
   private static instance: FileProcessor;
   private processingQueue: Map<string, FileProcessingStatus> = new Map();
-  private readonly CHUNK_SIZE = 1000; // Words per chunk
-  private readonly CHUNK_OVERLAP = 200; // Overlap between chunks
+  private readonly CHUNK_SIZE = 500; // Tokens per chunk, capped at the embedding model's limit
+  private readonly CHUNK_OVERLAP = 100; // Tokens of overlap between chunks of the same section
 
   private constructor() {}
 
@@ -67,12 +130,13 @@ export class FileProcessor {
 
     try {
       // Update file embedding status
-      await storage.updateFile(fileId, { 
+      const file = await storage.updateFile(fileId, { 
         embeddingStatus: 'processing' 
       });
 
       // Stage 1: Text Extraction (0-30%)
-      const extractedText = await this.extractTextFromFile(fileId, filePath, mimeType);
+      const user = await storage.getUser(userId);
+      const extractedText = await this.extractTextFromFile(fileId, filePath, mimeType, file.currentVersion, user?.ocrLanguages);
       this.updateProgress(fileId, 'chunking', 30);
 
       // Check if any text was extracted
@@ -80,32 +144,38 @@ export class FileProcessor {
         throw new Error('No text content could be extracted from this file');
       }
 
-      // Stage 2: Text Chunking (30-50%)
-      const textChunks = await this.createTextChunks(fileId, userId, extractedText.content);
-      this.updateProgress(fileId, 'embedding', 50);
-      
-      // Check if any chunks were created
-      if (textChunks.length === 0) {
-        throw new Error('No text chunks could be created from the extracted content');
+      // Tag suggestions, field extraction and due-date detection run alongside chunking and embedding;
+      // a failure there never fails processing
+      tagSuggestionService.suggestTags(fileId, userId, extractedText.content).catch(error => {
+        console.warn(`Tag suggestion failed for ${fileId}:`, error);
+      });
+      this.extractFieldsAndReminders(fileId, userId, extractedText.content).catch(error => {
+        console.warn(`Field extraction failed for ${fileId}:`, error);
+      });
+      if (extractedText.emails) {
+        this.storeEmail(file, extractedText.emails).catch(error => {
+          console.warn(`Storing email messages failed for ${fileId}:`, error);
+        });
+      }
+      if (extractedText.tables) {
+        storage.replaceDocumentTables(fileId, userId, extractedText.tables.map((table, tableIndex) => ({
+          ...table,
+          tableIndex,
+          rowCount: table.rows.length,
+        }))).catch(error => {
+          console.warn(`Storing spreadsheet tables failed for ${fileId}:`, error);
+        });
       }
 
-      // Stage 3: Generate Embeddings (50-80%)
-      const embeddings = await this.generateEmbeddings(textChunks);
-      this.updateProgress(fileId, 'indexing', 80);
-
-      // Stage 4: Store in Vector Database (80-100%)
-      await this.storeChunksAndEmbeddings(textChunks, embeddings, userId);
-      
-      // Final update: mark as completed
-      await this.completeProcessing(fileId, extractedText, textChunks.length, embeddings.length);
+      const { chunkCount, embeddingCount } = await this.indexText(fileId, userId, extractedText, file.currentVersion);
       
       const endTime = new Date();
       const processingTime = endTime.getTime() - startTime.getTime();
       
       console.log(`File processing completed for ${fileId} in ${processingTime}ms`);
       console.log(`- Extracted ${extractedText.content.length} characters`);
-      console.log(`- Created ${textChunks.length} text chunks`);
-      console.log(`- Generated ${embeddings.length} embeddings`);
+      console.log(`- Created ${chunkCount} text chunks`);
+      console.log(`- Generated ${embeddingCount} embeddings`);
 
     } catch (error) {
       console.error(`File processing failed for ${fileId}:`, error);
@@ -113,10 +183,153 @@ export class FileProcessor {
     }
   }
 
+  /**
+   * Rebuild the chunks of a file's current version, e.g. after restoring a version whose chunks are gone
+   * or were embedded with another model. Reuses the stored text and only extracts again when there is none
+   */
+  async reindexCurrentVersion(fileId: string, userId: string): Promise<void> {
+    const file = await storage.getFile(fileId);
+    if (!file) {
+      throw new Error(`File ${fileId} not found`);
+    }
+
+    if (!file.extractedText?.trim()) {
+      await this.processFile(fileId, userId, file.storagePath, file.fileType);
+      return;
+    }
+
+    this.processingQueue.set(fileId, {
+      fileId,
+      status: 'processing',
+      stage: 'chunking',
+      progress: 30,
+      startTime: new Date()
+    });
+
+    try {
+      const language = detectLanguage(file.extractedText);
+      await storage.updateFile(fileId, { embeddingStatus: 'processing', language });
+      await this.indexText(fileId, userId, {
+        content: file.extractedText,
+        metadata: { extractionMethod: 'stored', language: language || undefined }
+      }, file.currentVersion);
+      console.log(`Re-indexed version ${file.currentVersion} of ${fileId}`);
+    } catch (error) {
+      console.error(`Re-indexing failed for ${fileId}:`, error);
+      await this.handleProcessingError(fileId, error);
+    }
+  }
+
+  /**
+   * Fill the structured fields of a document from its text, then store the due dates found in it as
+   * reminders. Fields the user edited are kept and still used for the expiry reminder
+   */
+  async extractFieldsAndReminders(fileId: string, userId: string, content: string): Promise<void> {
+    const fields = (await fieldExtractionService.extractFields(fileId, userId, content)) || (await storage.getDocumentFields(fileId));
+    await reminderService.detectReminders(fileId, userId, content, fields);
+  }
+
+  /**
+   * Store the headers of an email or mailbox document's messages and turn their attachments into child
+   * documents in the same folder, each processed like an upload. Attachments do not count toward the
+   * owner's file quota, and ones already extracted by an earlier run are not added again
+   */
+  private async storeEmail(file: DocumentRecord, emails: ParsedEmail[]): Promise<void> {
+    await storage.replaceEmailMessages(file.id, file.userId, emails.map((email, index) => ({
+      messageIndex: index,
+      fromAddress: email.from?.address || null,
+      fromName: email.from?.name || null,
+      toAddresses: email.to.map(address => address.address),
+      ccAddresses: email.cc.map(address => address.address),
+      subject: email.subject,
+      sentAt: email.date,
+      messageId: email.messageId,
+      attachmentCount: email.attachments.length,
+    })));
+
+    const attachments = emails.flatMap(email => email.attachments);
+    if (attachments.length > MAX_EMAIL_ATTACHMENTS) {
+      console.warn(`${file.filename} has ${attachments.length} attachments, keeping the first ${MAX_EMAIL_ATTACHMENTS}`);
+    }
+
+    const existingHashes = new Set((await storage.getChildDocuments([file.id])).map(child => child.contentHash));
+    const { SupabaseStorageService } = await import('./supabaseService');
+    const supabaseStorage = new SupabaseStorageService();
+
+    for (const attachment of attachments.slice(0, MAX_EMAIL_ATTACHMENTS)) {
+      const contentHash = computeContentHash(attachment.content);
+      if (existingHashes.has(contentHash)) {
+        continue;
+      }
+      existingHashes.add(contentHash);
+
+      const fileType = this.getAttachmentMimeType(attachment);
+      const sanitizedFilename = attachment.filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+      const storagePath = `users/${file.userId}/${Date.now()}_${sanitizedFilename}`;
+      await supabaseStorage.uploadFile(storagePath, attachment.content, fileType);
+
+      const child = await storage.createFile({
+        userId: file.userId,
+        filename: attachment.filename,
+        fileSize: attachment.content.length,
+        fileType,
+        storagePath,
+        folderId: file.folderId,
+        parentDocumentId: file.id,
+        contentHash,
+      });
+      console.log(`Stored attachment ${child.filename} of ${file.filename} as ${child.id}`);
+
+      // One at a time, so a large mailbox does not start dozens of extractions at once
+      if (this.isFileTypeSupported(fileType)) {
+        await this.processFile(child.id, file.userId, storagePath, fileType);
+      }
+    }
+  }
+
+  /**
+   * The declared type of an attachment, or the type its extension stands for when the sender declared
+   * none or a generic one
+   */
+  private getAttachmentMimeType(attachment: EmailAttachment): string {
+    if (attachment.contentType && attachment.contentType !== 'application/octet-stream') {
+      return attachment.contentType;
+    }
+    const extension = path.extname(attachment.filename).toLowerCase();
+    const match = Object.entries(MIME_TO_EXTENSION).find(([, mimeExtension]) => mimeExtension === extension);
+    return match ? match[0] : 'application/octet-stream';
+  }
+
+  /**
+   * Chunk, embed and store extracted text as the given version of a file, then mark the file completed
+   */
+  private async indexText(fileId: string, userId: string, extractedText: { content: string; metadata?: any }, version: number) {
+    // Stage 2: Text Chunking (30-50%)
+    const textChunks = await this.createTextChunks(fileId, userId, extractedText.content, version, extractedText.metadata?.language);
+    this.updateProgress(fileId, 'embedding', 50);
+    
+    // Check if any chunks were created
+    if (textChunks.length === 0) {
+      throw new Error('No text chunks could be created from the extracted content');
+    }
+
+    // Stage 3: Generate Embeddings (50-80%)
+    const embeddings = await this.generateEmbeddings(textChunks);
+    this.updateProgress(fileId, 'indexing', 80);
+
+    // Stage 4: Store in Vector Database (80-100%)
+    await this.storeChunksAndEmbeddings(fileId, textChunks, embeddings, userId);
+    
+    // Final update: mark as completed
+    await this.completeProcessing(fileId, extractedText, textChunks.length, embeddings.length);
+
+    return { chunkCount: textChunks.length, embeddingCount: embeddings.length };
+  }
+
   /**
    * Extract text content from file
    */
-  private async extractTextFromFile(fileId: string, filePath: string, mimeType: string) {
+  private async extractTextFromFile(fileId: string, filePath: string, mimeType: string, version: number, ocrLanguages?: string[]) {
     let tempFilePath: string | null = null;
     
     try {
@@ -138,12 +351,18 @@ export class FileProcessor {
         tempFilePath = filePath;
       }
       
-      const extractedText = await textExtractionService.extractText(tempFilePath, mimeType);
+      const extractedText = await textExtractionService.extractText(tempFilePath, mimeType, { ocrLanguages });
+      // OCR and transcription report the language they recognised; other text is detected here
+      if (!extractedText.metadata?.language) {
+        extractedText.metadata = { ...extractedText.metadata, language: detectLanguage(extractedText.content) || undefined };
+      }
       
-      // Store extracted text in database
+      // Store extracted text in database, on the document and on its version record
       await storage.updateFile(fileId, {
-        extractedText: extractedText.content
+        extractedText: extractedText.content,
+        language: extractedText.metadata.language || null
       });
+      await storage.setDocumentVersionText(fileId, version, extractedText.content);
 
       return extractedText;
     } catch (error) {
@@ -166,36 +385,7 @@ export class FileProcessor {
    * Get file extension from MIME type for proper file type detection
    */
   private getExtensionFromMimeType(mimeType: string): string {
-    const mimeToExtension: Record<string, string> = {
-      // PowerPoint files (the main focus of this fix)
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
-      'application/vnd.ms-powerpoint': '.ppt',
-      
-      // Other Office documents
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
-      'application/vnd.ms-word': '.doc',
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
-      'application/vnd.ms-excel': '.xls',
-      
-      // PDF and text
-      'application/pdf': '.pdf',
-      'text/plain': '.txt',
-      'text/csv': '.csv',
-      'text/html': '.html',
-      'text/markdown': '.md',
-      'application/json': '.json',
-      'text/xml': '.xml',
-      
-      // Images
-      'image/jpeg': '.jpg',
-      'image/png': '.png',
-      'image/gif': '.gif',
-      'image/webp': '.webp',
-      'image/bmp': '.bmp',
-      'image/tiff': '.tiff'
-    };
-    
-    return mimeToExtension[mimeType] || '';
+    return MIME_TO_EXTENSION[mimeType] || '';
   }
 
   /**
@@ -239,14 +429,14 @@ export class FileProcessor {
   /**
    * Create text chunks from extracted content
    */
-  private async createTextChunks(fileId: string, userId: string, content: string): Promise<TextChunk[]> {
+  private async createTextChunks(fileId: string, userId: string, content: string, version: number, language?: string): Promise<TextChunk[]> {
     if (!content || content.trim().length === 0) {
       console.warn(`No content to chunk for file ${fileId}`);
       return [];
     }
 
     try {
-      const chunks = embeddingsService.createTextChunks(content, fileId, userId, this.CHUNK_SIZE, this.CHUNK_OVERLAP);
+      const chunks = embeddingsService.createTextChunks(content, fileId, userId, this.CHUNK_SIZE, this.CHUNK_OVERLAP, undefined, version, language);
 
       console.log(`Created ${chunks.length} chunks for file ${fileId}`);
       return chunks;
@@ -261,7 +451,7 @@ export class FileProcessor {
    */
   private async generateEmbeddings(chunks: TextChunk[]) {
     if (!embeddingsService.isAvailable()) {
-      throw new Error('Embeddings service not available - OpenAI API key not configured');
+      throw new Error('Embeddings service not available - no embedding provider configured');
     }
 
     if (chunks.length === 0) {
@@ -286,9 +476,9 @@ export class FileProcessor {
   }
 
   /**
-   * Store text chunks and embeddings in database and vector store
+   * Store text chunks and embeddings in the database, replacing the file's current-version chunks
    */
-  private async storeChunksAndEmbeddings(chunks: TextChunk[], embeddings: any[], userId: string) {
+  private async storeChunksAndEmbeddings(fileId: string, chunks: TextChunk[], embeddings: EmbeddingResult[], userId: string) {
     try {
       // Merge embeddings back into chunks and add required userId
       const chunksWithEmbeddings = chunks.map(chunk => {
@@ -296,17 +486,18 @@ export class FileProcessor {
         return {
           ...chunk,
           userId: userId, // Add required userId field
-          embedding: embedding?.embedding || null
+          embedding: embedding?.embedding || undefined,
+          // Record which model produced the vector so it is never compared across models
+          embeddingProvider: embedding?.provider,
+          embeddingModel: embedding?.model,
+          embeddingDimension: embedding?.dimension
         };
       });
 
-      // Store chunks in database (via storage interface)
-      await storage.addTextChunks(chunksWithEmbeddings);
-
-      // Store in vector database for fast search
-      await vectorDatabase.addChunks(chunksWithEmbeddings);
+      // Store chunks in database (via storage interface) - the HNSW index makes them searchable immediately
+      await storage.replaceTextChunks(fileId, chunksWithEmbeddings);
 
-      console.log(`Stored ${chunksWithEmbeddings.length} chunks in database and vector store`);
+      console.log(`Stored ${chunksWithEmbeddings.length} chunks in database`);
     } catch (error) {
       console.error('Failed to store chunks and embeddings:', error);
       throw new Error(`Storage failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -325,6 +516,7 @@ export class FileProcessor {
     const modelInfo = embeddingsService.getModelInfo();
     
     const embeddingMetadata = {
+      provider: modelInfo.provider,
       model: modelInfo.model,
       dimension: modelInfo.dimension,
       chunkCount,
@@ -401,12 +593,9 @@ export class FileProcessor {
     console.log(`Removing processing data for file ${fileId}`);
     
     try {
-      // Remove from vector database
+      // Remove chunks from the vector index
       await vectorDatabase.removeFileChunks(fileId);
       
-      // Remove chunks from storage (TODO: implement this method in storage)
-      // await storage.removeTextChunksByFileId(fileId);
-      
       // Remove from processing queue
       this.processingQueue.delete(fileId);
       
@@ -432,9 +621,7 @@ export class FileProcessor {
 
     console.log(`Reprocessing file ${fileId}: ${file.filename}`);
     
-    // Clean up existing processing data
-    await this.removeFileProcessing(fileId);
-    
+    // The current version's chunks are replaced once the new ones are stored; earlier versions keep theirs
     // Start fresh processing
     // Note: In a real implementation, we'd need to get the actual file path
     // For now, we'll use the storage path from the file record
@@ -467,6 +654,13 @@ export class FileProcessor {
       'application/vnd.ms-excel', // Excel (.xls)
       'application/vnd.ms-powerpoint', // PowerPoint (.ppt)
       'application/vnd.openxmlformats-officedocument.presentationml.presentation', // PowerPoint (.pptx)
+      'application/msword', // Word (.doc)
+      'application/vnd.ms-word', // Word (.doc)
+      'application/vnd.oasis.opendocument.text', // OpenDocument text (.odt)
+      'application/vnd.oasis.opendocument.spreadsheet', // OpenDocument spreadsheet (.ods)
+      'application/vnd.oasis.opendocument.presentation', // OpenDocument presentation (.odp)
+      'application/rtf', // Rich Text Format (.rtf)
+      'application/epub+zip', // EPUB book (.epub)
       'text/html',
       'text/plain',
       'text/csv',
@@ -477,7 +671,18 @@ export class FileProcessor {
       'image/gif',
       'image/webp',
       'image/bmp',
-      'image/tiff'
+      'image/tiff',
+      'audio/mpeg', // Audio (.mp3)
+      'audio/mp3',
+      'audio/mp4', // Audio (.m4a)
+      'audio/x-m4a',
+      'audio/m4a',
+      'audio/wav', // Audio (.wav)
+      'audio/x-wav',
+      'audio/wave',
+      'video/mp4', // Video (.mp4)
+      'message/rfc822', // Email (.eml)
+      'application/mbox' // Mailbox (.mbox)
     ];
     
     return supportedTypes.includes(mimeType) || mimeType.startsWith('text/');
@@ -4,6 +4,10 @@ import './load-env';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { reembeddingService } from "./reembeddingService";
+import { trashService } from "./trashService";
+import { reminderService } from "./reminderService";
+import { breachCheckService } from "./breachCheckService";
 
 const app = express();
 
@@ -78,5 +82,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    reembeddingService.resumeInterruptedJobs();
+    trashService.startPurgeSchedule();
+    reminderService.startSchedule();
+    breachCheckService.startSchedule();
   });
 })();
@@ -0,0 +1,94 @@
+import { DOCUMENT_LANGUAGES } from '@shared/languages';
+
+// Language of extracted text, by its script and then by common words or letters within the script
+
+const MIN_LETTERS = 20; // Shorter texts are left undetected
+const SAMPLE_LENGTH = 20000;
+
+const SCRIPT_PATTERNS: Array<{ script: string; pattern: RegExp }> = [
+  { script: 'Latin', pattern: /[A-Za-z\u00C0-\u024F]/g },
+  { script: 'Cyrillic', pattern: /[\u0400-\u04FF]/g },
+  { script: 'Arabic', pattern: /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/g },
+  { script: 'Hebrew', pattern: /[\u0590-\u05FF]/g },
+  { script: 'Devanagari', pattern: /[\u0900-\u097F]/g },
+  { script: 'Japanese', pattern: /[\u3040-\u30FF]/g }, // Kana; kanji alone reads as Han
+  { script: 'Han', pattern: /[\u4E00-\u9FFF]/g },
+  { script: 'Hangul', pattern: /[\uAC00-\uD7AF\u1100-\u11FF]/g },
+];
+
+// The most frequent words of each language written in Latin or Cyrillic script
+const COMMON_WORDS: Record<string, string[]> = {
+  eng: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'with', 'it', 'this', 'on', 'are', 'was', 'be', 'by', 'not', 'have', 'you', 'from'],
+  fra: ['le', 'la', 'les', 'et', 'des', 'est', 'une', 'pour', 'dans', 'que', 'qui', 'pas', 'sur', 'du', 'au', 'avec', 'ce', 'il', 'sont', 'vous'],
+  deu: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'den', 'von', 'zu', 'sich', 'auf', 'für', 'dem', 'des', 'im', 'sie', 'wird'],
+  spa: ['el', 'la', 'los', 'las', 'y', 'de', 'que', 'en', 'es', 'por', 'para', 'con', 'una', 'del', 'se', 'no', 'al', 'como', 'su', 'está'],
+  ita: ['il', 'la', 'di', 'che', 'e', 'per', 'un', 'una', 'non', 'sono', 'con', 'gli', 'del', 'della', 'le', 'è', 'al', 'si', 'questo', 'nel'],
+  por: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'no', 'na', 'são', 'ao', 'dos'],
+  nld: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in', 'niet', 'zijn', 'met', 'voor', 'die', 'er', 'ook', 'aan', 'wordt', 'bij'],
+  tur: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'olarak', 'çok', 'ama', 'gibi', 'daha', 'ne', 'olan', 'veya', 'kadar', 'sonra', 'ise', 'her', 'değil'],
+  ind: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'dari', 'tidak', 'akan', 'pada', 'ke', 'adalah', 'dalam', 'ada', 'kami', 'atau', 'juga', 'oleh', 'saya'],
+  rus: ['и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'как', 'к', 'но', 'из', 'за', 'для', 'от', 'он', 'о', 'так', 'все', 'мы'],
+};
+
+// Letters Urdu uses that Arabic and Persian don't, and letters Persian shares with Urdu but Arabic lacks
+const URDU_LETTERS = /[\u0679\u0688\u0691\u06BA\u06BE\u06C1\u06D2]/g;
+const PERSIAN_LETTERS = /[\u067E\u0686\u0698\u06AF\u06A9\u06CC]/g;
+
+/**
+ * The script most letters of the text are written in, or null for texts with too few letters
+ */
+export function detectScript(text: string): string | null {
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  let best: { script: string; count: number } | null = null;
+  for (const { script, pattern } of SCRIPT_PATTERNS) {
+    const count = sample.match(pattern)?.length || 0;
+    if (!best || count > best.count) {
+      best = { script, count };
+    }
+  }
+  // Japanese text mixes kana with kanji, so any real amount of kana makes it Japanese
+  const kana = sample.match(SCRIPT_PATTERNS.find(entry => entry.script === 'Japanese')!.pattern)?.length || 0;
+  if (best?.script === 'Han' && kana >= MIN_LETTERS / 2) {
+    return 'Japanese';
+  }
+  return best && best.count >= MIN_LETTERS ? best.script : null;
+}
+
+/**
+ * Language code (see DOCUMENT_LANGUAGES) of the text, chosen among `candidates` when given and any of
+ * them is written in the text's script. Null when the text is too short to tell
+ */
+export function detectLanguage(text: string, candidates?: string[]): string | null {
+  const script = detectScript(text);
+  if (!script) {
+    return null;
+  }
+
+  const ofScript = DOCUMENT_LANGUAGES.filter(language => language.script === script).map(language => language.code);
+  const narrowed = candidates?.filter(code => ofScript.includes(code)) || [];
+  const options = narrowed.length > 0 ? narrowed : ofScript;
+  if (options.length <= 1) {
+    return options[0] || null;
+  }
+
+  const sample = text.slice(0, SAMPLE_LENGTH);
+  if (script === 'Arabic') {
+    const urdu = sample.match(URDU_LETTERS)?.length || 0;
+    const persian = sample.match(PERSIAN_LETTERS)?.length || 0;
+    const guess = urdu > 0 ? 'urd' : persian > 0 ? 'fas' : 'ara';
+    return options.includes(guess) ? guess : options[0];
+  }
+
+  const counts = new Map<string, number>();
+  for (const word of sample.toLowerCase().split(/[^a-z\u00C0-\u024F\u0400-\u04FF]+/)) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  let best = { code: options[0], score: 0 };
+  for (const code of options) {
+    const score = (COMMON_WORDS[code] || []).reduce((total, word) => total + (counts.get(word) || 0), 0);
+    if (score > best.score) {
+      best = { code, score };
+    }
+  }
+  return best.code;
+}
@@ -0,0 +1,352 @@
+import { embeddingsService } from './embeddingsService';
+import type { EmbeddingProvider } from './embeddingProviders';
+import { storage } from './storage';
+import { detectLanguage } from './languageDetection';
+import type { JobRecord } from '@shared/schema';
+
+export const REEMBED_JOB_TYPE = 'reembed';
+
+export interface ReembedOptions {
+  provider?: string; // Target provider/model, defaults to the active one (e.g. to apply a new chunk size)
+  model?: string;
+  dimension?: number;
+  chunkSize?: number; // Tokens per chunk
+  chunkOverlap?: number;
+  batchSize?: number; // Documents loaded per batch
+  delayMs?: number; // Pause between documents to stay under provider rate limits
+  force?: boolean; // Also rebuild files whose chunks already use the target model
+}
+
+export interface ReembedJobData {
+  provider: string;
+  model: string;
+  dimension: number;
+  chunkSize: number;
+  chunkOverlap: number;
+  batchSize: number;
+  delayMs: number;
+  force: boolean;
+}
+
+export interface ReembedJobResult {
+  cursor: string | null; // Last document id handled, the job resumes after it
+  totalDocuments: number;
+  processedDocuments: number;
+  reembeddedDocuments: number;
+  skippedDocuments: number;
+  chunksWritten: number;
+  tokensUsed: number;
+  failures: Array<{ documentId: string; filename: string; error: string }>;
+}
+
+const MAX_RECORDED_FAILURES = 100;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+/**
+ * Admin-triggered job that recomputes every document's chunks and embeddings, e.g. after switching
+ * embedding model or chunk size. Documents are walked in id order and the cursor is saved to the
+ * jobs table after each one, so an interrupted job resumes where it stopped. Each file's chunks are
+ * swapped in a single transaction and searches cover both the old and the target model meanwhile
+ */
+export class ReembeddingService {
+  private static instance: ReembeddingService;
+  private running: Set<string> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): ReembeddingService {
+    if (!ReembeddingService.instance) {
+      ReembeddingService.instance = new ReembeddingService();
+    }
+    return ReembeddingService.instance;
+  }
+
+  /**
+   * Create a re-embedding job and start it in the background
+   */
+  async startJob(userId: string, options: ReembedOptions = {}): Promise<JobRecord> {
+    const running = await this.getRunningJob();
+    if (running) {
+      throw new Error(`Re-embedding job ${running.id} is already ${running.status}`);
+    }
+
+    const active = embeddingsService.getModelInfo();
+    const provider = embeddingsService.createProvider({
+      provider: options.provider || active.provider,
+      model: options.model || (options.provider && options.provider !== active.provider ? undefined : active.model),
+      dimension: options.dimension,
+    });
+    if (!provider.isAvailable()) {
+      throw new Error(`Embedding provider ${provider.name} is not available`);
+    }
+
+    const data: ReembedJobData = {
+      provider: provider.name,
+      model: provider.model,
+      dimension: provider.dimension,
+      chunkSize: options.chunkSize ?? 500,
+      chunkOverlap: options.chunkOverlap ?? 100,
+      batchSize: options.batchSize ?? 20,
+      delayMs: options.delayMs ?? 250,
+      force: options.force ?? false,
+    };
+
+    const job = await storage.createJob({
+      userId,
+      jobType: REEMBED_JOB_TYPE,
+      status: 'waiting',
+      data,
+    });
+
+    this.launch(job.id);
+    return job;
+  }
+
+  /**
+   * Continue a failed, cancelled or interrupted job from its saved cursor
+   */
+  async resumeJob(jobId: string): Promise<JobRecord> {
+    const job = await this.getReembedJob(jobId);
+    if (job.status === 'completed') {
+      throw new Error('Job has already completed');
+    }
+    if (this.running.has(jobId)) {
+      return job;
+    }
+
+    const running = await this.getRunningJob();
+    if (running && running.id !== jobId) {
+      throw new Error(`Re-embedding job ${running.id} is already ${running.status}`);
+    }
+
+    const updated = await storage.updateJob(jobId, { status: 'waiting', error: null });
+    this.launch(jobId);
+    return updated;
+  }
+
+  /**
+   * Stop a job after the document it is currently working on; its progress is kept for resuming
+   */
+  async cancelJob(jobId: string): Promise<JobRecord> {
+    const job = await this.getReembedJob(jobId);
+    if (job.status !== 'waiting' && job.status !== 'active') {
+      throw new Error(`Job is already ${job.status}`);
+    }
+    return storage.updateJob(jobId, { status: 'cancelled' });
+  }
+
+  /**
+   * Pick up jobs that were running when the server stopped
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    try {
+      const jobs = await storage.getJobsByType(REEMBED_JOB_TYPE);
+      for (const job of jobs.filter(j => j.status === 'waiting' || j.status === 'active')) {
+        console.log(`Resuming interrupted re-embedding job ${job.id}`);
+        this.launch(job.id);
+      }
+    } catch (error) {
+      console.error('Failed to resume re-embedding jobs:', error);
+    }
+  }
+
+  private async getRunningJob(): Promise<JobRecord | undefined> {
+    const jobs = await storage.getJobsByType(REEMBED_JOB_TYPE);
+    return jobs.find(job => job.status === 'waiting' || job.status === 'active');
+  }
+
+  private async getReembedJob(jobId: string): Promise<JobRecord> {
+    const job = await storage.getJob(jobId);
+    if (!job || job.jobType !== REEMBED_JOB_TYPE) {
+      throw new Error('Job not found');
+    }
+    return job;
+  }
+
+  private launch(jobId: string) {
+    if (this.running.has(jobId)) return;
+    this.running.add(jobId);
+
+    this.run(jobId)
+      .catch(async (error) => {
+        console.error(`Re-embedding job ${jobId} failed:`, error);
+        await storage.updateJob(jobId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }).catch(updateError => console.error(`Failed to record failure of job ${jobId}:`, updateError));
+      })
+      .finally(() => this.running.delete(jobId));
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = await this.getReembedJob(jobId);
+    if (job.status === 'cancelled') return;
+
+    const data = job.data as ReembedJobData;
+    const provider = embeddingsService.createProvider(data);
+    if (!provider.isAvailable()) {
+      throw new Error(`Embedding provider ${provider.name} is not available`);
+    }
+
+    // Chunks on the target model must stay searchable before the active model is switched over
+    embeddingsService.addSearchProvider(provider);
+
+    const result: ReembedJobResult = {
+      cursor: null,
+      processedDocuments: 0,
+      reembeddedDocuments: 0,
+      skippedDocuments: 0,
+      chunksWritten: 0,
+      tokensUsed: 0,
+      failures: [],
+      ...(job.result as Partial<ReembedJobResult> | null),
+      totalDocuments: await storage.countDocuments(),
+    };
+
+    await storage.updateJob(jobId, { status: 'active', result });
+    console.log(`Re-embedding job ${jobId}: ${result.totalDocuments} documents with ${provider.name}/${provider.model}${result.cursor ? `, resuming after ${result.cursor}` : ''}`);
+
+    while (true) {
+      const documents = await storage.getDocumentsAfter(result.cursor, data.batchSize);
+      if (documents.length === 0) break;
+
+      for (const document of documents) {
+        // Cancellation is recorded in the jobs table so it also reaches jobs started by another instance
+        const current = await storage.getJob(jobId);
+        if (!current || current.status === 'cancelled') {
+          console.log(`Re-embedding job ${jobId} cancelled after ${result.processedDocuments} documents`);
+          return;
+        }
+
+        try {
+          const outcome = await this.reembedDocument(document, provider, data);
+          if (outcome) {
+            result.reembeddedDocuments++;
+            result.chunksWritten += outcome.chunks;
+            result.tokensUsed += outcome.tokens;
+          } else {
+            result.skippedDocuments++;
+          }
+        } catch (error) {
+          console.error(`Re-embedding failed for document ${document.id}:`, error);
+          if (result.failures.length < MAX_RECORDED_FAILURES) {
+            result.failures.push({
+              documentId: document.id,
+              filename: document.filename,
+              error: error instanceof Error ? error.message : 'Unknown error'
+            });
+          }
+        }
+
+        result.processedDocuments++;
+        result.cursor = document.id;
+        await storage.updateJob(jobId, {
+          progress: this.getProgress(result),
+          result
+        });
+
+        if (data.delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, data.delayMs));
+        }
+      }
+    }
+
+    await storage.updateJob(jobId, { status: 'completed', progress: 100, result });
+    console.log(`Re-embedding job ${jobId} completed: ${result.reembeddedDocuments} re-embedded, ${result.skippedDocuments} skipped, ${result.failures.length} failed`);
+
+    if (!embeddingsService.isActiveModel({ provider: provider.name, model: provider.model })) {
+      console.log(`Switch EMBEDDING_PROVIDER to ${provider.name} and its model setting to ${provider.model} to make it the active embedding model`);
+    }
+  }
+
+  /**
+   * Rebuild one document's chunks from its stored extracted text
+   * Returns null when there was nothing to do
+   */
+  private async reembedDocument(
+    document: { id: string; userId: string; extractedText: string | null; currentVersion: number },
+    provider: EmbeddingProvider,
+    data: ReembedJobData
+  ): Promise<{ chunks: number; tokens: number } | null> {
+    if (!document.extractedText?.trim()) {
+      return null;
+    }
+
+    if (!data.force) {
+      const models = await storage.getTextChunkEmbeddingModels(document.id, document.currentVersion);
+      if (models.length > 0 && models.every(entry => entry.provider === provider.name && entry.model === provider.model)) {
+        return null;
+      }
+    }
+
+    const language = detectLanguage(document.extractedText);
+    const chunks = embeddingsService.createTextChunks(
+      document.extractedText,
+      document.id,
+      document.userId,
+      data.chunkSize,
+      data.chunkOverlap,
+      provider.maxTokens,
+      document.currentVersion,
+      language || undefined
+    );
+    if (chunks.length === 0) {
+      return null;
+    }
+
+    const embeddings = await this.withRateLimitRetry(() => embeddingsService.generateEmbeddings(chunks, provider), data.delayMs);
+    if (embeddings.length !== chunks.length) {
+      throw new Error(`Embedding generation incomplete: Expected ${chunks.length} embeddings, got ${embeddings.length}`);
+    }
+
+    const chunksWithEmbeddings = chunks.map(chunk => {
+      const embedding = embeddings.find(e => e.chunkId === chunk.id)!;
+      return {
+        ...chunk,
+        embedding: embedding.embedding,
+        embeddingProvider: embedding.provider,
+        embeddingModel: embedding.model,
+        embeddingDimension: embedding.dimension
+      };
+    });
+
+    // The old chunks keep serving searches until this commits
+    await storage.replaceTextChunks(document.id, chunksWithEmbeddings);
+    await storage.updateFile(document.id, { embeddingStatus: 'completed', language });
+
+    // Usage is reported per provider batch, so count each batch once
+    const tokens = embeddings
+      .filter((_, index) => index % provider.batchSize === 0)
+      .reduce((sum, embedding) => sum + embedding.tokens, 0);
+
+    return { chunks: chunksWithEmbeddings.length, tokens };
+  }
+
+  /**
+   * Retry with exponential backoff when the provider rejects a request for exceeding its rate limit
+   */
+  private async withRateLimitRetry<T>(operation: () => Promise<T>, baseDelayMs: number): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '';
+        if (attempt >= MAX_RATE_LIMIT_RETRIES || !/\b429\b|rate limit/i.test(message)) {
+          throw error;
+        }
+        const delay = Math.max(baseDelayMs, 1000) * 2 ** attempt;
+        console.warn(`Embedding provider rate limited, retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private getProgress(result: ReembedJobResult): number {
+    if (result.totalDocuments === 0) return 0;
+    // New uploads during the run can push the count past the initial total
+    return Math.min(99, Math.floor((result.processedDocuments / result.totalDocuments) * 100));
+  }
+}
+
+// Export singleton instance
+export const reembeddingService = ReembeddingService.getInstance();
@@ -0,0 +1,185 @@
+import { storage, type PendingReminderNotification } from './storage';
+import { DATE_PATTERN, normalizeDate, toIsoDate } from './fieldExtractionService';
+import { sendExpiryReminderEmail } from './email';
+import type { DocumentFieldsRecord, DocumentReminderRecord } from '@shared/schema';
+
+export const REMINDER_KINDS = ['expiry', 'renewal', 'warranty', 'other'] as const;
+export type ReminderKind = typeof REMINDER_KINDS[number];
+
+export const MAX_REMINDER_LEAD_DAYS = 365;
+export const MAX_REMINDER_LEAD_TIMES = 5;
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_DETECTED_PER_DOCUMENT = 5;
+const DETECT_PAST_DAYS = 365; // Dates further in the past are history, not reminders
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Labelled dates looked for in extracted text, most specific kind first; a date is only taken once
+const DATE_RULES: Array<{ kind: ReminderKind; label: string }> = [
+  { kind: 'warranty', label: 'warranty (?:expires|ends|end date|valid until|until|expiry(?: date)?)(?: on)?' },
+  { kind: 'renewal', label: 'renewal date|renews on|renew by|due for renewal(?: on)?|next renewal(?: date)?' },
+  { kind: 'expiry', label: 'date of expiry|expiry date|expiration date|expires(?: on)?|expiry|valid (?:until|thru|through)|coverage ends(?: on)?' },
+];
+
+const EXPIRY_LABELS: Record<string, string> = {
+  passport: 'Passport expires',
+  id_card: 'ID card expires',
+  driver_license: "Driver's license expires",
+  insurance_card: 'Insurance card expires',
+};
+
+/**
+ * Expiry, renewal and warranty dates of documents. Dates are detected in extracted text after
+ * processing (alongside the expiry date of extracted fields) or entered by the user, and an hourly
+ * check emails each owner a digest as due dates pass their lead times
+ */
+export class ReminderService {
+  private static instance: ReminderService;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  private constructor() {}
+
+  public static getInstance(): ReminderService {
+    if (!ReminderService.instance) {
+      ReminderService.instance = new ReminderService();
+    }
+    return ReminderService.instance;
+  }
+
+  /**
+   * Detect due dates in a processed document and store them as reminders
+   */
+  async detectReminders(fileId: string, userId: string, content: string, fields?: DocumentFieldsRecord): Promise<DocumentReminderRecord[]> {
+    const detected = this.findDates(content, fields?.documentType);
+    if (fields?.expiryDate && !detected.some(reminder => reminder.dueDate === fields.expiryDate)) {
+      detected.unshift({ kind: 'expiry', dueDate: fields.expiryDate, label: this.expiryLabel(content, fields.documentType) });
+    }
+
+    const earliest = toIsoDate(new Date(Date.now() - DETECT_PAST_DAYS * DAY_MS));
+    const reminders = detected
+      .filter(reminder => reminder.dueDate >= earliest)
+      .slice(0, MAX_DETECTED_PER_DOCUMENT);
+
+    const created = await storage.replaceDetectedReminders(fileId, userId, reminders);
+    if (reminders.length > 0) {
+      console.log(`Detected ${reminders.length} due date(s) for ${fileId}: ${reminders.map(r => `${r.kind} ${r.dueDate}`).join(', ')}`);
+    }
+    return created;
+  }
+
+  /**
+   * Send due reminder emails now and then every hour
+   */
+  startSchedule(): void {
+    if (this.checkTimer) {
+      return;
+    }
+    this.sendDueReminders();
+    this.checkTimer = setInterval(() => this.sendDueReminders(), CHECK_INTERVAL_MS);
+    this.checkTimer.unref();
+  }
+
+  async sendDueReminders(): Promise<number> {
+    if (this.checking) {
+      return 0;
+    }
+    this.checking = true;
+
+    let sent = 0;
+    try {
+      const today = toIsoDate(new Date());
+      const horizon = toIsoDate(new Date(Date.now() + MAX_REMINDER_LEAD_DAYS * DAY_MS));
+      const pending = await storage.getPendingReminderNotifications(today, horizon);
+
+      // One digest per user with every reminder that passed a lead time not yet emailed
+      const byUser = new Map<string, Array<{ reminder: PendingReminderNotification; crossed: number[]; daysLeft: number }>>();
+      for (const reminder of pending) {
+        if (!reminder.email) continue;
+        const daysLeft = daysUntil(reminder.dueDate, today);
+        const crossed = reminder.leadDays.filter(lead => daysLeft <= lead && !reminder.notifiedLeadDays.includes(lead));
+        if (crossed.length === 0) continue;
+        const due = byUser.get(reminder.userId) || [];
+        due.push({ reminder, crossed, daysLeft });
+        byUser.set(reminder.userId, due);
+      }
+
+      for (const due of Array.from(byUser.values())) {
+        const delivered = await sendExpiryReminderEmail(
+          due[0].reminder.email!,
+          due.map(({ reminder, daysLeft }) => ({
+            filename: reminder.filename,
+            label: reminder.label || this.defaultLabel(reminder.kind),
+            dueDate: reminder.dueDate,
+            daysLeft,
+          }))
+        );
+        // Undelivered reminders are retried on the next check
+        if (!delivered) continue;
+        for (const { reminder, crossed } of due) {
+          await storage.updateReminder(reminder.id, {
+            notifiedLeadDays: Array.from(new Set([...reminder.notifiedLeadDays, ...crossed])),
+          });
+        }
+        sent++;
+      }
+      if (sent > 0) {
+        console.log(`Sent ${sent} expiry reminder email(s)`);
+      }
+    } catch (error) {
+      console.error('Reminder check failed:', error);
+    } finally {
+      this.checking = false;
+    }
+    return sent;
+  }
+
+  /**
+   * Lead times as stored: whole days within range, deduplicated, longest first
+   */
+  normalizeLeadDays(leadDays: number[]): number[] {
+    return Array.from(new Set(leadDays.map(days => Math.round(days))))
+      .filter(days => days >= 0 && days <= MAX_REMINDER_LEAD_DAYS)
+      .sort((a, b) => b - a)
+      .slice(0, MAX_REMINDER_LEAD_TIMES);
+  }
+
+  defaultLabel(kind: string): string {
+    return kind === 'renewal' ? 'Renewal due' : kind === 'warranty' ? 'Warranty ends' : kind === 'expiry' ? 'Expires' : 'Due';
+  }
+
+  private findDates(content: string, documentType?: string): Array<{ kind: ReminderKind; dueDate: string; label: string }> {
+    const found: Array<{ kind: ReminderKind; dueDate: string; label: string }> = [];
+    const taken = new Set<string>();
+    for (const rule of DATE_RULES) {
+      const pattern = new RegExp(`\\b(?:${rule.label})\\b\\s*[:.]?\\s*${DATE_PATTERN}`, 'gi');
+      for (const match of Array.from(content.matchAll(pattern))) {
+        const dueDate = normalizeDate(match[1]);
+        if (!dueDate || taken.has(dueDate)) continue;
+        taken.add(dueDate);
+        found.push({
+          kind: rule.kind,
+          dueDate,
+          label: rule.kind === 'expiry' ? this.expiryLabel(content, documentType) : this.defaultLabel(rule.kind),
+        });
+      }
+    }
+    return found;
+  }
+
+  private expiryLabel(content: string, documentType?: string): string {
+    if (documentType && EXPIRY_LABELS[documentType]) {
+      return EXPIRY_LABELS[documentType];
+    }
+    if (/\bvisa\b/i.test(content)) return 'Visa expires';
+    if (/\bpassport\b/i.test(content)) return 'Passport expires';
+    if (/\b(insurance|policy)\b/i.test(content)) return 'Policy expires';
+    return this.defaultLabel('expiry');
+  }
+}
+
+function daysUntil(dueDate: string, today: string): number {
+  return Math.round((Date.parse(dueDate) - Date.parse(today)) / DAY_MS);
+}
+
+export const reminderService = ReminderService.getInstance();
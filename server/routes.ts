@@ -12,13 +12,33 @@ import {
   userSubscriptions as userSubscriptionsTable,
   subscriptionUsage as subscriptionUsageTable,
   subscriptionPlans as subscriptionPlansTable,
+  type DocumentRecord,
 } from "@shared/schema";
 import { z } from "zod";
 import { fileProcessor } from "./fileProcessor";
+import { formatTimestamp } from "./documentChunker";
+import { reembeddingService, REEMBED_JOB_TYPE } from "./reembeddingService";
 import { databaseSearchService } from "./databaseSearchService";
+import { duplicateService, computeContentHash, DEFAULT_NEAR_DUPLICATE_THRESHOLD } from "./duplicateService";
+import { trashService, MIN_TRASH_RETENTION_DAYS, MAX_TRASH_RETENTION_DAYS } from "./trashService";
+import { fieldExtractionService, DOCUMENT_TYPES } from "./fieldExtractionService";
+import { emailSearchService, type EmailChatContext } from "./emailSearchService";
+import { tableQueryService, type TableChatAnswer } from "./tableQueryService";
+import { DOCUMENT_LANGUAGES, DOCUMENT_LANGUAGE_CODES } from "@shared/languages";
+import { EMAIL_MIME_TYPES, emailMimeTypeFor } from "./emailParser";
+import { DOCUMENT_FORMAT_MIME_TYPES, documentFormatMimeTypeFor } from "./documentFormats";
+import { MEDIA_MIME_TYPES, mediaMimeTypeFor } from "./transcriptionProviders";
+import { reminderService, REMINDER_KINDS, MAX_REMINDER_LEAD_DAYS, MAX_REMINDER_LEAD_TIMES } from "./reminderService";
 import { subscriptionService, SUBSCRIPTION_PLANS, stripe } from "./subscriptionService";
 import { encryptPassword, decryptPassword } from "./encryption";
 import { insertAccountCredentialSchema } from "@shared/schema";
+import { estimatePasswordStrength } from "@shared/passwordStrength";
+import { generatePassword, passwordGeneratorOptionsSchema } from "@shared/passwordGenerator";
+import { vaultHealthService, scoreCredentialPassword } from "./vaultHealthService";
+import { breachCheckService } from "./breachCheckService";
+import { parseCredentialExport, formatCredentialsCsv, CredentialImportError, CREDENTIAL_IMPORT_FORMATS } from "./credentialImportFormats";
+import { credentialImportService } from "./credentialImportService";
+import { vaultBackupService, VaultBackupError, VAULT_BACKUP_EXTENSION, VAULT_RESTORE_MODES } from "./vaultBackupService";
 import { db } from "./db";
 import { sendPasswordResetOTP, sendVerificationEmail } from "./email";
 
@@ -145,13 +165,13 @@ async function processDocumentForRAG(
       // Import services needed for chunk-based embeddings
       const { embeddingsService } = await import("./embeddingsService");
 
-      // Step 1: Split text into chunks for better semantic search (~500 tokens each)
+      // Step 1: Split text into chunks along its pages, headings and table rows (up to 500 tokens each)
       const chunks = embeddingsService.createTextChunks(
         textContent,
         documentId,
         userId, // Include userId for security
-        500,  // maxTokens (~375 words)
-        100,  // overlapTokens (~75 words)
+        500,  // maxTokens
+        100,  // overlapTokens
       );
 
       if (chunks.length > 0) {
@@ -181,6 +201,9 @@ async function processDocumentForRAG(
             content: chunk.content,
             chunkIndex: chunk.chunkIndex,
             embedding: embeddingResult.embedding,
+            embeddingProvider: embeddingResult.provider,
+            embeddingModel: embeddingResult.model,
+            embeddingDimension: embeddingResult.dimension,
             metadata: chunk.metadata,
           };
         });
@@ -275,6 +298,11 @@ function findRelevantFiles(query: string, files: any[]): any[] {
     .slice(0, 10); // Return top 10 matches
 }
 
+// Write a single Server-Sent Event frame to a streaming response
+function writeSSE(res: any, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Seed subscription plans on startup
   await seedSubscriptionPlans();
@@ -356,10 +384,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
 
   // AI Chat endpoint for natural language file search
+  // Pass `stream: true` (or Accept: text/event-stream) to receive Server-Sent Events instead of a single JSON body
   app.post("/api/ai/chat", requireAuth, async (req: any, res) => {
+    let streamStarted = false;
     try {
       const userId = req.userId;
-      const { message, conversation } = req.body;
+      const { message, conversation, stream, folderId, tagId, includeAllVersions } = req.body;
+      const wantsStream =
+        stream === true ||
+        (typeof req.headers.accept === "string" && req.headers.accept.includes("text/event-stream"));
 
       // Check AI prompt limits from database
       const userSubscription = await storage.getUserSubscription(userId);
@@ -393,12 +426,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
             }),
           )
           .optional(),
+        folderId: z.string().optional(), // Limit retrieval to this folder and its subfolders
+        tagId: z.string().optional(), // Limit retrieval to documents with this tag
+        includeAllVersions: z.boolean().optional(), // Also retrieve from earlier versions of documents
       });
 
       const validation = chatRequestSchema.safeParse({
         userId: req.userId,
         message,
         conversation,
+        folderId: folderId || undefined,
+        tagId: tagId || undefined,
+        includeAllVersions,
       });
 
       if (!validation.success) {
@@ -408,11 +447,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const { message: validatedMessage, conversation: validatedConversation } =
+      const { message: validatedMessage, conversation: validatedConversation, folderId: scopeFolderId, tagId: scopeTagId, includeAllVersions: searchAllVersions } =
         validation.data;
 
+      if (scopeFolderId) {
+        const scopeFolder = await storage.getFolder(scopeFolderId);
+        if (!scopeFolder || scopeFolder.userId !== userId) {
+          return res.status(404).json({ error: "Folder not found" });
+        }
+      }
+
+      if (scopeTagId) {
+        const scopeTag = await storage.getTag(scopeTagId);
+        if (!scopeTag || scopeTag.userId !== userId) {
+          return res.status(404).json({ error: "Tag not found" });
+        }
+      }
+
       // Get user's files for general context and vector search filtering
-      const userFiles = await storage.getFilesByUserId(userId);
+      // When scoped to a folder and/or tag, only files in that folder and its subfolders carrying the tag are searched
+      const scopeTagIds = scopeTagId ? [scopeTagId] : undefined;
+      const isScoped = Boolean(scopeFolderId || scopeTagId);
+      const userFiles = scopeFolderId
+        ? await storage.getFilesInFolders(userId, await storage.getFolderSubtreeIds(userId, scopeFolderId), scopeTagIds)
+        : scopeTagId
+          ? await storage.getFilesByUserId(userId, 1000, 0, { tagIds: scopeTagIds })
+          : await storage.getFilesByUserId(userId);
       console.log(`[AI CHAT DEBUG] User ${userId} has ${userFiles.length} files:`, userFiles.map(f => ({ id: f.id, filename: f.filename })));
 
       // CONVERSATION CONTEXT RESOLUTION: Expand pronouns and references using recent conversation context
@@ -455,6 +515,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Questions naming a sender ("what did Acme send me") search only that sender's mail and its attachments
+      let emailContext: EmailChatContext | null = null;
+      try {
+        emailContext = await emailSearchService.findForChat(userId, validatedMessage, userFiles);
+      } catch (error) {
+        console.warn("Email sender lookup failed:", error);
+      }
+      const searchFileIds = emailContext ? emailContext.documentIds : userFiles.map(f => f.id);
+
       // Use vector search for semantic RAG retrieval
       let relevantContent: {
         text: string;
@@ -462,6 +531,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileId: string;
         score: number;
         sourceType: string;
+        // Chunk location, only known for vector_chunk results
+        chunkId?: string;
+        chunkIndex?: number;
+        startOffset?: number;
+        endOffset?: number;
+        pageNumber?: number;
+        startTime?: number;
       }[] = [];
 
       try {
@@ -470,13 +546,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { vectorDatabase } = await import("./vectorDatabase");
 
         if (!embeddingsService.isAvailable()) {
-          console.warn("OpenAI API not configured - falling back to basic search");
+          console.warn("No embedding provider configured - falling back to basic search");
           
           // Fallback to basic database search if embeddings not available
           const searchResults = await databaseSearchService.searchDocuments(
             userId,
             validatedMessage,
-            5
+            5,
+            isScoped || emailContext ? searchFileIds : undefined
           );
           
           relevantContent = searchResults.map((result) => ({
@@ -503,9 +580,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
               text: expandedQuery,
               embedding: queryEmbedding[0].embedding,
               userId: userId, // CRITICAL: Filter by userId for security
-              fileIds: userFiles.map(f => f.id), // Additional filter by user's files
+              fileIds: searchFileIds, // Additional filter by user's files
               limit: 20, // Get more results, we'll take top 5
-              threshold: 0.45 // Only accept results with meaningful relevance (0.45+ similarity)
+              threshold: 0.45, // Only accept results with meaningful relevance (0.45+ similarity)
+              includeAllVersions: searchAllVersions
             });
 
             console.log(`Vector search returned ${vectorResults.length} results for query: "${expandedQuery}"`);
@@ -525,7 +603,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 .split(/\s+/)
                 .filter(w => w.length >= 3)
                 .map(w => w.replace(/'s$/, '').replace(/s$/, '')); // Remove possessive and plural 's
-              const significantQueryTerms = queryWords.filter(w => !commonWords.has(w));
+              // The sender is already matched by restricting the search to their mail
+              const significantQueryTerms = queryWords.filter(w => !commonWords.has(w) && !emailContext?.senderTerms.includes(w));
               
               console.log(`Significant query terms for lexical filter: ${significantQueryTerms.join(', ')}`);
               
@@ -573,12 +652,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   return null;
                 }
                 
+                const isEarlierVersion = result.chunk.version !== undefined && result.chunk.version !== fileData.currentVersion;
                 return {
                   text: result.chunk.content,
-                  filename: fileData.filename,
+                  filename: isEarlierVersion ? `${fileData.filename} (version ${result.chunk.version})` : fileData.filename,
                   fileId: result.chunk.fileId,
                   score: result.similarity,
-                  sourceType: 'vector_chunk'
+                  sourceType: 'vector_chunk',
+                  chunkId: result.chunk.id,
+                  chunkIndex: result.chunk.chunkIndex,
+                  startOffset: result.chunk.metadata?.startOffset,
+                  endOffset: result.chunk.metadata?.endOffset,
+                  pageNumber: result.chunk.metadata?.pageNumber,
+                  startTime: result.chunk.metadata?.startTime
                 };
               })).then(results => results.filter(r => r !== null)) as any;
 
@@ -609,7 +695,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const searchResults = await databaseSearchService.searchDocuments(
             userId,
             validatedMessage,
-            5
+            5,
+            isScoped || emailContext ? searchFileIds : undefined
           );
           
           relevantContent = searchResults.map((result) => ({
@@ -624,21 +711,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Totals, spending and expiry questions are answered from the structured fields of receipts, invoices and IDs
+      let fieldSummary: string | null = null;
+      try {
+        fieldSummary = await fieldExtractionService.describeForChat(
+          userId,
+          validatedMessage,
+          isScoped ? userFiles.map(f => f.id) : undefined
+        );
+      } catch (error) {
+        console.warn("Document field lookup failed:", error);
+      }
+
+      // Sums, averages and counts over spreadsheet columns are computed exactly from the stored tables
+      let tableAnswers: TableChatAnswer[] = [];
+      try {
+        tableAnswers = await tableQueryService.answerForChat(
+          userId,
+          validatedMessage,
+          isScoped || emailContext ? searchFileIds : undefined
+        );
+      } catch (error) {
+        console.warn("Spreadsheet table query failed:", error);
+      }
+
       // Create structured context from search results
       let contextInfo = "";
 
+      if (fieldSummary) {
+        contextInfo += `STRUCTURED DOCUMENT FIELDS (extracted from the user's receipts, invoices and IDs; use these for amounts, totals, counts and dates, naming the files they come from):\n${fieldSummary}\n\n`;
+      }
+
+      if (emailContext) {
+        contextInfo += `EMAIL MESSAGES (from the sender named in the question; the document content below is limited to these emails and their attachments):\n${emailContext.summary}\n\n`;
+      }
+
+      if (tableAnswers.length > 0) {
+        // Numbered after the document chunks so they share the citation list
+        contextInfo += "TABLE QUERY RESULTS (computed exactly from the user's spreadsheets; use these figures as given rather than adding up rows yourself):\n";
+        tableAnswers.forEach((answer, index) => {
+          contextInfo += `[${relevantContent.length + index + 1}] From "${answer.filename}": ${answer.description}\n`;
+        });
+        contextInfo += "\n";
+      }
+
       if (relevantContent.length > 0) {
         // We have chunks - build context with top 5 chunks
         contextInfo += "RELEVANT DOCUMENT CONTENT:\n";
         relevantContent.slice(0, 5).forEach((chunk, index) => {
-          // Vector similarity scores are already 0-1, database scores need normalization
-          const normalizedScore = chunk.sourceType === 'vector_chunk' 
-            ? chunk.score 
-            : Math.min(chunk.score / 10, 1.0);
+          // Vector similarity and full-text rank are both 0-1
+          const normalizedScore = Math.min(chunk.score, 1.0);
           
-          contextInfo += `${index + 1}. From "${chunk.filename}" (similarity: ${(normalizedScore * 100).toFixed(1)}%):\n${chunk.text}\n\n`;
+          const pageLabel = chunk.pageNumber ? `, page ${chunk.pageNumber}` : chunk.startTime !== undefined ? `, at ${formatTimestamp(chunk.startTime)}` : '';
+          contextInfo += `[${index + 1}] From "${chunk.filename}"${pageLabel} (similarity: ${(normalizedScore * 100).toFixed(1)}%):\n${chunk.text}\n\n`;
         });
-      } else if (userFiles.length > 0) {
+      } else if (userFiles.length > 0 && !fieldSummary && !emailContext && tableAnswers.length === 0) {
         // No chunks found but user has files - fallback to filename listing
         contextInfo += "AVAILABLE FILES:\n";
         userFiles.forEach((file, index) => {
@@ -657,7 +784,7 @@ Be polite and conversational. Respond to greetings naturally and encourage them
 Example responses:
 - For greetings: "Hello! I'm your document assistant. I can help you analyze and search through your files once you upload them. What would you like to work on today?"
 - For questions: "I'd be happy to help! Please upload some documents first, and I'll be able to answer questions about them."`
-          : relevantContent.length > 0
+          : relevantContent.length > 0 || fieldSummary || emailContext || tableAnswers.length > 0
           ? `You are a friendly and helpful document assistant. Your primary job is to help users understand and work with their uploaded documents.
 
 USER'S DOCUMENT LIBRARY:
@@ -696,15 +823,17 @@ RESPONSE APPROACH:
 
 2. **If content directly matches**: Answer using the provided content with citations
    - Always cite the source: "According to [filename]..." or "From [filename]..."
+   - End every sentence that uses the content with the number of its source in square brackets, e.g. [1] or [1][3]
 
 3. **For greetings/small talk**: Respond naturally and mention available documents
 
-4. **For CSV/XLSX/tabular data**: Present data clearly if it matches the query
+4. **For CSV/XLSX/tabular data**: Present data clearly if it matches the query, taking totals, averages and counts from TABLE QUERY RESULTS
 
 CITATION FORMATS:
-- "According to [filename]: [specific information]"
-- "Based on your [filename], I found: [present data clearly]"
-- "From [filename]: [exact quote or data]"
+- "According to [filename]: [specific information] [1]"
+- "Based on your [filename], I found: [present data clearly] [2]"
+- "From [filename]: [exact quote or data] [1]"
+Only use source numbers listed under RELEVANT DOCUMENT CONTENT or TABLE QUERY RESULTS, and never invent new ones.
 
 IMPORTANT: Do NOT mention tangentially related content. If the user asks about X and you only have content about Y (even if related), simply say you couldn't find information about X.
 
@@ -735,18 +864,152 @@ Be conversational and helpful, but stay focused on the user's documents.`;
 
       // Database-only mode: No file analysis needed
 
+      // Create citation information for sources used by the AI
+      // `index` matches the [n] markers the model places in its answer
+      const citations = relevantContent.map((content, index) => ({
+        index: index + 1,
+        documentId: content.fileId,
+        filename: content.filename,
+        sourceType: content.sourceType,
+        relevanceScore: content.score,
+        preview:
+          content.text.substring(0, 100) +
+          (content.text.length > 100 ? "..." : ""),
+        chunkId: content.chunkId ?? null,
+        chunkIndex: content.chunkIndex ?? null,
+        startOffset: content.startOffset ?? null,
+        endOffset: content.endOffset ?? null,
+        pageNumber: content.pageNumber ?? null,
+        startTime: content.startTime ?? null,
+        cells: null as string | null,
+      })).concat(tableAnswers.map((answer, index) => ({
+        index: relevantContent.length + index + 1,
+        documentId: answer.documentId,
+        filename: answer.filename,
+        sourceType: 'table',
+        relevanceScore: 1,
+        preview: answer.description,
+        chunkId: null,
+        chunkIndex: null,
+        startOffset: null,
+        endOffset: null,
+        pageNumber: null,
+        startTime: null,
+        cells: answer.cells,
+      })));
+
+      // Answer built from database content only, used whenever OpenAI is unavailable or fails
+      const fallbackSources = [
+        ...relevantContent.map((content, index) =>
+          `From your file '${content.filename}': ${content.text.substring(0, 200)}${content.text.length > 200 ? '...' : ''} [${index + 1}]`
+        ),
+        ...tableAnswers.map((answer, index) =>
+          `From your file '${answer.filename}': ${answer.description} [${relevantContent.length + index + 1}]`
+        ),
+      ];
+      const fallbackResponse = fallbackSources.length > 0
+        ? fallbackSources.join('\n\n')
+        : `Sorry, I can only answer questions related to your uploaded documents. I don't see that information in your files. (AI analysis temporarily unavailable)`;
+
+      // Streaming mode: send sources first, then tokens as they arrive, then a final done event
+      if (wantsStream) {
+        res.setHeader("Content-Type", "text/event-stream");
+        res.setHeader("Cache-Control", "no-cache, no-transform");
+        res.setHeader("Connection", "keep-alive");
+        res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering so tokens are flushed immediately
+        res.flushHeaders();
+        streamStarted = true;
+
+        writeSSE(res, "sources", {
+          citations,
+          hasRelevantContent: relevantContent.length > 0 || tableAnswers.length > 0,
+        });
+
+        let streamedResponse = "";
+        let usage: { promptTokens: number; completionTokens: number; totalTokens: number } | null = null;
+
+        // Increment AI prompt counter for subscription usage tracking before any tokens go out, so closing
+        // the connection before "done" doesn't skip it
+        try {
+          await storage.incrementAIPromptCount(userId);
+        } catch (usageError) {
+          console.error('Failed to update prompt usage counter:', usageError);
+        }
+
+        if (!openai) {
+          streamedResponse = fallbackResponse;
+          writeSSE(res, "token", { content: streamedResponse });
+        } else {
+          // Stop generating tokens if the client goes away mid-stream
+          const abortController = new AbortController();
+          res.on("close", () => abortController.abort());
+
+          try {
+            const completionStream = await openai.chat.completions.create(
+              {
+                model: "gpt-4o-mini",
+                messages: [
+                  { role: "system", content: systemPrompt },
+                  ...(validatedConversation || []),
+                  { role: "user", content: validatedMessage },
+                ] as any,
+                max_tokens: 500,
+                temperature: 0.7,
+                stream: true,
+                stream_options: { include_usage: true },
+              },
+              { signal: abortController.signal },
+            );
+
+            for await (const chunk of completionStream) {
+              const delta = chunk.choices[0]?.delta?.content;
+              if (delta) {
+                streamedResponse += delta;
+                writeSSE(res, "token", { content: delta });
+              }
+              if (chunk.usage) {
+                usage = {
+                  promptTokens: chunk.usage.prompt_tokens,
+                  completionTokens: chunk.usage.completion_tokens,
+                  totalTokens: chunk.usage.total_tokens,
+                };
+              }
+            }
+          } catch (openaiError) {
+            if (abortController.signal.aborted) {
+              console.log(`Chat stream for user ${userId} aborted by client`);
+              return;
+            }
+            console.error("OpenAI streaming error:", openaiError);
+            // Only fall back if nothing has been sent yet, otherwise keep the partial answer
+            if (!streamedResponse) {
+              streamedResponse = fallbackResponse;
+              writeSSE(res, "token", { content: streamedResponse });
+            }
+          }
+        }
+
+        if (!streamedResponse) {
+          streamedResponse = "Sorry, I could not process your request.";
+          writeSSE(res, "token", { content: streamedResponse });
+        }
+
+        writeSSE(res, "done", {
+          message: streamedResponse,
+          files: [],
+          citations,
+          hasRelevantContent: relevantContent.length > 0 || tableAnswers.length > 0,
+          usage,
+        });
+        res.end();
+        return;
+      }
+
       let aiResponse = "";
 
       if (!openai) {
         // Strict database-only fallback when OpenAI is not available
-        if (relevantContent.length > 0) {
-          // Build response from database content only
-          aiResponse = relevantContent.map((content, index) => 
-            `From your file '${content.filename}': ${content.text.substring(0, 200)}${content.text.length > 200 ? '...' : ''}`
-          ).join('\n\n');
-        } else {
-          aiResponse = `Sorry, I can only answer questions related to your uploaded documents. I don't see that information in your files. (AI analysis temporarily unavailable)`;
-        }
+        aiResponse = fallbackResponse;
       } else {
         // Prepare the conversation for OpenAI
         const messages = [
@@ -777,31 +1040,10 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         } catch (openaiError) {
           console.error("OpenAI API error:", openaiError);
           // Strict database-only fallback when OpenAI fails
-          if (relevantContent.length > 0) {
-            // Build response from database content only
-            aiResponse = relevantContent.map((content) => 
-              `From your file '${content.filename}': ${content.text.substring(0, 200)}${content.text.length > 200 ? '...' : ''}`
-            ).join('\n\n');
-          } else {
-            aiResponse = `Sorry, I can only answer questions related to your uploaded documents. I don't see that information in your files. (AI analysis temporarily unavailable)`;
-          }
+          aiResponse = fallbackResponse;
         }
       }
 
-      // Database-only mode: Never return file listings, only citations for used documents
-      const filesToReturn: any[] = [];
-
-      // Create citation information for sources used by the AI
-      const citations = relevantContent.map((content) => ({
-        documentId: content.fileId,
-        filename: content.filename,
-        sourceType: content.sourceType,
-        relevanceScore: content.score,
-        preview:
-          content.text.substring(0, 100) +
-          (content.text.length > 100 ? "..." : ""),
-      }));
-
       // Increment AI prompt counter for subscription usage tracking
       try {
         await storage.incrementAIPromptCount(userId);
@@ -814,10 +1056,15 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         message: aiResponse,
         files: [], // Database-only mode: never return file listings
         citations: citations, // Include source citations for transparency
-        hasRelevantContent: relevantContent.length > 0, // Indicate if database content was found
+        hasRelevantContent: relevantContent.length > 0 || tableAnswers.length > 0, // Indicate if database content was found
       });
     } catch (error) {
       console.error("AI chat error:", error);
+      if (streamStarted) {
+        writeSSE(res, "error", { error: "Failed to process chat request" });
+        res.end();
+        return;
+      }
       res.status(500).json({ error: "Failed to process chat request" });
     }
   });
@@ -1508,6 +1755,47 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     }
   });
 
+  // Languages scans can be recognised in, and the ones the user expects theirs to be in
+  app.get("/api/user/ocr-languages", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ success: false, error: "User not found" });
+      }
+
+      res.json({ success: true, data: { languages: DOCUMENT_LANGUAGES, preferred: user.ocrLanguages } });
+    } catch (error) {
+      console.error("Get OCR languages error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch OCR languages" });
+    }
+  });
+
+  // An empty list leaves the choice to script detection; files already processed keep their text
+  app.put("/api/user/ocr-languages", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        languages: z.array(z.enum(DOCUMENT_LANGUAGE_CODES as [string, ...string[]])).max(DOCUMENT_LANGUAGE_CODES.length),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const user = await storage.updateUserOcrLanguages(req.userId, Array.from(new Set(validation.data.languages)));
+      res.json({
+        success: true,
+        data: { languages: DOCUMENT_LANGUAGES, preferred: user.ocrLanguages },
+        message: "OCR languages updated",
+      });
+    } catch (error) {
+      console.error("Update OCR languages error:", error);
+      res.status(500).json({ success: false, error: "Failed to update OCR languages" });
+    }
+  });
+
   // Admin endpoints - protected by requireAuth and requireAdmin
   
   // Get subscription statistics
@@ -1697,107 +1985,1173 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     }
   });
 
+  // Re-embedding jobs: rebuild every document's chunks with a new embedding model or chunk size
+  const reembedErrorStatus = (error: unknown) => {
+    const message = error instanceof Error ? error.message : '';
+    if (message.includes('not found')) return 404;
+    if (message.includes('already')) return 409;
+    if (message.includes('not available') || message.includes('Unknown embedding provider') || message.includes('database columns')) return 400;
+    return 500;
+  };
+
+  app.get("/api/admin/reembed", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const { embeddingsService } = await import("./embeddingsService");
+      const jobs = await storage.getJobsByType(REEMBED_JOB_TYPE);
+      res.json({
+        success: true,
+        data: {
+          activeModel: embeddingsService.getModelInfo(),
+          indexModels: await storage.getTextChunkEmbeddingModels(),
+          jobs
+        }
+      });
+    } catch (error) {
+      console.error("Get re-embedding jobs error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch re-embedding jobs" });
+    }
+  });
+
+  app.post("/api/admin/reembed", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        provider: z.enum(["openai", "local"]).optional(),
+        model: z.string().trim().min(1).max(200).optional(),
+        dimension: z.number().int().positive().optional(),
+        chunkSize: z.number().int().min(50).max(8000).optional(),
+        chunkOverlap: z.number().int().min(0).max(2000).optional(),
+        batchSize: z.number().int().min(1).max(200).optional(),
+        delayMs: z.number().int().min(0).max(60000).optional(),
+        force: z.boolean().optional(),
+      }).refine(options => (options.chunkOverlap ?? 100) < (options.chunkSize ?? 500), {
+        message: "chunkOverlap must be smaller than chunkSize",
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const job = await reembeddingService.startJob(req.userId, validation.data);
+      res.json({ success: true, data: job });
+    } catch (error) {
+      console.error("Start re-embedding job error:", error);
+      const status = reembedErrorStatus(error);
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? "Failed to start re-embedding job" : (error as Error).message
+      });
+    }
+  });
+
+  app.get("/api/admin/reembed/:id", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job || job.jobType !== REEMBED_JOB_TYPE) {
+        return res.status(404).json({ success: false, error: "Job not found" });
+      }
+      res.json({ success: true, data: job });
+    } catch (error) {
+      console.error("Get re-embedding job error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch re-embedding job" });
+    }
+  });
+
+  app.post("/api/admin/reembed/:id/cancel", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const job = await reembeddingService.cancelJob(req.params.id);
+      res.json({ success: true, data: job });
+    } catch (error) {
+      console.error("Cancel re-embedding job error:", error);
+      const status = reembedErrorStatus(error);
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? "Failed to cancel re-embedding job" : (error as Error).message
+      });
+    }
+  });
+
+  app.post("/api/admin/reembed/:id/resume", requireAuth, requireAdmin, async (req: any, res) => {
+    try {
+      const job = await reembeddingService.resumeJob(req.params.id);
+      res.json({ success: true, data: job });
+    } catch (error) {
+      console.error("Resume re-embedding job error:", error);
+      const status = reembedErrorStatus(error);
+      res.status(status).json({
+        success: false,
+        error: status === 500 ? "Failed to resume re-embedding job" : (error as Error).message
+      });
+    }
+  });
+
+  // tagId may repeat (?tagId=a&tagId=b) or hold a comma-separated list; files must carry every tag
+  const parseTagIdsQuery = (value: unknown): string[] | undefined => {
+    const values = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+    const tagIds = values.flatMap(item => String(item).split(",")).map(id => id.trim()).filter(Boolean);
+    return tagIds.length > 0 ? tagIds : undefined;
+  };
+
+  // Attach each file's tags and its pending tag suggestions for file listings
+  const withTags = async <T extends { id: string }>(files: T[]) => {
+    const fileIds = files.map(file => file.id);
+    const [fileTags, suggestions] = await Promise.all([
+      storage.getTagsForFiles(fileIds),
+      storage.getTagSuggestionsForFiles(fileIds, "pending"),
+    ]);
+    return files.map(file => ({
+      ...file,
+      tags: fileTags
+        .filter(({ documentId }) => documentId === file.id)
+        .map(({ tag, source }) => ({ id: tag.id, name: tag.name, source })),
+      tagSuggestions: suggestions
+        .filter(suggestion => suggestion.documentId === file.id)
+        .map(({ id, name, confidence }) => ({ id, name, confidence })),
+    }));
+  };
+
   // File routes (protected)
   app.get("/api/files", requireAuth, async (req: any, res) => {
     try {
       const userId = req.userId;
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
+      // folderId=root lists the top level of the vault, a folder id lists that folder, no folderId lists everything
+      const folderParam = req.query.folderId as string | undefined;
+      const folderId = folderParam === "root" ? null : folderParam || undefined;
 
-      const files = await storage.getFilesByUserId(userId, limit, offset);
-      res.json({ success: true, data: files });
+      const files = await storage.getFilesByUserId(userId, limit, offset, {
+        folderId,
+        tagIds: parseTagIdsQuery(req.query.tagId),
+      });
+      res.json({ success: true, data: await withTags(files) });
     } catch (error) {
       res.status(500).json({ success: false, error: "Server error" });
     }
   });
 
-  // Dashboard metrics endpoint
-  app.get("/api/dashboard/metrics", requireAuth, async (req: any, res) => {
+  // Move files into a folder, or to the vault root with folderId null
+  app.post("/api/files/move", requireAuth, async (req: any, res) => {
     try {
-      const userId = req.userId;
-      const metrics = await storage.getDashboardMetrics(userId);
-      res.json({ success: true, data: metrics });
+      const validation = z.object({
+        fileIds: z.array(z.string()).min(1).max(500),
+        folderId: z.string().nullable(),
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { fileIds, folderId } = validation.data;
+      if (folderId) {
+        const folder = await storage.getFolder(folderId);
+        if (!folder || folder.userId !== req.userId) {
+          return res.status(404).json({ success: false, error: "Folder not found" });
+        }
+      }
+
+      const moved = await storage.moveFilesToFolder(req.userId, fileIds, folderId);
+      res.json({ success: true, data: { moved } });
     } catch (error) {
-      console.error("Dashboard metrics error:", error);
-      res.status(500).json({ success: false, error: "Failed to fetch dashboard metrics" });
+      console.error("Move files error:", error);
+      res.status(500).json({ success: false, error: "Failed to move files" });
     }
   });
 
-  app.post(
-    "/api/files/upload",
-    requireAuth,
-    upload.array("files"),
-    async (req: any, res) => {
-      try {
-        const userId = req.userId;
-        const files = req.files as Express.Multer.File[];
+  // Exact duplicates (same content hash) and near-duplicates by embedding similarity, e.g. two
+  // scans of the same paper. threshold is the minimum cosine similarity, 0.95 by default
+  app.get("/api/files/duplicates", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.coerce.number().min(0.5).max(1)
+        .default(DEFAULT_NEAR_DUPLICATE_THRESHOLD)
+        .safeParse(req.query.threshold);
 
-        if (!files || files.length === 0) {
-          return res
-            .status(400)
-            .json({ success: false, error: "No files provided" });
-        }
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
 
-        // Check file upload limits from database
-        const userSubscription = await storage.getUserSubscription(userId);
-        const usage = await storage.getSubscriptionUsage(userId);
-        const plan = userSubscription 
-          ? await storage.getSubscriptionPlan(userSubscription.planId)
-          : null;
-        
-        const maxFiles = plan?.maxFiles || 10; // Default to free plan limit
-        const currentFilesCount = usage?.filesCount || 0;
-        
-        // Check file limit (skip check if maxFiles is -1, which means unlimited)
-        if (maxFiles !== -1 && currentFilesCount + files.length > maxFiles) {
-          return res.status(403).json({
-            error: 'File upload limit exceeded',
-            message: `You've reached your file upload limit. Current: ${currentFilesCount}, Max: ${maxFiles}. Please upgrade your plan to continue.`,
-            currentCount: currentFilesCount,
-            maxCount: maxFiles,
-            limitType: 'files',
-          });
-        }
+      const report = await duplicateService.getReport(req.userId, validation.data);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      console.error("Duplicate report error:", error);
+      res.status(500).json({ success: false, error: "Failed to build duplicate report" });
+    }
+  });
 
-        const uploadedFiles = [];
+  // Folder routes (protected)
+  const folderNameSchema = z.string().trim().min(1).max(120).refine(name => !/[\\/]/.test(name), "Folder names cannot contain slashes");
+
+  // Checks that a parent folder belongs to the user and that no sibling already uses the name
+  const validateFolderPlacement = async (
+    userId: string,
+    name: string,
+    parentId: string | null,
+    folderId?: string
+  ): Promise<{ status: number; error: string } | null> => {
+    if (parentId) {
+      const parent = await storage.getFolder(parentId);
+      if (!parent || parent.userId !== userId) {
+        return { status: 404, error: "Parent folder not found" };
+      }
+    }
+    const folders = await storage.getFoldersByUserId(userId);
+    const duplicate = folders.some(folder =>
+      folder.id !== folderId &&
+      (folder.parentId || null) === parentId &&
+      folder.name.toLowerCase() === name.toLowerCase()
+    );
+    return duplicate ? { status: 409, error: "A folder with this name already exists here" } : null;
+  };
 
-        for (const file of files) {
-          // Enhanced MIME type validation for security
-          const allowedTypes = [
-            "image/jpeg",
-            "image/png",
-            "image/gif",
-            "image/webp",
-            "application/pdf",
-            "text/plain",
-            "text/csv",
-            "application/msword",
-            "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-            "application/vnd.ms-excel",
-            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-            "application/vnd.ms-powerpoint",
-            "application/vnd.openxmlformats-officedocument.presentationml.presentation",
-          ];
-
-          if (!file.mimetype || !allowedTypes.includes(file.mimetype)) {
-            return res.status(400).json({
-              success: false,
-              error: `File type ${file.mimetype} is not supported. Please upload images, PDFs, Word documents, Excel files, PowerPoint presentations, or text files.`,
-            });
-          }
+  app.get("/api/folders", requireAuth, async (req: any, res) => {
+    try {
+      // Flat list; clients build the tree from parentId
+      const folders = await storage.getFoldersByUserId(req.userId);
+      res.json({ success: true, data: folders });
+    } catch (error) {
+      console.error("Get folders error:", error);
+      res.status(500).json({ success: false, error: "Failed to retrieve folders" });
+    }
+  });
 
-          // Additional security checks
-          if (
-            file.mimetype.includes("script") ||
-            file.mimetype.includes("executable") ||
-            file.originalname.includes("../") ||
-            file.originalname.includes("..\\")
-          ) {
-            return res.status(400).json({
-              success: false,
-              error: "File contains potentially dangerous content",
-            });
-          }
+  app.get("/api/folders/:id", requireAuth, async (req: any, res) => {
+    try {
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ success: false, error: "Folder not found" });
+      }
+
+      if (folder.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const [path, folders] = await Promise.all([
+        storage.getFolderPath(req.userId, folder.id),
+        storage.getFoldersByUserId(req.userId),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          folder,
+          path, // Breadcrumb from the top-level folder down to this one
+          children: folders.filter(child => child.parentId === folder.id),
+        },
+      });
+    } catch (error) {
+      console.error("Get folder error:", error);
+      res.status(500).json({ success: false, error: "Failed to retrieve folder" });
+    }
+  });
+
+  app.post("/api/folders", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        name: folderNameSchema,
+        parentId: z.string().nullable().optional(),
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { name } = validation.data;
+      const parentId = validation.data.parentId || null;
+      const placementError = await validateFolderPlacement(req.userId, name, parentId);
+      if (placementError) {
+        return res.status(placementError.status).json({ success: false, error: placementError.error });
+      }
+
+      const folder = await storage.createFolder({ userId: req.userId, name, parentId });
+      res.json({ success: true, data: folder });
+    } catch (error) {
+      console.error("Create folder error:", error);
+      res.status(500).json({ success: false, error: "Failed to create folder" });
+    }
+  });
+
+  // Rename a folder and/or move it under another parent; its files and subfolders move with it
+  app.patch("/api/folders/:id", requireAuth, async (req: any, res) => {
+    try {
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ success: false, error: "Folder not found" });
+      }
+
+      if (folder.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = z.object({
+        name: folderNameSchema.optional(),
+        parentId: z.string().nullable().optional(),
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const name = validation.data.name ?? folder.name;
+      const parentId = validation.data.parentId !== undefined ? validation.data.parentId : folder.parentId;
+
+      if (parentId) {
+        const subtreeIds = await storage.getFolderSubtreeIds(req.userId, folder.id);
+        if (subtreeIds.includes(parentId)) {
+          return res.status(400).json({ success: false, error: "A folder cannot be moved into itself or one of its subfolders" });
+        }
+      }
+
+      const placementError = await validateFolderPlacement(req.userId, name, parentId, folder.id);
+      if (placementError) {
+        return res.status(placementError.status).json({ success: false, error: placementError.error });
+      }
+
+      const updated = await storage.updateFolder(folder.id, { name, parentId });
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Update folder error:", error);
+      res.status(500).json({ success: false, error: "Failed to update folder" });
+    }
+  });
+
+  // Delete a folder and its subfolders; files inside move to the parent folder, or to the trash with deleteFiles=true
+  app.delete("/api/folders/:id", requireAuth, async (req: any, res) => {
+    try {
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder) {
+        return res.status(404).json({ success: false, error: "Folder not found" });
+      }
+
+      if (folder.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      let deletedFiles = 0;
+      if (req.query.deleteFiles === "true") {
+        const subtreeIds = await storage.getFolderSubtreeIds(req.userId, folder.id);
+        const files = await storage.getFilesInFolders(req.userId, subtreeIds);
+        deletedFiles = await storage.trashFiles(req.userId, files.map(file => file.id));
+      }
+
+      await storage.deleteFolder(folder.id);
+
+      res.json({ success: true, message: "Folder deleted", data: { deletedFiles } });
+    } catch (error) {
+      console.error("Delete folder error:", error);
+      res.status(500).json({ success: false, error: "Failed to delete folder" });
+    }
+  });
+
+  // Tag routes (protected)
+  const tagNameSchema = z.string().trim().min(1).max(40);
+
+  // Tag names are unique per user regardless of case, so an existing tag is reused
+  const findOrCreateTag = async (userId: string, name: string) => {
+    return (await storage.getTagByName(userId, name)) || (await storage.createTag({ userId, name }));
+  };
+
+  app.get("/api/tags", requireAuth, async (req: any, res) => {
+    try {
+      const tags = await storage.getTagsByUserId(req.userId);
+      res.json({ success: true, data: tags });
+    } catch (error) {
+      console.error("Get tags error:", error);
+      res.status(500).json({ success: false, error: "Failed to retrieve tags" });
+    }
+  });
+
+  app.post("/api/tags", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({ name: tagNameSchema }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { name } = validation.data;
+      if (await storage.getTagByName(req.userId, name)) {
+        return res.status(409).json({ success: false, error: "A tag with this name already exists" });
+      }
+
+      const tag = await storage.createTag({ userId: req.userId, name });
+      res.json({ success: true, data: tag });
+    } catch (error) {
+      console.error("Create tag error:", error);
+      res.status(500).json({ success: false, error: "Failed to create tag" });
+    }
+  });
+
+  app.patch("/api/tags/:id", requireAuth, async (req: any, res) => {
+    try {
+      const tag = await storage.getTag(req.params.id);
+      if (!tag) {
+        return res.status(404).json({ success: false, error: "Tag not found" });
+      }
+
+      if (tag.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = z.object({ name: tagNameSchema }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { name } = validation.data;
+      const existing = await storage.getTagByName(req.userId, name);
+      if (existing && existing.id !== tag.id) {
+        return res.status(409).json({ success: false, error: "A tag with this name already exists" });
+      }
+
+      const updated = await storage.updateTag(tag.id, { name });
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Update tag error:", error);
+      res.status(500).json({ success: false, error: "Failed to update tag" });
+    }
+  });
+
+  // Deleting a tag removes it from every document; the documents themselves are kept
+  app.delete("/api/tags/:id", requireAuth, async (req: any, res) => {
+    try {
+      const tag = await storage.getTag(req.params.id);
+      if (!tag) {
+        return res.status(404).json({ success: false, error: "Tag not found" });
+      }
+
+      if (tag.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      await storage.deleteTag(tag.id);
+      res.json({ success: true, message: "Tag deleted" });
+    } catch (error) {
+      console.error("Delete tag error:", error);
+      res.status(500).json({ success: false, error: "Failed to delete tag" });
+    }
+  });
+
+  // Tag a file with an existing tag (tagId) or by name, creating the tag if needed
+  app.post("/api/files/:id/tags", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = z.object({
+        tagId: z.string().optional(),
+        name: tagNameSchema.optional(),
+      }).refine(body => body.tagId || body.name, "Either tagId or name is required").safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { tagId, name } = validation.data;
+      const tag = tagId ? await storage.getTag(tagId) : await findOrCreateTag(req.userId, name!);
+      if (!tag || tag.userId !== req.userId) {
+        return res.status(404).json({ success: false, error: "Tag not found" });
+      }
+
+      await storage.addTagToFile(file.id, tag.id, "user");
+      res.json({ success: true, data: tag });
+    } catch (error) {
+      console.error("Add file tag error:", error);
+      res.status(500).json({ success: false, error: "Failed to tag file" });
+    }
+  });
+
+  app.delete("/api/files/:id/tags/:tagId", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      await storage.removeTagFromFile(file.id, req.params.tagId);
+      res.json({ success: true, message: "Tag removed" });
+    } catch (error) {
+      console.error("Remove file tag error:", error);
+      res.status(500).json({ success: false, error: "Failed to remove tag" });
+    }
+  });
+
+  // Accept or reject a suggested tag. Accepting tags the file, creating the tag if needed;
+  // rejected suggestions are kept so they are not proposed again
+  app.post("/api/files/:id/tag-suggestions/:suggestionId/:decision(accept|reject)", requireAuth, async (req: any, res) => {
+    try {
+      const suggestion = await storage.getTagSuggestion(req.params.suggestionId);
+      if (!suggestion || suggestion.documentId !== req.params.id) {
+        return res.status(404).json({ success: false, error: "Tag suggestion not found" });
+      }
+
+      if (suggestion.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      if (req.params.decision === "reject") {
+        await storage.updateTagSuggestion(suggestion.id, { status: "rejected" });
+        return res.json({ success: true, message: "Suggestion rejected" });
+      }
+
+      const tag = await findOrCreateTag(req.userId, suggestion.name);
+      await storage.addTagToFile(suggestion.documentId, tag.id, "ai");
+      await storage.updateTagSuggestion(suggestion.id, { status: "accepted" });
+      res.json({ success: true, data: tag });
+    } catch (error) {
+      console.error("Tag suggestion decision error:", error);
+      res.status(500).json({ success: false, error: "Failed to update tag suggestion" });
+    }
+  });
+
+  // Structured fields (vendor, date, total, expiry...) extracted from receipts, invoices and IDs
+  const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+  const documentFieldsSchema = z.object({
+    documentType: z.enum(DOCUMENT_TYPES),
+    vendor: z.string().trim().max(200).nullable(),
+    documentDate: isoDateSchema.nullable(),
+    totalAmount: z.number().min(0).max(999999999999).nullable(),
+    currency: z.string().trim().regex(/^[A-Za-z]{3}$/, "Expected a 3-letter currency code").transform(code => code.toUpperCase()).nullable(),
+    documentNumber: z.string().trim().max(100).nullable(),
+    expiryDate: isoDateSchema.nullable(),
+    holderName: z.string().trim().max(200).nullable(),
+  }).partial();
+  const fieldFiltersSchema = z.object({
+    documentType: z.enum(DOCUMENT_TYPES).optional(),
+    vendor: z.string().trim().min(1).max(200).optional(),
+    currency: z.string().trim().regex(/^[A-Za-z]{3}$/).optional(),
+    dateFrom: isoDateSchema.optional(),
+    dateTo: isoDateSchema.optional(),
+    expiresBefore: isoDateSchema.optional(),
+  });
+
+  app.get("/api/files/:id/fields", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      res.json({ success: true, data: (await storage.getDocumentFields(file.id)) || null });
+    } catch (error) {
+      console.error("Get document fields error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch document fields" });
+    }
+  });
+
+  // Correct extracted fields by hand; edited fields are kept when the file is processed again
+  app.patch("/api/files/:id/fields", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = documentFieldsSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { totalAmount, ...updates } = validation.data;
+      const values = {
+        ...updates,
+        ...(totalAmount !== undefined ? { totalAmount: totalAmount === null ? null : totalAmount.toFixed(2) } : {}),
+        userEdited: true,
+      };
+
+      const existing = await storage.getDocumentFields(file.id);
+      const fields = existing
+        ? await storage.updateDocumentFields(file.id, values)
+        : await storage.upsertDocumentFields({ documentId: file.id, userId: req.userId, ...values });
+      res.json({ success: true, data: fields });
+    } catch (error) {
+      console.error("Update document fields error:", error);
+      res.status(500).json({ success: false, error: "Failed to update document fields" });
+    }
+  });
+
+  // Run extraction again, discarding manual edits
+  app.post("/api/files/:id/fields/extract", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      if (!file.extractedText) {
+        return res.status(409).json({ success: false, error: "File has not been processed yet" });
+      }
+
+      if ((await storage.getDocumentFields(file.id))?.userEdited) {
+        await storage.updateDocumentFields(file.id, { userEdited: false });
+      }
+      const fields = await fieldExtractionService.extractFields(file.id, req.userId, file.extractedText);
+      res.json({
+        success: true,
+        data: fields || (await storage.getDocumentFields(file.id)) || null,
+        message: fields ? "Fields extracted" : "No fields recognised in this file",
+      });
+    } catch (error) {
+      console.error("Extract document fields error:", error);
+      res.status(500).json({ success: false, error: "Failed to extract document fields" });
+    }
+  });
+
+  // Extracted fields of the user's documents, filtered by type, vendor, currency and date
+  app.get("/api/fields", requireAuth, async (req: any, res) => {
+    try {
+      const validation = fieldFiltersSchema.extend({
+        limit: z.coerce.number().int().min(1).max(500).default(100),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { limit, ...filters } = validation.data;
+      res.json({ success: true, data: await storage.queryDocumentFields(req.userId, filters, limit) });
+    } catch (error) {
+      console.error("Query document fields error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch document fields" });
+    }
+  });
+
+  // Totals and document counts per currency, optionally grouped by vendor, month, currency or type
+  app.get("/api/fields/aggregate", requireAuth, async (req: any, res) => {
+    try {
+      const validation = fieldFiltersSchema.extend({
+        groupBy: z.enum(["vendor", "month", "currency", "document_type"]).optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { groupBy, ...filters } = validation.data;
+      res.json({ success: true, data: await storage.aggregateDocumentFields(req.userId, filters, groupBy) });
+    } catch (error) {
+      console.error("Aggregate document fields error:", error);
+      res.status(500).json({ success: false, error: "Failed to aggregate document fields" });
+    }
+  });
+
+  // Expiry, renewal and warranty reminders, detected in documents or entered by the user
+  const reminderSchema = z.object({
+    kind: z.enum(REMINDER_KINDS).default("expiry"),
+    dueDate: isoDateSchema,
+    label: z.string().trim().max(200).nullable().optional(),
+  });
+
+  // Reminders soonest first, with the reminder email settings. ?days= limits to the next n days
+  app.get("/api/reminders", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        days: z.coerce.number().int().min(0).max(3650).optional(),
+        limit: z.coerce.number().int().min(1).max(500).optional(),
+      }).safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ success: false, error: "User not found" });
+      }
+
+      const { days, limit } = validation.data;
+      const reminders = await storage.getRemindersByUserId(req.userId, {
+        dueBefore: days !== undefined ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10) : undefined,
+        limit,
+      });
+      res.json({
+        success: true,
+        data: reminders,
+        settings: { leadDays: user.reminderLeadDays, emailsEnabled: user.reminderEmailsEnabled },
+      });
+    } catch (error) {
+      console.error("Get reminders error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch reminders" });
+    }
+  });
+
+  app.patch("/api/reminders/settings", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        leadDays: z.array(z.number().int().min(0).max(MAX_REMINDER_LEAD_DAYS)).max(MAX_REMINDER_LEAD_TIMES).optional(),
+        emailsEnabled: z.boolean().optional(),
+      }).safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { leadDays, emailsEnabled } = validation.data;
+      const user = await storage.updateUserReminderSettings(req.userId, {
+        leadDays: leadDays && reminderService.normalizeLeadDays(leadDays),
+        emailsEnabled,
+      });
+      res.json({
+        success: true,
+        data: { leadDays: user.reminderLeadDays, emailsEnabled: user.reminderEmailsEnabled },
+        message: "Reminder settings updated",
+      });
+    } catch (error) {
+      console.error("Update reminder settings error:", error);
+      res.status(500).json({ success: false, error: "Failed to update reminder settings" });
+    }
+  });
+
+  app.get("/api/files/:id/reminders", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      res.json({ success: true, data: await storage.getRemindersForFile(file.id) });
+    } catch (error) {
+      console.error("Get file reminders error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch reminders" });
+    }
+  });
+
+  app.post("/api/files/:id/reminders", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = reminderSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { kind, dueDate, label } = validation.data;
+      const existing = (await storage.getRemindersForFile(file.id)).find(reminder => reminder.kind === kind && reminder.dueDate === dueDate);
+      if (existing) {
+        return res.status(409).json({ success: false, error: "This file already has that reminder", data: existing });
+      }
+
+      const reminder = await storage.createReminder({
+        documentId: file.id,
+        userId: req.userId,
+        kind,
+        dueDate,
+        label: label || reminderService.defaultLabel(kind),
+        source: "user",
+      });
+      res.json({ success: true, data: reminder, message: "Reminder added" });
+    } catch (error) {
+      console.error("Create reminder error:", error);
+      res.status(500).json({ success: false, error: "Failed to add reminder" });
+    }
+  });
+
+  // Edit or dismiss a reminder. Editing a detected reminder makes it the user's, so reprocessing keeps it
+  app.patch("/api/reminders/:id", requireAuth, async (req: any, res) => {
+    try {
+      const reminder = await storage.getReminder(req.params.id);
+      if (!reminder) {
+        return res.status(404).json({ success: false, error: "Reminder not found" });
+      }
+
+      if (reminder.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = reminderSchema.partial().extend({
+        dismissed: z.boolean().optional(),
+      }).safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const { dismissed, ...changes } = validation.data;
+      const edited = Object.values(changes).some(value => value !== undefined);
+      const updated = await storage.updateReminder(reminder.id, {
+        ...changes,
+        ...(edited ? { source: "user" } : {}),
+        // A new due date starts its lead times over
+        ...(changes.dueDate && changes.dueDate !== reminder.dueDate ? { notifiedLeadDays: [] } : {}),
+        ...(dismissed !== undefined ? { dismissedAt: dismissed ? new Date() : null } : {}),
+      });
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Update reminder error:", error);
+      res.status(500).json({ success: false, error: "Failed to update reminder" });
+    }
+  });
+
+  app.delete("/api/reminders/:id", requireAuth, async (req: any, res) => {
+    try {
+      const reminder = await storage.getReminder(req.params.id);
+      if (!reminder) {
+        return res.status(404).json({ success: false, error: "Reminder not found" });
+      }
+
+      if (reminder.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      await storage.deleteReminder(reminder.id);
+      res.json({ success: true, message: "Reminder deleted" });
+    } catch (error) {
+      console.error("Delete reminder error:", error);
+      res.status(500).json({ success: false, error: "Failed to delete reminder" });
+    }
+  });
+
+  // Typed tables read from a spreadsheet or CSV file, one per sheet
+  app.get("/api/files/:id/tables", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      res.json({ success: true, data: await storage.getDocumentTables(file.id) });
+    } catch (error) {
+      console.error("Get document tables error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch document tables" });
+    }
+  });
+
+  // Messages of an .eml or .mbox document and the attachments extracted from it. For an attachment,
+  // parent is the email it came from
+  app.get("/api/files/:id/email", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res.status(404).json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const [messages, attachments, parent] = await Promise.all([
+        storage.getEmailMessages(file.id),
+        storage.getChildDocuments([file.id]),
+        file.parentDocumentId ? storage.getFile(file.parentDocumentId) : Promise.resolve(undefined),
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          messages,
+          attachments: attachments
+            .filter(attachment => !attachment.deletedAt)
+            .map(attachment => ({
+              id: attachment.id,
+              filename: attachment.filename,
+              fileSize: attachment.fileSize,
+              fileType: attachment.fileType,
+              embeddingStatus: attachment.embeddingStatus,
+            })),
+          parent: parent ? { id: parent.id, filename: parent.filename } : null,
+        },
+      });
+    } catch (error) {
+      console.error("Get email error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch email" });
+    }
+  });
+
+  // Dashboard metrics endpoint
+  app.get("/api/dashboard/metrics", requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.userId;
+      const metrics = await storage.getDashboardMetrics(userId);
+      res.json({ success: true, data: metrics });
+    } catch (error) {
+      console.error("Dashboard metrics error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch dashboard metrics" });
+    }
+  });
+
+  // How an upload whose bytes match a document already in the vault is handled: "ask" answers 409
+  // with the matches so the client can choose, "keep" stores both, "replace" gives the existing
+  // document the upload's name and folder without storing or processing the bytes again, and
+  // "skip" drops the upload
+  const duplicateActionSchema = z.enum(["ask", "keep", "replace", "skip"]);
+
+  // Enhanced MIME type validation for security, shared by uploads and new document versions. Each
+  // kind's label names it in the error for a type that isn't on the list
+  const uploadableFileKinds: Array<{ label: string; types: string[] }> = [
+    { label: "images", types: ["image/jpeg", "image/png", "image/gif", "image/webp"] },
+    { label: "PDFs", types: ["application/pdf"] },
+    {
+      label: "Word, OpenDocument or RTF documents",
+      types: [
+        "application/msword",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        ...DOCUMENT_FORMAT_MIME_TYPES.filter(type => type !== "application/epub+zip"),
+      ],
+    },
+    { label: "Excel files", types: ["application/vnd.ms-excel", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"] },
+    {
+      label: "PowerPoint presentations",
+      types: ["application/vnd.ms-powerpoint", "application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    },
+    { label: "EPUB books", types: ["application/epub+zip"] },
+    { label: "text files", types: ["text/plain", "text/csv"] },
+    { label: "emails", types: EMAIL_MIME_TYPES },
+    { label: "audio and video recordings", types: MEDIA_MIME_TYPES },
+  ];
+  const uploadableFileTypes = Array.from(new Set(uploadableFileKinds.flatMap(kind => kind.types)));
+
+  const unsupportedFileTypeMessage = (mimetype: string) => {
+    const labels = uploadableFileKinds.map(kind => kind.label);
+    return `File type ${mimetype} is not supported. Please upload ${labels.slice(0, -1).join(", ")}, or ${labels[labels.length - 1]}.`;
+  };
+
+  // Uploads allow larger files than the hosted transcription API does, so recordings it would refuse are
+  // turned away here instead of failing in processing
+  const recordingTooLargeMessage = async (file: Express.Multer.File): Promise<string | null> => {
+    if (!MEDIA_MIME_TYPES.includes(file.mimetype)) return null;
+    const { textExtractionService } = await import("./textExtraction");
+    const limit = textExtractionService.getMaxRecordingSize();
+    if (limit === null || file.size <= limit) return null;
+    const megabytes = (bytes: number) => Math.ceil(bytes / 1024 / 1024);
+    return `${file.originalname} is ${megabytes(file.size)}MB, but recordings can be transcribed up to ${megabytes(limit)}MB. Split it or export it at a lower bitrate and upload it again.`;
+  };
+
+  // Browsers send .eml, .mbox, .epub, .rtf and some audio files without a type, or a generic one
+  const resolveUploadMimeType = (file: Express.Multer.File) =>
+    !file.mimetype || file.mimetype === "application/octet-stream" || file.mimetype === "text/plain"
+      ? emailMimeTypeFor(file.originalname) || documentFormatMimeTypeFor(file.originalname) || mediaMimeTypeFor(file.originalname) || file.mimetype
+      : file.mimetype;
+
+  app.post(
+    "/api/files/upload",
+    requireAuth,
+    upload.array("files"),
+    async (req: any, res) => {
+      try {
+        const userId = req.userId;
+        const files = req.files as Express.Multer.File[];
+
+        if (!files || files.length === 0) {
+          return res
+            .status(400)
+            .json({ success: false, error: "No files provided" });
+        }
+        files.forEach(file => { file.mimetype = resolveUploadMimeType(file); });
+
+        const duplicateAction = duplicateActionSchema.safeParse(req.body?.onDuplicate || "ask");
+        if (!duplicateAction.success) {
+          return res.status(400).json({
+            success: false,
+            error: "Invalid request",
+            details: duplicateAction.error.issues,
+          });
+        }
+        const onDuplicate = duplicateAction.data;
+
+        // Optional target folder sent as a form field alongside the files
+        const folderId = typeof req.body?.folderId === "string" && req.body.folderId ? req.body.folderId : null;
+        if (folderId) {
+          const folder = await storage.getFolder(folderId);
+          if (!folder || folder.userId !== userId) {
+            return res
+              .status(404)
+              .json({ success: false, error: "Folder not found" });
+          }
+        }
+
+        // Match uploads against the vault by content; a file repeated within the batch counts as a
+        // duplicate of its first occurrence and is only stored twice with "keep"
+        const contentHashes = files.map(file => computeContentHash(file.buffer));
+        const existingByHash = new Map<string, DocumentRecord>();
+        for (const existing of await storage.getFilesByContentHash(userId, contentHashes)) {
+          if (!existingByHash.has(existing.contentHash!)) {
+            existingByHash.set(existing.contentHash!, existing);
+          }
+        }
+        const repeatedInBatch = contentHashes.map((hash, index) => contentHashes.indexOf(hash) !== index);
+
+        const duplicates = files
+          .map((file, index) => ({ filename: file.originalname, existing: existingByHash.get(contentHashes[index]) }))
+          .filter((match): match is { filename: string; existing: DocumentRecord } => Boolean(match.existing));
+
+        if (onDuplicate === "ask" && duplicates.length > 0) {
+          return res.status(409).json({
+            success: false,
+            error: duplicates.length === 1
+              ? `"${duplicates[0].filename}" already exists in your vault`
+              : `${duplicates.length} files already exist in your vault`,
+            duplicates: duplicates.map(match => ({
+              filename: match.filename,
+              existing: duplicateService.describe(match.existing),
+            })),
+            actions: ["keep", "replace", "skip"],
+          });
+        }
+
+        const actionFor = (index: number): "store" | "replace" | "skip" => {
+          if (onDuplicate === "keep") return "store";
+          if (existingByHash.has(contentHashes[index])) return onDuplicate === "replace" ? "replace" : "skip";
+          return repeatedInBatch[index] ? "skip" : "store";
+        };
+        const newFileCount = files.filter((_, index) => actionFor(index) === "store").length;
+
+        // Check file upload limits from database
+        const userSubscription = await storage.getUserSubscription(userId);
+        const usage = await storage.getSubscriptionUsage(userId);
+        const plan = userSubscription 
+          ? await storage.getSubscriptionPlan(userSubscription.planId)
+          : null;
+        
+        const maxFiles = plan?.maxFiles || 10; // Default to free plan limit
+        const currentFilesCount = usage?.filesCount || 0;
+        
+        // Check file limit (skip check if maxFiles is -1, which means unlimited)
+        if (maxFiles !== -1 && currentFilesCount + newFileCount > maxFiles) {
+          return res.status(403).json({
+            error: 'File upload limit exceeded',
+            message: `You've reached your file upload limit. Current: ${currentFilesCount}, Max: ${maxFiles}. Please upgrade your plan to continue.`,
+            currentCount: currentFilesCount,
+            maxCount: maxFiles,
+            limitType: 'files',
+          });
+        }
+
+        const uploadedFiles = [];
+        const replacedFiles = [];
+        const skippedFiles: string[] = [];
+
+        for (const [index, file] of Array.from(files.entries())) {
+          // Enhanced MIME type validation for security
+          if (!file.mimetype || !uploadableFileTypes.includes(file.mimetype)) {
+            return res.status(400).json({
+              success: false,
+              error: unsupportedFileTypeMessage(file.mimetype),
+            });
+          }
+
+          const recordingError = await recordingTooLargeMessage(file);
+          if (recordingError) {
+            return res.status(400).json({ success: false, error: recordingError });
+          }
+
+          // Additional security checks
+          if (
+            file.mimetype.includes("script") ||
+            file.mimetype.includes("executable") ||
+            file.originalname.includes("../") ||
+            file.originalname.includes("..\\")
+          ) {
+            return res.status(400).json({
+              success: false,
+              error: "File contains potentially dangerous content",
+            });
+          }
+
+          const action = actionFor(index);
+          if (action === "skip") {
+            skippedFiles.push(file.originalname);
+            continue;
+          }
+          if (action === "replace") {
+            const existing = existingByHash.get(contentHashes[index])!;
+            const replaced = await storage.updateFile(existing.id, { filename: file.originalname, folderId });
+            replacedFiles.push({
+              ...replaced,
+              url: `/api/files/${replaced.id}/download`,
+            });
+            continue;
+          }
 
           // Generate relative storage path
           const timestamp = Date.now();
@@ -1823,6 +3177,8 @@ Be conversational and helpful, but stay focused on the user's documents.`;
             fileSize: file.size,
             fileType: file.mimetype,
             storagePath: relativeStoragePath, // Store relative path instead of absolute
+            folderId,
+            contentHash: contentHashes[index],
           });
 
           // Trigger background file processing for RAG if file type is supported
@@ -1863,10 +3219,17 @@ Be conversational and helpful, but stay focused on the user's documents.`;
           await storage.incrementFileCount(userId, uploadedFile.fileSize);
         }
 
+        const notes = [
+          replacedFiles.length > 0 ? `${replacedFiles.length} existing file(s) replaced` : "",
+          skippedFiles.length > 0 ? `${skippedFiles.length} duplicate(s) skipped` : "",
+        ].filter(Boolean);
+
         res.json({
           success: true,
-          data: uploadedFiles,
-          message: `${uploadedFiles.length} file(s) uploaded successfully to secure storage`,
+          data: [...uploadedFiles, ...replacedFiles],
+          replaced: replacedFiles.map(file => file.id),
+          skipped: skippedFiles,
+          message: `${uploadedFiles.length} file(s) uploaded successfully to secure storage${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`,
         });
       } catch (error) {
         console.error("Upload error:", error);
@@ -1875,55 +3238,462 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     },
   );
 
-  app.get("/api/files/:id/download", requireAuth, async (req: any, res) => {
+  const versionNumberSchema = z.coerce.number().int().min(1);
+
+  // A document's versions, newest first, without their extracted text. Documents that never had a
+  // second version list their upload as the only version
+  const listVersions = async (file: DocumentRecord) => {
+    const versions = await storage.getDocumentVersions(file.id);
+    const entries = versions.length > 0 ? versions : [{
+      id: file.id,
+      documentId: file.id,
+      versionNumber: file.currentVersion,
+      filename: file.filename,
+      fileSize: file.fileSize,
+      fileType: file.fileType,
+      storagePath: file.storagePath,
+      contentHash: file.contentHash,
+      extractedText: null,
+      createdAt: file.createdAt,
+    }];
+    return entries.map(({ extractedText, storagePath, ...version }) => ({
+      ...version,
+      isCurrent: version.versionNumber === file.currentVersion,
+    }));
+  };
+
+  // The current version lives on the document itself; earlier ones in document_versions
+  const getVersionFile = async (file: DocumentRecord, versionNumber: number) =>
+    versionNumber === file.currentVersion ? file : storage.getDocumentVersion(file.id, versionNumber);
+
+  app.get("/api/files/:id/versions", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      res.json({ success: true, data: await listVersions(file) });
+    } catch (error) {
+      console.error("Get versions error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch versions" });
+    }
+  });
+
+  // Upload a file as the next version of an existing document. The document keeps its id, folder, tags
+  // and share link; the previous version stays downloadable and is searched until the new one is indexed
+  app.post(
+    "/api/files/:id/versions",
+    requireAuth,
+    upload.single("file"),
+    async (req: any, res) => {
+      try {
+        const userId = req.userId;
+        const versionFile = req.file as Express.Multer.File | undefined;
+
+        if (!versionFile) {
+          return res
+            .status(400)
+            .json({ success: false, error: "No file provided" });
+        }
+
+        // Trashed documents take no new versions until they are restored
+        const file = await storage.getFile(req.params.id);
+        if (!file || file.deletedAt) {
+          return res
+            .status(404)
+            .json({ success: false, error: "File not found" });
+        }
+
+        if (file.userId !== userId) {
+          return res.status(403).json({ success: false, error: "Access denied" });
+        }
+
+        versionFile.mimetype = resolveUploadMimeType(versionFile);
+        if (!versionFile.mimetype || !uploadableFileTypes.includes(versionFile.mimetype)) {
+          return res.status(400).json({
+            success: false,
+            error: unsupportedFileTypeMessage(versionFile.mimetype),
+          });
+        }
+
+        const recordingError = await recordingTooLargeMessage(versionFile);
+        if (recordingError) {
+          return res.status(400).json({ success: false, error: recordingError });
+        }
+
+        if (versionFile.originalname.includes("../") || versionFile.originalname.includes("..\\")) {
+          return res.status(400).json({
+            success: false,
+            error: "File contains potentially dangerous content",
+          });
+        }
+
+        const contentHash = computeContentHash(versionFile.buffer);
+        if (contentHash === file.contentHash) {
+          return res.status(409).json({
+            success: false,
+            error: "This file is identical to the current version",
+          });
+        }
+
+        // A new version is an upload like any other: it counts against the plan's file limit and its
+        // bytes are added to storage usage
+        const userSubscription = await storage.getUserSubscription(userId);
+        const usage = await storage.getSubscriptionUsage(userId);
+        const plan = userSubscription
+          ? await storage.getSubscriptionPlan(userSubscription.planId)
+          : null;
+
+        const maxFiles = plan?.maxFiles || 10; // Default to free plan limit
+        const currentFilesCount = usage?.filesCount || 0;
+        if (maxFiles !== -1 && currentFilesCount + 1 > maxFiles) {
+          return res.status(403).json({
+            error: 'File upload limit exceeded',
+            message: `You've reached your file upload limit. Current: ${currentFilesCount}, Max: ${maxFiles}. Please upgrade your plan to continue.`,
+            currentCount: currentFilesCount,
+            maxCount: maxFiles,
+            limitType: 'files',
+          });
+        }
+
+        const timestamp = Date.now();
+        const sanitizedFilename = versionFile.originalname.replace(
+          /[^a-zA-Z0-9._-]/g,
+          "_",
+        );
+        const relativeStoragePath = `users/${userId}/${timestamp}_${sanitizedFilename}`;
+
+        const { SupabaseStorageService } = await import("./supabaseService");
+        const supabaseStorage = new SupabaseStorageService();
+        await supabaseStorage.uploadFile(relativeStoragePath, versionFile.buffer, versionFile.mimetype);
+
+        const { document, version } = await storage.addDocumentVersion(file.id, {
+          filename: versionFile.originalname,
+          fileSize: versionFile.size,
+          fileType: versionFile.mimetype,
+          storagePath: relativeStoragePath,
+          contentHash,
+        });
+        await storage.incrementFileCount(userId, versionFile.size);
+
+        if (fileProcessor.isFileTypeSupported(versionFile.mimetype)) {
+          fileProcessor
+            .processFile(document.id, userId, relativeStoragePath, versionFile.mimetype)
+            .catch((error) => {
+              console.error(`Background processing failed for version ${version.versionNumber} of ${document.id}:`, error);
+            });
+        } else {
+          console.log(
+            `File type ${versionFile.mimetype} not supported for text extraction - skipping RAG processing`,
+          );
+        }
+
+        res.json({
+          success: true,
+          data: {
+            ...document,
+            url: `/api/files/${document.id}/download`,
+          },
+          versions: await listVersions(document),
+          message: `Version ${version.versionNumber} of ${document.filename} uploaded`,
+        });
+      } catch (error) {
+        console.error("Upload version error:", error);
+        res.status(500).json({ success: false, error: "Failed to upload new version" });
+      }
+    },
+  );
+
+  app.get("/api/files/:id/versions/:version/:disposition(download|preview)", requireAuth, async (req: any, res) => {
+    try {
+      const versionNumber = versionNumberSchema.safeParse(req.params.version);
+      if (!versionNumber.success) {
+        return res.status(400).json({ success: false, error: "Invalid version" });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const version = await getVersionFile(file, versionNumber.data);
+      if (!version) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Version not found" });
+      }
+
+      res.set({
+        "Content-Type": version.fileType,
+        "Content-Disposition": `${req.params.disposition === "preview" ? "inline" : "attachment"}; filename="${version.filename}"`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Frame-Options": "SAMEORIGIN",
+        "X-Content-Type-Options": "nosniff",
+      });
+
+      const { SupabaseStorageService } = await import("./supabaseService");
+      const supabaseStorage = new SupabaseStorageService();
+      const fileBuffer = await supabaseStorage.downloadFile(version.storagePath);
+      res.send(fileBuffer);
+    } catch (error) {
+      console.error("Version download error:", error);
+      res.status(500).json({ success: false, error: "Download failed" });
+    }
+  });
+
+  // Make an earlier version current again. Its chunks become the ones searched; when they are missing or
+  // were embedded with another model, the version is indexed again from its stored text
+  app.post("/api/files/:id/versions/:version/restore", requireAuth, async (req: any, res) => {
+    try {
+      const versionNumber = versionNumberSchema.safeParse(req.params.version);
+      if (!versionNumber.success) {
+        return res.status(400).json({ success: false, error: "Invalid version" });
+      }
+
+      // Trashed documents keep their current version until they are restored from the trash
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.deletedAt) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      if (versionNumber.data === file.currentVersion) {
+        return res.json({ success: true, data: file, versions: await listVersions(file) });
+      }
+
+      if (!(await storage.getDocumentVersion(file.id, versionNumber.data))) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Version not found" });
+      }
+
+      let restored = await storage.restoreDocumentVersion(file.id, versionNumber.data);
+
+      const { embeddingsService } = await import("./embeddingsService");
+      const chunkModels = await storage.getTextChunkEmbeddingModels(file.id, versionNumber.data);
+      if (chunkModels.some(entry => embeddingsService.isActiveModel(entry))) {
+        restored = await storage.updateFile(file.id, { embeddingStatus: "completed" });
+      } else {
+        fileProcessor.reindexCurrentVersion(file.id, req.userId).catch((error) => {
+          console.error(`Re-indexing restored version ${versionNumber.data} of ${file.id} failed:`, error);
+        });
+      }
+
+      // Fields and detected due dates follow the restored content; user edits are kept
+      if (restored.extractedText) {
+        fileProcessor.extractFieldsAndReminders(file.id, req.userId, restored.extractedText).catch((error) => {
+          console.warn(`Field extraction for restored version of ${file.id} failed:`, error);
+        });
+      }
+
+      res.json({
+        success: true,
+        data: restored,
+        versions: await listVersions(restored),
+        message: `Restored version ${versionNumber.data} of ${restored.filename}`,
+      });
+    } catch (error) {
+      console.error("Restore version error:", error);
+      res.status(500).json({ success: false, error: "Failed to restore version" });
+    }
+  });
+
+  app.get("/api/files/:id/download", requireAuth, async (req: any, res) => {
+    try {
+      // Verify file ownership
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      // Set appropriate headers for file serving
+      res.set({
+        "Content-Type": file.fileType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "private, max-age=3600",
+        "X-Frame-Options": "SAMEORIGIN",
+        "X-Content-Type-Options": "nosniff",
+      });
+
+      // Download from Supabase Storage
+      const { SupabaseStorageService } = await import("./supabaseService");
+      const supabaseStorage = new SupabaseStorageService();
+      const fileBuffer = await supabaseStorage.downloadFile(file.storagePath);
+      res.send(fileBuffer);
+    } catch (error) {
+      console.error("Download error:", error);
+      res.status(500).json({ success: false, error: "Download failed" });
+    }
+  });
+
+  // Chat messages endpoints for database persistence
+  // Conversation thread endpoints
+  app.get("/api/conversations", requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.userId;
+      // archived=true lists archived threads, archived=all lists everything, default is active threads only
+      const archivedParam = req.query.archived as string | undefined;
+      const archived = archivedParam === "all" ? undefined : archivedParam === "true";
+
+      // Messages saved without a thread (from before conversations, or from older mobile builds that
+      // still post without one) are gathered into the user's "Previous chats" thread
+      await storage.adoptLegacyChatMessages(userId);
+      const conversations = await storage.getConversationsByUserId(userId, { archived });
+
+      res.json({ success: true, data: conversations });
+    } catch (error) {
+      console.error("Get conversations error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: "Failed to retrieve conversations" 
+      });
+    }
+  });
+
+  app.post("/api/conversations", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        title: z.string().trim().min(1).max(200).optional(),
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const conversation = await storage.createConversation({
+        userId: req.userId,
+        ...(validation.data.title ? { title: validation.data.title } : {}),
+      });
+
+      res.json({ success: true, data: conversation });
+    } catch (error) {
+      console.error("Create conversation error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: "Failed to create conversation" 
+      });
+    }
+  });
+
+  app.patch("/api/conversations/:id", requireAuth, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ success: false, error: "Conversation not found" });
+      }
+
+      if (conversation.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      const validation = z.object({
+        title: z.string().trim().min(1).max(200).optional(),
+        isArchived: z.boolean().optional(),
+      }).safeParse(req.body || {});
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const updated = await storage.updateConversation(conversation.id, validation.data);
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      console.error("Update conversation error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: "Failed to update conversation" 
+      });
+    }
+  });
+
+  app.delete("/api/conversations/:id", requireAuth, async (req: any, res) => {
     try {
-      // Verify file ownership
-      const file = await storage.getFile(req.params.id);
-      if (!file) {
-        return res
-          .status(404)
-          .json({ success: false, error: "File not found" });
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ success: false, error: "Conversation not found" });
       }
 
-      if (file.userId !== req.userId) {
+      if (conversation.userId !== req.userId) {
         return res.status(403).json({ success: false, error: "Access denied" });
       }
 
-      // Set appropriate headers for file serving
-      res.set({
-        "Content-Type": file.fileType,
-        "Content-Disposition": `attachment; filename="${file.filename}"`,
-        "Cache-Control": "private, max-age=3600",
-        "X-Frame-Options": "SAMEORIGIN",
-        "X-Content-Type-Options": "nosniff",
-      });
+      await storage.deleteConversation(conversation.id);
 
-      // Download from Supabase Storage
-      const { SupabaseStorageService } = await import("./supabaseService");
-      const supabaseStorage = new SupabaseStorageService();
-      const fileBuffer = await supabaseStorage.downloadFile(file.storagePath);
-      res.send(fileBuffer);
+      res.json({ success: true, message: "Conversation deleted" });
     } catch (error) {
-      console.error("Download error:", error);
-      res.status(500).json({ success: false, error: "Download failed" });
+      console.error("Delete conversation error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: "Failed to delete conversation" 
+      });
     }
   });
 
-  // Chat messages endpoints for database persistence
   app.post("/api/chat/messages", requireAuth, async (req: any, res) => {
     try {
       const userId = req.userId;
-      const { role, content, files, timestamp } = req.body;
+      const { role, content, files, citations, timestamp, conversationId } = req.body;
+
+      // Verify the target thread belongs to the user
+      const conversation = conversationId
+        ? await storage.getConversation(conversationId)
+        : undefined;
+      if (conversationId && (!conversation || conversation.userId !== userId)) {
+        return res.status(404).json({ success: false, error: "Conversation not found" });
+      }
 
       // Create chat message in database 
       const chatMessage = await storage.addChatMessage({
         userId,
+        conversationId: conversationId || null,
         role,
         content,
         files: files || null,
+        citations: citations || null,
         timestamp: new Date(timestamp)
       });
 
+      // Name untitled threads after their first question
+      if (conversation && role === "user" && conversation.title === "New conversation") {
+        const title = String(content).trim().replace(/\s+/g, " ");
+        await storage.updateConversation(conversation.id, {
+          title: title.length > 60 ? `${title.substring(0, 57)}...` : title,
+        });
+      }
+
       res.json({ success: true, data: chatMessage });
     } catch (error) {
       console.error("Save chat message error:", error);
@@ -1938,9 +3708,17 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     try {
       const userId = req.userId;
       const limit = parseInt(req.query.limit as string) || 50;
+      const conversationId = req.query.conversationId as string | undefined;
+      
+      if (conversationId) {
+        const conversation = await storage.getConversation(conversationId);
+        if (!conversation || conversation.userId !== userId) {
+          return res.status(404).json({ success: false, error: "Conversation not found" });
+        }
+      }
       
-      // Get user's chat history from database
-      const messages = await storage.getChatMessages(userId, limit);
+      // Get user's chat history from database (a single thread when conversationId is given)
+      const messages = await storage.getChatMessages(userId, limit, conversationId);
       
       res.json({ success: true, data: messages });
     } catch (error) {
@@ -1955,19 +3733,19 @@ Be conversational and helpful, but stay focused on the user's documents.`;
   app.delete("/api/chat/messages", requireAuth, async (req: any, res) => {
     try {
       const userId = req.userId;
+      const conversationId = req.query.conversationId as string | undefined;
       
-      console.log(`[CHAT CLEAR] Clearing chat history for user: ${userId}`);
-      
-      // Get current messages count before clearing
-      const messagesBefore = await storage.getChatMessages(userId);
-      console.log(`[CHAT CLEAR] Messages before clear: ${messagesBefore.length}`);
+      if (conversationId) {
+        const conversation = await storage.getConversation(conversationId);
+        if (!conversation || conversation.userId !== userId) {
+          return res.status(404).json({ success: false, error: "Conversation not found" });
+        }
+      }
       
-      // Clear all chat history for the user
-      await storage.clearChatHistory(userId);
+      console.log(`[CHAT CLEAR] Clearing chat history for user: ${userId}${conversationId ? ` (conversation ${conversationId})` : ''}`);
       
-      // Verify messages were cleared
-      const messagesAfter = await storage.getChatMessages(userId);
-      console.log(`[CHAT CLEAR] Messages after clear: ${messagesAfter.length}`);
+      // Clear the thread, or all chat history for the user when no thread is given
+      await storage.clearChatHistory(userId, conversationId);
       
       res.json({ 
         success: true, 
@@ -2017,9 +3795,9 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     }
   });
 
-  app.delete("/api/files/:id", requireAuth, async (req: any, res) => {
+  // Passage behind a chat citation: the chunk plus surrounding extracted text, with the chunk's range marked for highlighting
+  app.get("/api/files/:id/chunks/:chunkId", requireAuth, async (req: any, res) => {
     try {
-      // Verify file ownership
       const file = await storage.getFile(req.params.id);
       if (!file) {
         return res
@@ -2031,30 +3809,210 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         return res.status(403).json({ success: false, error: "Access denied" });
       }
 
-      // Clean up text chunks and processing data if file was processed for RAG
-      try {
-        await fileProcessor.removeFileProcessing(req.params.id);
-        console.log(`Cleaned up RAG processing data for file ${req.params.id}`);
-      } catch (cleanupError) {
-        // Log error but don't fail the delete operation
-        console.warn(
-          `Failed to clean up RAG data for file ${req.params.id}:`,
-          cleanupError,
-        );
+      const chunk = await storage.getTextChunk(req.params.chunkId);
+      if (!chunk || chunk.fileId !== file.id) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Passage not found" });
       }
 
-      await storage.deleteFile(req.params.id);
-      
-      // Decrement files count and storage usage in subscription_usage
-      await storage.decrementFileCount(req.userId, file.fileSize);
+      // Citations into an earlier version are resolved against that version's text
+      const source = (await getVersionFile(file, chunk.version)) || file;
+
+      const metadata = (chunk.metadata || {}) as {
+        startOffset?: number;
+        endOffset?: number;
+        pageNumber?: number;
+        startTime?: number;
+      };
+      const extractedText = source.extractedText || "";
+
+      // Chunks indexed before offsets were recorded only have their (whitespace-normalised) content
+      let start = metadata.startOffset;
+      let end = metadata.endOffset;
+      if ((start === undefined || end === undefined) && extractedText) {
+        const found = extractedText.indexOf(chunk.content);
+        if (found !== -1) {
+          start = found;
+          end = found + chunk.content.length;
+        }
+      }
+
+      const CONTEXT_CHARS = 1500;
+      if (start === undefined || end === undefined || end > extractedText.length) {
+        return res.json({
+          success: true,
+          data: {
+            fileId: file.id,
+            filename: source.filename,
+            fileType: source.fileType,
+            version: chunk.version,
+            chunkId: chunk.id,
+            chunkIndex: chunk.chunkIndex,
+            pageNumber: metadata.pageNumber ?? null,
+            startTime: metadata.startTime ?? null,
+            text: chunk.content,
+            highlightStart: 0,
+            highlightEnd: chunk.content.length,
+          },
+        });
+      }
+
+      const windowStart = Math.max(0, start - CONTEXT_CHARS);
+      const windowEnd = Math.min(extractedText.length, end + CONTEXT_CHARS);
+
+      res.json({
+        success: true,
+        data: {
+          fileId: file.id,
+          filename: source.filename,
+          fileType: source.fileType,
+          version: chunk.version,
+          chunkId: chunk.id,
+          chunkIndex: chunk.chunkIndex,
+          pageNumber: metadata.pageNumber ?? null,
+          startTime: metadata.startTime ?? null,
+          text: extractedText.substring(windowStart, windowEnd),
+          highlightStart: start - windowStart,
+          highlightEnd: end - windowStart,
+        },
+      });
+    } catch (error) {
+      console.error("Get passage error:", error);
+      res.status(500).json({ success: false, error: "Failed to load passage" });
+    }
+  });
+
+  app.delete("/api/files/:id", requireAuth, async (req: any, res) => {
+    try {
+      // Verify file ownership
+      const file = await storage.getFile(req.params.id);
+      if (!file) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      await storage.trashFiles(req.userId, [file.id]);
       
-      res.json({ success: true, message: "File deleted" });
+      res.json({ success: true, message: "File moved to trash" });
     } catch (error) {
       console.error("Delete error:", error);
       res.status(500).json({ success: false, error: "Delete failed" });
     }
   });
 
+  // Trashed files with the date each will be purged
+  app.get("/api/trash", requireAuth, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ success: false, error: "User not found" });
+      }
+
+      const files = await storage.getTrashedFiles(req.userId);
+      res.json({
+        success: true,
+        data: files.map(file => ({
+          ...file,
+          purgeAt: trashService.purgeDate(file, user.trashRetentionDays),
+        })),
+        retentionDays: user.trashRetentionDays,
+      });
+    } catch (error) {
+      console.error("Get trash error:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/restore", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        fileIds: z.array(z.string()).min(1).max(500),
+      }).safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const restored = await storage.restoreFiles(req.userId, validation.data.fileIds);
+      res.json({
+        success: true,
+        data: restored,
+        message: `${restored.length} file(s) restored`,
+      });
+    } catch (error) {
+      console.error("Restore from trash error:", error);
+      res.status(500).json({ success: false, error: "Failed to restore files" });
+    }
+  });
+
+  app.patch("/api/trash/settings", requireAuth, async (req: any, res) => {
+    try {
+      const validation = z.object({
+        retentionDays: z.number().int().min(MIN_TRASH_RETENTION_DAYS).max(MAX_TRASH_RETENTION_DAYS),
+      }).safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: validation.error.issues,
+        });
+      }
+
+      const user = await storage.updateUserTrashRetention(req.userId, validation.data.retentionDays);
+      res.json({ success: true, data: { retentionDays: user.trashRetentionDays } });
+    } catch (error) {
+      console.error("Update trash settings error:", error);
+      res.status(500).json({ success: false, error: "Failed to update trash settings" });
+    }
+  });
+
+  // Permanently delete one trashed file
+  app.delete("/api/trash/:id", requireAuth, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || !file.deletedAt) {
+        return res
+          .status(404)
+          .json({ success: false, error: "File not found in trash" });
+      }
+
+      if (file.userId !== req.userId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
+
+      await trashService.purgeFile(file);
+      res.json({ success: true, message: "File permanently deleted" });
+    } catch (error) {
+      console.error("Purge file error:", error);
+      res.status(500).json({ success: false, error: "Delete failed" });
+    }
+  });
+
+  app.delete("/api/trash", requireAuth, async (req: any, res) => {
+    try {
+      const purged = await trashService.emptyTrash(req.userId);
+      res.json({
+        success: true,
+        data: { purged },
+        message: `${purged} file(s) permanently deleted`,
+      });
+    } catch (error) {
+      console.error("Empty trash error:", error);
+      res.status(500).json({ success: false, error: "Failed to empty trash" });
+    }
+  });
+
   // File processing status endpoint
   app.get(
     "/api/files/:id/processing-status",
@@ -2443,6 +4401,46 @@ Be conversational and helpful, but stay focused on the user's documents.`;
       }
 
       const userId = req.userId;
+
+      const duplicateAction = duplicateActionSchema.safeParse(req.body?.onDuplicate || "ask");
+      if (!duplicateAction.success) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid request",
+          details: duplicateAction.error.issues,
+        });
+      }
+      const onDuplicate = duplicateAction.data;
+
+      const contentHash = computeContentHash(req.file.buffer);
+      const [existing] = await storage.getFilesByContentHash(userId, [contentHash]);
+      if (existing && onDuplicate !== "keep") {
+        if (onDuplicate === "ask") {
+          return res.status(409).json({
+            success: false,
+            error: `"${req.file.originalname}" already exists in your vault`,
+            duplicate: duplicateService.describe(existing),
+            actions: ["keep", "replace", "skip"],
+          });
+        }
+
+        const document = onDuplicate === "replace"
+          ? await storage.updateFile(existing.id, { filename: req.file.originalname })
+          : existing;
+        return res.json({
+          success: true,
+          duplicateAction: onDuplicate,
+          document: {
+            id: document.id,
+            filename: document.filename,
+            fileType: document.fileType,
+            fileSize: document.fileSize,
+            downloadUrl: document.downloadUrl,
+            embeddingStatus: document.embeddingStatus,
+            createdAt: document.createdAt,
+          },
+        });
+      }
       
       // Check file upload limit
       const subscription = await storage.getUserSubscriptionWithLimits(userId);
@@ -2490,6 +4488,7 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         fileSize,
         fileType,
         storagePath: uploadedPath,
+        contentHash,
         downloadUrl,
         embeddingStatus: "pending",
       });
@@ -2543,7 +4542,9 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     try {
       const userId = req.userId;
 
-      const documents = await storage.getFilesByUserId(userId, 50, 0);
+      const documents = await withTags(
+        await storage.getFilesByUserId(userId, 50, 0, { tagIds: parseTagIdsQuery(req.query.tagId) })
+      );
 
       res.json({
         success: true,
@@ -2555,6 +4556,7 @@ Be conversational and helpful, but stay focused on the user's documents.`;
           downloadUrl: doc.downloadUrl,
           embeddingStatus: doc.embeddingStatus,
           isShared: doc.isShared,
+          tags: doc.tags,
           createdAt: doc.createdAt,
         })),
       });
@@ -2584,19 +4586,20 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         return res.status(500).json({ error: "OpenAI API not configured" });
       }
 
-      // Step 1: Convert query into embedding vector using OpenAI text-embedding-ada-002
-      const embeddingResponse = await openai.embeddings.create({
-        model: "text-embedding-ada-002",
-        input: query,
-      });
+      const { embeddingsService } = await import("./embeddingsService");
+      if (!embeddingsService.isAvailable()) {
+        return res.status(500).json({ error: "Embedding provider not configured" });
+      }
 
-      const queryEmbedding = embeddingResponse.data[0].embedding;
+      // Step 1: Convert query into embedding vector with the same model the chunks were embedded with
+      const queryEmbedding = await embeddingsService.generateQueryEmbedding(query);
 
       // Step 2: Perform vector similarity search in text_chunks table for semantic content retrieval
       const textChunks = await storage.searchSimilarTextChunks(
         userId,
         queryEmbedding,
         10,
+        embeddingsService.getModelSignature(),
       );
 
       if (textChunks.length === 0) {
@@ -3860,8 +5863,15 @@ Be conversational and helpful, but stay focused on the user's documents.`;
       const userId = req.userId;
       const limit = parseInt(req.query.limit as string) || 100;
       const offset = parseInt(req.query.offset as string) || 0;
+      const sort = ['updated', 'name', 'weakest'].includes(req.query.sort) ? req.query.sort : 'updated';
+      const weakOnly = req.query.weak === 'true';
+
+      // Credentials saved before strength scoring get their score now, so sorting and filtering see them
+      for (const unscored of await storage.getUnscoredAccountCredentials(userId)) {
+        await storage.setAccountCredentialStrength(unscored.id, scoreCredentialPassword(decryptPassword(unscored.encryptedPassword), unscored));
+      }
 
-      const credentials = await storage.getAccountCredentialsByUserId(userId, limit, offset);
+      const credentials = await storage.getAccountCredentialsByUserId(userId, { limit, offset, sort, weakOnly });
       
       // Decrypt passwords before sending
       const decryptedCredentials = credentials.map(cred => ({
@@ -3877,6 +5887,209 @@ Be conversational and helpful, but stay focused on the user's documents.`;
     }
   });
 
+  // Generate a password or passphrase with its strength, for clients without a local generator
+  app.post("/api/credentials/generate", requireAuth, async (req: any, res) => {
+    try {
+      const validation = passwordGeneratorOptionsSchema.safeParse(req.body || {});
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid generator options", details: validation.error });
+      }
+      if (validation.data.mode === 'characters' && !validation.data.lowercase && !validation.data.uppercase && !validation.data.digits && !validation.data.symbols) {
+        return res.status(400).json({ error: "Select at least one character class" });
+      }
+
+      const password = generatePassword(validation.data);
+      res.json({ success: true, data: { password, strength: estimatePasswordStrength(password) } });
+    } catch (error: any) {
+      console.error("Error generating password:", error);
+      res.status(500).json({ error: "Failed to generate password" });
+    }
+  });
+
+  // Reused, weak and stale credentials, without their passwords
+  app.get("/api/credentials/health", requireAuth, async (req: any, res) => {
+    try {
+      const report = await vaultHealthService.getReport(req.userId);
+      res.json({ success: true, data: report });
+    } catch (error: any) {
+      console.error("Error building vault health report:", error);
+      res.status(500).json({ error: "Failed to build vault health report" });
+    }
+  });
+
+  // Read a password export from another app (multipart "file", optional "format") and list its
+  // logins with duplicates flagged, without their passwords, so the user can pick what to import
+  app.post("/api/credentials/import/preview", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No export file provided" });
+      }
+      const format = req.body.format || undefined;
+      if (format && !CREDENTIAL_IMPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Unknown import format "${format}"` });
+      }
+
+      const parsed = await parseCredentialExport(req.file.buffer, format);
+      const preview = await credentialImportService.preview(req.userId, parsed);
+      res.json({ success: true, data: preview });
+    } catch (error: any) {
+      if (error instanceof CredentialImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error previewing credential import:", error);
+      res.status(500).json({ error: "Failed to read the export" });
+    }
+  });
+
+  // Import the logins picked from a preview: the same file and format, plus "rows", a JSON array of
+  // preview indexes
+  app.post("/api/credentials/import", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.userId;
+      if (!req.file) {
+        return res.status(400).json({ error: "No export file provided" });
+      }
+      const format = req.body.format || undefined;
+      if (format && !CREDENTIAL_IMPORT_FORMATS.includes(format)) {
+        return res.status(400).json({ error: `Unknown import format "${format}"` });
+      }
+
+      let rows: number[];
+      try {
+        rows = JSON.parse(req.body.rows || '[]');
+      } catch {
+        rows = [];
+      }
+      if (!Array.isArray(rows) || rows.length === 0) {
+        return res.status(400).json({ error: "Select at least one login to import" });
+      }
+      rows = Array.from(new Set(rows));
+
+      // Check password limit (skip check if maxPasswords is -1, which means unlimited)
+      const allowance = await credentialImportService.getPasswordAllowance(userId);
+      if (allowance.remaining !== null && rows.length > allowance.remaining) {
+        return res.status(403).json({
+          error: 'Password limit exceeded',
+          message: `Importing ${rows.length} passwords would exceed your password limit. Current: ${allowance.current}, Max: ${allowance.max}. Import ${allowance.remaining} or fewer, or upgrade your plan.`,
+          currentCount: allowance.current,
+          maxCount: allowance.max,
+          limitType: 'passwords',
+        });
+      }
+
+      const parsed = await parseCredentialExport(req.file.buffer, format);
+      const result = await credentialImportService.importCredentials(userId, parsed, rows);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      if (error instanceof CredentialImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error importing credentials:", error);
+      res.status(500).json({ error: "Failed to import credentials" });
+    }
+  });
+
+  // Download every credential (and optionally document metadata) as an archive encrypted with a
+  // passphrase the user chooses
+  app.post("/api/credentials/export", requireAuth, async (req: any, res) => {
+    try {
+      const { passphrase, includeDocuments } = req.body;
+      const passphraseProblem = vaultBackupService.checkPassphrase(passphrase);
+      if (passphraseProblem) {
+        return res.status(400).json({ error: passphraseProblem });
+      }
+
+      const archive = await vaultBackupService.createBackup(req.userId, passphrase, includeDocuments === true);
+      const filename = `zorli-vault-${new Date().toISOString().slice(0, 10)}${VAULT_BACKUP_EXTENSION}`;
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(JSON.stringify(archive));
+    } catch (error: any) {
+      if (error instanceof VaultBackupError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error exporting vault backup:", error);
+      res.status(500).json({ error: "Failed to export vault backup" });
+    }
+  });
+
+  // Download every credential as plaintext CSV. Anyone holding the session could read it, so the
+  // account password is asked for again, and a few wrong ones lock the export for a while
+  app.post("/api/credentials/export/csv", requireAuth, async (req: any, res) => {
+    try {
+      const lockoutMinutes = vaultBackupService.exportLockoutMinutes(req.userId);
+      if (lockoutMinutes > 0) {
+        return res.status(429).json({ error: `Too many incorrect passwords. Try again in ${lockoutMinutes} minute${lockoutMinutes !== 1 ? 's' : ''}.` });
+      }
+
+      // Trimmed as at sign in, so the password is checked the same way
+      const password = req.body.password?.trim();
+      if (!password || !(await storage.verifyPassword(password, req.user.password))) {
+        vaultBackupService.recordExportPasswordFailure(req.userId);
+        return res.status(401).json({ error: "Incorrect password" });
+      }
+      vaultBackupService.clearExportPasswordFailures(req.userId);
+
+      const credentials = await vaultBackupService.getExportCredentials(req.userId);
+      const csv = formatCredentialsCsv(credentials);
+
+      console.log(`Plaintext credential export for user ${req.userId} (${credentials.length} credential(s))`);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="zorli-passwords-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(csv);
+    } catch (error: any) {
+      if (error instanceof VaultBackupError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error exporting credentials as CSV:", error);
+      res.status(500).json({ error: "Failed to export credentials" });
+    }
+  });
+
+  // Restore credentials from an encrypted backup (multipart "file", "passphrase", and "mode":
+  // "merge" to add to the vault or "replace" to swap it for the backup)
+  app.post("/api/credentials/restore", requireAuth, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.userId;
+      const { passphrase, mode = 'merge' } = req.body;
+      if (!req.file) {
+        return res.status(400).json({ error: "No backup file provided" });
+      }
+      if (!passphrase) {
+        return res.status(400).json({ error: "The backup's passphrase is required" });
+      }
+      if (!VAULT_RESTORE_MODES.includes(mode)) {
+        return res.status(400).json({ error: `Unknown restore mode "${mode}"` });
+      }
+
+      const payload = await vaultBackupService.openBackup(req.file.buffer, passphrase);
+
+      // Check password limit (skip check if maxPasswords is -1, which means unlimited)
+      const newPasswords = await vaultBackupService.countNewPasswords(userId, payload, mode);
+      const allowance = await credentialImportService.getPasswordAllowance(userId);
+      if (allowance.remaining !== null && newPasswords > allowance.remaining) {
+        return res.status(403).json({
+          error: 'Password limit exceeded',
+          message: `Restoring this backup would add ${newPasswords} passwords and exceed your password limit. Current: ${allowance.current}, Max: ${allowance.max}. Please upgrade your plan to restore it.`,
+          currentCount: allowance.current,
+          maxCount: allowance.max,
+          limitType: 'passwords',
+        });
+      }
+
+      const result = await vaultBackupService.restore(userId, payload, mode);
+      res.json({ success: true, data: result });
+    } catch (error: any) {
+      if (error instanceof VaultBackupError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error restoring vault backup:", error);
+      res.status(500).json({ error: "Failed to restore vault backup" });
+    }
+  });
+
   // Get single credential
   app.get("/api/credentials/:id", requireAuth, async (req: any, res) => {
     try {
@@ -3943,14 +6156,18 @@ Be conversational and helpful, but stay focused on the user's documents.`;
         passwordHint: passwordHint || null,
         category: category || null,
         isFavorite: isFavorite || false,
+        passwordStrength: scoreCredentialPassword(req.body.password, { serviceName, username, website }),
       });
 
       // Increment password count
       await storage.incrementPasswordCount(userId);
 
+      const breachCount = await breachCheckService.checkOnSave(credential, req.body.password);
+
       // Return credential with decrypted password (original plain password)
       res.json({
         ...credential,
+        breachCount,
         encryptedPassword: undefined,
         password: req.body.password,
       });
@@ -3986,13 +6203,26 @@ Be conversational and helpful, but stay focused on the user's documents.`;
       if (req.body.category !== undefined) updates.category = req.body.category;
       if (req.body.isFavorite !== undefined) updates.isFavorite = req.body.isFavorite;
       
-      // Encrypt password if provided
+      // Encrypt password if provided; the old password's breach result no longer applies
       if (req.body.password) {
         updates.encryptedPassword = encryptPassword(req.body.password);
+        updates.breachCount = null;
+        updates.breachCheckedAt = null;
+      }
+
+      // Rescore when the password or the account details it is checked against change
+      if (req.body.password || updates.serviceName !== undefined || updates.username !== undefined || updates.website !== undefined) {
+        updates.passwordStrength = scoreCredentialPassword(
+          req.body.password || decryptPassword(existingCredential.encryptedPassword),
+          { ...existingCredential, ...updates },
+        );
       }
 
       // Update credential
       const updated = await storage.updateAccountCredential(id, updates);
+      if (req.body.password) {
+        updated.breachCount = await breachCheckService.checkOnSave(updated, req.body.password);
+      }
 
       // Return without encrypted password
       res.json({
@@ -0,0 +1,97 @@
+/**
+ * Parsing of user search queries into PostgreSQL tsquery expressions
+ *
+ * Supported syntax: bare words, "quoted phrases", -excluded words or -"phrases", and OR between
+ * two terms (`invoice OR receipt`). Terms are reduced to letters and digits and passed to
+ * to_tsquery as quoted lexemes, so user input can never break the tsquery syntax
+ */
+
+export const SEARCH_CONFIG = 'english';
+
+export interface SearchTerm {
+  words: string[]; // A phrase when longer than one word
+  negated: boolean;
+}
+
+export interface ParsedSearchQuery {
+  groups: SearchTerm[][]; // Positive terms; terms within a group were joined with OR
+  excluded: SearchTerm[];
+}
+
+export interface ParseOptions {
+  ignoreWords?: Set<string>; // Dropped when they appear as standalone words
+}
+
+/**
+ * Split a query into terms, phrases, exclusions and OR groups
+ */
+export function parseSearchQuery(query: string, options: ParseOptions = {}): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { groups: [], excluded: [] };
+  let joinWithPrevious = false;
+
+  for (const match of Array.from(query.matchAll(/(-?)"([^"]*)"?|(\S+)/g))) {
+    const [, minus, phrase, bare] = match;
+
+    if (bare === 'OR' || bare === '|') {
+      joinWithPrevious = parsed.groups.length > 0;
+      continue;
+    }
+
+    const negated = minus === '-' || (bare !== undefined && bare.startsWith('-') && bare.length > 1);
+    const raw = phrase !== undefined ? phrase : negated ? bare.slice(1) : bare;
+    const words = splitWords(raw);
+    if (words.length === 0) continue;
+    if (phrase === undefined && words.length === 1 && options.ignoreWords?.has(words[0])) continue;
+
+    const term: SearchTerm = { words, negated };
+    if (negated) {
+      parsed.excluded.push(term);
+    } else if (joinWithPrevious) {
+      parsed.groups[parsed.groups.length - 1].push(term);
+    } else {
+      parsed.groups.push([term]);
+    }
+    joinWithPrevious = false;
+  }
+
+  return parsed;
+}
+
+/**
+ * Build a to_tsquery expression. In "all" mode every group must match (search boxes);
+ * in "any" mode one positive term is enough (candidate retrieval for chat)
+ * Returns null when nothing searchable is left
+ */
+export function toTsQuery(parsed: ParsedSearchQuery, mode: 'all' | 'any' = 'all'): string | null {
+  const groups = parsed.groups.filter(group => group.length > 0);
+  if (groups.length === 0) return null;
+
+  const positive = mode === 'all'
+    ? groups.map(group => group.length > 1 ? `(${group.map(termToTsQuery).join(' | ')})` : termToTsQuery(group[0])).join(' & ')
+    : `(${groups.flat().map(termToTsQuery).join(' | ')})`;
+
+  const excluded = parsed.excluded.map(term => `!${termToTsQuery(term)}`);
+  return [positive, ...excluded].join(' & ');
+}
+
+/**
+ * tsquery for a single term: a lexeme, or lexemes joined with the followed-by operator for phrases
+ */
+export function termToTsQuery(term: SearchTerm): string {
+  const lexemes = term.words.map(word => `'${word}'`);
+  return lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0];
+}
+
+/**
+ * Every positive term of the query, for per-term match counting
+ */
+export function positiveTerms(parsed: ParsedSearchQuery): SearchTerm[] {
+  return parsed.groups.flat();
+}
+
+function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF\u0590-\u06FF\u0900-\u097F\u3040-\u30FF\u4E00-\u9FFF\uAC00-\uD7AF]+/)
+    .filter(Boolean);
+}
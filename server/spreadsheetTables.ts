@@ -0,0 +1,206 @@
+import XLSX from 'xlsx';
+import { normalizeDate } from './fieldExtractionService';
+import type { DocumentTableCell, DocumentTableColumn } from '@shared/schema';
+
+// Typed tables read from spreadsheets and CSV files: one per sheet, headed by its first non-empty row
+
+const MAX_TABLE_ROWS = 20000;
+const MAX_TABLE_COLUMNS = 100;
+const MAX_LISTED_VALUES = 50; // Text columns with more distinct values than this don't list them
+const MAX_LISTED_VALUE_LENGTH = 60;
+
+export interface ExtractedTable {
+  sheetName: string | null; // null for CSV files
+  columns: DocumentTableColumn[];
+  rows: DocumentTableCell[][];
+  rowNumbers: number[]; // Sheet row number (1-based) of each data row
+  truncated: boolean; // Rows past MAX_TABLE_ROWS were left out, so aggregates cover only the first ones
+}
+
+type RawCell = string | number | boolean | Date | null;
+
+/**
+ * "A", "B", ... "Z", "AA" for a 0-based column index
+ */
+export function columnLetter(index: number): string {
+  return XLSX.utils.encode_col(index);
+}
+
+/**
+ * One table per sheet of a workbook read with `cellNF` set, so date-formatted numbers can be told apart
+ */
+export function tablesFromWorkbook(workbook: XLSX.WorkBook): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+  for (const sheetName of workbook.SheetNames) {
+    const worksheet = workbook.Sheets[sheetName];
+    if (!worksheet?.['!ref']) continue;
+
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const lastColumn = Math.min(range.e.c, range.s.c + MAX_TABLE_COLUMNS - 1);
+    const matrix: Array<{ rowNumber: number; cells: RawCell[] }> = [];
+    for (let r = range.s.r; r <= range.e.r && matrix.length <= MAX_TABLE_ROWS; r++) {
+      const cells: RawCell[] = [];
+      for (let c = range.s.c; c <= lastColumn; c++) {
+        cells.push(readCell(worksheet[XLSX.utils.encode_cell({ r, c })]));
+      }
+      matrix.push({ rowNumber: r + 1, cells });
+    }
+    const lastRead = range.s.r + matrix.length - 1;
+    const truncated = lastRead < range.e.r && hasValuesAfter(worksheet, lastRead + 1, range.e.r, range.s.c, lastColumn);
+
+    const table = buildTable(sheetName, range.s.c, matrix, truncated);
+    if (table) {
+      tables.push(table);
+    }
+  }
+  return tables;
+}
+
+/**
+ * The table of a CSV file from its header and its rows as csv-parser returns them
+ */
+export function tableFromCsv(headers: string[], rows: Array<Record<string, string>>): ExtractedTable | null {
+  const matrix = [
+    { rowNumber: 1, cells: headers.slice(0, MAX_TABLE_COLUMNS) as RawCell[] },
+    ...rows.slice(0, MAX_TABLE_ROWS).map((row, index) => ({
+      rowNumber: index + 2,
+      cells: headers.slice(0, MAX_TABLE_COLUMNS).map(header => row[header] ?? null) as RawCell[],
+    })),
+  ];
+  const truncated = rows.slice(MAX_TABLE_ROWS).some(row => Object.values(row).some(value => value?.trim()));
+  return buildTable(null, 0, matrix, truncated);
+}
+
+// Whether any cell in the rows and columns has a value, stopping at the first one
+function hasValuesAfter(worksheet: XLSX.WorkSheet, firstRow: number, lastRow: number, firstColumn: number, lastColumn: number): boolean {
+  for (let r = firstRow; r <= lastRow; r++) {
+    for (let c = firstColumn; c <= lastColumn; c++) {
+      const value = readCell(worksheet[XLSX.utils.encode_cell({ r, c })]);
+      if (value !== null && !(typeof value === 'string' && !value.trim())) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function readCell(cell: XLSX.CellObject | undefined): RawCell {
+  if (!cell || cell.v === undefined || cell.v === null || cell.t === 'e' || cell.t === 'z') {
+    return null;
+  }
+  if (cell.t === 'd' && cell.v instanceof Date) {
+    return cell.v;
+  }
+  if (cell.t === 'n' && typeof cell.v === 'number' && cell.z && XLSX.SSF.is_date(cell.z)) {
+    const parsed = XLSX.SSF.parse_date_code(cell.v);
+    if (parsed) {
+      return new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d));
+    }
+  }
+  return cell.v as string | number | boolean;
+}
+
+/**
+ * Header from the first non-empty row, empty columns dropped, and each column typed by its values
+ */
+function buildTable(sheetName: string | null, firstColumn: number, matrix: Array<{ rowNumber: number; cells: RawCell[] }>, truncated: boolean): ExtractedTable | null {
+  const isEmpty = (value: RawCell) => value === null || (typeof value === 'string' && !value.trim());
+  const headerIndex = matrix.findIndex(row => row.cells.some(cell => !isEmpty(cell)));
+  if (headerIndex === -1) {
+    return null;
+  }
+  const header = matrix[headerIndex].cells;
+  const dataRows = matrix.slice(headerIndex + 1).filter(row => row.cells.some(cell => !isEmpty(cell)));
+  if (dataRows.length === 0) {
+    return null;
+  }
+
+  const keep = header
+    .map((_, index) => index)
+    .filter(index => !isEmpty(header[index]) || dataRows.some(row => !isEmpty(row.cells[index] ?? null)));
+
+  const usedNames = new Map<string, number>();
+  const columns: DocumentTableColumn[] = [];
+  const converters: Array<(value: RawCell) => DocumentTableCell> = [];
+  for (const index of keep) {
+    const letter = columnLetter(firstColumn + index);
+    let name = isEmpty(header[index]) ? `Column ${letter}` : cellText(header[index]);
+    const seen = usedNames.get(name.toLowerCase()) || 0;
+    usedNames.set(name.toLowerCase(), seen + 1);
+    if (seen > 0) {
+      name = `${name} (${seen + 1})`;
+    }
+
+    const values = dataRows.map(row => row.cells[index] ?? null).filter(value => !isEmpty(value));
+    const type = columnType(values);
+    const convert = (value: RawCell) => isEmpty(value) ? null : convertCell(value, type);
+    columns.push({ name, letter, type });
+    converters.push(convert);
+
+    if (type === 'text') {
+      const distinct = Array.from(new Set(values.map(value => cellText(value))));
+      if (distinct.length <= MAX_LISTED_VALUES && distinct.every(value => value.length <= MAX_LISTED_VALUE_LENGTH)) {
+        columns[columns.length - 1].values = distinct;
+      }
+    }
+  }
+
+  return {
+    sheetName,
+    columns,
+    rows: dataRows.map(row => keep.map((index, position) => converters[position](row.cells[index] ?? null))),
+    rowNumbers: dataRows.map(row => row.rowNumber),
+    truncated,
+  };
+}
+
+/**
+ * A column is numeric, a date or boolean only when every value in it reads as one
+ */
+function columnType(values: RawCell[]): DocumentTableColumn['type'] {
+  if (values.length === 0) return 'text';
+  if (values.every(value => typeof value === 'boolean' || (typeof value === 'string' && /^(true|false)$/i.test(value.trim())))) {
+    return 'boolean';
+  }
+  if (values.every(value => value instanceof Date || (typeof value === 'string' && normalizeDate(value) !== null))) {
+    return 'date';
+  }
+  if (values.every(value => typeof value === 'number' || (typeof value === 'string' && parseNumber(value) !== null))) {
+    return 'number';
+  }
+  return 'text';
+}
+
+function convertCell(value: RawCell, type: DocumentTableColumn['type']): DocumentTableCell {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).trim().toLowerCase() === 'true';
+    case 'date':
+      return value instanceof Date ? value.toISOString().slice(0, 10) : normalizeDate(String(value));
+    case 'number':
+      return typeof value === 'number' ? value : parseNumber(String(value));
+    default:
+      return cellText(value);
+  }
+}
+
+function cellText(value: RawCell): string {
+  return value instanceof Date ? value.toISOString().slice(0, 10) : String(value).trim();
+}
+
+/**
+ * Numbers as written in spreadsheets and CSV exports: currency symbols, thousands separators,
+ * and accounting negatives in parentheses
+ */
+export function parseNumber(value: string): number | null {
+  let text = value.trim().replace(/^[$€£¥₹]\s*|\s*[$€£¥₹]$/g, '').replace(/\s/g, '');
+  const negative = /^\(.*\)$/.test(text);
+  if (negative) {
+    text = text.slice(1, -1);
+  }
+  if (!/^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(text) && !/^[-+]?\.\d+$/.test(text)) {
+    return null;
+  }
+  const number = Number(text.replace(/,/g, ''));
+  return Number.isFinite(number) ? (negative ? -number : number) : null;
+}
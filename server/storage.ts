@@ -8,6 +8,71 @@ type FileRecord = DocumentRecord;
 type InsertFile = InsertDocument;
 
 // Storage interface for Zorli AI Vault
+// Filters pushed into SQL for chunk retrieval
+export interface TextChunkSearchOptions {
+  userId?: string;
+  fileIds?: string[];
+  limit?: number;
+  embeddingModel?: { provider: string; model: string }; // Only match chunks embedded with this model
+  includeAllVersions?: boolean; // Also match chunks cut from earlier versions of a document
+  searchConfigs?: string[]; // Text search configurations the keyword query is stemmed with; English when omitted
+}
+
+// Filters for listing a user's files
+export interface FileListFilters {
+  folderId?: string | null; // One folder's direct contents: null for the vault root, undefined for every file
+  tagIds?: string[]; // Files carrying every one of these tags
+}
+
+// Ordering and filtering for listing a user's saved credentials
+export interface AccountCredentialListOptions {
+  limit?: number;
+  offset?: number;
+  sort?: AccountCredentialSort;
+  weakOnly?: boolean; // Only credentials whose stored strength score counts as weak
+}
+
+// 'updated' lists the most recently changed first; 'weakest' the lowest strength score first, unscored last
+export type AccountCredentialSort = 'updated' | 'name' | 'weakest';
+
+// Filters for querying the structured fields extracted from a user's documents. Dates are YYYY-MM-DD
+export interface DocumentFieldFilters {
+  documentType?: string;
+  vendor?: string; // Case-insensitive substring
+  currency?: string;
+  dateFrom?: string; // Document date, inclusive
+  dateTo?: string;
+  expiresBefore?: string; // Expiry date, inclusive
+  fileIds?: string[];
+}
+
+export type DocumentFieldGroupBy = 'vendor' | 'month' | 'currency' | 'document_type';
+
+// Sums are never mixed across currencies, so every group is also split by currency
+export interface DocumentFieldAggregate {
+  group: string | null; // Vendor, YYYY-MM month or document type; null when not grouped or the field is empty
+  currency: string | null;
+  documentCount: number;
+  totalAmount: number;
+}
+
+// A reminder with the document it belongs to
+export type DocumentReminderWithFile = DocumentReminderRecord & { filename: string };
+
+// A reminder that may be due for an email, with what the scheduler needs about its owner
+export type PendingReminderNotification = DocumentReminderWithFile & { email: string | null; leadDays: number[] };
+
+// A stored email message with the document it was read from
+export type EmailMessageWithFile = EmailMessageRecord & { filename: string };
+
+// A spreadsheet table without its cells, with the document it was read from
+export type DocumentTableSummary = Omit<DocumentTableRecord, 'rows' | 'rowNumbers'> & { filename: string };
+
+// The uploaded file behind a new document version
+export type NewDocumentVersion = Pick<InsertDocumentVersion, 'filename' | 'fileSize' | 'fileType' | 'storagePath' | 'contentHash'>;
+
+export type NewTextChunk = {id: string, fileId: string, userId: string, content: string, chunkIndex: number, version?: number, embedding?: number[], embeddingProvider?: string, embeddingModel?: string, embeddingDimension?: number, metadata?: any};
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -17,39 +82,133 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUserStripeInfo(id: string, stripeCustomerId: string, stripeSubscriptionId?: string): Promise<User>;
   updateUserProfile(id: string, updates: { username?: string; profilePictureUrl?: string }): Promise<User>;
+  updateUserTrashRetention(id: string, days: number): Promise<User>;
+  updateUserReminderSettings(id: string, settings: { leadDays?: number[]; emailsEnabled?: boolean }): Promise<User>;
+  updateUserOcrLanguages(id: string, languages: string[]): Promise<User>;
   getAllUsers(): Promise<User[]>;
   deleteUser(id: string): Promise<void>;
   verifyPassword(plainPassword: string, hashedPassword: string): Promise<boolean>;
   
   // File operations
   getFile(id: string): Promise<FileRecord | undefined>;
-  getFilesByUserId(userId: string, limit?: number, offset?: number): Promise<FileRecord[]>;
+  getFilesByUserId(userId: string, limit?: number, offset?: number, filters?: FileListFilters): Promise<FileRecord[]>;
+  getFilesInFolders(userId: string, folderIds: string[], tagIds?: string[]): Promise<FileRecord[]>;
+  moveFilesToFolder(userId: string, fileIds: string[], folderId: string | null): Promise<number>;
+  getFilesByContentHash(userId: string, contentHashes: string[]): Promise<FileRecord[]>;
+  getChildDocuments(parentDocumentIds: string[]): Promise<FileRecord[]>;
+  getContentHashDuplicates(userId: string): Promise<Array<{ contentHash: string; fileIds: string[] }>>;
+  findSimilarFilePairs(userId: string, embeddingModel: { provider: string; model: string }, minSimilarity: number, limit?: number): Promise<Array<{ fileId: string; otherFileId: string; similarity: number }>>;
   createFile(file: InsertFile): Promise<FileRecord>;
   updateFile(id: string, updates: Partial<FileRecord>): Promise<FileRecord>;
   updateFileAIAnalysis(id: string, analysis: any): Promise<FileRecord>;
   deleteFile(id: string): Promise<void>;
+
+  // Trash: deleted documents stay restorable until they are purged
+  trashFiles(userId: string, fileIds: string[]): Promise<number>;
+  restoreFiles(userId: string, fileIds: string[]): Promise<FileRecord[]>;
+  getTrashedFiles(userId: string): Promise<FileRecord[]>;
+  getExpiredTrashedFiles(limit?: number): Promise<FileRecord[]>;
+
+  // Document version history
+  getDocumentVersions(documentId: string): Promise<DocumentVersionRecord[]>;
+  getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersionRecord | undefined>;
+  addDocumentVersion(documentId: string, upload: NewDocumentVersion): Promise<{ document: FileRecord; version: DocumentVersionRecord }>;
+  restoreDocumentVersion(documentId: string, versionNumber: number): Promise<FileRecord>;
+  setDocumentVersionText(documentId: string, versionNumber: number, extractedText: string): Promise<void>;
   
   // Job operations
   getJob(id: string): Promise<JobRecord | undefined>;
   getJobsByUserId(userId: string, limit?: number, offset?: number): Promise<JobRecord[]>;
   createJob(job: InsertJob): Promise<JobRecord>;
   updateJobStatus(id: string, status: string, progress?: number, result?: any, error?: string): Promise<JobRecord>;
+  updateJob(id: string, updates: Partial<JobRecord>): Promise<JobRecord>;
+  getJobsByType(jobType: string, limit?: number): Promise<JobRecord[]>;
   deleteJob(id: string): Promise<void>;
   
   // Vector search operations for RAG
   searchSimilarDocuments(userId: string, queryEmbedding: number[], limit?: number): Promise<DocumentRecord[]>;
-  searchSimilarTextChunks(userId: string, queryEmbedding: number[], limit?: number): Promise<TextChunkRecord[]>;
+  searchSimilarTextChunks(userId: string, queryEmbedding: number[], limit?: number, embeddingModel?: { provider: string; model: string }): Promise<TextChunkRecord[]>;
   updateDocumentEmbedding(id: string, embedding: number[]): Promise<DocumentRecord>;
-  addTextChunks(chunks: Array<{id: string, fileId: string, userId: string, content: string, chunkIndex: number, embedding?: number[], metadata?: any}>): Promise<void>;
-  getAllTextChunks(): Promise<TextChunkRecord[]>;
+  addTextChunks(chunks: NewTextChunk[]): Promise<void>;
+  replaceTextChunks(fileId: string, chunks: NewTextChunk[]): Promise<void>;
+  getAllTextChunks(userId?: string): Promise<TextChunkRecord[]>;
+  getTextChunk(id: string): Promise<TextChunkRecord | undefined>;
+  findNearestTextChunks(queryEmbedding: number[], options: TextChunkSearchOptions): Promise<Array<{ chunk: TextChunkRecord; similarity: number }>>;
+  searchTextChunksFullText(query: ParsedSearchQuery, options: TextChunkSearchOptions): Promise<Array<{ chunk: TextChunkRecord; rank: number; matchRatio: number }>>;
+  getTextChunkLanguages(options: TextChunkSearchOptions): Promise<Array<string | null>>;
+  getDocumentLanguages(userId: string, fileIds?: string[]): Promise<Array<string | null>>;
+  deleteTextChunksByFileId(fileId: string): Promise<void>;
+  getTextChunkEmbeddingModels(fileId?: string, version?: number): Promise<Array<{ provider: string; model: string; dimension: number | null; count: number }>>;
+  getDocumentsAfter(afterId: string | null, limit: number): Promise<Array<Pick<DocumentRecord, 'id' | 'userId' | 'filename' | 'extractedText' | 'currentVersion'>>>;
+  countDocuments(): Promise<number>;
   createShareLink(documentId: string): Promise<string>;
   getDocumentByShareToken(shareToken: string): Promise<DocumentRecord | undefined>;
   
+  // Folder operations for organising documents
+  getFolder(id: string): Promise<FolderRecord | undefined>;
+  getFoldersByUserId(userId: string): Promise<FolderRecord[]>;
+  createFolder(folder: InsertFolder): Promise<FolderRecord>;
+  updateFolder(id: string, updates: Partial<FolderRecord>): Promise<FolderRecord>;
+  deleteFolder(id: string): Promise<void>;
+  getFolderSubtreeIds(userId: string, folderId: string): Promise<string[]>;
+  getFolderPath(userId: string, folderId: string): Promise<FolderRecord[]>;
+
+  // Tag operations for labelling documents
+  getTag(id: string): Promise<TagRecord | undefined>;
+  getTagByName(userId: string, name: string): Promise<TagRecord | undefined>;
+  getTagsByUserId(userId: string): Promise<Array<TagRecord & { documentCount: number }>>;
+  createTag(tag: InsertTag): Promise<TagRecord>;
+  updateTag(id: string, updates: Partial<TagRecord>): Promise<TagRecord>;
+  deleteTag(id: string): Promise<void>;
+  getTagsForFiles(fileIds: string[]): Promise<Array<{ documentId: string; source: string; tag: TagRecord }>>;
+  addTagToFile(fileId: string, tagId: string, source?: 'user' | 'ai'): Promise<void>;
+  removeTagFromFile(fileId: string, tagId: string): Promise<void>;
+  getTagSuggestion(id: string): Promise<TagSuggestionRecord | undefined>;
+  getTagSuggestionsForFiles(fileIds: string[], status?: string): Promise<TagSuggestionRecord[]>;
+  createTagSuggestions(suggestions: InsertTagSuggestion[]): Promise<TagSuggestionRecord[]>;
+  updateTagSuggestion(id: string, updates: Partial<TagSuggestionRecord>): Promise<TagSuggestionRecord>;
+
+  // Structured fields extracted from documents
+  getDocumentFields(documentId: string): Promise<DocumentFieldsRecord | undefined>;
+  upsertDocumentFields(fields: InsertDocumentFields): Promise<DocumentFieldsRecord | undefined>;
+  updateDocumentFields(documentId: string, updates: Partial<DocumentFieldsRecord>): Promise<DocumentFieldsRecord>;
+  queryDocumentFields(userId: string, filters?: DocumentFieldFilters, limit?: number): Promise<Array<DocumentFieldsRecord & { filename: string }>>;
+  aggregateDocumentFields(userId: string, filters?: DocumentFieldFilters, groupBy?: DocumentFieldGroupBy): Promise<DocumentFieldAggregate[]>;
+
+  // Expiry and renewal reminders
+  getReminder(id: string): Promise<DocumentReminderRecord | undefined>;
+  getRemindersByUserId(userId: string, options?: { dueBefore?: string; includeDismissed?: boolean; limit?: number }): Promise<DocumentReminderWithFile[]>;
+  getRemindersForFile(documentId: string): Promise<DocumentReminderRecord[]>;
+  createReminder(reminder: InsertDocumentReminder): Promise<DocumentReminderRecord>;
+  updateReminder(id: string, updates: Partial<DocumentReminderRecord>): Promise<DocumentReminderRecord>;
+  deleteReminder(id: string): Promise<void>;
+  replaceDetectedReminders(documentId: string, userId: string, reminders: Array<Pick<InsertDocumentReminder, 'kind' | 'dueDate' | 'label'>>): Promise<DocumentReminderRecord[]>;
+  getPendingReminderNotifications(from: string, to: string): Promise<PendingReminderNotification[]>;
+
+  // Messages of email and mailbox documents
+  getEmailMessages(documentId: string): Promise<EmailMessageRecord[]>;
+  replaceEmailMessages(documentId: string, userId: string, messages: Array<Omit<InsertEmailMessage, 'documentId' | 'userId'>>): Promise<EmailMessageRecord[]>;
+  findEmailMessagesBySender(userId: string, senderTerms: string[], fileIds?: string[], limit?: number): Promise<EmailMessageWithFile[]>;
+
+  // Tables of spreadsheet and CSV documents
+  getDocumentTable(id: string): Promise<DocumentTableRecord | undefined>;
+  getDocumentTables(documentId: string): Promise<DocumentTableRecord[]>;
+  getDocumentTableSummaries(userId: string, fileIds?: string[], limit?: number): Promise<DocumentTableSummary[]>;
+  replaceDocumentTables(documentId: string, userId: string, tables: Array<Omit<InsertDocumentTable, 'documentId' | 'userId'>>): Promise<void>;
+  
+  // Conversation operations for named chat threads
+  getConversation(id: string): Promise<ConversationRecord | undefined>;
+  getConversationsByUserId(userId: string, options?: { archived?: boolean }): Promise<ConversationRecord[]>;
+  createConversation(conversation: InsertConversation): Promise<ConversationRecord>;
+  updateConversation(id: string, updates: Partial<ConversationRecord>): Promise<ConversationRecord>;
+  deleteConversation(id: string): Promise<void>;
+  adoptLegacyChatMessages(userId: string): Promise<ConversationRecord | undefined>;
+  
   // Chat message operations for persistent conversation history
   addChatMessage(chatMessage: InsertChatMessage): Promise<ChatMessageRecord>;
-  getChatMessages(userId: string, limit?: number): Promise<ChatMessageRecord[]>;
+  getChatMessages(userId: string, limit?: number, conversationId?: string): Promise<ChatMessageRecord[]>;
   deleteChatMessage(id: string): Promise<void>;
-  clearChatHistory(userId: string): Promise<void>;
+  clearChatHistory(userId: string, conversationId?: string): Promise<void>;
   
   // Dashboard metrics operations
   getDashboardMetrics(userId: string): Promise<{
@@ -97,10 +256,15 @@ export interface IStorage {
   
   // Account credentials operations
   getAccountCredential(id: string): Promise<AccountCredentialRecord | undefined>;
-  getAccountCredentialsByUserId(userId: string, limit?: number, offset?: number): Promise<AccountCredentialRecord[]>;
+  getAccountCredentialsByUserId(userId: string, options?: AccountCredentialListOptions): Promise<AccountCredentialRecord[]>;
+  getUnscoredAccountCredentials(userId: string): Promise<AccountCredentialRecord[]>;
+  setAccountCredentialStrength(id: string, passwordStrength: number): Promise<void>;
+  getAccountCredentialsDueForBreachCheck(checkedBefore: Date, limit: number): Promise<AccountCredentialRecord[]>;
+  setAccountCredentialBreach(id: string, breachCount: number | null): Promise<void>;
   createAccountCredential(credential: InsertAccountCredential): Promise<AccountCredentialRecord>;
   updateAccountCredential(id: string, updates: Partial<AccountCredentialRecord>): Promise<AccountCredentialRecord>;
   deleteAccountCredential(id: string): Promise<void>;
+  replaceAccountCredentials(userId: string, credentials: InsertAccountCredential[]): Promise<{ removed: number; created: AccountCredentialRecord[] }>;
   getAccountCredentialsCount(userId: string): Promise<number>;
   
   // Admin aggregation operations
@@ -122,14 +286,25 @@ export interface IStorage {
 
 // Database storage implementation using Drizzle ORM
 import { db } from "./db";
-import { users as usersTable, documents as documentsTable, jobs as jobsTable, textChunks as textChunksTable, chatMessages as chatMessagesTable, authSessions as authSessionsTable, subscriptionPlans as subscriptionPlansTable, userSubscriptions as userSubscriptionsTable, accountCredentials as accountCredentialsTable, subscriptionUsage as subscriptionUsageTable, passwordResets as passwordResetsTable, type TextChunkRecord, type InsertTextChunk, type ChatMessageRecord, type InsertChatMessage, type AuthSessionRecord, type InsertAuthSession } from "@shared/schema";
+import { users as usersTable, documents as documentsTable, jobs as jobsTable, textChunks as textChunksTable, chatMessages as chatMessagesTable, conversations as conversationsTable, folders as foldersTable, documentVersions as documentVersionsTable, tags as tagsTable, documentTags as documentTagsTable, tagSuggestions as tagSuggestionsTable, documentFields as documentFieldsTable, documentReminders as documentRemindersTable, emailMessages as emailMessagesTable, documentTables as documentTablesTable, authSessions as authSessionsTable, subscriptionPlans as subscriptionPlansTable, userSubscriptions as userSubscriptionsTable, accountCredentials as accountCredentialsTable, subscriptionUsage as subscriptionUsageTable, passwordResets as passwordResetsTable, type TextChunkRecord, type InsertTextChunk, type ChatMessageRecord, type InsertChatMessage, type ConversationRecord, type InsertConversation, type FolderRecord, type InsertFolder, type DocumentVersionRecord, type InsertDocumentVersion, type TagRecord, type InsertTag, type TagSuggestionRecord, type InsertTagSuggestion, type DocumentFieldsRecord, type InsertDocumentFields, type DocumentReminderRecord, type InsertDocumentReminder, type EmailMessageRecord, type InsertEmailMessage, type DocumentTableRecord, type InsertDocumentTable, type AuthSessionRecord, type InsertAuthSession } from "@shared/schema";
 import { randomBytes } from "crypto";
+import { LEGACY_EMBEDDING_MODEL } from "./embeddingsService";
+import { WEAK_PASSWORD_SCORE } from "@shared/passwordStrength";
+import { SEARCH_CONFIG, toTsQuery, termToTsQuery, positiveTerms, type ParsedSearchQuery } from "./searchQuery";
 
 // Backward compatibility alias
 const filesTable = documentsTable;
-import { eq, sql, cosineDistance, desc as descOrder, isNotNull, and, or } from "drizzle-orm";
+
+// Rows per insert when replacing credentials, well under Postgres' bind parameter limit
+const CREDENTIAL_INSERT_BATCH = 500;
+
+// Scopes with at most this many chunks are searched exactly instead of through the HNSW index
+const EXACT_VECTOR_SCAN_MAX_CHUNKS = 20000;
+import { eq, sql, cosineDistance, desc as descOrder, isNotNull, isNull, and, or, inArray, gt, gte, lte, ilike, getTableColumns, type SQL } from "drizzle-orm";
 
 export class DatabaseStorage implements IStorage {
+  private iterativeScanSupport?: Promise<boolean>;
+
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(usersTable).where(eq(usersTable.id, id));
@@ -279,6 +454,49 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserTrashRetention(id: string, days: number): Promise<User> {
+    const [user] = await db
+      .update(usersTable)
+      .set({ trashRetentionDays: days, updatedAt: new Date() })
+      .where(eq(usersTable.id, id))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+  async updateUserReminderSettings(id: string, settings: { leadDays?: number[]; emailsEnabled?: boolean }): Promise<User> {
+    const [user] = await db
+      .update(usersTable)
+      .set({
+        ...(settings.leadDays !== undefined ? { reminderLeadDays: settings.leadDays } : {}),
+        ...(settings.emailsEnabled !== undefined ? { reminderEmailsEnabled: settings.emailsEnabled } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(usersTable.id, id))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+  async updateUserOcrLanguages(id: string, languages: string[]): Promise<User> {
+    const [user] = await db
+      .update(usersTable)
+      .set({ ocrLanguages: languages, updatedAt: new Date() })
+      .where(eq(usersTable.id, id))
+      .returning();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+
+
   async updateUserProfile(id: string, updates: { username?: string; profilePictureUrl?: string }): Promise<User> {
     const [user] = await db
       .update(usersTable)
@@ -310,17 +528,150 @@ export class DatabaseStorage implements IStorage {
     return file || undefined;
   }
 
-  async getFilesByUserId(userId: string, limit = 50, offset = 0): Promise<FileRecord[]> {
+  async getFilesByUserId(userId: string, limit = 50, offset = 0, filters: FileListFilters = {}): Promise<FileRecord[]> {
+    const conditions = [eq(filesTable.userId, userId), isNull(filesTable.deletedAt), ...this.tagConditions(filters.tagIds)];
+    if (filters.folderId !== undefined) {
+      conditions.push(filters.folderId === null ? isNull(filesTable.folderId) : eq(filesTable.folderId, filters.folderId));
+    }
+
     const userFiles = await db
       .select()
       .from(filesTable)
-      .where(eq(filesTable.userId, userId))
+      .where(and(...conditions))
       .limit(limit)
       .offset(offset);
     
     return userFiles;
   }
 
+  async getFilesInFolders(userId: string, folderIds: string[], tagIds?: string[]): Promise<FileRecord[]> {
+    if (folderIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(filesTable)
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        inArray(filesTable.folderId, folderIds),
+        ...this.tagConditions(tagIds)
+      ));
+  }
+
+  // One condition per tag, so a file must carry all of them
+  private tagConditions(tagIds?: string[]) {
+    return (tagIds || []).map(tagId => inArray(
+      filesTable.id,
+      db.select({ id: documentTagsTable.documentId }).from(documentTagsTable).where(eq(documentTagsTable.tagId, tagId))
+    ));
+  }
+
+  async moveFilesToFolder(userId: string, fileIds: string[], folderId: string | null): Promise<number> {
+    if (fileIds.length === 0) {
+      return 0;
+    }
+    const moved = await db
+      .update(filesTable)
+      .set({ folderId, updatedAt: new Date() })
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        inArray(filesTable.id, fileIds)
+      ))
+      .returning({ id: filesTable.id });
+    return moved.length;
+  }
+
+  // Oldest first, so the original upload is the one reported as the existing copy
+  async getFilesByContentHash(userId: string, contentHashes: string[]): Promise<FileRecord[]> {
+    if (contentHashes.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(filesTable)
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        inArray(filesTable.contentHash, contentHashes)
+      ))
+      .orderBy(filesTable.createdAt);
+  }
+
+  // Attachments extracted from the given email documents, trashed or not
+  async getChildDocuments(parentDocumentIds: string[]): Promise<FileRecord[]> {
+    if (parentDocumentIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(filesTable)
+      .where(inArray(filesTable.parentDocumentId, parentDocumentIds))
+      .orderBy(filesTable.createdAt);
+  }
+
+  // The files with their attachments, and the attachments of attached emails, at any depth
+  private async withChildDocumentIds(fileIds: string[]): Promise<string[]> {
+    const ids = Array.from(new Set(fileIds));
+    let parents = ids;
+    while (parents.length > 0) {
+      parents = (await this.getChildDocuments(parents)).map(child => child.id).filter(id => !ids.includes(id));
+      ids.push(...parents);
+    }
+    return ids;
+  }
+
+  // Groups of files with byte-identical content
+  async getContentHashDuplicates(userId: string): Promise<Array<{ contentHash: string; fileIds: string[] }>> {
+    const rows = await db
+      .select({
+        contentHash: filesTable.contentHash,
+        fileIds: sql<string[]>`array_agg(${filesTable.id} order by ${filesTable.createdAt})`,
+      })
+      .from(filesTable)
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        isNotNull(filesTable.contentHash)
+      ))
+      .groupBy(filesTable.contentHash)
+      .having(sql`count(*) > 1`);
+    return rows.map(row => ({ contentHash: row.contentHash!, fileIds: row.fileIds }));
+  }
+
+  // Pairs of files whose mean chunk embeddings (within one model) are at least minSimilarity apart
+  // by cosine similarity. Compares every pair of the user's files, which is fine at vault sizes
+  async findSimilarFilePairs(
+    userId: string,
+    embeddingModel: { provider: string; model: string },
+    minSimilarity: number,
+    limit = 200
+  ): Promise<Array<{ fileId: string; otherFileId: string; similarity: number }>> {
+    const rows = await db.execute(sql`
+      WITH file_vectors AS (
+        SELECT ${textChunksTable.fileId} AS file_id, avg(${textChunksTable.embedding}) AS embedding
+        FROM ${textChunksTable}
+        WHERE ${and(
+          eq(textChunksTable.userId, userId),
+          eq(textChunksTable.isCurrentVersion, true),
+          isNotNull(textChunksTable.embedding),
+          this.embeddingModelCondition(embeddingModel),
+          this.liveChunkCondition()
+        )}
+        GROUP BY ${textChunksTable.fileId}
+      )
+      SELECT a.file_id AS "fileId", b.file_id AS "otherFileId", 1 - (a.embedding <=> b.embedding) AS similarity
+      FROM file_vectors a
+      JOIN file_vectors b ON a.file_id < b.file_id
+      WHERE 1 - (a.embedding <=> b.embedding) >= ${minSimilarity}
+      ORDER BY similarity DESC
+      LIMIT ${limit}
+    `);
+    return (rows as unknown as Array<{ fileId: string; otherFileId: string; similarity: number | string }>)
+      .map(row => ({ fileId: row.fileId, otherFileId: row.otherFileId, similarity: Number(row.similarity) }));
+  }
+
   async getDashboardMetrics(userId: string): Promise<{
     filesCount: number;
     aiAnalysesCount: number;
@@ -401,6 +752,135 @@ export class DatabaseStorage implements IStorage {
     return file;
   }
 
+  // Newest first. Documents never given a second version have no rows
+  async getDocumentVersions(documentId: string): Promise<DocumentVersionRecord[]> {
+    return db
+      .select()
+      .from(documentVersionsTable)
+      .where(eq(documentVersionsTable.documentId, documentId))
+      .orderBy(descOrder(documentVersionsTable.versionNumber));
+  }
+
+  async getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersionRecord | undefined> {
+    const [version] = await db
+      .select()
+      .from(documentVersionsTable)
+      .where(and(eq(documentVersionsTable.documentId, documentId), eq(documentVersionsTable.versionNumber, versionNumber)));
+    return version || undefined;
+  }
+
+  // Record an upload as the next version and point the document at it. The previous version's chunks
+  // keep serving searches until the new version's chunks are stored
+  async addDocumentVersion(documentId: string, upload: NewDocumentVersion): Promise<{ document: FileRecord; version: DocumentVersionRecord }> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(filesTable).where(eq(filesTable.id, documentId)).for('update');
+      if (!current) {
+        throw new Error('File not found');
+      }
+
+      const [latest] = await tx
+        .select({ versionNumber: documentVersionsTable.versionNumber })
+        .from(documentVersionsTable)
+        .where(eq(documentVersionsTable.documentId, documentId))
+        .orderBy(descOrder(documentVersionsTable.versionNumber))
+        .limit(1);
+
+      // Snapshot the version the document was uploaded with before it gets its first successor
+      if (!latest) {
+        await tx.insert(documentVersionsTable).values({
+          documentId,
+          versionNumber: current.currentVersion,
+          filename: current.filename,
+          fileSize: current.fileSize,
+          fileType: current.fileType,
+          storagePath: current.storagePath,
+          contentHash: current.contentHash,
+          extractedText: current.extractedText,
+          createdAt: current.createdAt,
+        });
+      }
+
+      const versionNumber = Math.max(latest?.versionNumber ?? 0, current.currentVersion) + 1;
+      const [version] = await tx
+        .insert(documentVersionsTable)
+        .values({ ...upload, documentId, versionNumber })
+        .returning();
+
+      const [document] = await tx
+        .update(filesTable)
+        .set({
+          ...upload,
+          currentVersion: versionNumber,
+          downloadUrl: null,
+          extractedText: null,
+          language: null,
+          embeddingStatus: 'pending',
+          updatedAt: new Date(),
+        })
+        .where(eq(filesTable.id, documentId))
+        .returning();
+
+      return { document, version };
+    });
+  }
+
+  // Make an earlier version current again: the document takes its file fields and text, and retrieval
+  // switches to its chunks
+  async restoreDocumentVersion(documentId: string, versionNumber: number): Promise<FileRecord> {
+    return db.transaction(async (tx) => {
+      const [version] = await tx
+        .select()
+        .from(documentVersionsTable)
+        .where(and(eq(documentVersionsTable.documentId, documentId), eq(documentVersionsTable.versionNumber, versionNumber)));
+      if (!version) {
+        throw new Error('Version not found');
+      }
+      // Versions don't record a language, their chunks were stemmed in the one detected when they were indexed
+      const [chunk] = await tx
+        .select({ language: sql<string | null>`${textChunksTable.metadata}->>'language'` })
+        .from(textChunksTable)
+        .where(and(eq(textChunksTable.fileId, documentId), eq(textChunksTable.version, versionNumber)))
+        .limit(1);
+
+      const [document] = await tx
+        .update(filesTable)
+        .set({
+          filename: version.filename,
+          fileSize: version.fileSize,
+          fileType: version.fileType,
+          storagePath: version.storagePath,
+          contentHash: version.contentHash,
+          extractedText: version.extractedText,
+          language: chunk?.language ?? null,
+          currentVersion: versionNumber,
+          downloadUrl: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(filesTable.id, documentId))
+        .returning();
+      if (!document) {
+        throw new Error('File not found');
+      }
+
+      await this.setCurrentChunkVersion(tx, documentId, versionNumber);
+      return document;
+    });
+  }
+
+  async setDocumentVersionText(documentId: string, versionNumber: number, extractedText: string): Promise<void> {
+    await db
+      .update(documentVersionsTable)
+      .set({ extractedText })
+      .where(and(eq(documentVersionsTable.documentId, documentId), eq(documentVersionsTable.versionNumber, versionNumber)));
+  }
+
+  private async setCurrentChunkVersion(tx: Pick<typeof db, 'update'>, documentId: string, versionNumber: number): Promise<void> {
+    await tx
+      .update(textChunksTable)
+      .set({ isCurrentVersion: sql`${textChunksTable.version} = ${versionNumber}` })
+      .where(eq(textChunksTable.fileId, documentId));
+  }
+
   async updateFileAIAnalysis(id: string, analysis: any): Promise<FileRecord> {
     const [file] = await db
       .update(filesTable)
@@ -422,6 +902,71 @@ export class DatabaseStorage implements IStorage {
     await db.delete(filesTable).where(eq(filesTable.id, id));
   }
 
+  // Attachments of an email go to the trash with it
+  async trashFiles(userId: string, fileIds: string[]): Promise<number> {
+    if (fileIds.length === 0) {
+      return 0;
+    }
+    fileIds = await this.withChildDocumentIds(fileIds);
+    const trashed = await db
+      .update(filesTable)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        inArray(filesTable.id, fileIds)
+      ))
+      .returning({ id: filesTable.id });
+    return trashed.length;
+  }
+
+  // Restored files whose folder was deleted in the meantime come back at the vault root (folder_id is set null).
+  // Restoring an email restores its attachments
+  async restoreFiles(userId: string, fileIds: string[]): Promise<FileRecord[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+    fileIds = await this.withChildDocumentIds(fileIds);
+    return db
+      .update(filesTable)
+      .set({ deletedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNotNull(filesTable.deletedAt),
+        inArray(filesTable.id, fileIds)
+      ))
+      .returning();
+  }
+
+  // Most recently deleted first. Attachments trashed along with their email are listed through it
+  async getTrashedFiles(userId: string): Promise<FileRecord[]> {
+    return db
+      .select()
+      .from(filesTable)
+      .where(and(eq(filesTable.userId, userId), isNotNull(filesTable.deletedAt), this.notTrashedWithParent()))
+      .orderBy(descOrder(filesTable.deletedAt));
+  }
+
+  // Trashed files older than their owner's retention window, oldest first. Attachments trashed along with
+  // their email are purged with it
+  async getExpiredTrashedFiles(limit = 100): Promise<FileRecord[]> {
+    const rows = await db
+      .select({ file: filesTable })
+      .from(filesTable)
+      .innerJoin(usersTable, eq(usersTable.id, filesTable.userId))
+      .where(and(
+        sql`${filesTable.deletedAt} < now() - make_interval(days => ${usersTable.trashRetentionDays})`,
+        this.notTrashedWithParent()
+      ))
+      .orderBy(filesTable.deletedAt)
+      .limit(limit);
+    return rows.map(row => row.file);
+  }
+
+  private notTrashedWithParent(): SQL {
+    return sql`not exists (select 1 from ${filesTable} as parent where parent.id = ${filesTable.parentDocumentId} and parent.deleted_at is not null)`;
+  }
+
   // Job operations
   async getJob(id: string): Promise<JobRecord | undefined> {
     const [job] = await db.select().from(jobsTable).where(eq(jobsTable.id, id));
@@ -466,6 +1011,28 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
+  async updateJob(id: string, updates: Partial<JobRecord>): Promise<JobRecord> {
+    const [job] = await db
+      .update(jobsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobsTable.id, id))
+      .returning();
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    return job;
+  }
+
+  async getJobsByType(jobType: string, limit = 20): Promise<JobRecord[]> {
+    return db
+      .select()
+      .from(jobsTable)
+      .where(eq(jobsTable.jobType, jobType))
+      .orderBy(descOrder(jobsTable.createdAt))
+      .limit(limit);
+  }
+
   async deleteJob(id: string): Promise<void> {
     await db.delete(jobsTable).where(eq(jobsTable.id, id));
   }
@@ -477,7 +1044,7 @@ export class DatabaseStorage implements IStorage {
       const documents = await db
         .select()
         .from(documentsTable)
-        .where(eq(documentsTable.userId, userId))
+        .where(and(eq(documentsTable.userId, userId), isNull(documentsTable.deletedAt)))
         .orderBy(cosineDistance(documentsTable.embedding, queryEmbedding))
         .limit(limit);
       
@@ -490,16 +1057,23 @@ export class DatabaseStorage implements IStorage {
   }
 
   // NEW: Search text chunks for semantic content retrieval (the core RAG functionality)
-  async searchSimilarTextChunks(userId: string, queryEmbedding: number[], limit = 10): Promise<TextChunkRecord[]> {
+  async searchSimilarTextChunks(userId: string, queryEmbedding: number[], limit = 10, embeddingModel?: { provider: string; model: string }): Promise<TextChunkRecord[]> {
     try {
       // Search text chunks using pgvector cosine distance for semantic similarity
       // Filter out NULL embeddings at the database level to prevent errors
+      const conditions = [
+        sql`${textChunksTable.userId} = ${userId} AND ${textChunksTable.embedding} IS NOT NULL`,
+        eq(textChunksTable.isCurrentVersion, true),
+        this.liveChunkCondition()
+      ];
+      if (embeddingModel) {
+        conditions.push(this.embeddingModelCondition(embeddingModel));
+      }
+
       const chunks = await db
         .select()
         .from(textChunksTable)
-        .where(
-          sql`${textChunksTable.userId} = ${userId} AND ${textChunksTable.embedding} IS NOT NULL`
-        )
+        .where(and(...conditions))
         .orderBy(cosineDistance(textChunksTable.embedding, queryEmbedding))
         .limit(limit);
       
@@ -534,28 +1108,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async addTextChunks(chunks: Array<{id: string, fileId: string, userId: string, content: string, chunkIndex: number, embedding?: number[], metadata?: any}>): Promise<void> {
+  async addTextChunks(chunks: NewTextChunk[]): Promise<void> {
     try {
       if (chunks.length === 0) {
         console.log('No chunks to add');
         return;
       }
 
-      // Convert chunks to database format
-      const chunkRecords = chunks.map(chunk => ({
-        id: chunk.id,
-        fileId: chunk.fileId,
-        userId: chunk.userId,
-        content: chunk.content,
-        chunkIndex: chunk.chunkIndex,
-        embedding: chunk.embedding || null,
-        metadata: chunk.metadata || null,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }));
-
       // Insert all chunks in a single transaction
-      await db.insert(textChunksTable).values(chunkRecords);
+      await db.insert(textChunksTable).values(this.toTextChunkRows(chunks));
       
       console.log(`Successfully added ${chunks.length} text chunks to database`);
     } catch (error) {
@@ -564,9 +1125,46 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Swap a file's chunks in one transaction so searches see either the old set or the new one, never a mix
+  // Only the chunks of the version being stored are replaced, and that version becomes the one searched;
+  // the chunks of other versions stay for history and restores
+  async replaceTextChunks(fileId: string, chunks: NewTextChunk[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (chunks.length === 0) {
+        await tx.delete(textChunksTable).where(and(eq(textChunksTable.fileId, fileId), eq(textChunksTable.isCurrentVersion, true)));
+        return;
+      }
+
+      const version = chunks[0].version || 1;
+      await tx.delete(textChunksTable).where(and(eq(textChunksTable.fileId, fileId), eq(textChunksTable.version, version)));
+      await tx.insert(textChunksTable).values(this.toTextChunkRows(chunks));
+      await this.setCurrentChunkVersion(tx, fileId, version);
+    });
+  }
+
+  // Convert chunks to database format
+  private toTextChunkRows(chunks: NewTextChunk[]) {
+    return chunks.map(chunk => ({
+      id: chunk.id,
+      fileId: chunk.fileId,
+      userId: chunk.userId,
+      content: chunk.content,
+      chunkIndex: chunk.chunkIndex,
+      version: chunk.version || 1,
+      embedding: chunk.embedding || null,
+      embeddingProvider: chunk.embeddingProvider || null,
+      embeddingModel: chunk.embeddingModel || null,
+      embeddingDimension: chunk.embeddingDimension || null,
+      metadata: chunk.metadata || null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }));
+  }
+
+  // Embedded chunks that searches cover: the current version of documents outside the trash
   async getAllTextChunks(userId?: string): Promise<TextChunkRecord[]> {
     try {
-      const conditions = [isNotNull(textChunksTable.embedding)];
+      const conditions = [isNotNull(textChunksTable.embedding), eq(textChunksTable.isCurrentVersion, true), this.liveChunkCondition()];
       
       // Filter by userId if provided for security
       if (userId) {
@@ -586,6 +1184,237 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Approximate nearest neighbours via the HNSW index on text_chunks.embedding
+  async findNearestTextChunks(queryEmbedding: number[], options: TextChunkSearchOptions): Promise<Array<{ chunk: TextChunkRecord; similarity: number }>> {
+    const { userId, fileIds, limit = 10, embeddingModel, includeAllVersions } = options;
+    if (fileIds && fileIds.length === 0) {
+      return [];
+    }
+
+    const conditions = [isNotNull(textChunksTable.embedding), this.liveChunkCondition()];
+    if (!includeAllVersions) {
+      conditions.push(eq(textChunksTable.isCurrentVersion, true));
+    }
+    if (userId) {
+      conditions.push(eq(textChunksTable.userId, userId));
+    }
+    if (fileIds) {
+      conditions.push(inArray(textChunksTable.fileId, fileIds));
+    }
+    if (embeddingModel) {
+      conditions.push(this.embeddingModelCondition(embeddingModel));
+    }
+
+    const distance = cosineDistance(textChunksTable.embedding, queryEmbedding);
+
+    // HNSW only returns its ef_search nearest chunks of the whole index before the filters above are
+    // applied, which can leave a folder, a tag or a user owning a small share of the index with few hits.
+    // Small scopes are scanned exactly; otherwise pgvector 0.8+ keeps scanning the graph until enough
+    // chunks pass the filters, and older versions get a widened candidate list
+    const exact = !!fileIds || (!!userId && await this.countEmbeddedTextChunks(userId) <= EXACT_VECTOR_SCAN_MAX_CHUNKS);
+    const iterative = !exact && await this.supportsIterativeScan();
+    const rows = await db.transaction(async (tx) => {
+      if (exact) {
+        await tx.execute(sql.raw('SET LOCAL enable_indexscan = off'));
+      } else {
+        await tx.execute(sql.raw(`SET LOCAL hnsw.ef_search = ${Math.max(100, limit * 4)}`));
+        if (iterative) {
+          await tx.execute(sql.raw('SET LOCAL hnsw.iterative_scan = relaxed_order'));
+        }
+      }
+      return tx
+        .select({ chunk: textChunksTable, distance: sql<number>`${distance}` })
+        .from(textChunksTable)
+        .where(and(...conditions))
+        .orderBy(distance)
+        .limit(limit);
+    });
+
+    // A relaxed-order scan can return neighbours slightly out of order
+    return rows
+      .map(row => ({ chunk: row.chunk, similarity: 1 - Number(row.distance) }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  private async countEmbeddedTextChunks(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(textChunksTable)
+      .where(and(eq(textChunksTable.userId, userId), isNotNull(textChunksTable.embedding)));
+    return Number(row?.count ?? 0);
+  }
+
+  // Iterative index scans (hnsw.iterative_scan) arrived in pgvector 0.8.0
+  private supportsIterativeScan(): Promise<boolean> {
+    if (!this.iterativeScanSupport) {
+      this.iterativeScanSupport = db
+        .execute(sql`SELECT extversion FROM pg_extension WHERE extname = 'vector'`)
+        .then(rows => {
+          const version = (rows as unknown as Array<{ extversion: string }>)[0]?.extversion || '';
+          const [major, minor] = version.split('.').map(part => parseInt(part, 10));
+          return major > 0 || (major === 0 && minor >= 8);
+        })
+        .catch(error => {
+          console.warn('Failed to read the pgvector version, searching without iterative scans:', error);
+          return false;
+        });
+    }
+    return this.iterativeScanSupport;
+  }
+
+  // Keyword leg of hybrid search through the GIN index on text_chunks.search_vector
+  // Chunks matching any positive term are ranked with ts_rank_cd; matchRatio is the share of
+  // positive terms (ignoring stopwords) the chunk contains. Each chunk is stemmed in its own language,
+  // so the query is stemmed with every configuration in searchConfigs and the results OR-ed
+  async searchTextChunksFullText(query: ParsedSearchQuery, options: TextChunkSearchOptions): Promise<Array<{ chunk: TextChunkRecord; rank: number; matchRatio: number }>> {
+    const { userId, fileIds, limit = 50, includeAllVersions, searchConfigs = [SEARCH_CONFIG] } = options;
+    const tsQueryText = toTsQuery(query, 'any');
+    if (!tsQueryText || (fileIds && fileIds.length === 0) || searchConfigs.length === 0) {
+      return [];
+    }
+
+    const stemmed = (text: string) => sql.join(searchConfigs.map(config => sql`to_tsquery(${config}::regconfig, ${text})`), sql` || `);
+    const tsQuery = sql`(${stemmed(tsQueryText)})`;
+    const conditions = [sql`${textChunksTable.searchVector} @@ ${tsQuery}`, this.liveChunkCondition()];
+    if (!includeAllVersions) {
+      conditions.push(eq(textChunksTable.isCurrentVersion, true));
+    }
+    if (userId) {
+      conditions.push(eq(textChunksTable.userId, userId));
+    }
+    if (fileIds) {
+      conditions.push(inArray(textChunksTable.fileId, fileIds));
+    }
+
+    const terms = positiveTerms(query).map(term => sql`(${stemmed(termToTsQuery(term))})`);
+    const matched = sql.join(terms.map(term => sql`(${textChunksTable.searchVector} @@ ${term})::int`), sql` + `);
+    const searchable = sql.join(terms.map(term => sql`(numnode(${term}) > 0)::int`), sql` + `);
+    const rank = sql<number>`ts_rank_cd(${textChunksTable.searchVector}, ${tsQuery}, 32)`;
+
+    const rows = await db
+      .select({
+        chunk: textChunksTable,
+        rank,
+        matchRatio: sql<number>`(${matched})::float / greatest(${searchable}, 1)`,
+      })
+      .from(textChunksTable)
+      .where(and(...conditions))
+      .orderBy(descOrder(rank))
+      .limit(limit);
+
+    return rows.map(row => ({ chunk: row.chunk, rank: Number(row.rank), matchRatio: Math.min(1, Number(row.matchRatio)) }));
+  }
+
+  // Languages recorded on the chunks a search covers; null for chunks without one
+  async getTextChunkLanguages(options: TextChunkSearchOptions): Promise<Array<string | null>> {
+    const { userId, fileIds, includeAllVersions } = options;
+    if (fileIds && fileIds.length === 0) {
+      return [];
+    }
+
+    const conditions = [this.liveChunkCondition()];
+    if (!includeAllVersions) {
+      conditions.push(eq(textChunksTable.isCurrentVersion, true));
+    }
+    if (userId) {
+      conditions.push(eq(textChunksTable.userId, userId));
+    }
+    if (fileIds) {
+      conditions.push(inArray(textChunksTable.fileId, fileIds));
+    }
+
+    const rows = await db
+      .selectDistinct({ language: sql<string | null>`${textChunksTable.metadata}->>'language'` })
+      .from(textChunksTable)
+      .where(and(...conditions));
+    return rows.map(row => row.language);
+  }
+
+  // Languages of the live documents a document search covers; null for documents without one
+  async getDocumentLanguages(userId: string, fileIds?: string[]): Promise<Array<string | null>> {
+    if (fileIds && fileIds.length === 0) {
+      return [];
+    }
+    const rows = await db
+      .selectDistinct({ language: filesTable.language })
+      .from(filesTable)
+      .where(and(
+        eq(filesTable.userId, userId),
+        isNull(filesTable.deletedAt),
+        isNotNull(filesTable.extractedText),
+        fileIds ? inArray(filesTable.id, fileIds) : undefined
+      ));
+    return rows.map(row => row.language);
+  }
+
+  async deleteTextChunksByFileId(fileId: string): Promise<void> {
+    await db.delete(textChunksTable).where(eq(textChunksTable.fileId, fileId));
+  }
+
+  // Which embedding models the stored chunks were produced with, to detect a mixed index
+  async getTextChunkEmbeddingModels(fileId?: string, version?: number): Promise<Array<{ provider: string; model: string; dimension: number | null; count: number }>> {
+    const provider = sql<string>`coalesce(${textChunksTable.embeddingProvider}, ${LEGACY_EMBEDDING_MODEL.provider})`;
+    const model = sql<string>`coalesce(${textChunksTable.embeddingModel}, ${LEGACY_EMBEDDING_MODEL.model})`;
+    const rows = await db
+      .select({
+        provider,
+        model,
+        dimension: textChunksTable.embeddingDimension,
+        count: sql<number>`count(*)`,
+      })
+      .from(textChunksTable)
+      .where(and(
+        isNotNull(textChunksTable.embedding),
+        fileId ? eq(textChunksTable.fileId, fileId) : undefined,
+        version !== undefined ? eq(textChunksTable.version, version) : undefined
+      ))
+      .groupBy(provider, model, textChunksTable.embeddingDimension);
+
+    return rows.map(row => ({ ...row, count: Number(row.count) }));
+  }
+
+  // Keyset pagination over every user's documents, for index-wide maintenance jobs
+  async getDocumentsAfter(afterId: string | null, limit: number): Promise<Array<Pick<DocumentRecord, 'id' | 'userId' | 'filename' | 'extractedText' | 'currentVersion'>>> {
+    return db
+      .select({
+        id: documentsTable.id,
+        userId: documentsTable.userId,
+        filename: documentsTable.filename,
+        extractedText: documentsTable.extractedText,
+        currentVersion: documentsTable.currentVersion,
+      })
+      .from(documentsTable)
+      .where(afterId ? gt(documentsTable.id, afterId) : undefined)
+      .orderBy(documentsTable.id)
+      .limit(limit);
+  }
+
+  async countDocuments(): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)` }).from(documentsTable);
+    return Number(row?.count || 0);
+  }
+
+  // Chunks of documents in the trash are kept for restores but never retrieved
+  private liveChunkCondition() {
+    return sql`not exists (select 1 from ${documentsTable} where ${documentsTable.id} = ${textChunksTable.fileId} and ${documentsTable.deletedAt} is not null)`;
+  }
+
+  private embeddingModelCondition(embeddingModel: { provider: string; model: string }) {
+    const isLegacy =
+      embeddingModel.provider === LEGACY_EMBEDDING_MODEL.provider &&
+      embeddingModel.model === LEGACY_EMBEDDING_MODEL.model;
+    const matches = and(
+      eq(textChunksTable.embeddingProvider, embeddingModel.provider),
+      eq(textChunksTable.embeddingModel, embeddingModel.model)
+    )!;
+    return isLegacy ? or(matches, isNull(textChunksTable.embeddingModel))! : matches;
+  }
+
+  async getTextChunk(id: string): Promise<TextChunkRecord | undefined> {
+    const [chunk] = await db.select().from(textChunksTable).where(eq(textChunksTable.id, id));
+    return chunk || undefined;
+  }
+
   async createShareLink(documentId: string): Promise<string> {
     const shareToken = randomUUID();
     
@@ -605,11 +1434,630 @@ export class DatabaseStorage implements IStorage {
     const [document] = await db
       .select()
       .from(documentsTable)
-      .where(eq(documentsTable.shareToken, shareToken));
+      .where(and(eq(documentsTable.shareToken, shareToken), isNull(documentsTable.deletedAt)));
     
     return document || undefined;
   }
 
+  // Folder operations for organising documents
+  async getFolder(id: string): Promise<FolderRecord | undefined> {
+    const [folder] = await db.select().from(foldersTable).where(eq(foldersTable.id, id));
+    return folder || undefined;
+  }
+
+  async getFoldersByUserId(userId: string): Promise<FolderRecord[]> {
+    return await db
+      .select()
+      .from(foldersTable)
+      .where(eq(foldersTable.userId, userId))
+      .orderBy(foldersTable.name);
+  }
+
+  async createFolder(folder: InsertFolder): Promise<FolderRecord> {
+    const [created] = await db
+      .insert(foldersTable)
+      .values(folder)
+      .returning();
+    return created;
+  }
+
+  async updateFolder(id: string, updates: Partial<FolderRecord>): Promise<FolderRecord> {
+    const [folder] = await db
+      .update(foldersTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(foldersTable.id, id))
+      .returning();
+      
+    if (!folder) {
+      throw new Error('Folder not found');
+    }
+    return folder;
+  }
+
+  // Files anywhere below the folder move up to its parent; subfolders are removed by the
+  // ON DELETE CASCADE on folders.parent_id
+  async deleteFolder(id: string): Promise<void> {
+    const folder = await this.getFolder(id);
+    if (!folder) {
+      return;
+    }
+    const subtreeIds = await this.getFolderSubtreeIds(folder.userId, id);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(filesTable)
+        .set({ folderId: folder.parentId, updatedAt: new Date() })
+        .where(inArray(filesTable.folderId, subtreeIds));
+      await tx.delete(foldersTable).where(eq(foldersTable.id, id));
+    });
+  }
+
+  // The folder itself and every folder nested below it
+  async getFolderSubtreeIds(userId: string, folderId: string): Promise<string[]> {
+    const userFolders = await this.getFoldersByUserId(userId);
+    const subtree = [folderId];
+    for (let i = 0; i < subtree.length; i++) {
+      for (const folder of userFolders) {
+        if (folder.parentId === subtree[i]) {
+          subtree.push(folder.id);
+        }
+      }
+    }
+    return subtree;
+  }
+
+  // Ancestors from the top-level folder down to the folder itself, for breadcrumbs
+  async getFolderPath(userId: string, folderId: string): Promise<FolderRecord[]> {
+    const byId = new Map((await this.getFoldersByUserId(userId)).map(folder => [folder.id, folder]));
+    const path: FolderRecord[] = [];
+    let current = byId.get(folderId);
+    while (current && path.length <= byId.size) {
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  // Tag operations for labelling documents
+  async getTag(id: string): Promise<TagRecord | undefined> {
+    const [tag] = await db.select().from(tagsTable).where(eq(tagsTable.id, id));
+    return tag || undefined;
+  }
+
+  async getTagByName(userId: string, name: string): Promise<TagRecord | undefined> {
+    const [tag] = await db
+      .select()
+      .from(tagsTable)
+      .where(and(
+        eq(tagsTable.userId, userId),
+        sql`lower(${tagsTable.name}) = lower(${name})`
+      ));
+    return tag || undefined;
+  }
+
+  async getTagsByUserId(userId: string): Promise<Array<TagRecord & { documentCount: number }>> {
+    const rows = await db
+      .select({
+        tag: tagsTable,
+        documentCount: sql<number>`count(${documentTagsTable.documentId})`.mapWith(Number),
+      })
+      .from(tagsTable)
+      .leftJoin(documentTagsTable, eq(documentTagsTable.tagId, tagsTable.id))
+      .where(eq(tagsTable.userId, userId))
+      .groupBy(tagsTable.id)
+      .orderBy(tagsTable.name);
+    return rows.map(({ tag, documentCount }) => ({ ...tag, documentCount }));
+  }
+
+  async createTag(tag: InsertTag): Promise<TagRecord> {
+    const [created] = await db
+      .insert(tagsTable)
+      .values(tag)
+      .returning();
+    return created;
+  }
+
+  async updateTag(id: string, updates: Partial<TagRecord>): Promise<TagRecord> {
+    const [tag] = await db
+      .update(tagsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tagsTable.id, id))
+      .returning();
+
+    if (!tag) {
+      throw new Error('Tag not found');
+    }
+    return tag;
+  }
+
+  // Links to documents are removed by the ON DELETE CASCADE on document_tags.tag_id
+  async deleteTag(id: string): Promise<void> {
+    await db.delete(tagsTable).where(eq(tagsTable.id, id));
+  }
+
+  async getTagsForFiles(fileIds: string[]): Promise<Array<{ documentId: string; source: string; tag: TagRecord }>> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        documentId: documentTagsTable.documentId,
+        source: documentTagsTable.source,
+        tag: tagsTable,
+      })
+      .from(documentTagsTable)
+      .innerJoin(tagsTable, eq(documentTagsTable.tagId, tagsTable.id))
+      .where(inArray(documentTagsTable.documentId, fileIds))
+      .orderBy(tagsTable.name);
+  }
+
+  async addTagToFile(fileId: string, tagId: string, source: 'user' | 'ai' = 'user'): Promise<void> {
+    await db
+      .insert(documentTagsTable)
+      .values({ documentId: fileId, tagId, source })
+      .onConflictDoNothing();
+  }
+
+  async removeTagFromFile(fileId: string, tagId: string): Promise<void> {
+    await db
+      .delete(documentTagsTable)
+      .where(and(
+        eq(documentTagsTable.documentId, fileId),
+        eq(documentTagsTable.tagId, tagId)
+      ));
+  }
+
+  async getTagSuggestion(id: string): Promise<TagSuggestionRecord | undefined> {
+    const [suggestion] = await db.select().from(tagSuggestionsTable).where(eq(tagSuggestionsTable.id, id));
+    return suggestion || undefined;
+  }
+
+  async getTagSuggestionsForFiles(fileIds: string[], status?: string): Promise<TagSuggestionRecord[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+    const conditions = [inArray(tagSuggestionsTable.documentId, fileIds)];
+    if (status) {
+      conditions.push(eq(tagSuggestionsTable.status, status));
+    }
+    return await db
+      .select()
+      .from(tagSuggestionsTable)
+      .where(and(...conditions))
+      .orderBy(descOrder(tagSuggestionsTable.confidence));
+  }
+
+  // Names already suggested for the same document are skipped, whatever their status
+  async createTagSuggestions(suggestions: InsertTagSuggestion[]): Promise<TagSuggestionRecord[]> {
+    if (suggestions.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(tagSuggestionsTable)
+      .values(suggestions)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updateTagSuggestion(id: string, updates: Partial<TagSuggestionRecord>): Promise<TagSuggestionRecord> {
+    const [suggestion] = await db
+      .update(tagSuggestionsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(tagSuggestionsTable.id, id))
+      .returning();
+
+    if (!suggestion) {
+      throw new Error('Tag suggestion not found');
+    }
+    return suggestion;
+  }
+
+  async getDocumentFields(documentId: string): Promise<DocumentFieldsRecord | undefined> {
+    const [fields] = await db.select().from(documentFieldsTable).where(eq(documentFieldsTable.documentId, documentId));
+    return fields || undefined;
+  }
+
+  // Replaces the extracted fields of a document unless the user has edited them; returns undefined then
+  async upsertDocumentFields(fields: InsertDocumentFields): Promise<DocumentFieldsRecord | undefined> {
+    const [saved] = await db
+      .insert(documentFieldsTable)
+      .values(fields)
+      .onConflictDoUpdate({
+        target: documentFieldsTable.documentId,
+        set: { ...fields, updatedAt: new Date() },
+        setWhere: eq(documentFieldsTable.userEdited, false),
+      })
+      .returning();
+    return saved || undefined;
+  }
+
+  async updateDocumentFields(documentId: string, updates: Partial<DocumentFieldsRecord>): Promise<DocumentFieldsRecord> {
+    const [fields] = await db
+      .update(documentFieldsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(documentFieldsTable.documentId, documentId))
+      .returning();
+
+    if (!fields) {
+      throw new Error('Document fields not found');
+    }
+    return fields;
+  }
+
+  // Fields of the user's live (not trashed) documents, newest document date first
+  async queryDocumentFields(userId: string, filters: DocumentFieldFilters = {}, limit = 100): Promise<Array<DocumentFieldsRecord & { filename: string }>> {
+    return await db
+      .select({ ...getTableColumns(documentFieldsTable), filename: filesTable.filename })
+      .from(documentFieldsTable)
+      .innerJoin(filesTable, eq(documentFieldsTable.documentId, filesTable.id))
+      .where(and(...this.documentFieldConditions(userId, filters)))
+      .orderBy(sql`${documentFieldsTable.documentDate} desc nulls last`, descOrder(documentFieldsTable.createdAt))
+      .limit(limit);
+  }
+
+  async aggregateDocumentFields(userId: string, filters: DocumentFieldFilters = {}, groupBy?: DocumentFieldGroupBy): Promise<DocumentFieldAggregate[]> {
+    const groupColumns: Record<DocumentFieldGroupBy, SQL<string | null>> = {
+      vendor: sql<string | null>`${documentFieldsTable.vendor}`,
+      month: sql<string | null>`to_char(${documentFieldsTable.documentDate}, 'YYYY-MM')`,
+      currency: sql<string | null>`${documentFieldsTable.currency}`,
+      document_type: sql<string | null>`${documentFieldsTable.documentType}`,
+    };
+    const group = groupBy ? groupColumns[groupBy] : sql<string | null>`null`;
+
+    const rows = await db
+      .select({
+        group,
+        currency: documentFieldsTable.currency,
+        documentCount: sql<number>`count(*)::int`,
+        totalAmount: sql<string | null>`sum(${documentFieldsTable.totalAmount})`,
+      })
+      .from(documentFieldsTable)
+      .innerJoin(filesTable, eq(documentFieldsTable.documentId, filesTable.id))
+      .where(and(...this.documentFieldConditions(userId, filters)))
+      .groupBy(group, documentFieldsTable.currency)
+      .orderBy(sql`sum(${documentFieldsTable.totalAmount}) desc nulls last`);
+
+    return rows.map(row => ({
+      group: row.group,
+      currency: row.currency,
+      documentCount: row.documentCount,
+      totalAmount: row.totalAmount ? Number(row.totalAmount) : 0,
+    }));
+  }
+
+  async getReminder(id: string): Promise<DocumentReminderRecord | undefined> {
+    const [reminder] = await db.select().from(documentRemindersTable).where(eq(documentRemindersTable.id, id));
+    return reminder || undefined;
+  }
+
+  // Reminders on the user's live (not trashed) documents, soonest first
+  async getRemindersByUserId(userId: string, options: { dueBefore?: string; includeDismissed?: boolean; limit?: number } = {}): Promise<DocumentReminderWithFile[]> {
+    const conditions: SQL[] = [
+      eq(documentRemindersTable.userId, userId),
+      isNull(filesTable.deletedAt),
+    ];
+    if (options.dueBefore) {
+      conditions.push(lte(documentRemindersTable.dueDate, options.dueBefore));
+    }
+    if (!options.includeDismissed) {
+      conditions.push(isNull(documentRemindersTable.dismissedAt));
+    }
+    return await db
+      .select({ ...getTableColumns(documentRemindersTable), filename: filesTable.filename })
+      .from(documentRemindersTable)
+      .innerJoin(filesTable, eq(documentRemindersTable.documentId, filesTable.id))
+      .where(and(...conditions))
+      .orderBy(documentRemindersTable.dueDate)
+      .limit(options.limit ?? 500);
+  }
+
+  async getRemindersForFile(documentId: string): Promise<DocumentReminderRecord[]> {
+    return await db
+      .select()
+      .from(documentRemindersTable)
+      .where(eq(documentRemindersTable.documentId, documentId))
+      .orderBy(documentRemindersTable.dueDate);
+  }
+
+  async createReminder(reminder: InsertDocumentReminder): Promise<DocumentReminderRecord> {
+    const [created] = await db
+      .insert(documentRemindersTable)
+      .values(reminder)
+      .returning();
+    return created;
+  }
+
+  async updateReminder(id: string, updates: Partial<DocumentReminderRecord>): Promise<DocumentReminderRecord> {
+    const [reminder] = await db
+      .update(documentRemindersTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(documentRemindersTable.id, id))
+      .returning();
+
+    if (!reminder) {
+      throw new Error('Reminder not found');
+    }
+    return reminder;
+  }
+
+  async deleteReminder(id: string): Promise<void> {
+    await db.delete(documentRemindersTable).where(eq(documentRemindersTable.id, id));
+  }
+
+  // Detected reminders that are no longer found in the document are removed. Ones still found keep
+  // their notification and dismissal state; dates the user entered are never touched
+  async replaceDetectedReminders(
+    documentId: string,
+    userId: string,
+    reminders: Array<Pick<InsertDocumentReminder, 'kind' | 'dueDate' | 'label'>>,
+  ): Promise<DocumentReminderRecord[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(documentRemindersTable)
+        .where(and(
+          eq(documentRemindersTable.documentId, documentId),
+          eq(documentRemindersTable.source, 'detected')
+        ));
+      const keep = new Set(reminders.map(reminder => `${reminder.kind}|${reminder.dueDate}`));
+      const stale = existing.filter(reminder => !keep.has(`${reminder.kind}|${reminder.dueDate}`));
+      if (stale.length > 0) {
+        await tx.delete(documentRemindersTable).where(inArray(documentRemindersTable.id, stale.map(reminder => reminder.id)));
+      }
+      if (reminders.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(documentRemindersTable)
+        .values(reminders.map(reminder => ({ ...reminder, documentId, userId, source: 'detected' })))
+        .onConflictDoNothing()
+        .returning();
+    });
+  }
+
+  // Open reminders due between the two dates (inclusive) whose owners have reminder emails on
+  async getPendingReminderNotifications(from: string, to: string): Promise<PendingReminderNotification[]> {
+    return await db
+      .select({
+        ...getTableColumns(documentRemindersTable),
+        filename: filesTable.filename,
+        email: usersTable.email,
+        leadDays: usersTable.reminderLeadDays,
+      })
+      .from(documentRemindersTable)
+      .innerJoin(filesTable, eq(documentRemindersTable.documentId, filesTable.id))
+      .innerJoin(usersTable, eq(documentRemindersTable.userId, usersTable.id))
+      .where(and(
+        isNull(documentRemindersTable.dismissedAt),
+        isNull(filesTable.deletedAt),
+        eq(usersTable.reminderEmailsEnabled, true),
+        gte(documentRemindersTable.dueDate, from),
+        lte(documentRemindersTable.dueDate, to)
+      ))
+      .orderBy(documentRemindersTable.userId, documentRemindersTable.dueDate);
+  }
+
+  // In mailbox order
+  async getEmailMessages(documentId: string): Promise<EmailMessageRecord[]> {
+    return await db
+      .select()
+      .from(emailMessagesTable)
+      .where(eq(emailMessagesTable.documentId, documentId))
+      .orderBy(emailMessagesTable.messageIndex);
+  }
+
+  async replaceEmailMessages(
+    documentId: string,
+    userId: string,
+    messages: Array<Omit<InsertEmailMessage, 'documentId' | 'userId'>>,
+  ): Promise<EmailMessageRecord[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(emailMessagesTable).where(eq(emailMessagesTable.documentId, documentId));
+      if (messages.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(emailMessagesTable)
+        .values(messages.map(message => ({ ...message, documentId, userId })))
+        .returning();
+    });
+  }
+
+  // Messages on live documents whose sender name or address contains any of the terms, newest first
+  async findEmailMessagesBySender(userId: string, senderTerms: string[], fileIds?: string[], limit = 20): Promise<EmailMessageWithFile[]> {
+    if (senderTerms.length === 0 || (fileIds && fileIds.length === 0)) {
+      return [];
+    }
+    const senderConditions = senderTerms.flatMap(term => {
+      const pattern = `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+      return [ilike(emailMessagesTable.fromName, pattern), ilike(emailMessagesTable.fromAddress, pattern)];
+    });
+    const conditions: SQL[] = [
+      eq(emailMessagesTable.userId, userId),
+      isNull(filesTable.deletedAt),
+      or(...senderConditions)!,
+    ];
+    if (fileIds) {
+      conditions.push(inArray(emailMessagesTable.documentId, fileIds));
+    }
+    return await db
+      .select({ ...getTableColumns(emailMessagesTable), filename: filesTable.filename })
+      .from(emailMessagesTable)
+      .innerJoin(filesTable, eq(emailMessagesTable.documentId, filesTable.id))
+      .where(and(...conditions))
+      .orderBy(sql`${emailMessagesTable.sentAt} desc nulls last`)
+      .limit(limit);
+  }
+
+  async getDocumentTable(id: string): Promise<DocumentTableRecord | undefined> {
+    const [table] = await db.select().from(documentTablesTable).where(eq(documentTablesTable.id, id));
+    return table || undefined;
+  }
+
+  // In sheet order
+  async getDocumentTables(documentId: string): Promise<DocumentTableRecord[]> {
+    return await db
+      .select()
+      .from(documentTablesTable)
+      .where(eq(documentTablesTable.documentId, documentId))
+      .orderBy(documentTablesTable.tableIndex);
+  }
+
+  // Tables of live documents without their cells, most recently read first
+  async getDocumentTableSummaries(userId: string, fileIds?: string[], limit = 20): Promise<DocumentTableSummary[]> {
+    if (fileIds && fileIds.length === 0) {
+      return [];
+    }
+    const { rows: _rows, rowNumbers: _rowNumbers, ...summaryColumns } = getTableColumns(documentTablesTable);
+    const conditions: SQL[] = [
+      eq(documentTablesTable.userId, userId),
+      isNull(filesTable.deletedAt),
+    ];
+    if (fileIds) {
+      conditions.push(inArray(documentTablesTable.documentId, fileIds));
+    }
+    return await db
+      .select({ ...summaryColumns, filename: filesTable.filename })
+      .from(documentTablesTable)
+      .innerJoin(filesTable, eq(documentTablesTable.documentId, filesTable.id))
+      .where(and(...conditions))
+      .orderBy(descOrder(documentTablesTable.createdAt), documentTablesTable.tableIndex)
+      .limit(limit);
+  }
+
+  async replaceDocumentTables(
+    documentId: string,
+    userId: string,
+    tables: Array<Omit<InsertDocumentTable, 'documentId' | 'userId'>>,
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(documentTablesTable).where(eq(documentTablesTable.documentId, documentId));
+      if (tables.length > 0) {
+        await tx.insert(documentTablesTable).values(tables.map(table => ({ ...table, documentId, userId })));
+      }
+    });
+  }
+
+  private documentFieldConditions(userId: string, filters: DocumentFieldFilters): SQL[] {
+    const conditions: SQL[] = [
+      eq(documentFieldsTable.userId, userId),
+      isNull(filesTable.deletedAt),
+    ];
+    if (filters.documentType) {
+      conditions.push(eq(documentFieldsTable.documentType, filters.documentType));
+    }
+    if (filters.vendor) {
+      conditions.push(ilike(documentFieldsTable.vendor, `%${filters.vendor.replace(/[\\%_]/g, '\\$&')}%`));
+    }
+    if (filters.currency) {
+      conditions.push(eq(documentFieldsTable.currency, filters.currency.toUpperCase()));
+    }
+    if (filters.dateFrom) {
+      conditions.push(gte(documentFieldsTable.documentDate, filters.dateFrom));
+    }
+    if (filters.dateTo) {
+      conditions.push(lte(documentFieldsTable.documentDate, filters.dateTo));
+    }
+    if (filters.expiresBefore) {
+      conditions.push(lte(documentFieldsTable.expiryDate, filters.expiresBefore));
+    }
+    if (filters.fileIds) {
+      conditions.push(filters.fileIds.length > 0 ? inArray(documentFieldsTable.documentId, filters.fileIds) : sql`false`);
+    }
+    return conditions;
+  }
+
+  // Conversation operations for named chat threads
+  async getConversation(id: string): Promise<ConversationRecord | undefined> {
+    const [conversation] = await db.select().from(conversationsTable).where(eq(conversationsTable.id, id));
+    return conversation || undefined;
+  }
+
+  async getConversationsByUserId(userId: string, options: { archived?: boolean } = {}): Promise<ConversationRecord[]> {
+    const conditions = [eq(conversationsTable.userId, userId)];
+    
+    // Undefined archived flag returns both active and archived threads
+    if (options.archived !== undefined) {
+      conditions.push(eq(conversationsTable.isArchived, options.archived));
+    }
+    
+    return await db
+      .select()
+      .from(conversationsTable)
+      .where(and(...conditions))
+      .orderBy(descOrder(conversationsTable.lastMessageAt));
+  }
+
+  async createConversation(conversation: InsertConversation): Promise<ConversationRecord> {
+    const [created] = await db
+      .insert(conversationsTable)
+      .values(conversation)
+      .returning();
+    return created;
+  }
+
+  async updateConversation(id: string, updates: Partial<ConversationRecord>): Promise<ConversationRecord> {
+    const [conversation] = await db
+      .update(conversationsTable)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(conversationsTable.id, id))
+      .returning();
+      
+    if (!conversation) {
+      throw new Error('Conversation not found');
+    }
+    return conversation;
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    // Messages are removed by the ON DELETE CASCADE on chat_messages.conversation_id
+    await db.delete(conversationsTable).where(eq(conversationsTable.id, id));
+  }
+
+  // Move messages saved without a conversation into the user's legacy thread, created on first use, so they
+  // stay visible. Safe to run on every load: with no such messages it changes nothing
+  async adoptLegacyChatMessages(userId: string): Promise<ConversationRecord | undefined> {
+    const legacyCondition = and(
+      eq(chatMessagesTable.userId, userId),
+      isNull(chatMessagesTable.conversationId)
+    );
+
+    return await db.transaction(async (tx) => {
+      const [latest] = await tx
+        .select({ timestamp: chatMessagesTable.timestamp })
+        .from(chatMessagesTable)
+        .where(legacyCondition)
+        .orderBy(descOrder(chatMessagesTable.timestamp))
+        .limit(1);
+
+      if (!latest) {
+        return undefined;
+      }
+
+      // The partial unique index makes a concurrent load wait for this insert and then reuse the thread
+      await tx
+        .insert(conversationsTable)
+        .values({ userId, title: 'Previous chats', isLegacy: true, lastMessageAt: latest.timestamp })
+        .onConflictDoNothing();
+      const [conversation] = await tx
+        .select()
+        .from(conversationsTable)
+        .where(and(eq(conversationsTable.userId, userId), eq(conversationsTable.isLegacy, true)));
+
+      await tx
+        .update(chatMessagesTable)
+        .set({ conversationId: conversation.id })
+        .where(legacyCondition);
+
+      const [updated] = await tx
+        .update(conversationsTable)
+        .set({ lastMessageAt: sql`greatest(${conversationsTable.lastMessageAt}, ${latest.timestamp})`, updatedAt: new Date() })
+        .where(eq(conversationsTable.id, conversation.id))
+        .returning();
+      return updated;
+    });
+  }
+
   // Chat message operations for persistent conversation history
   async addChatMessage(chatMessage: InsertChatMessage): Promise<ChatMessageRecord> {
     const [savedMessage] = await db
@@ -617,14 +2065,29 @@ export class DatabaseStorage implements IStorage {
       .values(chatMessage)
       .returning();
     
+    // Keep the thread list ordered by most recent activity
+    if (savedMessage.conversationId) {
+      await db
+        .update(conversationsTable)
+        .set({ lastMessageAt: savedMessage.timestamp, updatedAt: new Date() })
+        .where(eq(conversationsTable.id, savedMessage.conversationId));
+    }
+    
     return savedMessage;
   }
 
-  async getChatMessages(userId: string, limit: number = 50): Promise<ChatMessageRecord[]> {
+  async getChatMessages(userId: string, limit: number = 50, conversationId?: string): Promise<ChatMessageRecord[]> {
+    const conditions = [eq(chatMessagesTable.userId, userId)];
+    
+    // Scope to a single thread when requested; older clients get the whole history
+    if (conversationId) {
+      conditions.push(eq(chatMessagesTable.conversationId, conversationId));
+    }
+    
     const messages = await db
       .select()
       .from(chatMessagesTable)
-      .where(eq(chatMessagesTable.userId, userId))
+      .where(and(...conditions))
       .orderBy(descOrder(chatMessagesTable.timestamp))
       .limit(limit);
     
@@ -638,10 +2101,16 @@ export class DatabaseStorage implements IStorage {
       .where(eq(chatMessagesTable.id, id));
   }
 
-  async clearChatHistory(userId: string): Promise<void> {
+  async clearChatHistory(userId: string, conversationId?: string): Promise<void> {
+    const conditions = [eq(chatMessagesTable.userId, userId)];
+    
+    if (conversationId) {
+      conditions.push(eq(chatMessagesTable.conversationId, conversationId));
+    }
+    
     await db
       .delete(chatMessagesTable)
-      .where(eq(chatMessagesTable.userId, userId));
+      .where(and(...conditions));
   }
 
   // Subscription plan operations
@@ -990,16 +2459,43 @@ export class DatabaseStorage implements IStorage {
     return credential || undefined;
   }
 
-  async getAccountCredentialsByUserId(userId: string, limit = 100, offset = 0): Promise<AccountCredentialRecord[]> {
+  async getAccountCredentialsByUserId(userId: string, options: AccountCredentialListOptions = {}): Promise<AccountCredentialRecord[]> {
+    const { limit = 100, offset = 0, sort = 'updated', weakOnly = false } = options;
+    const conditions: SQL[] = [eq(accountCredentialsTable.userId, userId)];
+    if (weakOnly) {
+      conditions.push(lte(accountCredentialsTable.passwordStrength, WEAK_PASSWORD_SCORE));
+    }
+
+    const ordering: SQL[] = sort === 'name'
+      ? [sql`lower(${accountCredentialsTable.serviceName})`, sql`lower(${accountCredentialsTable.username})`]
+      : sort === 'weakest'
+        ? [sql`${accountCredentialsTable.passwordStrength} asc nulls last`, descOrder(accountCredentialsTable.updatedAt)]
+        : [descOrder(accountCredentialsTable.updatedAt)];
+
     return await db
       .select()
       .from(accountCredentialsTable)
-      .where(eq(accountCredentialsTable.userId, userId))
-      .orderBy(descOrder(accountCredentialsTable.updatedAt))
+      .where(and(...conditions))
+      .orderBy(...ordering)
       .limit(limit)
       .offset(offset);
   }
 
+  async getUnscoredAccountCredentials(userId: string): Promise<AccountCredentialRecord[]> {
+    return await db
+      .select()
+      .from(accountCredentialsTable)
+      .where(and(eq(accountCredentialsTable.userId, userId), isNull(accountCredentialsTable.passwordStrength)));
+  }
+
+  // Leaves updatedAt alone: scoring a password isn't a change the user made
+  async setAccountCredentialStrength(id: string, passwordStrength: number): Promise<void> {
+    await db
+      .update(accountCredentialsTable)
+      .set({ passwordStrength })
+      .where(eq(accountCredentialsTable.id, id));
+  }
+
   async createAccountCredential(credential: InsertAccountCredential): Promise<AccountCredentialRecord> {
     const [newCredential] = await db
       .insert(accountCredentialsTable)
@@ -1018,10 +2514,53 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Credentials never checked against the breach corpus first, then the longest since their last check
+  async getAccountCredentialsDueForBreachCheck(checkedBefore: Date, limit: number): Promise<AccountCredentialRecord[]> {
+    return await db
+      .select()
+      .from(accountCredentialsTable)
+      .where(or(isNull(accountCredentialsTable.breachCheckedAt), lte(accountCredentialsTable.breachCheckedAt, checkedBefore)))
+      .orderBy(sql`${accountCredentialsTable.breachCheckedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  // A null count records a check that couldn't read the password, so it isn't retried every run
+  async setAccountCredentialBreach(id: string, breachCount: number | null): Promise<void> {
+    await db
+      .update(accountCredentialsTable)
+      .set({ breachCount, breachCheckedAt: new Date() })
+      .where(eq(accountCredentialsTable.id, id));
+  }
+
   async deleteAccountCredential(id: string): Promise<void> {
     await db.delete(accountCredentialsTable).where(eq(accountCredentialsTable.id, id));
   }
 
+  // Swap all of a user's credentials in one transaction, so a failed insert leaves the saved ones in
+  // place. The password count is set to the new total in the same transaction
+  async replaceAccountCredentials(userId: string, credentials: InsertAccountCredential[]): Promise<{ removed: number; created: AccountCredentialRecord[] }> {
+    return await db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(accountCredentialsTable)
+        .where(eq(accountCredentialsTable.userId, userId))
+        .returning({ id: accountCredentialsTable.id });
+
+      const created: AccountCredentialRecord[] = [];
+      for (let i = 0; i < credentials.length; i += CREDENTIAL_INSERT_BATCH) {
+        created.push(...await tx
+          .insert(accountCredentialsTable)
+          .values(credentials.slice(i, i + CREDENTIAL_INSERT_BATCH).map(credential => ({ ...credential, userId })))
+          .returning());
+      }
+
+      await tx
+        .update(subscriptionUsageTable)
+        .set({ passwordsCount: created.length, lastUpdated: new Date() })
+        .where(eq(subscriptionUsageTable.userId, userId));
+      return { removed: removed.length, created };
+    });
+  }
+
   async getAccountCredentialsCount(userId: string): Promise<number> {
     const result = await db
       .select({ count: sql<number>`count(*)` })
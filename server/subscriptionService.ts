@@ -63,6 +63,19 @@ export const SUBSCRIPTION_PLANS = {
   },
 };
 
+/**
+ * Saved-password limit of a plan, -1 for unlimited. The plans table has no password limit, so it is
+ * taken from the plan of the same name above. A stored plan missing from there (business) is
+ * unlimited, as its other limits are; without a plan the free limit applies
+ */
+export function maxPasswordsForPlan(planName: string | null | undefined): number {
+  if (!planName) {
+    return SUBSCRIPTION_PLANS.FREE.maxPasswords;
+  }
+  const plan = Object.values(SUBSCRIPTION_PLANS).find(candidate => candidate.name === planName);
+  return plan ? plan.maxPasswords : -1;
+}
+
 export class SubscriptionService {
   /**
    * Check if Stripe is configured
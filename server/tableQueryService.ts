@@ -0,0 +1,430 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { storage, type DocumentTableSummary } from './storage';
+import { normalizeDate } from './fieldExtractionService';
+import { parseNumber } from './spreadsheetTables';
+import type { DocumentTableCell, DocumentTableColumn, DocumentTableRecord } from '@shared/schema';
+
+export const TABLE_OPERATIONS = ['sum', 'average', 'count', 'min', 'max'] as const;
+export const TABLE_FILTER_OPERATORS = ['equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'at_least', 'at_most'] as const;
+
+const MAX_TABLES = 20; // Tables offered to the planner, most recent first
+const MAX_QUERIES = 3; // Aggregations run for one chat message
+const MAX_FILTERS = 5;
+const MAX_GROUPS = 20;
+const MAX_CITED_RANGES = 20;
+const MAX_DESCRIBED_VALUES = 15; // Distinct values of a text column shown to the planner
+
+// Words in a chat message that suggest it asks for a calculation over table rows
+const TABLE_QUESTION_PATTERN = /\b(total|sum|average|avg|mean|count|how many|how much|maximum|max|minimum|min|highest|lowest|largest|smallest|biggest|per|column|rows?)\b/i;
+
+const tableFilterSchema = z.object({
+  column: z.string().min(1),
+  operator: z.enum(TABLE_FILTER_OPERATORS),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+const tableQuerySchema = z.object({
+  operation: z.enum(TABLE_OPERATIONS),
+  column: z.string().nullish(), // Aggregated column; optional for count
+  filters: z.array(tableFilterSchema).max(MAX_FILTERS).default([]),
+  groupBy: z.string().nullish(),
+});
+
+export type TableQuery = z.infer<typeof tableQuerySchema>;
+type TableFilter = z.infer<typeof tableFilterSchema>;
+
+export interface TableQueryResult {
+  value: number | string | null; // Dates for min/max over a date column
+  rowCount: number; // Rows that passed the filters
+  groups: Array<{ key: string; value: number | string | null; rowCount: number }>;
+  cells: string; // A1 references of the aggregated cells, e.g. "Expenses!C2:C9, C12"
+}
+
+export interface TableChatAnswer {
+  documentId: string;
+  filename: string;
+  tableId: string;
+  description: string; // The query and its result, for chat context and the citation preview
+  cells: string;
+}
+
+// The tool the chat model calls to aggregate a table
+const AGGREGATE_TABLE_TOOL = {
+  type: 'function' as const,
+  function: {
+    name: 'aggregate_table',
+    description: 'Compute a sum, average, count, minimum or maximum over rows of one of the listed tables, optionally filtered and grouped',
+    parameters: {
+      type: 'object',
+      properties: {
+        table: { type: 'integer', description: 'Number of the table in the list' },
+        operation: { type: 'string', enum: [...TABLE_OPERATIONS] },
+        column: { type: ['string', 'null'], description: 'Column to aggregate, by header name; null to count rows' },
+        filters: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              column: { type: 'string' },
+              operator: { type: 'string', enum: [...TABLE_FILTER_OPERATORS] },
+              value: { type: ['string', 'number', 'boolean'], description: 'Dates as YYYY-MM-DD, YYYY-MM or YYYY' },
+            },
+            required: ['column', 'operator', 'value'],
+          },
+        },
+        groupBy: { type: ['string', 'null'], description: 'Column whose values split the result into groups' },
+      },
+      required: ['table', 'operation'],
+    },
+  },
+};
+
+/**
+ * Answers calculation questions about spreadsheets ("total of Amount where Category is Travel") from
+ * the typed tables stored for them, so figures are computed exactly rather than by the chat model
+ * adding up chunk fragments. Queries are a fixed set of aggregations checked against the table's
+ * columns; nothing from the question is ever evaluated
+ */
+export class TableQueryService {
+  private static instance: TableQueryService;
+  private openai: OpenAI | null;
+
+  private constructor() {
+    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }) : null;
+  }
+
+  public static getInstance(): TableQueryService {
+    if (!TableQueryService.instance) {
+      TableQueryService.instance = new TableQueryService();
+    }
+    return TableQueryService.instance;
+  }
+
+  /**
+   * Results of the aggregations a chat message asks for over the user's tables, empty when the
+   * message is not a calculation or names no table's columns or values
+   */
+  async answerForChat(userId: string, message: string, fileIds?: string[]): Promise<TableChatAnswer[]> {
+    if (!TABLE_QUESTION_PATTERN.test(message)) {
+      return [];
+    }
+    const tables = await storage.getDocumentTableSummaries(userId, fileIds, MAX_TABLES);
+    if (tables.length === 0) {
+      return [];
+    }
+
+    const plans = (await this.planWithModel(message, tables)) ?? this.planWithRules(message, tables);
+    const answers: TableChatAnswer[] = [];
+    for (const plan of plans.slice(0, MAX_QUERIES)) {
+      const summary = tables.find(table => table.id === plan.tableId)!;
+      const table = await storage.getDocumentTable(plan.tableId);
+      if (!table) continue;
+      try {
+        const result = runTableQuery(table, plan.query);
+        answers.push({
+          documentId: table.documentId,
+          filename: summary.filename,
+          tableId: table.id,
+          description: describeResult(table, plan.query, result),
+          cells: result.cells,
+        });
+      } catch (error) {
+        console.warn(`Table query on ${table.id} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return answers;
+  }
+
+  /**
+   * Queries from the chat model's aggregate_table tool calls; an empty list when the model makes
+   * none, null when no model is available or the call fails
+   */
+  private async planWithModel(message: string, tables: DocumentTableSummary[]): Promise<Array<{ tableId: string; query: TableQuery }> | null> {
+    if (!this.openai) {
+      return null;
+    }
+
+    try {
+      const listing = tables.map((table, index) => {
+        const columns = table.columns.map(column => {
+          const values = column.values?.length ? `: ${column.values.slice(0, MAX_DESCRIBED_VALUES).join(', ')}${column.values.length > MAX_DESCRIBED_VALUES ? ', ...' : ''}` : '';
+          return `${column.name} (${column.type}${values})`;
+        });
+        return `${index + 1}. "${table.filename}"${table.sheetName ? `, sheet "${table.sheetName}"` : ''} (${table.rowCount} rows${table.truncated ? ', the first of a longer sheet' : ''}): ${columns.join('; ')}`;
+      }).join('\n');
+
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: `You help answer questions about the user's spreadsheets. When the question needs a total, average, count, minimum or maximum over table rows, call aggregate_table once per figure needed (at most ${MAX_QUERIES}), using column names and values exactly as listed. Otherwise call nothing.\n\nTables:\n${listing}`,
+          },
+          { role: 'user', content: message },
+        ],
+        tools: [AGGREGATE_TABLE_TOOL],
+        tool_choice: 'auto',
+        temperature: 0,
+      });
+
+      const plans: Array<{ tableId: string; query: TableQuery }> = [];
+      for (const call of response.choices[0]?.message?.tool_calls || []) {
+        if (call.type !== 'function' || call.function.name !== AGGREGATE_TABLE_TOOL.function.name) continue;
+        const parsed = tableQuerySchema.extend({ table: z.number().int() }).safeParse(JSON.parse(call.function.arguments || '{}'));
+        const table = parsed.success ? tables[parsed.data.table - 1] : undefined;
+        if (!parsed.success || !table) {
+          console.warn('Ignoring invalid aggregate_table call:', call.function.arguments);
+          continue;
+        }
+        const { table: _table, ...query } = parsed.data;
+        plans.push({ tableId: table.id, query });
+      }
+      return plans;
+    } catch (error) {
+      console.warn('AI table query planning failed, using keyword rules:', error);
+      return null;
+    }
+  }
+
+  /**
+   * One query against the table whose column names and values the message mentions most
+   */
+  planWithRules(message: string, tables: DocumentTableSummary[]): Array<{ tableId: string; query: TableQuery }> {
+    const lower = message.toLowerCase();
+    const operation: TableQuery['operation'] | null =
+      /\b(average|avg|mean)\b/.test(lower) ? 'average'
+        : /\b(how many|count|number of)\b/.test(lower) ? 'count'
+        : /\b(maximum|max|highest|largest|biggest|most expensive)\b/.test(lower) ? 'max'
+        : /\b(minimum|min|lowest|smallest|cheapest)\b/.test(lower) ? 'min'
+        : /\b(total|sum|how much)\b/.test(lower) ? 'sum'
+        : null;
+    if (!operation) {
+      return [];
+    }
+
+    const mentions = (phrase: string) => phrase.length >= 2 && new RegExp(`(^|\\W)${escapeRegExp(phrase.toLowerCase())}(\\W|$)`).test(lower);
+    let best: { table: DocumentTableSummary; named: DocumentTableColumn[]; valued: Array<{ column: DocumentTableColumn; value: string }>; score: number } | null = null;
+    for (const table of tables) {
+      const named = table.columns.filter(column => mentions(column.name));
+      const valued = table.columns.flatMap(column => (column.values || [])
+        .filter(value => mentions(value) && !table.columns.some(other => other.name.toLowerCase() === value.toLowerCase()))
+        .map(value => ({ column, value })));
+      const score = named.length * 2 + valued.length;
+      if (score > 0 && (!best || score > best.score)) {
+        best = { table, named, valued, score };
+      }
+    }
+    if (!best) {
+      return [];
+    }
+
+    const numericColumns = best.table.columns.filter(column => column.type === 'number');
+    // Counts are of rows; other operations need the numeric column named, or the only one
+    const column = operation === 'count' ? undefined
+      : best.named.filter(column => column.type === 'number').sort((a, b) => b.name.length - a.name.length)[0]
+        || (numericColumns.length === 1 ? numericColumns[0] : undefined);
+    if (operation !== 'count' && !column) {
+      return [];
+    }
+
+    const groupPhrase = lower.match(/\b(?:by|per|for each)\s+(.+)$/)?.[1];
+    const groupBy = groupPhrase
+      ? best.table.columns.filter(candidate => groupPhrase.startsWith(candidate.name.toLowerCase())).sort((a, b) => b.name.length - a.name.length)[0]
+      : undefined;
+
+    // The longest mentioned value of each column becomes an equality filter
+    const filters: TableFilter[] = [];
+    for (const { column: filterColumn, value } of best.valued.sort((a, b) => b.value.length - a.value.length)) {
+      if (filterColumn === groupBy || filters.some(filter => filter.column === filterColumn.name) || filters.length >= MAX_FILTERS) continue;
+      filters.push({ column: filterColumn.name, operator: 'equals', value });
+    }
+
+    return [{ tableId: best.table.id, query: { operation, column: column?.name, filters, groupBy: groupBy?.name } }];
+  }
+}
+
+/**
+ * Run one aggregation over a stored table. Throws when the query names a column the table lacks or
+ * sums and averages a column that is not numeric
+ */
+export function runTableQuery(table: Pick<DocumentTableRecord, 'sheetName' | 'columns' | 'rows' | 'rowNumbers'>, query: TableQuery): TableQueryResult {
+  const columnIndex = (name: string) => {
+    const lower = name.trim().toLowerCase();
+    let index = table.columns.findIndex(column => column.name.toLowerCase() === lower);
+    if (index === -1 && /^[a-z]{1,3}$/.test(lower)) {
+      index = table.columns.findIndex(column => column.letter.toLowerCase() === lower);
+    }
+    if (index === -1) {
+      throw new Error(`Unknown column "${name}"`);
+    }
+    return index;
+  };
+
+  const valueIndex = query.column ? columnIndex(query.column) : null;
+  const valueColumn = valueIndex === null ? null : table.columns[valueIndex];
+  if ((query.operation === 'sum' || query.operation === 'average') && valueColumn?.type !== 'number') {
+    throw new Error(valueColumn ? `Column "${valueColumn.name}" is not numeric` : `${query.operation} needs a column`);
+  }
+  if ((query.operation === 'min' || query.operation === 'max') && valueColumn?.type !== 'number' && valueColumn?.type !== 'date') {
+    throw new Error(valueColumn ? `Column "${valueColumn.name}" has no order` : `${query.operation} needs a column`);
+  }
+
+  const filters = query.filters.map(filter => ({ ...filter, index: columnIndex(filter.column) }));
+  const groupIndex = query.groupBy ? columnIndex(query.groupBy) : null;
+
+  const matched: number[] = [];
+  table.rows.forEach((row, rowIndex) => {
+    if (filters.every(filter => matchesFilter(row[filter.index] ?? null, table.columns[filter.index], filter))) {
+      matched.push(rowIndex);
+    }
+  });
+
+  const aggregate = (rowIndexes: number[]): number | string | null => {
+    if (query.operation === 'count') {
+      return valueIndex === null ? rowIndexes.length : rowIndexes.filter(rowIndex => table.rows[rowIndex][valueIndex] !== null).length;
+    }
+    const values = rowIndexes.map(rowIndex => table.rows[rowIndex][valueIndex!]).filter(value => value !== null) as Array<number | string>;
+    if (values.length === 0) {
+      return null;
+    }
+    switch (query.operation) {
+      case 'sum':
+        return roundResult((values as number[]).reduce((total, value) => total + value, 0));
+      case 'average':
+        return roundResult((values as number[]).reduce((total, value) => total + value, 0) / values.length);
+      case 'min':
+        return values.reduce((lowest, value) => value < lowest ? value : lowest);
+      default:
+        return values.reduce((highest, value) => value > highest ? value : highest);
+    }
+  };
+
+  const groups: TableQueryResult['groups'] = [];
+  if (groupIndex !== null) {
+    const byKey = new Map<string, number[]>();
+    for (const rowIndex of matched) {
+      const key = cellLabel(table.rows[rowIndex][groupIndex] ?? null);
+      const rowIndexes = byKey.get(key);
+      if (rowIndexes) {
+        rowIndexes.push(rowIndex);
+      } else {
+        byKey.set(key, [rowIndex]);
+      }
+    }
+    for (const [key, rowIndexes] of Array.from(byKey.entries())) {
+      groups.push({ key, value: aggregate(rowIndexes), rowCount: rowIndexes.length });
+    }
+    groups.sort((a, b) => (typeof b.value === 'number' ? b.value : 0) - (typeof a.value === 'number' ? a.value : 0));
+    groups.splice(MAX_GROUPS);
+  }
+
+  // Cite the aggregated column, or for plain counts the first filtered column
+  const citedColumn = valueColumn || (filters[0] ? table.columns[filters[0].index] : table.columns[0]);
+  return {
+    value: aggregate(matched),
+    rowCount: matched.length,
+    groups,
+    cells: citedColumn ? cellRanges(table.sheetName, citedColumn.letter, matched.map(rowIndex => table.rowNumbers[rowIndex])) : '',
+  };
+}
+
+function matchesFilter(cell: DocumentTableCell, column: DocumentTableColumn, filter: TableFilter): boolean {
+  if (cell === null) {
+    return filter.operator === 'not_equals';
+  }
+
+  const compare = (result: number, low: number = result, high: number = result): boolean => {
+    switch (filter.operator) {
+      case 'equals': return low >= 0 && high <= 0;
+      case 'not_equals': return !(low >= 0 && high <= 0);
+      case 'greater_than': return high > 0;
+      case 'less_than': return low < 0;
+      case 'at_least': return low >= 0;
+      case 'at_most': return high <= 0;
+      default: return false;
+    }
+  };
+
+  if (filter.operator === 'contains') {
+    return cellLabel(cell).toLowerCase().includes(String(filter.value).trim().toLowerCase());
+  }
+
+  switch (column.type) {
+    case 'number': {
+      const target = typeof filter.value === 'number' ? filter.value : parseNumber(String(filter.value));
+      return target !== null && compare(Math.sign((cell as number) - target));
+    }
+    case 'date': {
+      // A year or month matches every date within it: compare against both ends of the period
+      const value = String(filter.value).trim();
+      const period = value.match(/^(\d{4})(?:-(\d{1,2}))?$/);
+      const [start, end] = period
+        ? period[2]
+          ? [`${period[1]}-${period[2].padStart(2, '0')}-01`, `${period[1]}-${period[2].padStart(2, '0')}-31`]
+          : [`${period[1]}-01-01`, `${period[1]}-12-31`]
+        : [normalizeDate(value), normalizeDate(value)];
+      if (!start || !end) return false;
+      const date = cell as string;
+      return compare(0, date < start ? -1 : date > start ? 1 : 0, date < end ? -1 : date > end ? 1 : 0);
+    }
+    case 'boolean': {
+      const target = typeof filter.value === 'boolean' ? filter.value : /^(true|yes|1)$/i.test(String(filter.value).trim());
+      return filter.operator === 'not_equals' ? cell !== target : filter.operator === 'equals' && cell === target;
+    }
+    default:
+      return compare(Math.sign(String(cell).trim().toLowerCase().localeCompare(String(filter.value).trim().toLowerCase())));
+  }
+}
+
+function describeResult(table: Pick<DocumentTableRecord, 'sheetName' | 'rowCount' | 'truncated'>, query: TableQuery, result: TableQueryResult): string {
+  const operation = { sum: 'Sum', average: 'Average', count: 'Count', min: 'Minimum', max: 'Maximum' }[query.operation];
+  const subject = query.column ? `${operation} of ${query.column}` : `${operation} of rows`;
+  const conditions = query.filters.map(filter => `${filter.column} ${filter.operator.replace('_', ' ')} "${filter.value}"`);
+  const where = conditions.length > 0 ? ` where ${conditions.join(' and ')}` : '';
+  const sheet = table.sheetName ? ` (sheet "${table.sheetName}")` : '';
+
+  let description = `${subject}${where}${sheet}: ${result.value ?? 'no values'} over ${result.rowCount} row(s)`;
+  if (result.groups.length > 0) {
+    description += `; by ${query.groupBy}: ${result.groups.map(group => `${group.key} ${group.value ?? 'no values'} (${group.rowCount})`).join(', ')}`;
+  }
+  // Say so when the sheet was cut short, so a total is never presented as covering every row
+  if (table.truncated) {
+    description += `. This covers only the first ${table.rowCount} rows; the sheet has more that were not read`;
+  }
+  return `${description}. Cells: ${result.cells || 'none'}`;
+}
+
+/**
+ * "Sheet!C2:C5, C9" for rows 2-5 and 9 of column C
+ */
+function cellRanges(sheetName: string | null, letter: string, rowNumbers: number[]): string {
+  const ranges: string[] = [];
+  for (let i = 0; i < rowNumbers.length; i++) {
+    const start = rowNumbers[i];
+    while (i + 1 < rowNumbers.length && rowNumbers[i + 1] === rowNumbers[i] + 1) i++;
+    ranges.push(start === rowNumbers[i] ? `${letter}${start}` : `${letter}${start}:${letter}${rowNumbers[i]}`);
+  }
+  if (ranges.length === 0) {
+    return '';
+  }
+  const sheet = sheetName ? `${/^[A-Za-z0-9_]+$/.test(sheetName) ? sheetName : `'${sheetName.replace(/'/g, "''")}'`}!` : '';
+  const listed = ranges.slice(0, MAX_CITED_RANGES).join(', ');
+  return `${sheet}${listed}${ranges.length > MAX_CITED_RANGES ? ` and ${ranges.length - MAX_CITED_RANGES} more` : ''}`;
+}
+
+function cellLabel(cell: DocumentTableCell): string {
+  return cell === null ? '(empty)' : String(cell);
+}
+
+function roundResult(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const tableQueryService = TableQueryService.getInstance();
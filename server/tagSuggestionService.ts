@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import { storage } from './storage';
+import type { TagSuggestionRecord } from '@shared/schema';
+
+const MAX_SUGGESTIONS = 5;
+const MIN_CONFIDENCE = 0.5;
+const CONTENT_SAMPLE_LENGTH = 4000; // Characters of extracted text sent to the model
+const MAX_TAG_LENGTH = 40;
+
+// Keyword rules used when no OpenAI key is configured, and merged with the model's answer otherwise
+const KEYWORD_RULES: Array<{ tag: string; patterns: RegExp[] }> = [
+  { tag: 'invoice', patterns: [/\binvoice\b/i, /\bamount due\b/i, /\bbill to\b/i] },
+  { tag: 'receipt', patterns: [/\breceipt\b/i, /\bthank you for your (purchase|order)\b/i] },
+  { tag: 'passport', patterns: [/\bpassport\b/i, /\bnationality\b/i, /\bplace of birth\b/i] },
+  { tag: 'id card', patterns: [/\b(identity|id) card\b/i, /\bdriver'?s licen[cs]e\b/i] },
+  { tag: 'contract', patterns: [/\bagreement\b/i, /\bcontract\b/i, /\bhereinafter\b/i, /\bparties\b/i] },
+  { tag: 'bank statement', patterns: [/\b(bank|account) statement\b/i, /\bopening balance\b/i, /\bclosing balance\b/i] },
+  { tag: 'tax', patterns: [/\btax return\b/i, /\b(w-2|1099|vat)\b/i, /\btaxable income\b/i] },
+  { tag: 'insurance', patterns: [/\binsurance\b/i, /\bpolicy (number|holder)\b/i, /\bpremium\b/i] },
+  { tag: 'medical', patterns: [/\bpatient\b/i, /\bdiagnosis\b/i, /\bprescription\b/i] },
+  { tag: 'resume', patterns: [/\b(resume|curriculum vitae)\b/i, /\bwork experience\b/i] },
+  { tag: 'payslip', patterns: [/\b(payslip|pay stub|pay slip)\b/i, /\bgross pay\b/i, /\bnet pay\b/i] },
+  { tag: 'warranty', patterns: [/\bwarranty\b/i, /\bguarantee period\b/i] },
+];
+
+interface CandidateTag {
+  name: string;
+  confidence: number;
+}
+
+/**
+ * Proposes tags for a document from its extracted text. Suggestions are stored as pending for the
+ * user to accept or reject; names the document already carries or that were suggested for it before
+ * are left out
+ */
+export class TagSuggestionService {
+  private static instance: TagSuggestionService;
+  private openai: OpenAI | null;
+
+  private constructor() {
+    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }) : null;
+  }
+
+  public static getInstance(): TagSuggestionService {
+    if (!TagSuggestionService.instance) {
+      TagSuggestionService.instance = new TagSuggestionService();
+    }
+    return TagSuggestionService.instance;
+  }
+
+  /**
+   * Suggest tags for a processed document and store them as pending
+   */
+  async suggestTags(fileId: string, userId: string, content: string): Promise<TagSuggestionRecord[]> {
+    const file = await storage.getFile(fileId);
+    if (!file || !content.trim()) {
+      return [];
+    }
+
+    const existingTags = await storage.getTagsByUserId(userId);
+    const candidates = this.merge([
+      ...this.suggestFromKeywords(`${file.filename}\n${content}`),
+      ...await this.suggestWithModel(file.filename, content, existingTags.map(tag => tag.name)),
+    ]);
+
+    // Reuse the spelling of a matching existing tag
+    const existingByName = new Map(existingTags.map(tag => [tag.name.toLowerCase(), tag.name]));
+    const applied = new Set((await storage.getTagsForFiles([fileId])).map(({ tag }) => tag.name.toLowerCase()));
+
+    const suggestions = candidates
+      .filter(candidate => candidate.confidence >= MIN_CONFIDENCE && !applied.has(candidate.name))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(candidate => ({
+        documentId: fileId,
+        userId,
+        name: existingByName.get(candidate.name) || candidate.name,
+        confidence: candidate.confidence,
+      }));
+
+    const created = await storage.createTagSuggestions(suggestions);
+    console.log(`Suggested ${created.length} tags for ${fileId}: ${created.map(s => s.name).join(', ')}`);
+    return created;
+  }
+
+  private suggestFromKeywords(text: string): CandidateTag[] {
+    const sample = text.slice(0, CONTENT_SAMPLE_LENGTH * 2);
+    return KEYWORD_RULES
+      .map(rule => ({ tag: rule.tag, matches: rule.patterns.filter(pattern => pattern.test(sample)).length }))
+      .filter(rule => rule.matches > 0)
+      .map(rule => ({ name: rule.tag, confidence: Math.min(0.5 + rule.matches * 0.15, 0.9) }));
+  }
+
+  private async suggestWithModel(filename: string, content: string, existingTags: string[]): Promise<CandidateTag[]> {
+    if (!this.openai) {
+      return [];
+    }
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          {
+            role: 'system',
+            content: `You label documents in a personal vault. Suggest up to ${MAX_SUGGESTIONS} short, lowercase tags describing what kind of document this is and what it is about (e.g. "invoice", "passport", "contract", "insurance", "tax"). Prefer the user's existing tags when they fit. Respond with JSON: {"tags": [{"name": string, "confidence": number between 0 and 1}]}`,
+          },
+          {
+            role: 'user',
+            content: `Existing tags: ${existingTags.length > 0 ? existingTags.join(', ') : 'none'}\nFilename: ${filename}\n\n${content.slice(0, CONTENT_SAMPLE_LENGTH)}`,
+          },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      });
+
+      const parsed = JSON.parse(response.choices[0]?.message?.content || '{}');
+      if (!Array.isArray(parsed.tags)) {
+        return [];
+      }
+      return parsed.tags
+        .filter((tag: any) => typeof tag?.name === 'string')
+        .map((tag: any) => ({
+          name: tag.name,
+          confidence: typeof tag.confidence === 'number' ? Math.max(0, Math.min(tag.confidence, 1)) : MIN_CONFIDENCE,
+        }));
+    } catch (error) {
+      console.warn('AI tag suggestion failed, using keyword rules only:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Normalise names and keep the highest confidence per name, best first
+   */
+  private merge(candidates: CandidateTag[]): CandidateTag[] {
+    const byName = new Map<string, number>();
+    for (const candidate of candidates) {
+      const name = candidate.name.toLowerCase().replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+      if (!name) continue;
+      byName.set(name, Math.max(byName.get(name) || 0, candidate.confidence));
+    }
+    return Array.from(byName.entries())
+      .map(([name, confidence]) => ({ name, confidence }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+export const tagSuggestionService = TagSuggestionService.getInstance();
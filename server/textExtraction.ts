@@ -1,6 +1,6 @@
 // Dynamic import for pdf-parse to avoid initialization issues
 import mammoth from 'mammoth';
-import { createWorker } from 'tesseract.js';
+import { createWorker, OEM, type Worker } from 'tesseract.js';
 import { parse as parseHtml } from 'node-html-parser';
 import sharp from 'sharp';
 import fs from 'fs';
@@ -11,22 +11,48 @@ import { fromPath as pdf2pic } from 'pdf2pic';
 import * as officeParser from 'officeparser';
 import PptxParser from 'node-pptx-parser';
 import pptx2json from 'pptx2json';
+import { chunkDocument, formatTimestamp } from './documentChunker';
+import { parseEmail, splitMbox, type ParsedEmail } from './emailParser';
+import { extractWordBinaryText, extractPowerPointBinaryText, parseRtf, extractEpubText } from './documentFormats';
+import { createTranscriptionProvider, MEDIA_MIME_TYPES, type TranscriptionProvider } from './transcriptionProviders';
+import { tablesFromWorkbook, tableFromCsv, type ExtractedTable } from './spreadsheetTables';
+import { detectLanguage } from './languageDetection';
+import { DOCUMENT_LANGUAGES, DOCUMENT_LANGUAGE_CODES, findDocumentLanguage } from '@shared/languages';
+
+const MAX_MAILBOX_MESSAGES = 1000;
+const TRANSCRIPT_PAUSE_SECONDS = 2; // Silence that starts a new paragraph of a transcript
+const TRANSCRIPT_PARAGRAPH_SECONDS = 60;
+const MAX_OCR_LANGUAGES = 3; // Each traineddata loaded into the worker slows recognition down
+// Languages OCR tries when the user has set none and the script can't be told: OCR_LANGUAGES ("eng,fra")
+const DEFAULT_OCR_LANGUAGES = (process.env.OCR_LANGUAGES || 'eng').split(/[,+\s]+/).filter(code => DOCUMENT_LANGUAGE_CODES.includes(code));
 
 export interface ExtractedText {
   content: string;
   metadata?: {
     pages?: number;
     wordCount?: number;
-    language?: string;
+    language?: string; // Code from DOCUMENT_LANGUAGES
+    ocrLanguages?: string[]; // Tesseract traineddata the text was recognised with
     extractionMethod?: string;
     confidence?: number;
     includesNotes?: boolean;
+    duration?: number; // Seconds, for audio and video
   };
+  emails?: ParsedEmail[]; // Messages of an .eml or .mbox file, with their attachments
+  tables?: ExtractedTable[]; // Typed tables of a spreadsheet or CSV file, one per sheet
+}
+
+export interface ExtractionOptions {
+  ocrLanguages?: string[]; // The user's preferred languages for scans, most likely first
 }
 
 export class TextExtractionService {
   private static instance: TextExtractionService;
-  private ocrWorker: any = null;
+  private ocrWorker: Worker | null = null;
+  private ocrWorkerLanguages = '';
+  private ocrQueue: Promise<unknown> = Promise.resolve();
+  private scriptDetector: Promise<Worker> | null = null;
+  private transcriptionProvider: TranscriptionProvider | null = null;
 
   private constructor() {}
 
@@ -40,13 +66,13 @@ export class TextExtractionService {
   /**
    * Extract text from various file types
    */
-  async extractText(filePath: string, mimeType: string): Promise<ExtractedText> {
+  async extractText(filePath: string, mimeType: string, options: ExtractionOptions = {}): Promise<ExtractedText> {
     try {
       console.log(`Extracting text from file: ${path.basename(filePath)} (${mimeType})`);
 
       switch (mimeType) {
         case 'application/pdf':
-          return await this.extractFromPDF(filePath);
+          return await this.extractFromPDF(filePath, options);
         
         case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
           return await this.extractFromDocx(filePath);
@@ -64,6 +90,7 @@ export class TextExtractionService {
           
         case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
         case 'application/vnd.ms-excel':
+        case 'application/vnd.oasis.opendocument.spreadsheet':
           return await this.extractFromExcel(filePath);
           
         case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
@@ -75,19 +102,39 @@ export class TextExtractionService {
         case 'image/webp':
         case 'image/bmp':
         case 'image/tiff':
-          return await this.extractFromImage(filePath);
+          return await this.extractFromImage(filePath, options);
         
-        // Legacy Office format fallbacks
+        // Legacy Office binaries; files saved in the newer format under an old name are zips
         case 'application/vnd.ms-powerpoint':
-          return await this.extractFromPPTX(filePath); // May work for older .ppt files
+          return this.isZipFile(filePath) ? await this.extractFromPPTX(filePath) : await this.extractFromLegacyPowerPoint(filePath);
           
+        case 'application/msword':
         case 'application/vnd.ms-word':
-          return await this.extractFromDocx(filePath); // May work for older .doc files
+          return this.isZipFile(filePath) ? await this.extractFromDocx(filePath) : await this.extractFromLegacyWord(filePath);
+
+        case 'application/vnd.oasis.opendocument.text':
+        case 'application/vnd.oasis.opendocument.presentation':
+          return await this.extractFromOpenDocument(filePath);
+
+        case 'application/rtf':
+        case 'text/rtf':
+          return await this.extractFromRtf(filePath);
+
+        case 'application/epub+zip':
+          return await this.extractFromEpub(filePath);
           
         case 'text/markdown':
           return await this.extractFromText(filePath);
+
+        case 'message/rfc822':
+        case 'application/mbox':
+          return await this.extractFromEmail(filePath, mimeType);
           
         default:
+          if (MEDIA_MIME_TYPES.includes(mimeType)) {
+            return await this.extractFromMedia(filePath);
+          }
+
           // Try to extract as text if unknown type
           if (mimeType.startsWith('text/')) {
             console.log(`Attempting text extraction fallback for MIME type: ${mimeType}`);
@@ -111,7 +158,7 @@ export class TextExtractionService {
   /**
    * Extract text from PDF files using pdf2pic + OCR
    */
-  private async extractFromPDF(filePath: string): Promise<ExtractedText> {
+  private async extractFromPDF(filePath: string, extractionOptions: ExtractionOptions): Promise<ExtractedText> {
     try {
       // Check if file exists first
       if (!fs.existsSync(filePath)) {
@@ -121,12 +168,6 @@ export class TextExtractionService {
       const dataBuffer = fs.readFileSync(filePath);
       console.log(`Processing PDF file: ${filePath}, buffer size: ${dataBuffer.length} bytes`);
 
-      // Initialize OCR worker if not already done
-      if (!this.ocrWorker) {
-        console.log('Initializing OCR worker for PDF processing...');
-        this.ocrWorker = await createWorker('eng');
-      }
-
       // Configure PDF to image conversion
       const tempDir = path.join(process.cwd(), 'temp');
       if (!fs.existsSync(tempDir)) {
@@ -148,6 +189,7 @@ export class TextExtractionService {
       
       let allText: string[] = [];
       let totalPages = 0;
+      let ocrLanguages: string[] | null = null; // Chosen from the first page
       
       try {
         // Process up to 50 pages for complete document coverage (reasonable limit to prevent excessive resource use)
@@ -160,7 +202,8 @@ export class TextExtractionService {
               console.log(`Processing page ${pageNum} with OCR...`);
               
               // Extract text from the converted image using OCR
-              const { data: { text, confidence } } = await this.ocrWorker.recognize(result.path);
+              ocrLanguages = ocrLanguages || await this.chooseOcrLanguages(result.path, extractionOptions.ocrLanguages);
+              const { data: { text, confidence } } = await this.withOcrWorker(ocrLanguages, worker => worker.recognize(result.path!));
               
               if (text.trim()) {
                 allText.push(`--- Page ${pageNum} ---\n${text.trim()}`);
@@ -193,6 +236,8 @@ export class TextExtractionService {
           metadata: {
             pages: totalPages,
             wordCount: combinedText.split(/\s+/).length,
+            language: detectLanguage(combinedText, ocrLanguages || undefined) || ocrLanguages?.[0],
+            ocrLanguages: ocrLanguages || undefined,
             extractionMethod: 'pdf2pic-ocr',
             confidence: totalPages > 0 ? Math.round(85) : 0 // Approximate confidence
           }
@@ -213,17 +258,57 @@ export class TextExtractionService {
    * Extract text from Word documents (.docx)
    */
   private async extractFromDocx(filePath: string): Promise<ExtractedText> {
-    const result = await mammoth.extractRawText({ path: filePath });
+    // Convert via HTML so headings, lists and tables survive as markdown for the structure-aware chunker
+    const result = await mammoth.convertToHtml({ path: filePath });
+    const content = this.docxHtmlToText(result.value);
     
     return {
-      content: result.value,
+      content,
       metadata: {
-        wordCount: result.value.split(/\s+/).length,
+        wordCount: content.split(/\s+/).length,
         extractionMethod: 'mammoth'
       }
     };
   }
 
+  /**
+   * Flatten mammoth's HTML into plain text with markdown headings, list items and table rows
+   */
+  private docxHtmlToText(html: string): string {
+    const root = parseHtml(html);
+    const blocks: string[] = [];
+    const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+    root.childNodes.forEach((node: any) => {
+      const tag = node.tagName?.toLowerCase();
+      if (!tag) {
+        const text = clean(node.text || '');
+        if (text) blocks.push(text);
+        return;
+      }
+
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) {
+        const text = clean(node.text);
+        if (text) blocks.push(`${'#'.repeat(parseInt(heading[1], 10))} ${text}`);
+      } else if (tag === 'ul' || tag === 'ol') {
+        const items = node.querySelectorAll('li').map((item: any) => clean(item.text)).filter(Boolean);
+        if (items.length > 0) blocks.push(items.map((item: string) => `- ${item}`).join('\n'));
+      } else if (tag === 'table') {
+        const rows = node.querySelectorAll('tr')
+          .map((row: any) => row.querySelectorAll('td, th').map((cell: any) => clean(cell.text).replace(/\|/g, '/')))
+          .filter((cells: string[]) => cells.some(Boolean))
+          .map((cells: string[]) => `| ${cells.join(' | ')} |`);
+        if (rows.length > 0) blocks.push(rows.join('\n'));
+      } else {
+        const text = clean(node.text);
+        if (text) blocks.push(text);
+      }
+    });
+
+    return blocks.join('\n\n');
+  }
+
   /**
    * Extract text from HTML files
    */
@@ -245,6 +330,193 @@ export class TextExtractionService {
     };
   }
 
+  /**
+   * Extract text from an email (.eml) or mailbox (.mbox): each message's headers and body, with the
+   * subject as a heading so the chunker keeps messages apart. Attachments are returned, not extracted here
+   */
+  private async extractFromEmail(filePath: string, mimeType: string): Promise<ExtractedText> {
+    const raw = fs.readFileSync(filePath);
+    const messages = mimeType === 'application/mbox' ? splitMbox(raw) : [raw];
+    if (messages.length > MAX_MAILBOX_MESSAGES) {
+      console.warn(`Mailbox has ${messages.length} messages, extracting the first ${MAX_MAILBOX_MESSAGES}`);
+    }
+    const emails = messages.slice(0, MAX_MAILBOX_MESSAGES).map(message => parseEmail(message));
+
+    const formatAddress = (address: { name: string | null; address: string }) =>
+      address.name ? `${address.name} <${address.address}>` : address.address;
+    const content = emails.map(email => {
+      const headers = [
+        `# ${email.subject || '(no subject)'}`,
+        email.from ? `From: ${formatAddress(email.from)}` : '',
+        email.to.length > 0 ? `To: ${email.to.map(formatAddress).join(', ')}` : '',
+        email.cc.length > 0 ? `Cc: ${email.cc.map(formatAddress).join(', ')}` : '',
+        email.date ? `Date: ${email.date.toUTCString()}` : '',
+        email.attachments.length > 0 ? `Attachments: ${email.attachments.map(attachment => attachment.filename).join(', ')}` : '',
+      ].filter(Boolean);
+      return `${headers.join('\n')}\n\n${email.text}`.trim();
+    }).join('\n\n');
+
+    return {
+      content,
+      metadata: {
+        pages: emails.length,
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'email-parser'
+      },
+      emails
+    };
+  }
+
+  /**
+   * Extract text from a Word 97-2003 (.doc) document
+   */
+  private async extractFromLegacyWord(filePath: string): Promise<ExtractedText> {
+    const content = extractWordBinaryText(fs.readFileSync(filePath));
+
+    return {
+      content,
+      metadata: {
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'word-binary'
+      }
+    };
+  }
+
+  /**
+   * Extract text from a PowerPoint 97-2003 (.ppt) presentation
+   */
+  private async extractFromLegacyPowerPoint(filePath: string): Promise<ExtractedText> {
+    const { content, slides } = extractPowerPointBinaryText(fs.readFileSync(filePath));
+
+    return {
+      content,
+      metadata: {
+        pages: slides,
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'powerpoint-binary'
+      }
+    };
+  }
+
+  /**
+   * Extract text from OpenDocument text and presentations (.odt, .odp); spreadsheets are read like Excel files.
+   * officeparser picks its parser from the file extension
+   */
+  private async extractFromOpenDocument(filePath: string): Promise<ExtractedText> {
+    const extractedText = await officeParser.parseOfficeAsync(filePath, {
+      ignoreNotes: false,
+      newlineDelimiter: '\n',
+      outputErrorToConsole: false
+    });
+    const content = (extractedText || '').trim();
+
+    return {
+      content,
+      metadata: {
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'officeparser'
+      }
+    };
+  }
+
+  /**
+   * Extract text from Rich Text Format files
+   */
+  private async extractFromRtf(filePath: string): Promise<ExtractedText> {
+    const content = parseRtf(fs.readFileSync(filePath));
+
+    return {
+      content,
+      metadata: {
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'rtf-parser'
+      }
+    };
+  }
+
+  /**
+   * Extract text from an EPUB book, chapter by chapter in reading order
+   */
+  private async extractFromEpub(filePath: string): Promise<ExtractedText> {
+    const { content, chapters } = extractEpubText(fs.readFileSync(filePath));
+
+    return {
+      content,
+      metadata: {
+        pages: chapters,
+        wordCount: content.split(/\s+/).length,
+        extractionMethod: 'epub-parser'
+      }
+    };
+  }
+
+  /**
+   * Largest recording in bytes the configured transcription provider accepts, or null when it has no limit
+   */
+  getMaxRecordingSize(): number | null {
+    return this.getTranscriptionProvider().maxFileSize;
+  }
+
+  private getTranscriptionProvider(): TranscriptionProvider {
+    if (!this.transcriptionProvider) {
+      this.transcriptionProvider = createTranscriptionProvider();
+    }
+    return this.transcriptionProvider;
+  }
+
+  /**
+   * Transcribe audio and video. Each segment is a line starting with its "[mm:ss]" timestamp, which
+   * the chunker records on chunks so citations can seek the recording; pauses start a new paragraph
+   */
+  private async extractFromMedia(filePath: string): Promise<ExtractedText> {
+    const provider = this.getTranscriptionProvider();
+    if (!provider.isAvailable()) {
+      throw new Error('No transcription provider is configured for audio and video files');
+    }
+    const size = fs.statSync(filePath).size;
+    if (provider.maxFileSize !== null && size > provider.maxFileSize) {
+      throw new Error(`Recording is too large to transcribe (${Math.round(size / 1024 / 1024)}MB, limit ${Math.round(provider.maxFileSize / 1024 / 1024)}MB)`);
+    }
+
+    const transcript = await provider.transcribe(filePath);
+
+    const lines: string[] = [];
+    let paragraphStart = 0;
+    transcript.segments.forEach((segment, index) => {
+      const previous = transcript.segments[index - 1];
+      if (previous && (segment.start - previous.end >= TRANSCRIPT_PAUSE_SECONDS || segment.start - paragraphStart >= TRANSCRIPT_PARAGRAPH_SECONDS)) {
+        lines.push('');
+        paragraphStart = segment.start;
+      }
+      lines.push(`[${formatTimestamp(segment.start)}] ${segment.text}`);
+    });
+    const content = lines.join('\n');
+    if (!content) {
+      throw new Error('No speech detected in the recording');
+    }
+
+    return {
+      content,
+      metadata: {
+        wordCount: transcript.segments.reduce((count, segment) => count + segment.text.split(/\s+/).filter(Boolean).length, 0),
+        language: findDocumentLanguage(transcript.language)?.code,
+        duration: transcript.duration ?? undefined,
+        extractionMethod: `transcription-${provider.name}`
+      }
+    };
+  }
+
+  private isZipFile(filePath: string): boolean {
+    const header = Buffer.alloc(2);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, header, 0, 2, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return header[0] === 0x50 && header[1] === 0x4B;
+  }
+
   /**
    * Extract text from plain text files
    */
@@ -263,17 +535,13 @@ export class TextExtractionService {
   /**
    * Extract text from images using OCR
    */
-  private async extractFromImage(filePath: string): Promise<ExtractedText> {
+  private async extractFromImage(filePath: string, options: ExtractionOptions): Promise<ExtractedText> {
     try {
-      // Initialize OCR worker if not already done
-      if (!this.ocrWorker) {
-        this.ocrWorker = await createWorker('eng');
-      }
-
       // Pre-process image for better OCR results
       const processedImagePath = await this.preprocessImage(filePath);
       
-      const { data: { text, confidence } } = await this.ocrWorker.recognize(processedImagePath);
+      const ocrLanguages = await this.chooseOcrLanguages(processedImagePath, options.ocrLanguages);
+      const { data: { text, confidence } } = await this.withOcrWorker(ocrLanguages, worker => worker.recognize(processedImagePath));
       
       // Clean up processed image if it's different from original
       if (processedImagePath !== filePath) {
@@ -284,6 +552,8 @@ export class TextExtractionService {
         content: text.trim(),
         metadata: {
           wordCount: text.trim().split(/\s+/).length,
+          language: detectLanguage(text, ocrLanguages) || ocrLanguages[0],
+          ocrLanguages,
           extractionMethod: 'tesseract-ocr',
           confidence: Math.round(confidence)
         }
@@ -294,6 +564,72 @@ export class TextExtractionService {
     }
   }
 
+  /**
+   * Tesseract languages for a scan: those written in the script orientation and script detection finds
+   * on it, narrowed to the user's preferred languages when any of them use that script. Without a
+   * detected script the preferred languages are used as they are
+   */
+  private async chooseOcrLanguages(imagePath: string, preferred: string[] = []): Promise<string[]> {
+    const wanted = preferred.filter(code => DOCUMENT_LANGUAGE_CODES.includes(code));
+    const fallback = wanted.length > 0 ? wanted : DEFAULT_OCR_LANGUAGES.length > 0 ? DEFAULT_OCR_LANGUAGES : ['eng'];
+    const script = await this.detectScript(imagePath);
+    const ofScript = DOCUMENT_LANGUAGES.filter(language => language.script === script).map(language => language.code);
+    if (ofScript.length === 0) {
+      return fallback.slice(0, MAX_OCR_LANGUAGES);
+    }
+
+    const preferredOfScript = fallback.filter(code => ofScript.includes(code));
+    const languages = (preferredOfScript.length > 0 ? preferredOfScript : ofScript).slice(0, MAX_OCR_LANGUAGES);
+    // Documents in other scripts usually carry some English words and Latin numbers too
+    if (script !== 'Latin' && languages.length < MAX_OCR_LANGUAGES) {
+      languages.push('eng');
+    }
+    return languages;
+  }
+
+  /**
+   * The script Tesseract's orientation and script detection (legacy engine, `osd` traineddata) finds
+   * on an image, or null when it can't tell
+   */
+  private async detectScript(imagePath: string): Promise<string | null> {
+    try {
+      if (!this.scriptDetector) {
+        this.scriptDetector = createWorker('osd', OEM.TESSERACT_ONLY, { legacyCore: true, legacyLang: true })
+          .catch(error => {
+            this.scriptDetector = null;
+            throw error;
+          });
+      }
+      const { data } = await (await this.scriptDetector).detect(imagePath);
+      return data.script ? data.script.replace(/_vert$/, '') : null;
+    } catch (error) {
+      console.warn('Script detection failed, using the preferred OCR languages:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Run OCR with the worker loaded for `languages`. Jobs run one at a time so that switching
+   * languages for one file never affects another file's recognition
+   */
+  private withOcrWorker<T>(languages: string[], task: (worker: Worker) => Promise<T>): Promise<T> {
+    const run = this.ocrQueue.then(async () => {
+      const key = languages.join('+');
+      if (!this.ocrWorker) {
+        console.log(`Initializing OCR worker (${key})...`);
+        this.ocrWorker = await createWorker(key);
+        this.ocrWorkerLanguages = key;
+      } else if (this.ocrWorkerLanguages !== key) {
+        this.ocrWorkerLanguages = '';
+        await this.ocrWorker.reinitialize(key);
+        this.ocrWorkerLanguages = key;
+      }
+      return task(this.ocrWorker);
+    });
+    this.ocrQueue = run.catch(() => undefined);
+    return run;
+  }
+
   /**
    * Pre-process image for better OCR results
    */
@@ -329,22 +665,11 @@ export class TextExtractionService {
   }
 
   /**
-   * Split text into chunks for better embeddings
+   * Split text into chunks for better embeddings, following its pages, headings and table rows
+   * Sizes are in estimated tokens
    */
-  splitIntoChunks(text: string, chunkSize: number = 1000, overlap: number = 200): string[] {
-    const words = text.split(/\s+/);
-    const chunks: string[] = [];
-    
-    for (let i = 0; i < words.length; i += chunkSize - overlap) {
-      const chunk = words.slice(i, i + chunkSize).join(' ');
-      if (chunk.trim().length > 0) {
-        chunks.push(chunk.trim());
-      }
-      
-      // Break if we've reached the end
-      if (i + chunkSize >= words.length) break;
-    }
-    
+  splitIntoChunks(text: string, chunkSize: number = 500, overlap: number = 100): string[] {
+    const chunks = chunkDocument(text, { maxTokens: chunkSize, overlapTokens: overlap }).map(chunk => chunk.content);
     return chunks.length > 0 ? chunks : [text];
   }
 
@@ -354,6 +679,7 @@ export class TextExtractionService {
   private async extractFromCSV(filePath: string): Promise<ExtractedText> {
     return new Promise((resolve, reject) => {
       const rows: string[] = [];
+      const records: Array<Record<string, string>> = [];
       let headerRow: string[] = [];
       let isFirstRow = true;
       
@@ -374,15 +700,18 @@ export class TextExtractionService {
             .map(([key, value]) => `${key}: ${value}`)
             .join(', ');
           rows.push(rowText);
+          records.push(row);
         })
         .on('end', () => {
           const content = rows.join('\n');
+          const table = tableFromCsv(headerRow, records);
           resolve({
             content,
             metadata: {
               wordCount: content.split(/\s+/).length,
               extractionMethod: 'csv-parser'
-            }
+            },
+            tables: table ? [table] : []
           });
         })
         .on('error', reject);
@@ -390,10 +719,11 @@ export class TextExtractionService {
   }
 
   /**
-   * Extract text from Excel files (.xlsx, .xls)
+   * Extract text and tables from Excel and OpenDocument spreadsheets (.xlsx, .xls, .ods)
    */
   private async extractFromExcel(filePath: string): Promise<ExtractedText> {
-    const workbook = XLSX.readFile(filePath);
+    // Number formats are kept so dates can be told apart from other numbers in the tables
+    const workbook = XLSX.readFile(filePath, { cellNF: true });
     const allText: string[] = [];
     
     // Process each worksheet
@@ -428,7 +758,8 @@ export class TextExtractionService {
         wordCount: content.split(/\s+/).length,
         extractionMethod: 'xlsx',
         pages: workbook.SheetNames.length
-      }
+      },
+      tables: tablesFromWorkbook(workbook)
     };
   }
 
@@ -687,6 +1018,12 @@ export class TextExtractionService {
     if (this.ocrWorker) {
       await this.ocrWorker.terminate();
       this.ocrWorker = null;
+      this.ocrWorkerLanguages = '';
+    }
+    if (this.scriptDetector) {
+      const detector = this.scriptDetector;
+      this.scriptDetector = null;
+      await detector.then(worker => worker.terminate(), () => undefined);
     }
   }
 }
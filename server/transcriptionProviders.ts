@@ -0,0 +1,286 @@
+import OpenAI from 'openai';
+import fs from 'fs';
+import path from 'path';
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  language: string | null;
+  duration: number | null; // Seconds
+}
+
+/**
+ * A speech-to-text engine for audio and video documents. Segments carry timestamps so chunks
+ * of the transcript can point back into the recording
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly maxFileSize: number | null; // Bytes the engine accepts in one request, when limited
+  isAvailable(): boolean;
+  transcribe(filePath: string): Promise<Transcript>;
+}
+
+// Types browsers give audio and video uploads, by extension
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.mp4': 'video/mp4',
+};
+
+export const MEDIA_MIME_TYPES = [
+  ...Object.values(MEDIA_EXTENSIONS),
+  'audio/mp3', 'audio/x-m4a', 'audio/m4a', 'audio/x-wav', 'audio/wave',
+];
+
+/**
+ * The MIME type of an upload named like an audio or video file, or null
+ */
+export function mediaMimeTypeFor(filename: string): string | null {
+  return MEDIA_EXTENSIONS[path.extname(filename).toLowerCase()] || null;
+}
+
+/**
+ * OpenAI hosted Whisper, with segment timestamps
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly model: string;
+  readonly maxFileSize = 25 * 1024 * 1024; // Whisper API upload limit
+  private openai: OpenAI | null;
+
+  constructor(model: string = process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1') {
+    this.model = model;
+    this.openai = process.env.OPENAI_API_KEY ? new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    }) : null;
+  }
+
+  isAvailable(): boolean {
+    return this.openai !== null;
+  }
+
+  async transcribe(filePath: string): Promise<Transcript> {
+    if (!this.openai) {
+      throw new Error('OpenAI API key not configured - transcription unavailable');
+    }
+
+    // The API tells formats apart by the file extension
+    const transcription = await this.openai.audio.transcriptions.create({
+      file: fs.createReadStream(filePath),
+      model: this.model,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment']
+    });
+
+    const segments = (transcription.segments || []).map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim()
+    }));
+
+    return {
+      // Without segments the whole transcript is one segment at the start
+      segments: segments.length > 0 || !transcription.text ? segments : [{ start: 0, end: transcription.duration || 0, text: transcription.text.trim() }],
+      language: transcription.language || null,
+      duration: transcription.duration ?? null
+    };
+  }
+}
+
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+const SAMPLE_RATE = 16000; // Whisper models expect 16 kHz mono
+
+/**
+ * Local CPU Whisper via transformers.js, for development and installs without an OpenAI key.
+ * Requires the optional `@huggingface/transformers` package; WAV files are decoded directly and
+ * other formats need `ffmpeg` on the PATH
+ */
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+  readonly model: string;
+  readonly maxFileSize = null;
+  private transcriber: Promise<any> | null = null;
+
+  constructor(model: string = process.env.LOCAL_TRANSCRIPTION_MODEL || 'Xenova/whisper-tiny') {
+    this.model = model;
+  }
+
+  isAvailable(): boolean {
+    try {
+      createRequire(import.meta.url).resolve(TRANSFORMERS_PACKAGE);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async transcribe(filePath: string): Promise<Transcript> {
+    const audio = await decodeAudio(filePath);
+    const transcriber = await this.getTranscriber();
+    const output = await transcriber(audio, { return_timestamps: true, chunk_length_s: 30, stride_length_s: 5 });
+
+    const segments: TranscriptSegment[] = (output.chunks || [])
+      .map((chunk: { timestamp: [number, number | null]; text: string }) => ({
+        start: chunk.timestamp[0],
+        end: chunk.timestamp[1] ?? chunk.timestamp[0],
+        text: chunk.text.trim()
+      }))
+      .filter((segment: TranscriptSegment) => segment.text);
+
+    return {
+      segments: segments.length > 0 || !output.text?.trim() ? segments : [{ start: 0, end: audio.length / SAMPLE_RATE, text: output.text.trim() }],
+      language: null,
+      duration: audio.length / SAMPLE_RATE
+    };
+  }
+
+  private getTranscriber(): Promise<any> {
+    if (!this.transcriber) {
+      console.log(`Loading local transcription model ${this.model}...`);
+      // Module name kept in a variable so the package stays optional for builds that don't use it
+      this.transcriber = import(TRANSFORMERS_PACKAGE)
+        .then(({ pipeline }) => pipeline('automatic-speech-recognition', this.model, { dtype: 'fp32' }))
+        .catch(error => {
+          this.transcriber = null;
+          throw new Error(`Failed to load local transcription model ${this.model}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+    }
+    return this.transcriber;
+  }
+}
+
+/**
+ * Mono 16 kHz samples of an audio or video file
+ */
+async function decodeAudio(filePath: string): Promise<Float32Array> {
+  const buffer = fs.readFileSync(filePath);
+  if (buffer.length > 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+    return decodeWav(buffer);
+  }
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', ['-v', 'error', '-i', filePath, '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE), '-f', 'f32le', '-']);
+    const output: Buffer[] = [];
+    let errorOutput = '';
+    ffmpeg.stdout.on('data', (data: Buffer) => output.push(data));
+    ffmpeg.stderr.on('data', (data: Buffer) => { errorOutput += data.toString(); });
+    ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+      reject(new Error(error.code === 'ENOENT'
+        ? 'ffmpeg is required to transcribe this format locally'
+        : `ffmpeg failed: ${error.message}`));
+    });
+    ffmpeg.on('close', code => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg could not decode the audio: ${errorOutput.trim() || `exit code ${code}`}`));
+        return;
+      }
+      const pcm = Buffer.concat(output);
+      resolve(new Float32Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 4)).slice());
+    });
+  });
+}
+
+/**
+ * PCM (8, 16, 24 or 32-bit integer, or 32-bit float) WAV data, mixed to mono and resampled to 16 kHz
+ */
+function decodeWav(buffer: Buffer): Float32Array {
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let data: Buffer | null = null;
+
+  for (let position = 12; position + 8 <= buffer.length;) {
+    const id = buffer.toString('latin1', position, position + 4);
+    const size = buffer.readUInt32LE(position + 4);
+    const body = position + 8;
+    if (id === 'fmt ') {
+      format = buffer.readUInt16LE(body);
+      channels = buffer.readUInt16LE(body + 2);
+      sampleRate = buffer.readUInt32LE(body + 4);
+      bitsPerSample = buffer.readUInt16LE(body + 14);
+      // WAVE_FORMAT_EXTENSIBLE keeps the actual format in its sub-format GUID
+      if (format === 0xFFFE && size >= 26) {
+        format = buffer.readUInt16LE(body + 24);
+      }
+    } else if (id === 'data') {
+      data = buffer.subarray(body, Math.min(body + size, buffer.length));
+    }
+    position = body + size + (size % 2);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  if (!data || channels === 0 || !sampleRate || (format !== 1 && format !== 3) || ![1, 2, 3, 4].includes(bytesPerSample)) {
+    throw new Error('Unsupported WAV encoding - only PCM and 32-bit float WAV files can be transcribed locally');
+  }
+
+  const readSample = (offset: number): number => {
+    if (format === 3) return data!.readFloatLE(offset);
+    switch (bytesPerSample) {
+      case 1: return (data![offset] - 128) / 128;
+      case 2: return data!.readInt16LE(offset) / 32768;
+      case 3: return data!.readIntLE(offset, 3) / 8388608;
+      default: return data!.readInt32LE(offset) / 2147483648;
+    }
+  };
+
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.length / frameSize);
+  const mono = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(frame * frameSize + channel * bytesPerSample);
+    }
+    mono[frame] = sum / channels;
+  }
+
+  if (sampleRate === SAMPLE_RATE) {
+    return mono;
+  }
+  // Linear interpolation is enough for speech recognition
+  const ratio = sampleRate / SAMPLE_RATE;
+  const resampled = new Float32Array(Math.floor(frames / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, frames - 1);
+    resampled[i] = mono[index] + (mono[next] - mono[index]) * (position - index);
+  }
+  return resampled;
+}
+
+/**
+ * Pick the provider from TRANSCRIPTION_PROVIDER ("openai" or "local")
+ * Without it, OpenAI is used when a key is set, otherwise the local model if installed
+ */
+export function createTranscriptionProvider(provider: string | undefined = process.env.TRANSCRIPTION_PROVIDER): TranscriptionProvider {
+  const configured = provider?.toLowerCase();
+
+  switch (configured) {
+    case 'openai':
+      return new OpenAITranscriptionProvider();
+    case 'local':
+      return new LocalTranscriptionProvider();
+    case undefined:
+    case '': {
+      const openaiProvider = new OpenAITranscriptionProvider();
+      if (openaiProvider.isAvailable()) {
+        return openaiProvider;
+      }
+      const localProvider = new LocalTranscriptionProvider();
+      return localProvider.isAvailable() ? localProvider : openaiProvider;
+    }
+    default:
+      throw new Error(`Unknown transcription provider "${configured}" - expected "openai" or "local"`);
+  }
+}
@@ -0,0 +1,129 @@
+import { storage } from './storage';
+import { fileProcessor } from './fileProcessor';
+import type { DocumentRecord } from '@shared/schema';
+
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Deleted documents go to the trash and keep their row, chunks and stored bytes so they can be restored.
+ * They are purged (row, chunks, every version's object in storage, usage counters) when the owner empties
+ * the trash or, hourly, once they are older than the owner's retention window
+ */
+export class TrashService {
+  private static instance: TrashService;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private purging = false;
+
+  private constructor() {}
+
+  public static getInstance(): TrashService {
+    if (!TrashService.instance) {
+      TrashService.instance = new TrashService();
+    }
+    return TrashService.instance;
+  }
+
+  /**
+   * Purge expired trash now and then every hour
+   */
+  startPurgeSchedule(): void {
+    if (this.purgeTimer) {
+      return;
+    }
+    this.purgeExpired();
+    this.purgeTimer = setInterval(() => this.purgeExpired(), PURGE_INTERVAL_MS);
+    this.purgeTimer.unref();
+  }
+
+  async purgeExpired(): Promise<number> {
+    if (this.purging) {
+      return 0;
+    }
+    this.purging = true;
+
+    let purged = 0;
+    try {
+      for (;;) {
+        const files = await storage.getExpiredTrashedFiles(PURGE_BATCH_SIZE);
+        for (const file of files) {
+          await this.purgeFile(file);
+          purged++;
+        }
+        if (files.length < PURGE_BATCH_SIZE) {
+          break;
+        }
+      }
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired file(s) from the trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge failed:', error);
+    } finally {
+      this.purging = false;
+    }
+    return purged;
+  }
+
+  async emptyTrash(userId: string): Promise<number> {
+    const files = await storage.getTrashedFiles(userId);
+    for (const file of files) {
+      await this.purgeFile(file);
+    }
+    return files.length;
+  }
+
+  /**
+   * Permanently delete a file with its RAG data and stored objects and release it from the usage quota.
+   * Attachments extracted from an email are purged with it
+   */
+  async purgeFile(file: DocumentRecord): Promise<void> {
+    for (const child of await storage.getChildDocuments([file.id])) {
+      await this.purgeFile(child);
+    }
+
+    // Clean up text chunks and processing data if file was processed for RAG
+    try {
+      await fileProcessor.removeFileProcessing(file.id);
+    } catch (cleanupError) {
+      // Log error but don't fail the delete operation
+      console.warn(`Failed to clean up RAG data for file ${file.id}:`, cleanupError);
+    }
+
+    // Quota was charged for each version's upload with its own size (a document without versions is
+    // its only upload); email attachments were not counted
+    const versions = await storage.getDocumentVersions(file.id);
+    const countedSizes = versions.length > 0 ? versions.map(version => version.fileSize) : [file.fileSize];
+    const storagePaths = Array.from(new Set([file.storagePath, ...versions.map(version => version.storagePath)]));
+
+    await storage.deleteFile(file.id);
+    if (!file.parentDocumentId) {
+      for (const size of countedSizes) {
+        await storage.decrementFileCount(file.userId, size);
+      }
+    }
+
+    // The row is gone either way; an object that fails to delete is only logged
+    const { SupabaseStorageService } = await import('./supabaseService');
+    const supabaseStorage = new SupabaseStorageService();
+    for (const storagePath of storagePaths) {
+      try {
+        await supabaseStorage.deleteFile(storagePath);
+      } catch (error) {
+        console.warn(`Failed to delete stored object ${storagePath} of file ${file.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * When a trashed file will be purged under the given retention window
+   */
+  purgeDate(file: Pick<DocumentRecord, 'deletedAt'>, retentionDays: number): Date | null {
+    return file.deletedAt ? new Date(file.deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000) : null;
+  }
+}
+
+export const trashService = TrashService.getInstance();
@@ -0,0 +1,467 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from 'crypto';
+import { storage } from './storage';
+import { encryptPassword, decryptPassword } from './encryption';
+import { scoreCredentialPassword } from './vaultHealthService';
+import { breachCheckService } from './breachCheckService';
+import { credentialMatchKey } from './credentialImportService';
+import { MAX_IMPORT_CREDENTIALS, type ImportedCredential } from './credentialImportFormats';
+import { estimatePasswordStrength } from '@shared/passwordStrength';
+import type { AccountCredentialRecord } from '@shared/schema';
+
+export const VAULT_BACKUP_FORMAT = 'zorli-vault-backup';
+export const VAULT_BACKUP_VERSION = 1;
+export const VAULT_BACKUP_EXTENSION = '.zvault';
+
+// Backup passphrases must score at least "fair"; they are all that protects the archive once it leaves
+export const MIN_BACKUP_PASSPHRASE_SCORE = 2;
+
+export const VAULT_RESTORE_MODES = ['merge', 'replace'] as const;
+export type VaultRestoreMode = typeof VAULT_RESTORE_MODES[number];
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// scrypt cost for new archives (OWASP's recommended minimum). Restored archives may ask for no more
+// than this, so a crafted header can't make the server derive a key at many times the memory and CPU
+const SCRYPT_PARAMS = { N: 2 ** 17, r: 8, p: 1 };
+const MAX_SCRYPT_PARAMS = SCRYPT_PARAMS;
+const MAX_DOCUMENTS = 10000;
+
+// Wrong account passwords allowed before a plaintext export is locked for the user, so a stolen
+// session can't be used to guess the password
+const MAX_EXPORT_PASSWORD_FAILURES = 5;
+const EXPORT_LOCKOUT_MS = 15 * 60 * 1000;
+const CREDENTIAL_PAGE_SIZE = 1000;
+
+// Everything outside the encrypted data. It is bound to the data as GCM additional data, so
+// lowering the key derivation cost of an archive makes it fail to open
+interface VaultBackupHeader {
+  format: typeof VAULT_BACKUP_FORMAT;
+  version: number;
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  cipher: { name: 'aes-256-gcm'; iv: string };
+}
+
+// The archive file: the header and the base64 ciphertext with its auth tag appended
+export interface VaultBackupArchive extends VaultBackupHeader {
+  data: string;
+}
+
+export interface BackupCredential {
+  serviceName: string;
+  username: string;
+  password: string;
+  passwordHint: string | null;
+  website: string | null;
+  notes: string | null;
+  category: string | null;
+  isFavorite: boolean;
+  lastUsed: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+// Metadata of a stored document, for the record; file contents are not part of a backup
+export interface BackupDocument {
+  filename: string;
+  fileType: string;
+  fileSize: number;
+  folder: string | null; // Folder path, "Taxes/2024"
+  tags: string[];
+  contentHash: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface VaultBackupPayload {
+  exportedAt: string;
+  credentials: BackupCredential[];
+  documents?: BackupDocument[];
+}
+
+export interface VaultRestoreResult {
+  mode: VaultRestoreMode;
+  added: number;
+  updated: number; // Merge only: saved credentials replaced by a newer one from the backup
+  unchanged: number; // Merge only: backup credentials already in the vault, or older than the saved one
+  removed: number; // Replace only: saved credentials deleted before restoring
+  documents: number; // Document records in the backup; these are listed, not restored
+}
+
+/**
+ * A backup that can't be opened or restored, with a message meant for the user
+ */
+export class VaultBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultBackupError';
+    Object.setPrototypeOf(this, VaultBackupError.prototype);
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  const options: ScryptOptions = { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFKC'), salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Password-protected backups of the password vault. Credentials are decrypted with the server key
+ * and re-encrypted with AES-256-GCM under a key derived with scrypt from a passphrase the user
+ * chooses, so the archive opens anywhere the passphrase is known and nowhere else. Restoring either
+ * merges into the vault or replaces it
+ */
+export class VaultBackupService {
+  private static instance: VaultBackupService;
+
+  // Failed re-authentications for plaintext exports by user. In memory, so a restart clears them
+  private exportFailures = new Map<string, { count: number; since: number }>();
+
+  private constructor() {}
+
+  public static getInstance(): VaultBackupService {
+    if (!VaultBackupService.instance) {
+      VaultBackupService.instance = new VaultBackupService();
+    }
+    return VaultBackupService.instance;
+  }
+
+  /**
+   * Why a passphrase can't protect a backup, or null when it can
+   */
+  checkPassphrase(passphrase: unknown): string | null {
+    if (typeof passphrase !== 'string' || !passphrase) {
+      return 'A passphrase is required';
+    }
+    if (estimatePasswordStrength(passphrase).score < MIN_BACKUP_PASSPHRASE_SCORE) {
+      return 'Choose a stronger passphrase: it is all that protects the backup';
+    }
+    return null;
+  }
+
+  /**
+   * Minutes until the user may try the account password for a plaintext export again, or 0 when
+   * they may now
+   */
+  exportLockoutMinutes(userId: string): number {
+    const failures = this.exportFailures.get(userId);
+    if (!failures) {
+      return 0;
+    }
+    const remaining = failures.since + EXPORT_LOCKOUT_MS - Date.now();
+    if (remaining <= 0) {
+      this.exportFailures.delete(userId);
+      return 0;
+    }
+    return failures.count >= MAX_EXPORT_PASSWORD_FAILURES ? Math.ceil(remaining / 60000) : 0;
+  }
+
+  recordExportPasswordFailure(userId: string): void {
+    const failures = this.exportFailures.get(userId);
+    if (failures && failures.since + EXPORT_LOCKOUT_MS > Date.now()) {
+      failures.count++;
+    } else {
+      this.exportFailures.set(userId, { count: 1, since: Date.now() });
+    }
+  }
+
+  clearExportPasswordFailures(userId: string): void {
+    this.exportFailures.delete(userId);
+  }
+
+  /**
+   * Every saved credential with its password, for a plaintext export. Throws when a password can't
+   * be decrypted rather than leaving it out
+   */
+  async getExportCredentials(userId: string): Promise<ImportedCredential[]> {
+    const credentials: AccountCredentialRecord[] = [];
+    for (let offset = 0; ; offset += CREDENTIAL_PAGE_SIZE) {
+      const page = await storage.getAccountCredentialsByUserId(userId, { limit: CREDENTIAL_PAGE_SIZE, offset, sort: 'name' });
+      credentials.push(...page);
+      if (page.length < CREDENTIAL_PAGE_SIZE) break;
+    }
+    const passwords = decryptAll(credentials);
+    return credentials.map(credential => ({
+      serviceName: credential.serviceName,
+      username: credential.username,
+      password: passwords.get(credential.id)!,
+      website: credential.website,
+      notes: credential.notes,
+      category: credential.category,
+      isFavorite: credential.isFavorite === true,
+    }));
+  }
+
+  async createBackup(userId: string, passphrase: string, includeDocuments: boolean): Promise<VaultBackupArchive> {
+    const payload: VaultBackupPayload = {
+      exportedAt: new Date().toISOString(),
+      credentials: await this.getBackupCredentials(userId),
+    };
+    if (includeDocuments) {
+      payload.documents = await this.getBackupDocuments(userId);
+    }
+
+    const salt = randomBytes(SALT_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const header: VaultBackupHeader = {
+      format: VAULT_BACKUP_FORMAT,
+      version: VAULT_BACKUP_VERSION,
+      kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: salt.toString('base64') },
+      cipher: { name: 'aes-256-gcm', iv: iv.toString('base64') },
+    };
+
+    const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(header), 'utf8'));
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+    return { ...header, data: encrypted.toString('base64') };
+  }
+
+  async openBackup(content: Buffer, passphrase: string): Promise<VaultBackupPayload> {
+    let archive: VaultBackupArchive;
+    try {
+      archive = JSON.parse(content.toString('utf8'));
+    } catch {
+      throw new VaultBackupError('This is not a Zorli vault backup');
+    }
+    if (archive?.format !== VAULT_BACKUP_FORMAT) {
+      throw new VaultBackupError('This is not a Zorli vault backup');
+    }
+    if (archive.version !== VAULT_BACKUP_VERSION) {
+      throw new VaultBackupError(`Backup version ${archive.version} is not supported`);
+    }
+    const { kdf, cipher } = archive;
+    if (kdf?.name !== 'scrypt' || cipher?.name !== 'aes-256-gcm'
+      || typeof kdf.salt !== 'string' || typeof cipher.iv !== 'string' || typeof archive.data !== 'string'
+      || !(Number.isInteger(kdf.N) && kdf.N > 1 && kdf.N <= MAX_SCRYPT_PARAMS.N && (kdf.N & (kdf.N - 1)) === 0)
+      || !(Number.isInteger(kdf.r) && kdf.r >= 1 && kdf.r <= MAX_SCRYPT_PARAMS.r)
+      || !(Number.isInteger(kdf.p) && kdf.p >= 1 && kdf.p <= MAX_SCRYPT_PARAMS.p)) {
+      throw new VaultBackupError('The backup is damaged or uses unsupported encryption settings');
+    }
+
+    const header: VaultBackupHeader = {
+      format: archive.format,
+      version: archive.version,
+      kdf: { name: kdf.name, N: kdf.N, r: kdf.r, p: kdf.p, salt: kdf.salt },
+      cipher: { name: cipher.name, iv: cipher.iv },
+    };
+    const encrypted = Buffer.from(archive.data, 'base64');
+    const key = await deriveKey(passphrase, Buffer.from(kdf.salt, 'base64'), kdf);
+
+    let payload: VaultBackupPayload;
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(cipher.iv, 'base64'));
+      decipher.setAAD(Buffer.from(JSON.stringify(header), 'utf8'));
+      decipher.setAuthTag(encrypted.subarray(encrypted.length - TAG_LENGTH));
+      const plaintext = Buffer.concat([decipher.update(encrypted.subarray(0, encrypted.length - TAG_LENGTH)), decipher.final()]);
+      payload = JSON.parse(plaintext.toString('utf8'));
+    } catch {
+      throw new VaultBackupError('Wrong passphrase, or the backup is damaged');
+    }
+    if (!Array.isArray(payload?.credentials)) {
+      throw new VaultBackupError('The backup is damaged');
+    }
+    if (payload.credentials.length > MAX_IMPORT_CREDENTIALS) {
+      throw new VaultBackupError(`A backup can hold at most ${MAX_IMPORT_CREDENTIALS} credentials`);
+    }
+    return payload;
+  }
+
+  /**
+   * How many passwords restoring would add to the count the plan limits, without changing anything.
+   * Replacing frees the slots of the deleted credentials first
+   */
+  async countNewPasswords(userId: string, payload: VaultBackupPayload, mode: VaultRestoreMode): Promise<number> {
+    const existing = await storage.getAccountCredentialsByUserId(userId, { limit: MAX_IMPORT_CREDENTIALS });
+    const incoming = new Set(validCredentials(payload).map(credential => credentialMatchKey(credential)));
+    if (mode === 'replace') {
+      return incoming.size - existing.length;
+    }
+    const saved = new Set(existing.map(credential => credentialMatchKey(credential)));
+    return Array.from(incoming).filter(key => !saved.has(key)).length;
+  }
+
+  /**
+   * Restore credentials from an opened backup. Merging adds logins the vault doesn't have (same site
+   * and username, see credentialMatchKey) and takes the backup's copy of one it has only when that
+   * copy has a different password and was changed more recently. Replacing deletes every saved
+   * credential first. The caller checks the plan's password allowance with countNewPasswords
+   */
+  async restore(userId: string, payload: VaultBackupPayload, mode: VaultRestoreMode): Promise<VaultRestoreResult> {
+    const result: VaultRestoreResult = { mode, added: 0, updated: 0, unchanged: 0, removed: 0, documents: payload.documents?.length || 0 };
+    // Everything is encrypted and scored before the vault is touched
+    const entries = validCredentials(payload).map(entry => ({
+      entry,
+      key: credentialMatchKey(entry),
+      fields: {
+        serviceName: entry.serviceName,
+        username: entry.username,
+        encryptedPassword: encryptPassword(entry.password),
+        website: entry.website || null,
+        notes: entry.notes || null,
+        passwordHint: entry.passwordHint || null,
+        category: entry.category || null,
+        isFavorite: entry.isFavorite === true,
+        passwordStrength: scoreCredentialPassword(entry.password, entry),
+      },
+    }));
+
+    const toCheck: Array<{ credential: AccountCredentialRecord; password: string }> = [];
+    if (mode === 'replace') {
+      // The first entry for a login wins, as it would when merging into an empty vault
+      const unique = new Map<string, typeof entries[number]>();
+      for (const item of entries) {
+        if (!unique.has(item.key)) unique.set(item.key, item);
+      }
+      const restored = Array.from(unique.values());
+      const hadUsage = !!(await storage.getSubscriptionUsage(userId));
+      const { removed, created } = await storage.replaceAccountCredentials(userId, restored.map(item => ({ userId, ...item.fields })));
+      if (!hadUsage) {
+        for (let i = 0; i < created.length; i++) {
+          await storage.incrementPasswordCount(userId);
+        }
+      }
+      created.forEach((credential, i) => toCheck.push({ credential, password: restored[i].entry.password }));
+      result.removed = removed;
+      result.added = created.length;
+    } else {
+      const existing = await storage.getAccountCredentialsByUserId(userId, { limit: MAX_IMPORT_CREDENTIALS });
+      const saved = new Map(existing.map(credential => [credentialMatchKey(credential), credential]));
+
+      for (const { entry, key, fields } of entries) {
+        const match = saved.get(key);
+        if (!match) {
+          const credential = await storage.createAccountCredential({ userId, ...fields });
+          await storage.incrementPasswordCount(userId);
+          saved.set(key, credential);
+          toCheck.push({ credential, password: entry.password });
+          result.added++;
+          continue;
+        }
+
+        const backupChanged = entry.updatedAt ? new Date(entry.updatedAt) : null;
+        if (!backupChanged || !match.updatedAt || backupChanged <= match.updatedAt || samePassword(match, entry.password)) {
+          result.unchanged++;
+          continue;
+        }
+        const updated = await storage.updateAccountCredential(match.id, { ...fields, breachCount: null, breachCheckedAt: null });
+        saved.set(key, updated);
+        toCheck.push({ credential: updated, password: entry.password });
+        result.updated++;
+      }
+    }
+
+    if (toCheck.length > 0) {
+      console.log(`Restored ${toCheck.length} credential(s) from a vault backup for user ${userId} (${mode})`);
+      if (breachCheckService.isEnabled()) {
+        this.checkRestoredForBreaches(toCheck);
+      }
+    }
+    return result;
+  }
+
+  private async checkRestoredForBreaches(restored: Array<{ credential: AccountCredentialRecord; password: string }>): Promise<void> {
+    for (const { credential, password } of restored) {
+      await breachCheckService.checkOnSave(credential, password);
+    }
+  }
+
+  private async getBackupCredentials(userId: string): Promise<BackupCredential[]> {
+    // A backup holds at most what a restore accepts; one cut short would be worse than none
+    if (Number(await storage.getAccountCredentialsCount(userId)) > MAX_IMPORT_CREDENTIALS) {
+      throw new VaultBackupError(`A backup can hold at most ${MAX_IMPORT_CREDENTIALS} credentials. Export them as CSV instead.`);
+    }
+    const credentials = await storage.getAccountCredentialsByUserId(userId, { limit: MAX_IMPORT_CREDENTIALS, sort: 'name' });
+    const passwords = decryptAll(credentials);
+
+    return credentials.map(credential => ({
+      serviceName: credential.serviceName,
+      username: credential.username,
+      password: passwords.get(credential.id)!,
+      passwordHint: credential.passwordHint,
+      website: credential.website,
+      notes: credential.notes,
+      category: credential.category,
+      isFavorite: credential.isFavorite === true,
+      lastUsed: credential.lastUsed?.toISOString() || null,
+      createdAt: credential.createdAt?.toISOString() || null,
+      updatedAt: credential.updatedAt?.toISOString() || null,
+    }));
+  }
+
+  private async getBackupDocuments(userId: string): Promise<BackupDocument[]> {
+    const files = await storage.getFilesByUserId(userId, MAX_DOCUMENTS);
+    const folders = new Map((await storage.getFoldersByUserId(userId)).map(folder => [folder.id, folder]));
+    const tagsByFile = new Map<string, string[]>();
+    for (const { documentId, tag } of await storage.getTagsForFiles(files.map(file => file.id))) {
+      tagsByFile.set(documentId, [...(tagsByFile.get(documentId) || []), tag.name]);
+    }
+
+    const folderPath = (folderId: string | null): string | null => {
+      const names: string[] = [];
+      for (let folder = folderId ? folders.get(folderId) : undefined; folder && names.length < folders.size; folder = folder.parentId ? folders.get(folder.parentId) : undefined) {
+        names.unshift(folder.name);
+      }
+      return names.length > 0 ? names.join('/') : null;
+    };
+
+    return files.map(file => ({
+      filename: file.filename,
+      fileType: file.fileType,
+      fileSize: file.fileSize,
+      folder: folderPath(file.folderId),
+      tags: tagsByFile.get(file.id) || [],
+      contentHash: file.contentHash,
+      createdAt: file.createdAt?.toISOString() || null,
+      updatedAt: file.updatedAt?.toISOString() || null,
+    }));
+  }
+}
+
+// Entries with what a credential needs, each field of the type it should be; anything else in a
+// hand-edited backup is skipped
+function validCredentials(payload: VaultBackupPayload): BackupCredential[] {
+  return payload.credentials.filter(entry =>
+    entry && typeof entry === 'object'
+    && typeof entry.serviceName === 'string' && entry.serviceName.trim() && typeof entry.username === 'string'
+    && typeof entry.password === 'string' && entry.password
+    && [entry.website, entry.notes, entry.category, entry.passwordHint].every(optionalString)
+    && (entry.isFavorite === undefined || typeof entry.isFavorite === 'boolean')
+    && (entry.updatedAt === null || entry.updatedAt === undefined
+      || (typeof entry.updatedAt === 'string' && !Number.isNaN(Date.parse(entry.updatedAt)))));
+}
+
+function optionalString(value: unknown): boolean {
+  return value === null || value === undefined || typeof value === 'string';
+}
+
+// Passwords by credential id. A backup or export silently missing passwords is worse than none
+function decryptAll(credentials: AccountCredentialRecord[]): Map<string, string> {
+  const passwords = new Map<string, string>();
+  const unreadable: string[] = [];
+  for (const credential of credentials) {
+    try {
+      passwords.set(credential.id, decryptPassword(credential.encryptedPassword));
+    } catch {
+      unreadable.push(credential.serviceName);
+    }
+  }
+  if (unreadable.length > 0) {
+    throw new VaultBackupError(`These saved passwords could not be decrypted, so the vault can't be exported: ${unreadable.join(', ')}. Re-enter or delete them first.`);
+  }
+  return passwords;
+}
+
+function samePassword(credential: AccountCredentialRecord, password: string): boolean {
+  try {
+    return decryptPassword(credential.encryptedPassword) === password;
+  } catch {
+    return false;
+  }
+}
+
+export const vaultBackupService = VaultBackupService.getInstance();
@@ -0,0 +1,143 @@
+import { storage } from './storage';
+import { decryptPassword, passwordFingerprint } from './encryption';
+import { estimatePasswordStrength, isWeakPasswordScore } from '@shared/passwordStrength';
+import type { AccountCredentialRecord } from '@shared/schema';
+
+export const STALE_PASSWORD_DAYS = 365;
+
+const MAX_CREDENTIALS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A credential as the report lists it: never its password
+export interface HealthCredential {
+  id: string;
+  serviceName: string;
+  username: string;
+  website: string | null;
+  category: string | null;
+  passwordStrength: number | null;
+  breachCount: number | null;
+  updatedAt: Date | null;
+  lastUsed: Date | null;
+}
+
+export interface VaultHealthReport {
+  total: number;
+  healthy: number; // Credentials with none of the issues below
+  unreadable: number; // Credentials whose password no longer decrypts, left out of the reuse check
+  breached: HealthCredential[]; // Found in the breach corpus, most often seen first
+  reused: Array<{ groupId: number; credentials: HealthCredential[] }>; // Most shared password first
+  weak: HealthCredential[]; // Weakest first
+  stale: Array<HealthCredential & { lastTouched: Date | null; daysSinceTouched: number }>; // Untouched longest first
+}
+
+/**
+ * Strength score (0-4) stored with a credential. The service, username and website are what an
+ * attacker targeting the account would try first
+ */
+export function scoreCredentialPassword(password: string, credential: { serviceName?: string | null; username?: string | null; website?: string | null }): number {
+  return estimatePasswordStrength(password, [credential.serviceName, credential.username, credential.website]).score;
+}
+
+/**
+ * Security report over a user's saved credentials: passwords found in breaches (as last checked by
+ * BreachCheckService), passwords shared between accounts, weak passwords, and credentials neither used
+ * nor changed for over a year. Passwords are decrypted only in memory,
+ * and reuse is found by comparing keyed fingerprints, so no password or hash leaves this service
+ */
+export class VaultHealthService {
+  private static instance: VaultHealthService;
+
+  private constructor() {}
+
+  public static getInstance(): VaultHealthService {
+    if (!VaultHealthService.instance) {
+      VaultHealthService.instance = new VaultHealthService();
+    }
+    return VaultHealthService.instance;
+  }
+
+  async getReport(userId: string, now: Date = new Date()): Promise<VaultHealthReport> {
+    const credentials = await storage.getAccountCredentialsByUserId(userId, { limit: MAX_CREDENTIALS, sort: 'name' });
+
+    const byFingerprint = new Map<string, AccountCredentialRecord[]>();
+    const flagged = new Set<string>();
+    const weak: AccountCredentialRecord[] = [];
+    const breached: AccountCredentialRecord[] = [];
+    const stale: VaultHealthReport['stale'] = [];
+    let unreadable = 0;
+
+    for (const credential of credentials) {
+      let password: string | null = null;
+      try {
+        password = decryptPassword(credential.encryptedPassword);
+      } catch {
+        unreadable++;
+      }
+
+      if (password !== null) {
+        const fingerprint = passwordFingerprint(password);
+        byFingerprint.set(fingerprint, [...(byFingerprint.get(fingerprint) || []), credential]);
+
+        if (credential.passwordStrength === null) {
+          credential.passwordStrength = scoreCredentialPassword(password, credential);
+          await storage.setAccountCredentialStrength(credential.id, credential.passwordStrength);
+        }
+      }
+
+      if (credential.breachCount) {
+        breached.push(credential);
+        flagged.add(credential.id);
+      }
+
+      if (isWeakPasswordScore(credential.passwordStrength)) {
+        weak.push(credential);
+        flagged.add(credential.id);
+      }
+
+      const lastTouched = latest(credential.updatedAt, credential.lastUsed, credential.createdAt);
+      const daysSinceTouched = lastTouched ? Math.floor((now.getTime() - lastTouched.getTime()) / DAY_MS) : 0;
+      if (daysSinceTouched > STALE_PASSWORD_DAYS) {
+        stale.push({ ...summarize(credential), lastTouched, daysSinceTouched });
+        flagged.add(credential.id);
+      }
+    }
+
+    const reusedGroups = Array.from(byFingerprint.values())
+      .filter(group => group.length > 1)
+      .sort((a, b) => b.length - a.length);
+    for (const group of reusedGroups) {
+      group.forEach(credential => flagged.add(credential.id));
+    }
+
+    return {
+      total: credentials.length,
+      healthy: credentials.length - flagged.size,
+      unreadable,
+      breached: breached.sort((a, b) => (b.breachCount ?? 0) - (a.breachCount ?? 0)).map(summarize),
+      reused: reusedGroups.map((group, index) => ({ groupId: index + 1, credentials: group.map(summarize) })),
+      weak: weak.sort((a, b) => (a.passwordStrength ?? 0) - (b.passwordStrength ?? 0)).map(summarize),
+      stale: stale.sort((a, b) => b.daysSinceTouched - a.daysSinceTouched),
+    };
+  }
+}
+
+function summarize(credential: AccountCredentialRecord): HealthCredential {
+  return {
+    id: credential.id,
+    serviceName: credential.serviceName,
+    username: credential.username,
+    website: credential.website,
+    category: credential.category,
+    passwordStrength: credential.passwordStrength,
+    breachCount: credential.breachCount,
+    updatedAt: credential.updatedAt,
+    lastUsed: credential.lastUsed,
+  };
+}
+
+function latest(...dates: Array<Date | null>): Date | null {
+  return dates.reduce<Date | null>((newest, date) => (date && (!newest || date > newest) ? date : newest), null);
+}
+
+export const vaultHealthService = VaultHealthService.getInstance();
@@ -1,5 +1,17 @@
 import { TextChunk } from './embeddingsService';
 import { embeddingsService } from './embeddingsService';
+import { storage } from './storage';
+import type { TextChunkRecord } from '@shared/schema';
+import { parseSearchQuery } from './searchQuery';
+import { findDocumentLanguage, DEFAULT_SEARCH_CONFIG } from '@shared/languages';
+
+// Question words and requests that carry no topic, left out of the keyword leg
+const QUERY_FILLER_WORDS = new Set([
+  'the', 'what', 'how', 'where', 'when', 'why', 'who', 'which', 'can', 'you',
+  'tell', 'about', 'please', 'help', 'find', 'show', 'get', 'give', 'know',
+  'have', 'has', 'had', 'will', 'would', 'could', 'should', 'may', 'might',
+  'some', 'any', 'all', 'more', 'most', 'other', 'such', 'into', 'from', 'context'
+]);
 
 export interface VectorSearchResult {
   chunk: TextChunk;
@@ -14,31 +26,19 @@ export interface SearchQuery {
   fileIds?: string[];
   limit?: number;
   threshold?: number;
-}
-
-export interface VectorDatabaseStats {
-  totalChunks: number;
-  totalFiles: number;
-  avgChunkSize: number;
-  storageSize: number; // in bytes (estimated)
+  includeAllVersions?: boolean; // Search earlier document versions too, not only the current one
 }
 
 /**
- * In-memory vector database service for storing and searching text embeddings
- * Designed to be easily replaceable with persistent solutions like PostgreSQL with pgvector
+ * Vector search service backed by pgvector
+ * Nearest-neighbour lookups use the HNSW index on text_chunks.embedding with user and file filters
+ * pushed into SQL, then results are reranked with keyword matching
  */
 export class VectorDatabase {
   private static instance: VectorDatabase;
-  private chunks: Map<string, TextChunk> = new Map(); // chunkId -> TextChunk
-  private fileIndex: Map<string, Set<string>> = new Map(); // fileId -> Set of chunkIds
-  private keywordIndex: Map<string, Set<string>> = new Map(); // keyword -> Set of chunkIds
+  private indexChecked = false;
 
-  private constructor() {
-    // Initialize vector database with existing chunks from persistent storage
-    this.initializeFromDatabase().catch(error => {
-      console.warn('Failed to initialize vector database from persistent storage:', error);
-    });
-  }
+  private constructor() {}
 
   public static getInstance(): VectorDatabase {
     if (!VectorDatabase.instance) {
@@ -47,119 +47,19 @@ export class VectorDatabase {
     return VectorDatabase.instance;
   }
 
-  /**
-   * Initialize the in-memory vector database with existing chunks from persistent storage
-   */
-  private async initializeFromDatabase(): Promise<void> {
-    try {
-      // Import storage to access persistent database
-      const { storage } = await import('./storage');
-      
-      // Set a timeout for the database query to prevent hanging
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Database initialization timeout after 10s')), 10000);
-      });
-      
-      // Get all text chunks from the database with timeout
-      const existingChunks = await Promise.race([
-        storage.getAllTextChunks(),
-        timeoutPromise
-      ]) as any[];
-      
-      if (existingChunks && existingChunks.length > 0) {
-        console.log(`Initializing vector database with ${existingChunks.length} existing chunks`);
-        
-        // Convert database chunks to the format expected by vector database
-        const vectorChunks = existingChunks.map((chunk: any) => ({
-          id: chunk.id,
-          fileId: chunk.fileId,
-          userId: chunk.userId, // Include userId for security filtering
-          content: chunk.content,
-          chunkIndex: chunk.chunkIndex || 0,
-          tokens: chunk.content.split(' ').length, // Approximate token count
-          embedding: chunk.embedding
-        }));
-        
-        // Add chunks to in-memory storage without logging (to avoid spam during init)
-        for (const chunk of vectorChunks) {
-          this.chunks.set(chunk.id, chunk);
-          
-          // Update file index
-          if (!this.fileIndex.has(chunk.fileId)) {
-            this.fileIndex.set(chunk.fileId, new Set());
-          }
-          this.fileIndex.get(chunk.fileId)!.add(chunk.id);
-          
-          // Update keyword index for better hybrid search
-          this.indexKeywords(chunk);
-        }
-        
-        console.log(`Vector database initialized with ${this.chunks.size} chunks from ${this.fileIndex.size} files`);
-      } else {
-        console.log('No existing chunks found in database, starting with empty vector database');
-      }
-    } catch (error) {
-      // Don't crash the server if vector database fails to initialize
-      console.warn('Failed to initialize vector database from persistent storage:', error);
-      console.log('Vector database will start empty - chunks will be loaded on demand');
-    }
-  }
-
-  /**
-   * Add text chunks with embeddings to the database
-   */
-  async addChunks(chunks: TextChunk[]): Promise<void> {
-    console.log(`Adding ${chunks.length} chunks to vector database`);
-    
-    for (const chunk of chunks) {
-      // Store the chunk
-      this.chunks.set(chunk.id, chunk);
-      
-      // Update file index
-      if (!this.fileIndex.has(chunk.fileId)) {
-        this.fileIndex.set(chunk.fileId, new Set());
-      }
-      this.fileIndex.get(chunk.fileId)!.add(chunk.id);
-      
-      // Update keyword index for better hybrid search
-      this.indexKeywords(chunk);
-    }
-    
-    console.log(`Vector database now contains ${this.chunks.size} chunks from ${this.fileIndex.size} files`);
-  }
-
   /**
    * Remove all chunks for a specific file
    */
   async removeFileChunks(fileId: string): Promise<void> {
-    const chunkIds = this.fileIndex.get(fileId);
-    if (!chunkIds) {
-      console.warn(`No chunks found for file ${fileId}`);
-      return;
-    }
-
-    console.log(`Removing ${chunkIds.size} chunks for file ${fileId}`);
-    
-    // Remove from main chunk storage
-    chunkIds.forEach(chunkId => {
-      const chunk = this.chunks.get(chunkId);
-      if (chunk) {
-        this.removeFromKeywordIndex(chunk);
-        this.chunks.delete(chunkId);
-      }
-    });
-    
-    // Remove from file index
-    this.fileIndex.delete(fileId);
-    
-    console.log(`Removed chunks for file ${fileId}. Database now contains ${this.chunks.size} chunks`);
+    console.log(`Removing chunks for file ${fileId}`);
+    await storage.deleteTextChunksByFileId(fileId);
   }
 
   /**
    * Search for similar chunks using vector similarity and keyword matching
    */
   async search(query: SearchQuery): Promise<VectorSearchResult[]> {
-    const { text, embedding, userId, fileIds, limit = 10, threshold = 0.7 } = query;
+    const { text, embedding, userId, fileIds, limit = 10, threshold = 0.7, includeAllVersions } = query;
     
     if (!embedding && !text) {
       throw new Error('Either embedding or text must be provided for search');
@@ -176,34 +76,61 @@ export class VectorDatabase {
       }
     }
 
-    // Get candidate chunks (filter by userId and file if specified)
-    let candidateChunks = Array.from(this.chunks.values());
-    
-    // CRITICAL SECURITY: Always filter by userId if provided
-    if (userId) {
-      candidateChunks = candidateChunks.filter(chunk => chunk.userId === userId);
-    }
-    
-    if (fileIds && fileIds.length > 0) {
-      candidateChunks = candidateChunks.filter(chunk => fileIds.includes(chunk.fileId));
-    }
+    await this.checkIndexCompatibility();
 
-    console.log(`Searching through ${candidateChunks.length} candidate chunks for user ${userId || 'any'}`);
+    // CRITICAL SECURITY: userId and fileIds are applied in SQL so other users' chunks never leave the database
+    // Vectors are only compared within the active embedding model
+    const filters = { userId, fileIds, includeAllVersions, embeddingModel: embeddingsService.getModelSignature() };
+
+    console.log(`Searching chunks for user ${userId || 'any'}${fileIds ? ` across ${fileIds.length} files` : ''}`);
 
     // Perform vector similarity search if embedding is available
     let vectorResults: Array<{ chunk: TextChunk; similarity: number }> = [];
     
-    if (queryEmbedding && candidateChunks.some(chunk => chunk.embedding)) {
-      vectorResults = embeddingsService.findSimilarChunks(
-        queryEmbedding, 
-        candidateChunks.filter(chunk => chunk.embedding),
-        Math.min(limit * 2, 50), // Get more candidates for reranking
-        threshold * 0.8 // Slightly lower threshold for more candidates
-      );
+    if (queryEmbedding) {
+      const minSimilarity = threshold * 0.8; // Slightly lower threshold for more candidates
+      const nearest = await storage.findNearestTextChunks(queryEmbedding, {
+        ...filters,
+        limit: Math.min(limit * 2, 50) // Get more candidates for reranking
+      });
+      vectorResults = nearest
+        .filter(result => result.similarity >= minSimilarity)
+        .map(result => ({ chunk: this.toTextChunk(result.chunk), similarity: result.similarity }));
+    }
+
+    // While the index is being moved to another model, files already migrated only match that model's query vector
+    if (text) {
+      for (const provider of embeddingsService.getSearchProviders()) {
+        try {
+          const providerEmbedding = await embeddingsService.generateQueryEmbedding(text, provider);
+          const nearest = await storage.findNearestTextChunks(providerEmbedding, {
+            ...filters,
+            embeddingModel: { provider: provider.name, model: provider.model },
+            limit: Math.min(limit * 2, 50)
+          });
+          vectorResults.push(...nearest
+            .filter(result => result.similarity >= threshold * 0.8)
+            .map(result => ({ chunk: this.toTextChunk(result.chunk), similarity: result.similarity })));
+        } catch (error) {
+          console.warn(`Vector search with ${provider.name}/${provider.model} failed:`, error);
+        }
+      }
     }
 
-    // Perform keyword search
-    const keywordResults = this.performKeywordSearch(text || '', candidateChunks, limit * 2);
+    // Perform full-text keyword search (stemming, "phrases", -exclusions) over the same user/file scope
+    const keywordQuery = parseSearchQuery(text || '', { ignoreWords: QUERY_FILLER_WORDS });
+    const keywordMatches = await storage.searchTextChunksFullText(keywordQuery, {
+      ...filters,
+      searchConfigs: await this.keywordSearchConfigs({ userId, fileIds, includeAllVersions }),
+      limit: limit * 4
+    });
+    // Only keep chunks matching at least half of the query terms
+    // This prevents "Lahore weather" from matching content that only has "weather"
+    const keywordResults = keywordMatches
+      .filter(match => match.matchRatio >= 0.5)
+      .map(match => ({ chunk: this.toTextChunk(match.chunk), score: match.matchRatio }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit * 2);
 
     // Combine and rerank results
     const combinedResults = this.combineAndRerankResults(
@@ -218,168 +145,73 @@ export class VectorDatabase {
   }
 
   /**
-   * Get chunks for specific files
-   */
-  getChunksForFiles(fileIds: string[]): TextChunk[] {
-    const chunks: TextChunk[] = [];
-    
-    for (const fileId of fileIds) {
-      const chunkIds = this.fileIndex.get(fileId);
-      if (chunkIds) {
-        chunkIds.forEach(chunkId => {
-          const chunk = this.chunks.get(chunkId);
-          if (chunk) {
-            chunks.push(chunk);
-          }
-        });
-      }
-    }
-    
-    return chunks;
-  }
-
-  /**
-   * Get database statistics
-   */
-  getStats(): VectorDatabaseStats {
-    const chunks = Array.from(this.chunks.values());
-    const totalSize = chunks.reduce((size, chunk) => {
-      return size + chunk.content.length + (chunk.embedding ? chunk.embedding.length * 4 : 0); // 4 bytes per float
-    }, 0);
-
-    const avgChunkSize = chunks.length > 0 
-      ? chunks.reduce((sum, chunk) => sum + chunk.content.length, 0) / chunks.length 
-      : 0;
-
-    return {
-      totalChunks: this.chunks.size,
-      totalFiles: this.fileIndex.size,
-      avgChunkSize: Math.round(avgChunkSize),
-      storageSize: totalSize
-    };
-  }
-
-  /**
-   * Clear all data from the database
-   */
-  clear(): void {
-    console.log('Clearing vector database');
-    this.chunks.clear();
-    this.fileIndex.clear();
-    this.keywordIndex.clear();
-  }
-
-  /**
-   * Build keyword index for a chunk
+   * Detect chunks embedded with a different provider/model than the active one
+   * They stay searchable with their own model when it is available, otherwise they are excluded
+   * from vector search until they are re-embedded
    */
-  private indexKeywords(chunk: TextChunk): void {
-    const keywords = this.extractKeywords(chunk.content);
-    
-    keywords.forEach(keyword => {
-      if (!this.keywordIndex.has(keyword)) {
-        this.keywordIndex.set(keyword, new Set());
-      }
-      this.keywordIndex.get(keyword)!.add(chunk.id);
-    });
-  }
+  private async checkIndexCompatibility(): Promise<void> {
+    if (this.indexChecked) return;
+    this.indexChecked = true;
 
-  /**
-   * Remove chunk from keyword index
-   */
-  private removeFromKeywordIndex(chunk: TextChunk): void {
-    const keywords = this.extractKeywords(chunk.content);
-    
-    keywords.forEach(keyword => {
-      const chunkIds = this.keywordIndex.get(keyword);
-      if (chunkIds) {
-        chunkIds.delete(chunk.id);
-        if (chunkIds.size === 0) {
-          this.keywordIndex.delete(keyword);
+    try {
+      const models = await storage.getTextChunkEmbeddingModels();
+      const incompatible = models.filter(entry => !embeddingsService.isCompatibleChunk({
+        embeddingProvider: entry.provider,
+        embeddingModel: entry.model
+      }));
+      for (const entry of incompatible) {
+        try {
+          const provider = embeddingsService.createProvider({
+            provider: entry.provider,
+            model: entry.model,
+            dimension: entry.dimension ?? undefined
+          });
+          if (provider.isAvailable()) {
+            console.warn(`Vector index contains ${entry.count} chunks embedded with ${entry.provider}/${entry.model}; queries are embedded with both models until they are re-embedded`);
+            embeddingsService.addSearchProvider(provider);
+            continue;
+          }
+        } catch {
+          // Unknown provider, fall through to the warning below
         }
+        console.warn(`Vector index contains ${entry.count} chunks embedded with ${entry.provider}/${entry.model} (${entry.dimension ?? 'unknown'} dimensions); they are excluded from search with the active model ${embeddingsService.getModelSignature().model} until re-embedded`);
       }
-    });
+    } catch (error) {
+      console.warn('Failed to check embedding models in the vector index:', error);
+    }
   }
 
   /**
-   * Extract keywords from text for indexing
+   * Stemmers for the keyword leg: each chunk's search vector is stemmed in the language recorded in its
+   * metadata, so the query is stemmed in every language among the chunks being searched
    */
-  private extractKeywords(text: string): Set<string> {
-    const keywords = new Set<string>();
-    
-    // Convert to lowercase and split into words
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length >= 3); // Minimum word length
-    
-    // Add individual words
-    words.forEach(word => {
-      keywords.add(word);
-    });
-    
-    // Add 2-word phrases
-    for (let i = 0; i < words.length - 1; i++) {
-      const phrase = `${words[i]} ${words[i + 1]}`;
-      if (phrase.length >= 6) { // Minimum phrase length
-        keywords.add(phrase);
-      }
+  private async keywordSearchConfigs(filters: { userId?: string; fileIds?: string[]; includeAllVersions?: boolean }): Promise<string[]> {
+    try {
+      const languages = await storage.getTextChunkLanguages(filters);
+      const configs = languages.map(code => findDocumentLanguage(code)?.searchConfig || DEFAULT_SEARCH_CONFIG);
+      return configs.length > 0 ? Array.from(new Set(configs)) : [DEFAULT_SEARCH_CONFIG];
+    } catch (error) {
+      console.warn('Failed to look up chunk languages, stemming the keyword query as English:', error);
+      return [DEFAULT_SEARCH_CONFIG];
     }
-    
-    return keywords;
   }
 
   /**
-   * Perform keyword-based search
-   * Only returns results that match a significant portion of query keywords
+   * Convert a text_chunks row into the shape used by search results
    */
-  private performKeywordSearch(
-    query: string, 
-    candidateChunks: TextChunk[], 
-    limit: number
-  ): Array<{ chunk: TextChunk; score: number }> {
-    const queryKeywords = this.extractKeywords(query);
-    const chunkScores = new Map<string, number>();
-    
-    // Extract significant words (non-common words) from the query for stricter matching
-    const significantWords = Array.from(queryKeywords).filter(kw => 
-      !['the', 'what', 'how', 'where', 'when', 'why', 'who', 'which', 'can', 'you', 
-        'tell', 'about', 'please', 'help', 'find', 'show', 'get', 'give', 'know',
-        'have', 'has', 'had', 'will', 'would', 'could', 'should', 'may', 'might',
-        'some', 'any', 'all', 'more', 'most', 'other', 'such', 'into', 'from'].includes(kw)
-    );
-    
-    const minRequiredMatches = Math.max(1, Math.ceil(significantWords.length * 0.6)); // Require 60% of significant words
-    
-    // Find chunks that match query keywords
-    queryKeywords.forEach(keyword => {
-      const matchingChunkIds = this.keywordIndex.get(keyword);
-      if (matchingChunkIds) {
-        matchingChunkIds.forEach(chunkId => {
-          const currentScore = chunkScores.get(chunkId) || 0;
-          chunkScores.set(chunkId, currentScore + 1);
-        });
-      }
-    });
-    
-    // Convert to results array and sort by score
-    const results: Array<{ chunk: TextChunk; score: number }> = [];
-    
-    chunkScores.forEach((score, chunkId) => {
-      const chunk = this.chunks.get(chunkId);
-      if (chunk && candidateChunks.includes(chunk)) {
-        const normalizedScore = score / queryKeywords.size;
-        
-        // Only include results that match enough keywords (at least 60% of significant words)
-        // This prevents "Lahore weather" from matching content that only has "weather"
-        if (score >= minRequiredMatches || normalizedScore >= 0.5) {
-          results.push({ chunk, score: normalizedScore });
-        }
-      }
-    });
-    
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+  private toTextChunk(record: TextChunkRecord): TextChunk {
+    return {
+      id: record.id,
+      fileId: record.fileId,
+      userId: record.userId,
+      content: record.content,
+      chunkIndex: record.chunkIndex,
+      version: record.version,
+      embedding: record.embedding || undefined,
+      embeddingProvider: record.embeddingProvider,
+      embeddingModel: record.embeddingModel,
+      metadata: (record.metadata as TextChunk['metadata']) || undefined
+    };
   }
 
   /**
@@ -0,0 +1,60 @@
+// Document languages the vault can OCR and stem for keyword search
+
+export interface DocumentLanguage {
+  code: string; // Tesseract traineddata name, also recorded in extraction and chunk metadata
+  iso: string; // ISO 639-1
+  name: string;
+  script: string; // As Tesseract's orientation and script detection reports it
+  searchConfig: string; // PostgreSQL text search configuration; 'simple' where there is no stemmer
+  rtl?: boolean;
+}
+
+export const DOCUMENT_LANGUAGES: DocumentLanguage[] = [
+  { code: 'eng', iso: 'en', name: 'English', script: 'Latin', searchConfig: 'english' },
+  { code: 'fra', iso: 'fr', name: 'French', script: 'Latin', searchConfig: 'french' },
+  { code: 'deu', iso: 'de', name: 'German', script: 'Latin', searchConfig: 'german' },
+  { code: 'spa', iso: 'es', name: 'Spanish', script: 'Latin', searchConfig: 'spanish' },
+  { code: 'ita', iso: 'it', name: 'Italian', script: 'Latin', searchConfig: 'italian' },
+  { code: 'por', iso: 'pt', name: 'Portuguese', script: 'Latin', searchConfig: 'portuguese' },
+  { code: 'nld', iso: 'nl', name: 'Dutch', script: 'Latin', searchConfig: 'dutch' },
+  { code: 'tur', iso: 'tr', name: 'Turkish', script: 'Latin', searchConfig: 'turkish' },
+  { code: 'ind', iso: 'id', name: 'Indonesian', script: 'Latin', searchConfig: 'indonesian' },
+  { code: 'rus', iso: 'ru', name: 'Russian', script: 'Cyrillic', searchConfig: 'russian' },
+  { code: 'ara', iso: 'ar', name: 'Arabic', script: 'Arabic', searchConfig: 'arabic', rtl: true },
+  { code: 'urd', iso: 'ur', name: 'Urdu', script: 'Arabic', searchConfig: 'simple', rtl: true },
+  { code: 'fas', iso: 'fa', name: 'Persian', script: 'Arabic', searchConfig: 'simple', rtl: true },
+  { code: 'heb', iso: 'he', name: 'Hebrew', script: 'Hebrew', searchConfig: 'simple', rtl: true },
+  { code: 'hin', iso: 'hi', name: 'Hindi', script: 'Devanagari', searchConfig: 'simple' },
+  { code: 'chi_sim', iso: 'zh', name: 'Chinese (Simplified)', script: 'Han', searchConfig: 'simple' },
+  { code: 'jpn', iso: 'ja', name: 'Japanese', script: 'Japanese', searchConfig: 'simple' },
+  { code: 'kor', iso: 'ko', name: 'Korean', script: 'Hangul', searchConfig: 'simple' },
+];
+
+export const DOCUMENT_LANGUAGE_CODES = DOCUMENT_LANGUAGES.map(language => language.code);
+
+// Chunks recorded before languages were detected were stemmed as English
+export const DEFAULT_SEARCH_CONFIG = 'english';
+
+/**
+ * The language for a Tesseract code, an ISO 639-1 code ("fr") or an English name ("french", as
+ * Whisper reports it), or undefined when it isn't one the vault supports
+ */
+export function findDocumentLanguage(value: string | null | undefined): DocumentLanguage | undefined {
+  const key = value?.trim().toLowerCase();
+  if (!key) return undefined;
+  return DOCUMENT_LANGUAGES.find(language =>
+    language.code === key || language.iso === key || language.name.toLowerCase().split(' ')[0] === key
+  );
+}
+
+/**
+ * SQL CASE picking the text search configuration for a language code held in `expression`, English
+ * for NULL and unknown codes. Used by the generated search vectors and to highlight matches in them
+ */
+export function searchConfigCase(expression: string): string {
+  const branches = DOCUMENT_LANGUAGES
+    .filter(language => language.searchConfig !== DEFAULT_SEARCH_CONFIG)
+    .map(language => `WHEN '${language.code}' THEN '${language.searchConfig}'::regconfig`)
+    .join(' ');
+  return `CASE ${expression} ${branches} ELSE '${DEFAULT_SEARCH_CONFIG}'::regconfig END`;
+}
@@ -0,0 +1,120 @@
+// Word list for generated passphrases: short, common English words that are easy to type.
+// Each word picked at random adds log2(1384), about 10.4 bits
+export const PASSPHRASE_WORDS: readonly string[] = [
+  'able', 'acid', 'acorn', 'acre', 'actor', 'adapt', 'adult', 'aerial', 'afford', 'agent', 'agile', 'aging',
+  'agree', 'ahead', 'aim', 'aisle', 'alarm', 'album', 'alert', 'algae', 'alias', 'alibi', 'alien', 'alike',
+  'alive', 'alley', 'allow', 'alloy', 'almond', 'aloft', 'alone', 'alpha', 'alpine', 'also', 'altar', 'alter',
+  'amber', 'amble', 'amend', 'amid', 'ample', 'amuse', 'anchor', 'angel', 'angle', 'ankle', 'annex', 'answer',
+  'antler', 'anvil', 'apex', 'apple', 'april', 'apron', 'aqua', 'arbor', 'arch', 'arctic', 'arena', 'argue',
+  'arise', 'armor', 'army', 'aroma', 'arrow', 'art', 'ash', 'aside', 'aspen', 'asset', 'atlas', 'atom',
+  'attic', 'audio', 'audit', 'aunt', 'autumn', 'avenue', 'avoid', 'awake', 'award', 'aware', 'axis', 'bacon',
+  'badge', 'bagel', 'baker', 'balmy', 'bamboo', 'banana', 'band', 'banjo', 'bank', 'barn', 'barrel', 'basil',
+  'basin', 'basket', 'batch', 'bath', 'baton', 'bay', 'beach', 'beacon', 'beam', 'bean', 'bear', 'beard',
+  'beast', 'bed', 'beef', 'beetle', 'begin', 'bell', 'belt', 'bench', 'berry', 'bike', 'birch', 'bird',
+  'biscuit', 'bison', 'black', 'blade', 'blank', 'blast', 'blaze', 'blend', 'bless', 'blimp', 'blink', 'bliss',
+  'block', 'bloom', 'blue', 'blunt', 'blush', 'board', 'boat', 'body', 'bold', 'bolt', 'bonus', 'book',
+  'boost', 'boot', 'border', 'boss', 'bottle', 'bounce', 'bowl', 'box', 'brain', 'brake', 'branch', 'brass',
+  'brave', 'bread', 'breeze', 'brick', 'bride', 'brief', 'bright', 'brisk', 'broad', 'bronze', 'brook', 'broom',
+  'brush', 'bubble', 'bucket', 'buddy', 'budget', 'buffalo', 'build', 'bulb', 'bull', 'bunch', 'bundle', 'bunny',
+  'burst', 'bus', 'bush', 'butter', 'button', 'buzz', 'cabin', 'cable', 'cactus', 'cadet', 'cage', 'cake',
+  'calm', 'camel', 'camera', 'camp', 'canal', 'candle', 'candy', 'canoe', 'canvas', 'canyon', 'cape', 'carbon',
+  'card', 'cargo', 'carpet', 'carrot', 'cart', 'carve', 'case', 'castle', 'cat', 'catch', 'cause', 'cave',
+  'cedar', 'cell', 'cement', 'cereal', 'chain', 'chair', 'chalk', 'champ', 'chant', 'chapel', 'charm', 'chart',
+  'chase', 'cheek', 'cheese', 'chef', 'cherry', 'chess', 'chest', 'chew', 'chick', 'chief', 'child', 'chili',
+  'chimney', 'chin', 'chip', 'chorus', 'cider', 'cinema', 'circle', 'citrus', 'city', 'civic', 'clam', 'clap',
+  'clay', 'clean', 'clerk', 'click', 'cliff', 'climb', 'clock', 'cloth', 'cloud', 'clover', 'clown', 'club',
+  'clue', 'coach', 'coast', 'cobra', 'cocoa', 'coconut', 'code', 'coffee', 'coil', 'coin', 'cold', 'comet',
+  'comic', 'coral', 'cord', 'core', 'corn', 'cosmic', 'cotton', 'couch', 'cough', 'count', 'court', 'cousin',
+  'cover', 'cowboy', 'coyote', 'crab', 'craft', 'crane', 'crate', 'crawl', 'crayon', 'cream', 'creek', 'crew',
+  'cricket', 'crisp', 'crop', 'cross', 'crow', 'crowd', 'crown', 'crumb', 'crust', 'cube', 'cup', 'curl',
+  'curve', 'cushion', 'cycle', 'daily', 'dairy', 'daisy', 'dance', 'dash', 'data', 'dawn', 'deal', 'debut',
+  'decal', 'decor', 'deer', 'delta', 'demo', 'denim', 'depth', 'desert', 'desk', 'detail', 'dial', 'diary',
+  'diesel', 'digit', 'dime', 'diner', 'dingo', 'dinner', 'disco', 'dish', 'ditch', 'dive', 'dock', 'doctor',
+  'dodge', 'dog', 'doll', 'dolphin', 'dome', 'donkey', 'donut', 'door', 'dose', 'dot', 'dough', 'dove',
+  'draft', 'dragon', 'drama', 'drawer', 'dream', 'dress', 'drift', 'drill', 'drink', 'drive', 'drum', 'duck',
+  'dune', 'dust', 'duty', 'dwarf', 'eagle', 'early', 'earth', 'easel', 'east', 'easy', 'echo', 'eclipse',
+  'edge', 'eel', 'effort', 'egg', 'eight', 'elbow', 'elder', 'elite', 'elk', 'elm', 'email', 'ember',
+  'emerald', 'empty', 'enamel', 'end', 'energy', 'engine', 'enjoy', 'enter', 'entry', 'envoy', 'equal', 'era',
+  'erase', 'errand', 'essay', 'estate', 'ethic', 'event', 'exact', 'exit', 'expert', 'extra', 'fable', 'fabric',
+  'face', 'fact', 'fair', 'fairy', 'faith', 'falcon', 'fame', 'family', 'fancy', 'farm', 'fast', 'fault',
+  'fawn', 'feast', 'feather', 'fence', 'fern', 'ferry', 'festival', 'fever', 'fiber', 'field', 'fiesta', 'fig',
+  'film', 'filter', 'final', 'finch', 'finger', 'fire', 'fish', 'five', 'flag', 'flame', 'flash', 'flask',
+  'flat', 'flavor', 'fleet', 'flight', 'flint', 'float', 'flock', 'floor', 'flour', 'flower', 'fluid', 'flute',
+  'foam', 'focus', 'fog', 'folk', 'font', 'food', 'forest', 'fork', 'form', 'fort', 'fossil', 'fox',
+  'frame', 'fresh', 'friend', 'frog', 'frost', 'fruit', 'fudge', 'fuel', 'fun', 'fusion', 'gadget', 'galaxy',
+  'gallon', 'game', 'garage', 'garden', 'garlic', 'gas', 'gate', 'gauge', 'gazelle', 'gear', 'gecko', 'gem',
+  'genius', 'gentle', 'geyser', 'ghost', 'giant', 'gift', 'ginger', 'giraffe', 'glad', 'glass', 'globe', 'glove',
+  'glow', 'glue', 'goat', 'gold', 'golf', 'good', 'goose', 'gopher', 'gorilla', 'gospel', 'grace', 'grain',
+  'grand', 'grape', 'graph', 'grass', 'gravel', 'gravy', 'green', 'grid', 'grill', 'grin', 'grit', 'grove',
+  'guard', 'guest', 'guide', 'guitar', 'gulf', 'gum', 'guppy', 'gust', 'habit', 'hair', 'half', 'hall',
+  'halo', 'hammer', 'hamster', 'hand', 'happy', 'harbor', 'hard', 'harp', 'harvest', 'hat', 'hatch', 'hawk',
+  'hazel', 'head', 'heart', 'heat', 'hedge', 'helmet', 'help', 'herb', 'hero', 'heron', 'hill', 'hinge',
+  'hippo', 'hobby', 'hockey', 'holly', 'home', 'honey', 'hood', 'hook', 'hope', 'horn', 'horse', 'host',
+  'hotel', 'hour', 'house', 'hover', 'hub', 'hug', 'human', 'humor', 'hundred', 'hunt', 'hurry', 'husky',
+  'hut', 'hymn', 'ice', 'icicle', 'icon', 'idea', 'igloo', 'image', 'impact', 'inch', 'index', 'indigo',
+  'ink', 'inlet', 'input', 'insect', 'iris', 'iron', 'island', 'item', 'ivory', 'ivy', 'jacket', 'jaguar',
+  'jam', 'jar', 'jasmine', 'jazz', 'jeans', 'jelly', 'jet', 'jewel', 'jigsaw', 'job', 'jockey', 'jog',
+  'joke', 'jolly', 'journal', 'joy', 'judge', 'juice', 'july', 'jumbo', 'jump', 'june', 'jungle', 'junior',
+  'jury', 'kale', 'kayak', 'keen', 'kettle', 'key', 'kick', 'kid', 'kidney', 'king', 'kiosk', 'kit',
+  'kite', 'kitten', 'kiwi', 'knee', 'knife', 'knight', 'knob', 'knot', 'koala', 'label', 'lace', 'ladder',
+  'lady', 'lagoon', 'lake', 'lamb', 'lamp', 'land', 'lane', 'lantern', 'lap', 'laptop', 'large', 'laser',
+  'latch', 'lava', 'lawn', 'layer', 'leader', 'leaf', 'learn', 'lease', 'leather', 'ledge', 'lemon', 'lens',
+  'leopard', 'letter', 'level', 'lever', 'liberty', 'library', 'lid', 'light', 'lilac', 'lily', 'lime', 'linen',
+  'lion', 'lip', 'liquid', 'list', 'little', 'lizard', 'llama', 'load', 'loaf', 'lobby', 'lobster', 'local',
+  'lock', 'lodge', 'logic', 'lollipop', 'loop', 'lotus', 'loud', 'lounge', 'love', 'loyal', 'lucky', 'lumber',
+  'lunar', 'lunch', 'lung', 'lyric', 'machine', 'magic', 'magnet', 'maid', 'mail', 'major', 'mango', 'manor',
+  'maple', 'marble', 'march', 'margin', 'marine', 'market', 'marsh', 'mask', 'mason', 'match', 'meadow', 'meal',
+  'medal', 'melody', 'melon', 'member', 'memo', 'mentor', 'menu', 'merit', 'mesa', 'metal', 'meter', 'middle',
+  'mild', 'mile', 'milk', 'mill', 'mimic', 'mind', 'mineral', 'mint', 'minute', 'mirror', 'mist', 'mitten',
+  'mixer', 'mobile', 'model', 'modem', 'mole', 'moment', 'money', 'monkey', 'month', 'moon', 'moose', 'morning',
+  'mosaic', 'moss', 'motel', 'moth', 'motor', 'mouse', 'mouth', 'movie', 'mud', 'muffin', 'mule', 'mural',
+  'museum', 'music', 'mustard', 'myth', 'nail', 'name', 'napkin', 'narrow', 'nation', 'native', 'nature', 'navy',
+  'near', 'neat', 'nectar', 'needle', 'neon', 'nephew', 'nerve', 'nest', 'net', 'network', 'never', 'new',
+  'news', 'nickel', 'niece', 'night', 'nimble', 'ninja', 'noble', 'noise', 'noodle', 'normal', 'north', 'nose',
+  'note', 'notice', 'novel', 'number', 'nurse', 'nutmeg', 'nylon', 'oak', 'oasis', 'oat', 'ocean', 'octave',
+  'odor', 'offer', 'office', 'olive', 'omega', 'onion', 'onset', 'open', 'opera', 'orange', 'orbit', 'orchid',
+  'order', 'organ', 'origin', 'otter', 'outer', 'oval', 'oven', 'owl', 'owner', 'oxygen', 'oyster', 'ozone',
+  'paddle', 'page', 'paint', 'palace', 'palm', 'panda', 'panel', 'panther', 'paper', 'parade', 'parcel', 'park',
+  'parrot', 'party', 'pasta', 'paste', 'patch', 'path', 'patio', 'pause', 'peach', 'peak', 'peanut', 'pear',
+  'pebble', 'pedal', 'pelican', 'pen', 'pencil', 'penguin', 'pepper', 'perch', 'piano', 'pickle', 'picnic', 'pie',
+  'pier', 'pig', 'pigeon', 'pillow', 'pilot', 'pine', 'pink', 'pint', 'pioneer', 'pipe', 'pirate', 'pitch',
+  'pizza', 'plain', 'planet', 'plank', 'plant', 'plate', 'play', 'plaza', 'plum', 'pocket', 'poem', 'poet',
+  'polar', 'pond', 'pony', 'pool', 'poppy', 'porch', 'port', 'potato', 'pottery', 'powder', 'power', 'prairie',
+  'press', 'price', 'pride', 'prince', 'print', 'prism', 'prize', 'profit', 'prompt', 'proof', 'proud', 'prune',
+  'puddle', 'pulse', 'pump', 'pumpkin', 'pupil', 'puppet', 'puppy', 'purple', 'puzzle', 'pyramid', 'quail', 'quaint',
+  'quake', 'quality', 'quarry', 'quart', 'queen', 'quest', 'quick', 'quiet', 'quill', 'quilt', 'quiz', 'quote',
+  'rabbit', 'raccoon', 'race', 'radar', 'radio', 'raft', 'rail', 'rain', 'rainbow', 'raisin', 'rally', 'ramp',
+  'ranch', 'range', 'rapid', 'raven', 'razor', 'reader', 'ready', 'recipe', 'record', 'red', 'reef', 'reflex',
+  'relay', 'relic', 'remedy', 'remote', 'rental', 'reply', 'rescue', 'resort', 'rhino', 'rhythm', 'ribbon', 'rice',
+  'rich', 'riddle', 'ride', 'ridge', 'ring', 'ripple', 'river', 'road', 'robin', 'robot', 'rock', 'rocket',
+  'rodeo', 'roof', 'room', 'root', 'rope', 'rose', 'rotor', 'round', 'route', 'rover', 'royal', 'rubber',
+  'ruby', 'rug', 'ruler', 'rumble', 'runway', 'rural', 'rust', 'saddle', 'safari', 'safe', 'saga', 'sail',
+  'salad', 'salmon', 'salon', 'salt', 'sample', 'sand', 'satin', 'sauce', 'sauna', 'scale', 'scarf', 'scene',
+  'school', 'scoop', 'scooter', 'score', 'scout', 'scrap', 'screen', 'script', 'scroll', 'sea', 'seal', 'season',
+  'seat', 'second', 'secret', 'seed', 'select', 'senior', 'sense', 'sermon', 'settle', 'seven', 'shade', 'shadow',
+  'shark', 'sheep', 'shelf', 'shell', 'shield', 'shift', 'shine', 'ship', 'shirt', 'shoe', 'shore', 'short',
+  'shovel', 'shrimp', 'sierra', 'signal', 'silk', 'silver', 'simple', 'siren', 'sister', 'sketch', 'ski', 'skill',
+  'skunk', 'sky', 'slate', 'sled', 'sleep', 'slice', 'slide', 'slope', 'smile', 'smoke', 'snack', 'snail',
+  'snake', 'snow', 'soap', 'soccer', 'sock', 'soda', 'sofa', 'soil', 'solar', 'solid', 'sonar', 'song',
+  'sonic', 'soup', 'south', 'space', 'spark', 'sparrow', 'spice', 'spider', 'spike', 'spiral', 'spirit', 'splash',
+  'sponge', 'spoon', 'sport', 'spot', 'spray', 'spring', 'sprout', 'spruce', 'square', 'squid', 'stable', 'stage',
+  'stair', 'stamp', 'star', 'state', 'steam', 'steel', 'stem', 'stereo', 'stick', 'stone', 'stool', 'storm',
+  'story', 'stove', 'straw', 'stream', 'street', 'stripe', 'studio', 'style', 'sugar', 'suit', 'summer', 'summit',
+  'sun', 'sunset', 'super', 'surf', 'swamp', 'swan', 'sweater', 'sweet', 'swift', 'swing', 'symbol', 'syrup',
+  'table', 'tablet', 'taco', 'tail', 'talent', 'tango', 'tank', 'tape', 'target', 'tavern', 'taxi', 'tea',
+  'teacher', 'team', 'teapot', 'temple', 'tennis', 'tent', 'term', 'thaw', 'theater', 'thread', 'throne', 'thumb',
+  'thunder', 'ticket', 'tide', 'tiger', 'timber', 'timer', 'tin', 'tiny', 'toast', 'today', 'token', 'tomato',
+  'tone', 'tonic', 'tool', 'topaz', 'torch', 'tornado', 'tortoise', 'total', 'totem', 'towel', 'tower', 'town',
+  'toy', 'track', 'tractor', 'trade', 'trail', 'train', 'tree', 'trend', 'tribe', 'trick', 'trophy', 'trout',
+  'truck', 'trumpet', 'trunk', 'tulip', 'tuna', 'tundra', 'tunnel', 'turkey', 'turtle', 'tuxedo', 'twig', 'twin',
+  'umbrella', 'uncle', 'under', 'unicorn', 'union', 'unit', 'upper', 'urban', 'usher', 'utmost', 'vacuum', 'valley',
+  'valve', 'vanilla', 'vapor', 'vase', 'vault', 'velvet', 'vendor', 'venue', 'verse', 'vessel', 'veteran', 'video',
+  'view', 'villa', 'village', 'vine', 'violet', 'violin', 'virtue', 'visa', 'vision', 'visit', 'vital', 'vivid',
+  'vocal', 'voice', 'volcano', 'volume', 'vortex', 'voyage', 'wafer', 'wagon', 'waiter', 'walnut', 'walrus', 'wand',
+  'warm', 'wasp', 'watch', 'water', 'wave', 'wax', 'wealth', 'weasel', 'weather', 'web', 'wedge', 'weekend',
+  'whale', 'wheat', 'wheel', 'whisk', 'whistle', 'white', 'wick', 'width', 'wild', 'willow', 'wind', 'window',
+  'wing', 'winner', 'winter', 'wire', 'wisdom', 'wise', 'wish', 'wizard', 'wolf', 'wombat', 'wonder', 'wood',
+  'wool', 'word', 'work', 'world', 'worm', 'wreath', 'wrist', 'writer', 'yacht', 'yak', 'yard', 'yarn',
+  'year', 'yellow', 'yeti', 'yield', 'yogurt', 'young', 'youth', 'yoyo', 'zebra', 'zen', 'zero', 'zigzag',
+  'zinc', 'zipper', 'zone', 'zoom',
+];
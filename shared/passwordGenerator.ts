@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { PASSPHRASE_WORDS } from './passphraseWords';
+
+// Random passwords and passphrases for the credentials vault, drawn from the platform's secure random source
+
+export const CHARACTER_CLASSES = {
+  lowercase: 'abcdefghijklmnopqrstuvwxyz',
+  uppercase: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  digits: '0123456789',
+  symbols: '!@#$%^&*()-_=+[]{};:,.<>?/~',
+} as const;
+
+export type CharacterClass = keyof typeof CHARACTER_CLASSES;
+
+// Characters easily misread for one another when a password has to be typed from a screen
+const AMBIGUOUS_CHARACTERS = 'Il1O0o';
+
+export const passwordGeneratorOptionsSchema = z.object({
+  mode: z.enum(['characters', 'passphrase']).default('characters'),
+  length: z.number().int().min(8).max(128).default(20),
+  lowercase: z.boolean().default(true),
+  uppercase: z.boolean().default(true),
+  digits: z.boolean().default(true),
+  symbols: z.boolean().default(true),
+  excludeAmbiguous: z.boolean().default(false),
+  words: z.number().int().min(3).max(12).default(5), // Passphrase mode only
+  separator: z.string().max(3).default('-'),
+  capitalize: z.boolean().default(false),
+  includeNumber: z.boolean().default(false), // Appends a digit to one of the words
+});
+
+export type PasswordGeneratorOptions = z.infer<typeof passwordGeneratorOptionsSchema>;
+
+export const DEFAULT_PASSWORD_GENERATOR_OPTIONS: PasswordGeneratorOptions = passwordGeneratorOptionsSchema.parse({});
+
+/**
+ * Uniform random integer in [0, max), rejecting draws past the largest multiple of `max` so
+ * no value is favoured
+ */
+function randomInt(max: number): number {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    globalThis.crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+}
+
+function pick<T>(items: ArrayLike<T>): T {
+  return items[randomInt(items.length)];
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * A password or passphrase for the given options. Character passwords always hold at least one
+ * character of every selected class
+ */
+export function generatePassword(options: Partial<PasswordGeneratorOptions> = {}): string {
+  const settings = { ...DEFAULT_PASSWORD_GENERATOR_OPTIONS, ...options };
+  return settings.mode === 'passphrase' ? generatePassphrase(settings) : generateCharacters(settings);
+}
+
+function generateCharacters(settings: PasswordGeneratorOptions): string {
+  const pools = (Object.keys(CHARACTER_CLASSES) as CharacterClass[])
+    .filter(name => settings[name])
+    .map(name => settings.excludeAmbiguous
+      ? Array.from(CHARACTER_CLASSES[name]).filter(char => !AMBIGUOUS_CHARACTERS.includes(char)).join('')
+      : CHARACTER_CLASSES[name]);
+  if (pools.length === 0) {
+    throw new Error('Select at least one character class');
+  }
+
+  const all = pools.join('');
+  const characters = pools.map(pool => pick(pool));
+  while (characters.length < settings.length) {
+    characters.push(pick(all));
+  }
+  return shuffle(characters).join('');
+}
+
+function generatePassphrase(settings: PasswordGeneratorOptions): string {
+  const words = Array.from({ length: settings.words }, () => {
+    const word = pick(PASSPHRASE_WORDS);
+    return settings.capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word;
+  });
+  if (settings.includeNumber) {
+    const index = randomInt(words.length);
+    words[index] += pick(CHARACTER_CLASSES.digits);
+  }
+  return words.join(settings.separator);
+}
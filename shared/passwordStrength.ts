@@ -0,0 +1,361 @@
+import { PASSPHRASE_WORDS } from './passphraseWords';
+
+// Password strength in the manner of zxcvbn: the password is split into the cheapest sequence of
+// guessable patterns (common passwords, words, keyboard runs, sequences, repeats, dates), with
+// whatever is left over counted as random characters, and the total bits of guessing work scored 0-4
+
+export type PasswordPattern = 'common' | 'user_input' | 'dictionary' | 'keyboard' | 'sequence' | 'repeat' | 'date';
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  entropy: number; // Estimated bits of guessing work, rounded to one decimal
+  patterns: PasswordPattern[]; // Patterns found in the cheapest reading of the password
+  warning: string | null;
+  suggestions: string[];
+}
+
+export const PASSWORD_STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Strong', 'Very strong'] as const;
+
+// Credentials scoring at or below this count as weak in the vault
+export const WEAK_PASSWORD_SCORE = 1;
+
+// Lower bounds, in bits, for scores 1 to 4
+const SCORE_THRESHOLDS = [25, 35, 50, 65];
+
+const MAX_WORD_LENGTH = 24;
+const MIN_MATCH_LENGTH = 3;
+
+// Ranked by how often they turn up in breach dumps; a password's rank is about how many guesses it takes
+const COMMON_PASSWORDS = [
+  'password', '123456', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567', 'dragon',
+  '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow', 'master', '666666',
+  'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321', 'superman', '1qaz2wsx', '7777777', '121212',
+  '000000', 'qazwsx', '123qwe', 'killer', 'trustno1', 'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter',
+  'buster', 'soccer', 'harley', 'batman', 'andrew', 'tigger', 'sunshine', 'iloveyou', 'fuckyou', '2000',
+  'charlie', 'robert', 'thomas', 'hockey', 'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george',
+  'computer', 'michelle', 'jessica', 'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom',
+  '777777', 'pass', 'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda',
+  'summer', 'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'welcome', 'admin', 'login', 'passw0rd', 'p@ssw0rd',
+  'qwerty123', 'password1', 'welcome1', 'monkey1', 'secret', 'flower', 'hello', 'whatever', 'qwer1234', 'changeme',
+  'default', 'guest', 'root', 'test', 'letmein1', 'baby', 'angel', 'lovely', 'football1', 'samsung',
+];
+
+const COMMON_RANKS = new Map(COMMON_PASSWORDS.map((password, index) => [password, index + 1]));
+
+// Everyday words beyond the passphrase list that people build passwords from
+const EXTRA_WORDS = [
+  'love', 'baby', 'angel', 'money', 'secret', 'family', 'summer', 'winter', 'spring', 'autumn', 'hello',
+  'welcome', 'admin', 'login', 'master', 'dragon', 'monkey', 'tiger', 'sunshine', 'princess', 'password',
+  'pass', 'word', 'qwerty', 'football', 'soccer', 'hockey', 'baseball', 'freedom', 'happy', 'lucky', 'star',
+  'super', 'shadow', 'silver', 'golden', 'purple', 'orange', 'yellow', 'black', 'white', 'green', 'blue',
+  'red', 'pink', 'cookie', 'chocolate', 'cheese', 'pepper', 'coffee', 'pizza', 'computer', 'internet', 'google',
+  'apple', 'facebook', 'mother', 'father', 'sister', 'brother', 'friend', 'forever', 'always', 'never', 'magic',
+];
+
+const DICTIONARY = new Set([...PASSPHRASE_WORDS, ...EXTRA_WORDS]);
+const DICTIONARY_BITS = Math.log2(DICTIONARY.size);
+
+const KEYBOARD_ROWS = [
+  '`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./',
+  '~!@#$%^&*()_+', 'qwertzuiop', 'azertyuiop', 'qsdfghjklm', 'wxcvbn',
+  '1qaz2wsx3edc4rfv5tgb6yhn7ujm8ik,9ol.0p;/', // Columns, top to bottom
+];
+
+const L33T_SUBSTITUTIONS: Record<string, string> = {
+  '4': 'a', '@': 'a', '8': 'b', '(': 'c', '3': 'e', '6': 'g', '1': 'i', '!': 'i', '|': 'l',
+  '0': 'o', '$': 's', '5': 's', '7': 't', '+': 't', '2': 'z',
+};
+
+interface PatternMatch {
+  start: number;
+  end: number; // Exclusive
+  bits: number;
+  pattern: PasswordPattern;
+  l33t?: boolean;
+  capitalized?: boolean;
+}
+
+/**
+ * Strength of a password. `userInputs` (service name, username, website) count as trivially guessable
+ * words, since an attacker who knows the account knows them too
+ */
+export function estimatePasswordStrength(password: string, userInputs: Array<string | null | undefined> = []): PasswordStrength {
+  if (!password) {
+    return { score: 0, entropy: 0, patterns: [], warning: null, suggestions: ['Enter a password'] };
+  }
+
+  const userWords = userInputTokens(userInputs);
+  const matches = [
+    ...wordMatches(password, userWords),
+    ...keyboardMatches(password),
+    ...sequenceMatches(password),
+    ...repeatMatches(password),
+    ...dateMatches(password),
+  ];
+
+  // Cheapest reading of the password: best[i] is the fewest bits that explain its first i characters
+  const bruteforceBits = Math.log2(charsetSize(password));
+  const best: Array<{ bits: number; match: PatternMatch | null }> = [{ bits: 0, match: null }];
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = { bits: best[end - 1].bits + bruteforceBits, match: null };
+    for (const match of matches) {
+      if (match.end !== end) continue;
+      // A bit per pattern for the attacker's choice of which kind of pattern comes next
+      const bits = best[match.start].bits + match.bits + 1;
+      if (bits < best[end].bits) {
+        best[end] = { bits, match };
+      }
+    }
+  }
+
+  const used: PatternMatch[] = [];
+  for (let end = password.length; end > 0;) {
+    const match = best[end].match;
+    if (match) {
+      used.unshift(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+
+  const entropy = best[password.length].bits;
+  const score = SCORE_THRESHOLDS.filter(threshold => entropy >= threshold).length as PasswordStrength['score'];
+  return {
+    score,
+    entropy: Math.round(entropy * 10) / 10,
+    patterns: Array.from(new Set(used.map(match => match.pattern))),
+    ...feedback(password, score, used),
+  };
+}
+
+/**
+ * Whether a stored strength score counts as weak. Unscored credentials are not
+ */
+export function isWeakPasswordScore(score: number | null | undefined): boolean {
+  return score !== null && score !== undefined && score <= WEAK_PASSWORD_SCORE;
+}
+
+function userInputTokens(inputs: Array<string | null | undefined>): Set<string> {
+  const tokens = new Set<string>();
+  for (const input of inputs) {
+    if (!input) continue;
+    const text = input.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+    tokens.add(text);
+    for (const token of text.split(/[^a-z0-9]+/)) {
+      if (token.length >= MIN_MATCH_LENGTH) {
+        tokens.add(token);
+      }
+    }
+  }
+  return tokens;
+}
+
+function charsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return size;
+}
+
+/**
+ * Common passwords, user inputs and dictionary words, forwards or reversed, with capitals and
+ * l33t substitutions undone
+ */
+function wordMatches(password: string, userWords: Set<string>): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const unl33t = Array.from(lower).map(char => L33T_SUBSTITUTIONS[char] || char).join('');
+
+  for (let start = 0; start < password.length; start++) {
+    for (let end = start + MIN_MATCH_LENGTH; end <= Math.min(password.length, start + MAX_WORD_LENGTH); end++) {
+      const original = password.slice(start, end);
+      const plain = lower.slice(start, end);
+      const substituted = unl33t.slice(start, end);
+      for (const candidate of [plain, substituted]) {
+        const l33t = candidate !== plain;
+        const reversed = Array.from(candidate).reverse().join('');
+        for (const [word, extraBits] of [[candidate, 0], [reversed, 1]] as const) {
+          const base = baseWordBits(word, userWords);
+          if (!base) continue;
+          const capitals = capitalizationBits(original);
+          matches.push({
+            start,
+            end,
+            bits: base.bits + extraBits + capitals + (l33t ? 1 : 0),
+            pattern: base.pattern,
+            l33t,
+            capitalized: capitals > 0,
+          });
+        }
+      }
+    }
+  }
+  return matches;
+}
+
+function baseWordBits(word: string, userWords: Set<string>): { bits: number; pattern: PasswordPattern } | null {
+  if (userWords.has(word)) {
+    return { bits: Math.log2(userWords.size + 1), pattern: 'user_input' };
+  }
+  const rank = COMMON_RANKS.get(word);
+  if (rank) {
+    return { bits: Math.log2(rank + 1), pattern: 'common' };
+  }
+  if (!/^[a-z]+$/.test(word) || !DICTIONARY.has(word)) {
+    return null;
+  }
+  return { bits: DICTIONARY_BITS, pattern: 'dictionary' };
+}
+
+/**
+ * One bit for the common shapes (Word, WORD), more for capitals scattered through the word
+ */
+function capitalizationBits(text: string): number {
+  const uppercase = (text.match(/[A-Z]/g) || []).length;
+  const lowercase = (text.match(/[a-z]/g) || []).length;
+  if (uppercase === 0) return 0;
+  if (lowercase === 0 || /^[A-Z][^A-Z]+$/.test(text) || /^[^A-Z]+[A-Z]$/.test(text)) return 1;
+  let ways = 0;
+  for (let k = 1; k <= Math.min(uppercase, lowercase); k++) {
+    ways += binomial(uppercase + lowercase, k);
+  }
+  return Math.log2(Math.max(ways, 2));
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * Runs of four or more neighbouring keys along a keyboard row or column, either direction
+ */
+function keyboardMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const lower = password.toLowerCase();
+  for (let start = 0; start < lower.length; start++) {
+    let longest = 0;
+    for (let end = start + 4; end <= lower.length; end++) {
+      const run = lower.slice(start, end);
+      const reversed = Array.from(run).reverse().join('');
+      if (KEYBOARD_ROWS.some(row => row.includes(run) || row.includes(reversed))) {
+        longest = end;
+      } else {
+        break;
+      }
+    }
+    if (longest) {
+      const length = longest - start;
+      matches.push({ start, end: longest, bits: Math.log2(KEYBOARD_ROWS.length * 2 * 10) + Math.log2(length), pattern: 'keyboard' });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Runs of three or more characters stepping evenly through the alphabet or digits: abc, 2468, zyx
+ */
+function sequenceMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  let start = 0;
+  while (start < password.length - 2) {
+    const delta = password.charCodeAt(start + 1) - password.charCodeAt(start);
+    let end = start + 2;
+    while (end < password.length && password.charCodeAt(end) - password.charCodeAt(end - 1) === delta) {
+      end++;
+    }
+    const run = password.slice(start, end);
+    if (end - start >= 3 && delta !== 0 && Math.abs(delta) <= 5 && /^([a-z]+|[A-Z]+|[0-9]+)$/.test(run)) {
+      const obviousStart = /^[aAzZ019]/.test(run) ? 2 : /^[0-9]/.test(run) ? 3.3 : 4.7;
+      const bits = obviousStart + Math.log2(run.length) + (delta < 0 ? 1 : 0) + (Math.abs(delta) > 1 ? 2 : 0);
+      matches.push({ start, end, bits, pattern: 'sequence' });
+      start = end - 1;
+    } else {
+      start++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * A character or block of characters repeated: aaaa, abcabc, 1212
+ */
+function repeatMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const pattern = /(.+?)\1+/g;
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(password)) !== null) {
+    const [text, block] = found;
+    if (text.length >= MIN_MATCH_LENGTH) {
+      const blockBits = block.length * Math.log2(charsetSize(block));
+      matches.push({ start: found.index, end: found.index + text.length, bits: blockBits + Math.log2(text.length / block.length), pattern: 'repeat' });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Years from 1900 to 2099 and day-month-year dates, with or without separators
+ */
+function dateMatches(password: string): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  const years = /(19|20)\d\d/g;
+  let found: RegExpExecArray | null;
+  while ((found = years.exec(password)) !== null) {
+    matches.push({ start: found.index, end: found.index + 4, bits: Math.log2(200), pattern: 'date' });
+  }
+
+  const dates = /\d{1,2}([-/.]?)\d{1,2}\1(?:19|20)?\d{2}/g;
+  while ((found = dates.exec(password)) !== null) {
+    // Every day of a 120 year span, in either day-month order
+    matches.push({ start: found.index, end: found.index + found[0].length, bits: Math.log2(365 * 120 * 2), pattern: 'date' });
+    dates.lastIndex = found.index + 1;
+  }
+  return matches;
+}
+
+function feedback(password: string, score: number, used: PatternMatch[]): { warning: string | null; suggestions: string[] } {
+  if (score >= 3) {
+    return { warning: null, suggestions: [] };
+  }
+
+  const has = (pattern: PasswordPattern) => used.some(match => match.pattern === pattern);
+  let warning: string | null = null;
+  if (has('common')) {
+    warning = 'This is one of the most common passwords';
+  } else if (has('user_input')) {
+    warning = 'Contains the service name, username or website';
+  } else if (has('keyboard')) {
+    warning = 'Straight rows of keys are easy to guess';
+  } else if (has('repeat')) {
+    warning = 'Repeats like "aaa" or "abcabc" are easy to guess';
+  } else if (has('sequence')) {
+    warning = 'Sequences like "abc" or "6543" are easy to guess';
+  } else if (has('date')) {
+    warning = 'Dates and years are easy to guess';
+  } else if (has('dictionary') && used.length === 1) {
+    warning = 'A single word is easy to guess';
+  } else if (password.length < 8) {
+    warning = 'Too short';
+  }
+
+  const suggestions: string[] = [];
+  if (password.length < 12) {
+    suggestions.push('Use at least 12 characters');
+  }
+  if (used.some(match => match.capitalized)) {
+    suggestions.push('Capitalizing a word adds little');
+  }
+  if (used.some(match => match.l33t)) {
+    suggestions.push('Predictable substitutions like "@" for "a" add little');
+  }
+  suggestions.push('Generate a password, or use four or more unrelated words');
+  return { warning, suggestions };
+}
@@ -1,7 +1,25 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, json, vector, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, date, numeric, json, vector, index, uniqueIndex, primaryKey, real, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { searchConfigCase } from "./languages";
+
+// Width of the pgvector embedding columns. Providers with smaller vectors are zero-padded to this size,
+// which leaves cosine similarity unchanged
+export const EMBEDDING_COLUMN_DIMENSION = 1536;
+
+// Text search configuration of a chunk, stemming it in the language recorded in its metadata
+const CHUNK_SEARCH_CONFIG = searchConfigCase(`metadata->>'language'`);
+
+// Text search configuration of a document, stemming its filename and text in the detected language
+const DOCUMENT_SEARCH_CONFIG = searchConfigCase('language');
+
+// PostgreSQL full-text search vector, maintained by the database as a generated column
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 // Users table
 export const users = pgTable("users", {
@@ -17,6 +35,10 @@ export const users = pgTable("users", {
   isEmailVerified: boolean("is_email_verified").default(false),
   emailVerificationToken: text("email_verification_token"),
   emailVerificationExpires: timestamp("email_verification_expires"),
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // Days a deleted document stays in the trash before it is purged
+  reminderLeadDays: json("reminder_lead_days").$type<number[]>().notNull().default([30, 7, 1]), // Days before a due date that reminder emails go out
+  reminderEmailsEnabled: boolean("reminder_emails_enabled").notNull().default(true),
+  ocrLanguages: json("ocr_languages").$type<string[]>().notNull().default([]), // Preferred languages of scans (DOCUMENT_LANGUAGES codes); empty to go by the detected script
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -30,6 +52,19 @@ export const authSessions = pgTable("auth_sessions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Folder hierarchy for organising vault documents; a NULL parent is a top-level folder
+export const folders = pgTable("folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentId: varchar("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("folders_user_id_index").on(table.userId),
+  index("folders_parent_id_index").on(table.parentId)
+]);
+
 // Documents table for Supabase RAG system
 export const documents = pgTable("documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -37,18 +72,183 @@ export const documents = pgTable("documents", {
   filename: text("filename").notNull(),
   fileSize: integer("file_size").notNull(),
   fileType: text("file_type").notNull(),
+  folderId: varchar("folder_id").references(() => folders.id, { onDelete: "set null" }), // NULL for files at the vault root
+  parentDocumentId: varchar("parent_document_id").references((): AnyPgColumn => documents.id, { onDelete: "cascade" }), // Set on attachments extracted from an email
   storagePath: text("storage_path").notNull(), // Supabase Storage path
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the uploaded bytes, hex; NULL for files uploaded before hashing
+  currentVersion: integer("current_version").notNull().default(1), // The file fields above describe this version
   downloadUrl: text("download_url"), // Public download URL
   extractedText: text("extracted_text"), // Full extracted text content (PDF parsing or GPT-4-Vision description)
-  embedding: vector("embedding", { dimensions: 1536 }), // OpenAI text-embedding-ada-002 produces 1536-dimensional vectors
+  embedding: vector("embedding", { dimensions: EMBEDDING_COLUMN_DIMENSION }), // OpenAI text-embedding-ada-002 produces 1536-dimensional vectors
   embeddingStatus: text("embedding_status").default("pending"), // pending, processing, completed, failed
+  language: varchar("language"), // Language detected in the extracted text (DOCUMENT_LANGUAGES code); NULL when unknown, searched as English
+  // Filename (weight A) and extracted text (weight B) for full-text search, stemmed in the document's language; text
+  // beyond 500k characters is not indexed to stay under the tsvector size limit
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector(${sql.raw(DOCUMENT_SEARCH_CONFIG)}, coalesce(filename, '')), 'A') || setweight(to_tsvector(${sql.raw(DOCUMENT_SEARCH_CONFIG)}, left(coalesce(extracted_text, ''), 500000)), 'B')`
+  ),
   shareToken: text("share_token").unique(), // For shareable links
   isShared: boolean("is_shared").default(false),
+  deletedAt: timestamp("deleted_at"), // Set while the document is in the trash; NULL for live documents
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   // Create HNSW index for fast vector similarity search
-  index("embedding_hnsw_index").using("hnsw", table.embedding.op("vector_cosine_ops"))
+  index("embedding_hnsw_index").using("hnsw", table.embedding.op("vector_cosine_ops")),
+  index("documents_search_vector_index").using("gin", table.searchVector),
+  index("documents_folder_id_index").on(table.folderId),
+  index("documents_user_id_content_hash_index").on(table.userId, table.contentHash),
+  index("documents_deleted_at_index").on(table.deletedAt),
+  index("documents_parent_document_id_index").on(table.parentDocumentId)
+]);
+
+// Every stored version of a document, including the current one. Documents uploaded before versioning
+// get their version 1 row when a second version is added
+export const documentVersions = pgTable("document_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  versionNumber: integer("version_number").notNull(),
+  filename: text("filename").notNull(),
+  fileSize: integer("file_size").notNull(),
+  fileType: text("file_type").notNull(),
+  storagePath: text("storage_path").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }),
+  extractedText: text("extracted_text"), // Kept so citations into older versions still resolve
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_versions_document_id_version_index").on(table.documentId, table.versionNumber)
+]);
+
+// User-defined labels for documents; names are unique per user regardless of case
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("tags_user_id_name_index").on(table.userId, sql`lower(${table.name})`)
+]);
+
+// Many-to-many link between documents and tags
+export const documentTags = pgTable("document_tags", {
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+  source: varchar("source").notNull().default("user"), // 'user', or 'ai' when added by accepting a suggestion
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.documentId, table.tagId] }),
+  index("document_tags_tag_id_index").on(table.tagId)
+]);
+
+// Tags proposed from a document's content after extraction. Rejected suggestions are kept so the
+// same name is not proposed again when the document is reprocessed
+export const tagSuggestions = pgTable("tag_suggestions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  confidence: real("confidence"), // 0-1
+  status: varchar("status").notNull().default("pending"), // pending, accepted, rejected
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("tag_suggestions_document_id_name_index").on(table.documentId, sql`lower(${table.name})`)
+]);
+
+// Typed fields read from receipts, invoices and identity documents after text extraction, one row
+// per document. Fields the user corrected are kept when the document is processed again
+export const documentFields = pgTable("document_fields", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentType: varchar("document_type").notNull().default("other"), // receipt, invoice, passport, id_card, driver_license, insurance_card, other
+  vendor: text("vendor"), // Merchant, issuer or issuing authority
+  documentDate: date("document_date", { mode: "string" }), // Purchase, invoice or issue date (YYYY-MM-DD)
+  totalAmount: numeric("total_amount", { precision: 14, scale: 2 }),
+  currency: varchar("currency", { length: 3 }), // ISO 4217
+  documentNumber: text("document_number"), // Invoice, receipt, passport or card number
+  expiryDate: date("expiry_date", { mode: "string" }),
+  holderName: text("holder_name"),
+  confidence: real("confidence"), // 0-1, of the extraction
+  userEdited: boolean("user_edited").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_fields_document_id_index").on(table.documentId),
+  index("document_fields_user_id_type_index").on(table.userId, table.documentType),
+  index("document_fields_user_id_date_index").on(table.userId, table.documentDate),
+  index("document_fields_user_id_expiry_index").on(table.userId, table.expiryDate)
+]);
+
+// Expiry and renewal dates of a document (passport expiry, policy renewal, warranty end), detected
+// during processing or entered by the user. Emails go out at the owner's lead times before the due date
+export const documentReminders = pgTable("document_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull().default("expiry"), // expiry, renewal, warranty, other
+  dueDate: date("due_date", { mode: "string" }).notNull(),
+  label: text("label"), // e.g. "Passport expires"
+  source: varchar("source").notNull().default("user"), // 'user', or 'detected' when found in the document
+  notifiedLeadDays: json("notified_lead_days").$type<number[]>().notNull().default([]), // Lead times already emailed
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_reminders_document_id_kind_due_date_index").on(table.documentId, table.kind, table.dueDate),
+  index("document_reminders_user_id_due_date_index").on(table.userId, table.dueDate)
+]);
+
+// Headers of the messages in an uploaded .eml or .mbox document, one row per message, so chat can
+// find mail by sender, recipient, subject or date. Attachments are stored as child documents
+export const emailMessages = pgTable("email_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  messageIndex: integer("message_index").notNull().default(0), // Position within an mbox; 0 for .eml
+  fromAddress: text("from_address"), // Lowercased
+  fromName: text("from_name"),
+  toAddresses: json("to_addresses").$type<string[]>().notNull().default([]),
+  ccAddresses: json("cc_addresses").$type<string[]>().notNull().default([]),
+  subject: text("subject"),
+  sentAt: timestamp("sent_at"),
+  messageId: text("message_id"), // Message-ID header
+  attachmentCount: integer("attachment_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("email_messages_document_id_index_index").on(table.documentId, table.messageIndex),
+  index("email_messages_user_id_from_index").on(table.userId, table.fromAddress)
+]);
+
+// A column of a spreadsheet table: its header, A1 column letter and the type its values were read as
+export type DocumentTableColumn = {
+  name: string;
+  letter: string; // e.g. "C"
+  type: "number" | "date" | "boolean" | "text";
+  values?: string[]; // Distinct values of a text column with few of them, for matching questions to filters
+};
+
+// A cell value as stored: numbers, YYYY-MM-DD dates, booleans or text
+export type DocumentTableCell = string | number | boolean | null;
+
+// Tables read from spreadsheet and CSV documents, one per sheet, kept alongside the extracted text so
+// chat can run exact aggregations over them and cite the cells used
+export const documentTables = pgTable("document_tables", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tableIndex: integer("table_index").notNull().default(0), // Sheet order within the workbook
+  sheetName: text("sheet_name"), // null for CSV files
+  columns: json("columns").$type<DocumentTableColumn[]>().notNull().default([]),
+  rows: json("rows").$type<DocumentTableCell[][]>().notNull().default([]), // Data rows, cells in column order
+  rowNumbers: json("row_numbers").$type<number[]>().notNull().default([]), // Sheet row number of each data row
+  rowCount: integer("row_count").notNull().default(0),
+  truncated: boolean("truncated").notNull().default(false), // The sheet had more rows than were stored
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("document_tables_document_id_table_index_index").on(table.documentId, table.tableIndex),
+  index("document_tables_user_id_index").on(table.userId)
 ]);
 
 // Jobs table
@@ -72,31 +272,58 @@ export const textChunks = pgTable("text_chunks", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   content: text("content").notNull(), // The actual text chunk content
   chunkIndex: integer("chunk_index").notNull(), // Order of chunks within the file
-  embedding: vector("embedding", { dimensions: 1536 }), // OpenAI text-embedding-ada-002 embeddings
+  version: integer("version").notNull().default(1), // Document version the chunk was cut from
+  isCurrentVersion: boolean("is_current_version").notNull().default(true), // Retrieval only searches these unless asked otherwise
+  embedding: vector("embedding", { dimensions: EMBEDDING_COLUMN_DIMENSION }), // Padded to the column width, see embeddingDimension
+  embeddingProvider: varchar("embedding_provider"), // 'openai' or 'local'; NULL for chunks embedded before providers were recorded (OpenAI)
+  embeddingModel: varchar("embedding_model"), // Chunks are only ever compared with queries from the same model
+  embeddingDimension: integer("embedding_dimension"), // Native dimension of the model before padding
   metadata: json("metadata"), // Additional metadata like word count, position, etc.
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`to_tsvector(${sql.raw(CHUNK_SEARCH_CONFIG)}, content)`), // Keyword leg of hybrid search
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
   // Create HNSW index for fast vector similarity search on chunks
   index("text_chunks_embedding_hnsw_index").using("hnsw", table.embedding.op("vector_cosine_ops")),
-  // Regular index for file-based queries
-  index("text_chunks_file_id_index").on(table.fileId)
+  index("text_chunks_search_vector_index").using("gin", table.searchVector),
+  // Regular indexes for file-based queries and for exact vector scans of one user's chunks
+  index("text_chunks_file_id_index").on(table.fileId),
+  index("text_chunks_user_id_index").on(table.userId)
+]);
+
+// Named conversation threads so users can keep separate chat histories per client or project
+export const conversations = pgTable("conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: text("title").notNull().default("New conversation"),
+  isArchived: boolean("is_archived").default(false),
+  isLegacy: boolean("is_legacy").notNull().default(false), // The one thread per user holding messages saved without a conversation
+  lastMessageAt: timestamp("last_message_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("conversations_user_id_index").on(table.userId),
+  uniqueIndex("conversations_user_id_legacy_index").on(table.userId).where(sql`${table.isLegacy}`)
 ]);
 
 // Chat messages for AI conversation history with database backup
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  conversationId: varchar("conversation_id").references(() => conversations.id, { onDelete: "cascade" }), // NULL for messages saved before conversations existed
   role: varchar("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
   files: json("files"), // Array of file references attached to message
+  citations: json("citations"), // Numbered sources behind an assistant answer (chunk, offsets, page)
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => [
   // Index for user-based chat history queries
   index("chat_messages_user_id_index").on(table.userId),
   // Index for chronological ordering
-  index("chat_messages_timestamp_index").on(table.timestamp)
+  index("chat_messages_timestamp_index").on(table.timestamp),
+  // Index for per-conversation message queries
+  index("chat_messages_conversation_id_index").on(table.conversationId)
 ]);
 
 // Subscription plans table
@@ -148,6 +375,9 @@ export const accountCredentials = pgTable("account_credentials", {
   notes: text("notes"), // Additional notes
   category: varchar("category").default("general"), // general, streaming, social, work, finance, etc.
   isFavorite: boolean("is_favorite").default(false),
+  passwordStrength: integer("password_strength"), // 0-4 estimate taken when the password is saved, null until scored
+  breachCount: integer("breach_count"), // Times the password appears in the breach corpus; null until checked
+  breachCheckedAt: timestamp("breach_checked_at"),
   lastUsed: timestamp("last_used"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -239,15 +469,117 @@ export const insertDocumentSchema = createInsertSchema(documents).pick({
   fileSize: true,
   fileType: true,
   storagePath: true,
+  folderId: true,
+  parentDocumentId: true,
+  contentHash: true,
   downloadUrl: true,
   embeddingStatus: true,
 });
 
+export const insertFolderSchema = createInsertSchema(folders).pick({
+  userId: true,
+  parentId: true,
+  name: true,
+});
+
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions).pick({
+  documentId: true,
+  versionNumber: true,
+  filename: true,
+  fileSize: true,
+  fileType: true,
+  storagePath: true,
+  contentHash: true,
+  extractedText: true,
+});
+
+export const insertTagSchema = createInsertSchema(tags).pick({
+  userId: true,
+  name: true,
+});
+
+export const insertTagSuggestionSchema = createInsertSchema(tagSuggestions).pick({
+  documentId: true,
+  userId: true,
+  name: true,
+  confidence: true,
+});
+
+export const insertDocumentFieldsSchema = createInsertSchema(documentFields).pick({
+  documentId: true,
+  userId: true,
+  documentType: true,
+  vendor: true,
+  documentDate: true,
+  totalAmount: true,
+  currency: true,
+  documentNumber: true,
+  expiryDate: true,
+  holderName: true,
+  confidence: true,
+  userEdited: true,
+});
+
+export const insertDocumentReminderSchema = createInsertSchema(documentReminders).pick({
+  documentId: true,
+  userId: true,
+  kind: true,
+  dueDate: true,
+  label: true,
+  source: true,
+});
+
+export const insertDocumentTableSchema = createInsertSchema(documentTables, {
+  columns: z.array(z.object({
+    name: z.string(),
+    letter: z.string(),
+    type: z.enum(["number", "date", "boolean", "text"]),
+    values: z.array(z.string()).optional(),
+  })),
+  rows: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))),
+  rowNumbers: z.array(z.number()),
+}).pick({
+  documentId: true,
+  userId: true,
+  tableIndex: true,
+  sheetName: true,
+  columns: true,
+  rows: true,
+  rowNumbers: true,
+  rowCount: true,
+  truncated: true,
+});
+
+export const insertEmailMessageSchema = createInsertSchema(emailMessages, {
+  toAddresses: z.array(z.string()),
+  ccAddresses: z.array(z.string()),
+}).pick({
+  documentId: true,
+  userId: true,
+  messageIndex: true,
+  fromAddress: true,
+  fromName: true,
+  toAddresses: true,
+  ccAddresses: true,
+  subject: true,
+  sentAt: true,
+  messageId: true,
+  attachmentCount: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).pick({
+  userId: true,
+  title: true,
+  isArchived: true,
+});
+
 export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
   userId: true,
+  conversationId: true,
   role: true,
   content: true,
   files: true,
+  citations: true,
   timestamp: true,
 });
 
@@ -272,6 +604,10 @@ export const insertTextChunkSchema = createInsertSchema(textChunks).pick({
   userId: true,
   content: true,
   chunkIndex: true,
+  version: true,
+  embeddingProvider: true,
+  embeddingModel: true,
+  embeddingDimension: true,
   metadata: true,
 });
 
@@ -309,6 +645,7 @@ export const insertAccountCredentialSchema = createInsertSchema(accountCredentia
   notes: true,
   category: true,
   isFavorite: true,
+  passwordStrength: true,
 });
 
 export const insertSubscriptionUsageSchema = createInsertSchema(subscriptionUsage).pick({
@@ -363,6 +700,35 @@ export type InsertJob = z.infer<typeof insertJobSchema>;
 export type TextChunkRecord = typeof textChunks.$inferSelect;
 export type InsertTextChunk = z.infer<typeof insertTextChunkSchema>;
 
+export type FolderRecord = typeof folders.$inferSelect;
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+
+export type DocumentVersionRecord = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+
+export type TagRecord = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+
+export type DocumentTagRecord = typeof documentTags.$inferSelect;
+
+export type TagSuggestionRecord = typeof tagSuggestions.$inferSelect;
+export type InsertTagSuggestion = z.infer<typeof insertTagSuggestionSchema>;
+
+export type DocumentFieldsRecord = typeof documentFields.$inferSelect;
+export type InsertDocumentFields = z.infer<typeof insertDocumentFieldsSchema>;
+
+export type DocumentReminderRecord = typeof documentReminders.$inferSelect;
+export type InsertDocumentReminder = z.infer<typeof insertDocumentReminderSchema>;
+
+export type DocumentTableRecord = typeof documentTables.$inferSelect;
+export type InsertDocumentTable = z.infer<typeof insertDocumentTableSchema>;
+
+export type EmailMessageRecord = typeof emailMessages.$inferSelect;
+export type InsertEmailMessage = z.infer<typeof insertEmailMessageSchema>;
+
+export type ConversationRecord = typeof conversations.$inferSelect;
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+
 export type ChatMessageRecord = typeof chatMessages.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 